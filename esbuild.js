@@ -41,6 +41,14 @@ async function build() {
     external: [], // Self-contained, no externals needed (only uses node builtins)
   });
 
+  // Build the hook dispatcher every hooks.json entry runs (ace_hook.js <event>)
+  await esbuild.build({
+    ...commonOptions,
+    entryPoints: ['src/hooks/aceHook.ts'],
+    outfile: 'dist/hooks/ace_hook.js',
+    external: [], // Self-contained, no externals needed (only uses node builtins)
+  });
+
   // Build test runner
   await esbuild.build({
     ...commonOptions,
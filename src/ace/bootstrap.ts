@@ -0,0 +1,321 @@
+/**
+ * Local playbook bootstrap — collects seed material from the workspace and
+ * turns it into ExecutionTraces for `ACE: Bootstrap Playbook`.
+ *
+ * Modes:
+ *   git-history  — recent non-merge commits (subject, body, touched files)
+ *   docs-only    — README / CHANGELOG / CONTRIBUTING / docs/**.md
+ *   local-files  — source files, largest-signal first, under a byte budget
+ *   hybrid       — all three, each with its share of the budget
+ *
+ * Progress is checkpointed in .cursor/ace/bootstrap-state.json after every
+ * uploaded item, so a large monorepo bootstrap resumes after a window reload.
+ *
+ * Collection is async and takes an AbortSignal: on a large monorepo the walk
+ * and git log can take a while, and the progress notification's Cancel must
+ * stop them without blocking the extension host.
+ *
+ * fs/child_process only (no vscode, no SDK) so collection + checkpoint logic
+ * is unit-testable; src/commands/bootstrap.ts does the upload loop.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { writeFileAtomic } from './atomicWrite';
+import type { GitContext } from './trajectory';
+
+export type BootstrapMode = 'hybrid' | 'docs-only' | 'git-history' | 'local-files';
+
+export const BOOTSTRAP_MODES: readonly BootstrapMode[] = ['hybrid', 'docs-only', 'git-history', 'local-files'];
+
+export type BootstrapItem = {
+	/** Stable id — used as the checkpoint key, so it must not change between runs. */
+	id: string;
+	kind: 'commit' | 'doc' | 'source';
+	title: string;
+	content: string;
+};
+
+export type BootstrapState = {
+	version: 1;
+	run_id: string;
+	mode: BootstrapMode;
+	started_at: string;
+	updated_at: string;
+	completed_at?: string;
+	total: number;
+	completed_ids: string[];
+};
+
+export type BootstrapOptions = {
+	/** Total bytes of file content to collect across docs + source. */
+	budgetBytes?: number;
+	/** Max commits to read from git log. */
+	maxCommits?: number;
+	/** Stops the walk and git log; whatever was collected so far is returned. */
+	signal?: AbortSignal;
+};
+
+export const DEFAULT_BUDGET_BYTES = 512 * 1024;
+export const DEFAULT_MAX_COMMITS = 200;
+// Same cap as trace.result.output in the learn helper.
+const MAX_ITEM_CHARS = 4000;
+const MAX_FILE_BYTES = 64 * 1024;
+
+const SKIP_DIRS = new Set([
+	'.git', 'node_modules', 'dist', 'build', 'out', 'coverage', '.next', '.cursor',
+	'vendor', 'target', '__pycache__', '.venv', 'venv', '.idea', '.vscode',
+]);
+
+const SOURCE_EXTENSIONS = new Set([
+	'.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt',
+	'.rb', '.php', '.cs', '.swift', '.c', '.cc', '.cpp', '.h', '.hpp', '.sql', '.sh',
+]);
+
+const ROOT_DOC_PATTERN = /^(readme|changelog|contributing|architecture|design)(\.[a-z]+)?\.(md|mdx|rst|txt)$/i;
+
+function truncate(s: string): string {
+	return s.length > MAX_ITEM_CHARS ? s.slice(0, MAX_ITEM_CHARS) + '…' : s;
+}
+
+function toPosix(rel: string): string {
+	return rel.split(path.sep).join('/');
+}
+
+// ---------------------------------------------------------------------------
+// Collectors
+// ---------------------------------------------------------------------------
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Recent non-merge commits. Returns [] outside a git repo, when git fails or
+ * when aborted.
+ */
+export async function collectGitCommits(root: string, maxCommits = DEFAULT_MAX_COMMITS, signal?: AbortSignal): Promise<BootstrapItem[]> {
+	let raw = '';
+	try {
+		({ stdout: raw } = await execFileAsync('git', [
+			'log', '--no-merges', `-n${maxCommits}`, '--name-only',
+			'--pretty=format:\x1e%H\x1f%s\x1f%b\x1f',
+		], { cwd: root, encoding: 'utf-8', maxBuffer: 32 * 1024 * 1024, signal }));
+	} catch {
+		return [];
+	}
+
+	const items: BootstrapItem[] = [];
+	for (const record of raw.split('\x1e')) {
+		if (!record.trim()) continue;
+		const [hash, subject, body, filesRaw] = record.split('\x1f');
+		if (!hash || !subject) continue;
+		const files = (filesRaw || '').split('\n').map(f => f.trim()).filter(Boolean);
+		const content = [
+			subject.trim(),
+			body && body.trim() ? `\n${body.trim()}` : '',
+			files.length > 0 ? `\nFiles: ${files.slice(0, 30).join(', ')}${files.length > 30 ? ` (+${files.length - 30} more)` : ''}` : '',
+		].join('');
+		items.push({
+			id: `commit:${hash.trim()}`,
+			kind: 'commit',
+			title: subject.trim().slice(0, 200),
+			content: truncate(content),
+		});
+	}
+	return items;
+}
+
+async function walk(root: string, dir: string, out: string[], signal?: AbortSignal): Promise<void> {
+	if (signal?.aborted) return;
+	let entries: fs.Dirent[];
+	try {
+		entries = await fs.promises.readdir(dir, { withFileTypes: true });
+	} catch {
+		return;
+	}
+	entries.sort((a, b) => a.name.localeCompare(b.name));
+	for (const entry of entries) {
+		const full = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			if (SKIP_DIRS.has(entry.name) || entry.name.startsWith('.')) continue;
+			await walk(root, full, out, signal);
+		} else if (entry.isFile()) {
+			out.push(toPosix(path.relative(root, full)));
+		}
+	}
+}
+
+async function readWithinBudget(
+	root: string,
+	relPaths: string[],
+	kind: 'doc' | 'source',
+	budgetBytes: number,
+	signal?: AbortSignal
+): Promise<BootstrapItem[]> {
+	const items: BootstrapItem[] = [];
+	let used = 0;
+	for (const rel of relPaths) {
+		if (signal?.aborted) break;
+		const full = path.join(root, rel);
+		let size = 0;
+		try {
+			size = (await fs.promises.stat(full)).size;
+		} catch {
+			continue;
+		}
+		if (size === 0 || size > MAX_FILE_BYTES) continue;
+		// A smaller file further down may still fit.
+		if (used + size > budgetBytes) continue;
+		let text = '';
+		try {
+			text = await fs.promises.readFile(full, 'utf-8');
+		} catch {
+			continue;
+		}
+		// Binary-ish content — skip.
+		if (text.includes('\u0000')) continue;
+		used += size;
+		items.push({ id: `${kind}:${rel}`, kind, title: rel, content: truncate(text) });
+	}
+	return items;
+}
+
+/**
+ * README/CHANGELOG/etc. at the root plus every markdown file under docs/.
+ */
+export async function collectDocs(root: string, budgetBytes = DEFAULT_BUDGET_BYTES, signal?: AbortSignal): Promise<BootstrapItem[]> {
+	const files: string[] = [];
+	await walk(root, root, files, signal);
+	const docs = files.filter(rel => {
+		if (!rel.includes('/')) return ROOT_DOC_PATTERN.test(rel);
+		return /^docs?\//i.test(rel) && /\.(md|mdx|rst)$/i.test(rel);
+	});
+	// Root docs first — they carry the most project-wide guidance.
+	docs.sort((a, b) => Number(a.includes('/')) - Number(b.includes('/')) || a.localeCompare(b));
+	return readWithinBudget(root, docs, 'doc', budgetBytes, signal);
+}
+
+/**
+ * Source files (by extension), skipping tests' fixtures and generated dirs,
+ * shallowest paths first so entry points win over deep leaves.
+ */
+export async function collectSourceFiles(root: string, budgetBytes = DEFAULT_BUDGET_BYTES, signal?: AbortSignal): Promise<BootstrapItem[]> {
+	const files: string[] = [];
+	await walk(root, root, files, signal);
+	const sources = files
+		.filter(rel => SOURCE_EXTENSIONS.has(path.extname(rel).toLowerCase()))
+		.filter(rel => !/\.min\.js$|\.d\.ts$/.test(rel));
+	sources.sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+	return readWithinBudget(root, sources, 'source', budgetBytes, signal);
+}
+
+/**
+ * Collect the items for a mode. Hybrid splits the byte budget between docs
+ * (1/3) and source (2/3) and takes half the commit allowance.
+ */
+export async function planBootstrap(root: string, mode: BootstrapMode, options: BootstrapOptions = {}): Promise<BootstrapItem[]> {
+	const budget = options.budgetBytes ?? DEFAULT_BUDGET_BYTES;
+	const maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+	const { signal } = options;
+	switch (mode) {
+		case 'git-history':
+			return collectGitCommits(root, maxCommits, signal);
+		case 'docs-only':
+			return collectDocs(root, budget, signal);
+		case 'local-files':
+			return collectSourceFiles(root, budget, signal);
+		case 'hybrid':
+		default:
+			return [
+				...await collectDocs(root, Math.floor(budget / 3), signal),
+				...await collectGitCommits(root, Math.ceil(maxCommits / 2), signal),
+				...await collectSourceFiles(root, budget - Math.floor(budget / 3), signal),
+			];
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Seed traces
+// ---------------------------------------------------------------------------
+
+const TASK_PREFIX: Record<BootstrapItem['kind'], string> = {
+	commit: 'Bootstrap from git history',
+	doc: 'Bootstrap from project documentation',
+	source: 'Bootstrap from source file',
+};
+
+/**
+ * Turn a collected item into an ExecutionTrace (same shape as the learn
+ * helper's) so the server's normal reflection pipeline extracts patterns.
+ */
+export function itemToSeedTrace(item: BootstrapItem, runId: string, git: GitContext, now = new Date()) {
+	const nowMs = now.getTime();
+	return {
+		task: `${TASK_PREFIX[item.kind]}: ${item.title}`,
+		trajectory: [{
+			step: 1,
+			action: item.kind === 'commit' ? 'git_log' : 'read_file',
+			args: item.kind === 'commit' ? { commit: item.id.slice('commit:'.length) } : { path: item.title },
+			result: '',
+			start_ms: nowMs,
+			end_ms: nowMs,
+		}],
+		result: { success: true, output: item.content, summary: item.title },
+		timestamp: now.toISOString(),
+		session_id: `bootstrap-${runId}`,
+		agent_type: 'cursor' as const,
+		agent_id: 'cursor-bootstrap',
+		playbook_used: [] as string[],
+		received_patterns: [] as Record<string, unknown>[],
+		git: { branch: git.branch, commit_hash: git.hash, isRepo: git.isRepo },
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoint (.cursor/ace/bootstrap-state.json)
+// ---------------------------------------------------------------------------
+
+export function getBootstrapStatePath(wsRoot: string): string {
+	return path.join(wsRoot, '.cursor', 'ace', 'bootstrap-state.json');
+}
+
+export function readBootstrapState(wsRoot: string): BootstrapState | null {
+	try {
+		const parsed = JSON.parse(fs.readFileSync(getBootstrapStatePath(wsRoot), 'utf-8'));
+		if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.completed_ids)) return null;
+		return parsed as BootstrapState;
+	} catch {
+		return null;
+	}
+}
+
+export function writeBootstrapState(wsRoot: string, state: BootstrapState): void {
+	const p = getBootstrapStatePath(wsRoot);
+	fs.mkdirSync(path.dirname(p), { recursive: true });
+	writeFileAtomic(p, JSON.stringify(state, null, 2));
+}
+
+export function newBootstrapState(mode: BootstrapMode, total: number, now = new Date()): BootstrapState {
+	const iso = now.toISOString();
+	return {
+		version: 1,
+		run_id: now.getTime().toString(36),
+		mode,
+		started_at: iso,
+		updated_at: iso,
+		total,
+		completed_ids: [],
+	};
+}
+
+/** True when a previous run of this mode stopped before finishing. */
+export function isResumable(state: BootstrapState | null, mode: BootstrapMode): state is BootstrapState {
+	return !!state && state.mode === mode && !state.completed_at && state.completed_ids.length < state.total;
+}
+
+/** Items still to upload, given what the checkpoint already recorded. */
+export function remainingItems(items: BootstrapItem[], state: BootstrapState): BootstrapItem[] {
+	const done = new Set(state.completed_ids);
+	return items.filter(item => !done.has(item.id));
+}
@@ -169,11 +169,20 @@ export const writeContext = (ctx: AceContext, folder?: vscode.WorkspaceFolder) =
 
 	ensureSettingsDir(folder);
 	const target = path.join(workspaceRoot, '.cursor', 'ace', 'settings.json');
-	const payload = {
+	const payload: Record<string, unknown> = {
 		env: {
 			ACE_ORG_ID: ctx.orgId,
 			ACE_PROJECT_ID: ctx.projectId
 		}
 	};
+	// Re-configuring must not drop the workspace's pinned patterns.
+	try {
+		const existing = JSON.parse(fs.readFileSync(target, 'utf-8'));
+		if (Array.isArray(existing?.pinnedPatterns)) {
+			payload.pinnedPatterns = existing.pinnedPatterns;
+		}
+	} catch {
+		// No previous settings
+	}
 	fs.writeFileSync(target, JSON.stringify(payload, null, 2));
 };
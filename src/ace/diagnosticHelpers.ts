@@ -1,4 +1,6 @@
+import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { isAceHookCommand } from './uninstallHelpers';
 
 /**
  * Canonical path to the ace-patterns rule file.
@@ -13,3 +15,262 @@ import * as path from 'node:path';
 export function getDiagnosticRulesPath(workspaceRoot: string): string {
 	return path.join(workspaceRoot, '.cursor', 'rules', 'ace-patterns', 'RULE.mdc');
 }
+
+// ---------------------------------------------------------------------------
+// ACE: Diagnose — self-healing checks. Pure fs helpers; extension.ts runs
+// them, renders the report and wires each finding's Fix action.
+// ---------------------------------------------------------------------------
+
+export type DiagnosticStatus = 'ok' | 'warn' | 'error' | 'info';
+
+/** Fix actions extension.ts knows how to run. */
+export type DiagnosticFixId =
+	| 'regenerateHooks'
+	| 'registerMcp'
+	| 'login'
+	| 'configure'
+	| 'initializeWorkspace'
+	| 'installNode'
+	| 'openStopLog';
+
+export type DiagnosticFinding = {
+	id: string;
+	status: DiagnosticStatus;
+	title: string;
+	details: string[];
+	fix?: { id: DiagnosticFixId; label: string };
+};
+
+/**
+ * PATH a hook subprocess effectively sees: Cursor strips it to /usr/bin:/bin,
+ * so the usual node install dirs are searched first (see findHookNode).
+ * HOME-relative entries are expanded by caller.
+ */
+export function getHookPathDirs(home: string): string[] {
+	return [
+		'/opt/homebrew/bin',
+		'/usr/local/bin',
+		'/opt/local/bin',
+		path.join(home, '.nvm', 'current', 'bin'),
+		path.join(home, '.nvm', 'versions', 'node', 'current', 'bin'),
+		path.join(home, '.local', 'bin'),
+		path.join(home, 'bin'),
+		'/usr/bin',
+		'/bin',
+	];
+}
+
+/** First dir in `dirs` holding an executable `bin`, or null. */
+export function findOnPath(bin: string, dirs: string[]): string | null {
+	for (const dir of dirs) {
+		const candidate = path.join(dir, bin);
+		try {
+			fs.accessSync(candidate, fs.constants.X_OK);
+			return candidate;
+		} catch {
+			// keep looking
+		}
+	}
+	return null;
+}
+
+/**
+ * Node binary hooks.json runs ace_hook.js with, resolved at write time:
+ * Cursor's stripped hook PATH would miss Homebrew/nvm installs. The usual
+ * install dirs come first, then the user's own PATH. Null when none is found.
+ */
+export function findHookNode(home: string, isWindows: boolean, envPath = process.env.PATH || ''): string | null {
+	const userPath = envPath.split(path.delimiter).filter(Boolean);
+	return isWindows
+		? findOnPath('node.exe', userPath)
+		: findOnPath('node', [...getHookPathDirs(home), ...userPath]);
+}
+
+/**
+ * hooks.json command for one event: node running the ace_hook.js dispatcher.
+ * Windows gets a bare `node` — Cursor starts hooks there with the user's full
+ * PATH, and a quoted program path (`"C:\Program Files\nodejs\node.exe"`)
+ * is a string, not a command, when the line is run by PowerShell.
+ */
+export function buildHookCommand(event: string, dispatcherPath: string, nodeBin: string | null, isWindows: boolean): string {
+	const quote = (p: string) => /\s/.test(p) ? `"${p}"` : p;
+	const node = isWindows || !nodeBin ? 'node' : quote(nodeBin);
+	return `${node} ${quote(dispatcherPath)} ${event}`;
+}
+
+export type HookFileProblem = { file: string; reason: 'missing' | 'outside-extension' };
+
+/** The dispatcher path in a hooks.json command (quoted when it has spaces). */
+export function extractDispatcherPath(command: string): string | undefined {
+	const m = /"([^"]*ace_hook\.js)"|(\S*ace_hook\.js)/.exec(command);
+	return m ? m[1] ?? m[2] : undefined;
+}
+
+/**
+ * Check the files the hooks actually run: every ACE hooks.json entry must
+ * point at this install's `dist/hooks/ace_hook.js` (an older install's path
+ * goes stale after an update), and that dispatcher plus the
+ * `scripts/ace_{search,learn}_helper.js` it spawns must exist.
+ */
+export function findHookFileProblems(extensionPath: string, hooksJson: unknown): HookFileProblem[] {
+	const dispatcher = path.join(extensionPath, 'dist', 'hooks', 'ace_hook.js');
+	const norm = (p: string) => path.normalize(p).replace(/\\/g, '/').toLowerCase();
+	const problems: HookFileProblem[] = [];
+	const hooks = hooksJson && typeof hooksJson === 'object' ? (hooksJson as any).hooks : undefined;
+	const seen = new Set<string>();
+	for (const entries of Object.values(hooks && typeof hooks === 'object' ? hooks : {})) {
+		if (!Array.isArray(entries)) continue;
+		for (const entry of entries) {
+			const command = String(entry?.command ?? '');
+			const referenced = isAceHookCommand(command) ? extractDispatcherPath(command) : undefined;
+			if (!referenced || seen.has(referenced)) continue;
+			seen.add(referenced);
+			if (norm(referenced) !== norm(dispatcher)) {
+				problems.push({ file: referenced, reason: 'outside-extension' });
+			}
+		}
+	}
+	const required = [
+		dispatcher,
+		path.join(extensionPath, 'scripts', 'ace_search_helper.js'),
+		path.join(extensionPath, 'scripts', 'ace_learn_helper.js'),
+	];
+	for (const file of required) {
+		if (!fs.existsSync(file)) {
+			problems.push({ file, reason: 'missing' });
+		}
+	}
+	return problems;
+}
+
+/**
+ * Compare hooks.json on disk against the expected ACE config. Only ACE-owned
+ * entries (see isAceHookCommand) are considered; foreign hooks are fine.
+ */
+export function diffHooksConfig(
+	expected: { hooks: Record<string, Array<Record<string, unknown>>> },
+	actual: unknown
+): { missing: string[]; changed: string[]; unexpected: string[] } {
+	const result = { missing: [] as string[], changed: [] as string[], unexpected: [] as string[] };
+	const actualHooks: Record<string, unknown> =
+		actual && typeof actual === 'object' && (actual as any).hooks && typeof (actual as any).hooks === 'object'
+			? (actual as any).hooks
+			: {};
+	const aceEntries = (event: string): Array<Record<string, unknown>> => {
+		const list = actualHooks[event];
+		return Array.isArray(list)
+			? list.filter(h => h && typeof h === 'object' && isAceHookCommand(String((h as any).command || '')))
+			: [];
+	};
+
+	for (const [event, entries] of Object.entries(expected.hooks)) {
+		const have = aceEntries(event);
+		for (const want of entries) {
+			const match = have.find(h => h.command === want.command);
+			if (!match) {
+				result.missing.push(`${event}: ${want.command}`);
+			} else if (JSON.stringify({ ...match, command: undefined }) !== JSON.stringify({ ...want, command: undefined })) {
+				result.changed.push(`${event}: ${want.command}`);
+			}
+		}
+	}
+	for (const event of Object.keys(actualHooks)) {
+		const wanted = new Set((expected.hooks[event] || []).map(h => h.command));
+		for (const h of aceEntries(event)) {
+			if (!wanted.has(h.command)) {
+				result.unexpected.push(`${event}: ${String(h.command)}`);
+			}
+		}
+	}
+	return result;
+}
+
+/**
+ * Path of the MCP server's STATUS.md that Cursor maintains per project.
+ * Same derivation as the 30-minute auth-health check in extension.ts.
+ */
+export function getMcpStatusPath(workspaceRoot: string, home: string): string {
+	const projectHash = workspaceRoot.replace(/\//g, '-').replace(/^-/, '');
+	return path.join(
+		home, '.cursor', 'projects', projectHash,
+		'mcps', 'user-ce-dot-net.cursor-ace-extension-extension-ace-pattern-learning', 'STATUS.md'
+	);
+}
+
+/**
+ * Recent `helper_done rc=N` outcomes from ace-stop-debug.log (newest last).
+ * `failures` are the non-zero ones among the last `window` runs.
+ */
+export function parseHelperDoneResults(
+	logText: string,
+	window = 20
+): { runs: number; failures: { rc: number; line: string }[] } {
+	const runs = logText
+		.split('\n')
+		.map(line => ({ line, m: line.match(/helper_done rc=(\d+)/) }))
+		.filter(x => x.m)
+		.slice(-window);
+	return {
+		runs: runs.length,
+		failures: runs
+			.map(x => ({ rc: parseInt(x.m![1], 10), line: x.line.trim() }))
+			.filter(x => x.rc !== 0),
+	};
+}
+
+/** Human meaning of the helper exit codes (see getSearchHelperContent). */
+export function describeHelperExitCode(rc: number): string {
+	switch (rc) {
+		case 2: return 'token expired';
+		case 3: return 'server error (5xx)';
+		case 4: return 'network / 4xx';
+		case 5: return 'unknown error';
+		case 127: return 'node not found';
+		default: return `exit ${rc}`;
+	}
+}
+
+const STATUS_ICONS: Record<DiagnosticStatus, string> = {
+	ok: '✅',
+	warn: '⚠️',
+	error: '❌',
+	info: 'ℹ️',
+};
+
+/**
+ * Render findings as a Markdown report (ACE: Diagnose → Export).
+ */
+export function formatDiagnosticReportMarkdown(
+	findings: DiagnosticFinding[],
+	meta: { generatedAt: string; extensionVersion: string; workspace: string; platform: string }
+): string {
+	const problems = findings.filter(f => f.status === 'warn' || f.status === 'error');
+	const lines = [
+		'# ACE Diagnostic Report',
+		'',
+		`- Generated: ${meta.generatedAt}`,
+		`- Extension: v${meta.extensionVersion}`,
+		`- Workspace: \`${meta.workspace}\``,
+		`- Platform: ${meta.platform}`,
+		'',
+		problems.length > 0 ? `**${problems.length} issue(s) found.**` : '**No issues found.**',
+		'',
+		'| Status | Check | Fix |',
+		'| --- | --- | --- |',
+		...findings.map(f => `| ${STATUS_ICONS[f.status]} | ${f.title} | ${f.fix ? f.fix.label : ''} |`),
+		'',
+		'## Details',
+		'',
+	];
+	for (const f of findings) {
+		lines.push(`### ${STATUS_ICONS[f.status]} ${f.title}`, '');
+		for (const d of f.details) {
+			lines.push(`- ${d}`);
+		}
+		if (f.fix) {
+			lines.push(`- **Fix:** ${f.fix.label}`);
+		}
+		lines.push('');
+	}
+	return lines.join('\n');
+}
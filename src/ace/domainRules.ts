@@ -0,0 +1,233 @@
+/**
+ * Domain taxonomy — maps a workspace file to the ACE server domain its
+ * patterns live under.
+ *
+ * One rule engine for every domain detector: the domain-shift hook (bundled
+ * into ace_hook.js, so it runs this exact code), the status bar's domain
+ * tracking and `ACE: Test Domain Mapping`. Teams extend or replace the
+ * built-in heuristics in .cursor/ace/domains.json:
+ *
+ *   {
+ *     "rules": [
+ *       { "glob": "services/billing/**", "domain": "billing" },
+ *       { "regex": "\\.proto$", "domain": "api-development" }
+ *     ],
+ *     "disableDefaults": false,
+ *     "fallback": "general"
+ *   }
+ *
+ * Rules are tried in order — domains.json first, then DEFAULT_DOMAIN_RULES —
+ * against the workspace-relative path with forward slashes, case-insensitive.
+ * A glob without a `/` matches the file name in any directory. With no match
+ * the domain is `fallback`, or by default the top-level directory.
+ *
+ * Those local names are guesses; the server's domains are semantic ones like
+ * `typescript-development-practices`. matchServerDomain() maps a local name
+ * onto the closest real one (the `by_domain` keys of getStatus()) so
+ * searches can pass it as `allowed_domains`.
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type DomainRule = {
+	domain: string;
+	glob?: string;
+	/** RegExp source. */
+	regex?: string;
+	flags?: string;
+};
+
+export type CompiledDomainRule = DomainRule & {
+	re: RegExp;
+	origin: 'domains.json' | 'default';
+};
+
+export type DomainRuleSet = {
+	rules: CompiledDomainRule[];
+	/** Domain for unmatched files; unset = top-level directory, else "general". */
+	fallback?: string;
+	/** Why domains.json entries were skipped, for ACE: Test Domain Mapping. */
+	errors: string[];
+};
+
+export type DomainMatch = {
+	domain: string;
+	/** The rule that matched; undefined when the fallback applied. */
+	rule?: CompiledDomainRule;
+};
+
+/** The pre-domains.json heuristics, most specific first. */
+export const DEFAULT_DOMAIN_RULES: DomainRule[] = [
+	{ domain: 'devops-infrastructure', regex: 'docker|\\.github/workflows|\\.ya?ml$' },
+	{ domain: 'testing-strategies', regex: '\\.(test|spec)\\.|(^|/)(__tests__|tests?)(/|$)' },
+	{ domain: 'database-migrations', regex: '/migrations/|\\.sql$' },
+	{ domain: 'react-components', regex: '/components/|\\.(tsx|jsx)$' },
+	{ domain: 'auth-development', regex: '(^|/)auth(/|$)|(^|/)(login|session|jwt|oauth)' },
+	{ domain: 'api-development', regex: '(^|/)(api|routes?)(/|$)|(^|/)(controller|endpoint|handler)s?(/|$)' },
+];
+
+export function getDomainsConfigPath(aceDir: string): string {
+	return path.join(aceDir, 'domains.json');
+}
+
+/**
+ * `*` and `?` stay within one path segment, `**` spans segments and `{a,b}`
+ * alternates. A glob without a `/` matches the file name in any directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = '';
+	let braces = 0;
+	for (let i = 0; i < glob.length; i++) {
+		const ch = glob[i];
+		if (ch === '*' && glob[i + 1] === '*') {
+			const slash = glob[i + 2] === '/';
+			source += slash ? '(?:.*/)?' : '.*';
+			i += slash ? 2 : 1;
+		} else if (ch === '*') {
+			source += '[^/]*';
+		} else if (ch === '?') {
+			source += '[^/]';
+		} else if (ch === '{') {
+			source += '(?:';
+			braces++;
+		} else if (ch === '}' && braces > 0) {
+			source += ')';
+			braces--;
+		} else if (ch === ',' && braces > 0) {
+			source += '|';
+		} else {
+			source += ch.replace(/[.+^$()|[\]\\]/g, '\\$&');
+		}
+	}
+	const anchor = glob.includes('/') ? '^' : '(?:^|/)';
+	return new RegExp(`${anchor}${source.replace(/^\//, '')}$`, 'i');
+}
+
+function compileRule(rule: DomainRule, origin: CompiledDomainRule['origin']): CompiledDomainRule {
+	const re = rule.glob !== undefined
+		? globToRegExp(rule.glob)
+		: new RegExp(rule.regex ?? '', (rule.flags ?? 'i').replace(/[^imsu]/g, ''));
+	return { ...rule, re, origin };
+}
+
+export const DEFAULT_DOMAIN_RULE_SET: DomainRuleSet = {
+	rules: DEFAULT_DOMAIN_RULES.map(r => compileRule(r, 'default')),
+	errors: [],
+};
+
+/**
+ * domains.json rules followed by the defaults (unless `disableDefaults`).
+ * Invalid entries are skipped and reported in `errors`; a missing or
+ * unreadable file yields the defaults.
+ */
+export function loadDomainRules(aceDir: string): DomainRuleSet {
+	let config: Record<string, unknown> = {};
+	try {
+		const parsed = JSON.parse(fs.readFileSync(getDomainsConfigPath(aceDir), 'utf-8'));
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) config = parsed;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') return DEFAULT_DOMAIN_RULE_SET;
+		return { ...DEFAULT_DOMAIN_RULE_SET, errors: [`domains.json: ${(error as Error).message}`] };
+	}
+
+	const rules: CompiledDomainRule[] = [];
+	const errors: string[] = [];
+	if (Array.isArray(config.rules)) {
+		config.rules.forEach((r: any, i: number) => {
+			const label = `rules[${i}]`;
+			if (!r || typeof r.domain !== 'string' || !r.domain.trim()) {
+				errors.push(`${label}: missing "domain"`);
+				return;
+			}
+			const hasGlob = typeof r.glob === 'string' && r.glob !== '';
+			const hasRegex = typeof r.regex === 'string' && r.regex !== '';
+			if (hasGlob === hasRegex) {
+				errors.push(`${label}: needs exactly one of "glob" or "regex"`);
+				return;
+			}
+			const rule: DomainRule = { domain: r.domain.trim() };
+			if (hasGlob) rule.glob = r.glob;
+			if (hasRegex) rule.regex = r.regex;
+			if (typeof r.flags === 'string') rule.flags = r.flags;
+			try {
+				rules.push(compileRule(rule, 'domains.json'));
+			} catch (error) {
+				errors.push(`${label}: ${(error as Error).message}`);
+			}
+		});
+	}
+	if (config.disableDefaults !== true) rules.push(...DEFAULT_DOMAIN_RULE_SET.rules);
+	const fallback = typeof config.fallback === 'string' && config.fallback.trim() ? config.fallback.trim() : undefined;
+	return { rules, fallback, errors };
+}
+
+/** Workspace-relative path with forward slashes; paths outside the root stay absolute. */
+export function toDomainPath(workspaceRoot: string, filePath: string): string {
+	let rel = filePath;
+	if (path.isAbsolute(filePath)) {
+		const candidate = path.relative(workspaceRoot, filePath);
+		if (candidate && !candidate.startsWith('..') && !path.isAbsolute(candidate)) rel = candidate;
+	}
+	return rel.split(path.sep).join('/');
+}
+
+/** First matching rule's domain, else the fallback. */
+export function matchDomain(filePath: string, ruleSet: DomainRuleSet = DEFAULT_DOMAIN_RULE_SET): DomainMatch {
+	const p = String(filePath || '').replace(/\\/g, '/');
+	const rule = ruleSet.rules.find(r => r.re.test(p));
+	if (rule) return { domain: rule.domain, rule };
+	if (ruleSet.fallback) return { domain: ruleSet.fallback };
+	const parts = p.toLowerCase().split('/').filter(Boolean);
+	return { domain: parts.length >= 2 ? parts[0] : 'general' };
+}
+
+/** "glob services/billing/**" / "regex \.proto$" for logs and the test command. */
+export function describeDomainRule(rule: DomainRule): string {
+	return rule.glob !== undefined ? `glob ${rule.glob}` : `regex ${rule.regex}`;
+}
+
+/** Words most server domain names carry; they don't say what a domain is about. */
+const GENERIC_DOMAIN_TOKENS = new Set([
+	'and', 'the', 'of', 'for', 'with', 'best', 'general',
+	'development', 'practices', 'practice', 'patterns', 'pattern', 'strategies', 'strategy',
+]);
+
+function domainTokens(domain: string): string[] {
+	return [...new Set(domain.toLowerCase().split(/[^a-z0-9]+/))]
+		.filter(t => t.length >= 2 && !GENERIC_DOMAIN_TOKENS.has(t));
+}
+
+/** Same word up to a suffix: "test" ~ "testing", "component" ~ "components". */
+function tokensMatch(a: string, b: string): boolean {
+	if (a === b) return true;
+	return Math.min(a.length, b.length) >= 4 && (a.startsWith(b) || b.startsWith(a));
+}
+
+/**
+ * The server domain closest to a local domain name, by overlap of their
+ * meaningful tokens (normalised by both names' length, so a focused domain
+ * beats a sprawling one). An exact name wins outright; undefined when no
+ * server domain shares a token — search unnarrowed then.
+ */
+export function matchServerDomain(localDomain: string, serverDomains: string[]): string | undefined {
+	const exact = serverDomains.find(d => d.toLowerCase() === localDomain.toLowerCase());
+	if (exact) return exact;
+	const local = domainTokens(localDomain);
+	if (local.length === 0) return undefined;
+	let best: string | undefined;
+	let bestScore = 0;
+	for (const candidate of serverDomains) {
+		const tokens = domainTokens(candidate);
+		const overlap = local.filter(t => tokens.some(c => tokensMatch(t, c))).length;
+		if (overlap === 0) continue;
+		const score = overlap / Math.sqrt(local.length * tokens.length);
+		if (score > bestScore) {
+			best = candidate;
+			bestScore = score;
+		}
+	}
+	return best;
+}
@@ -0,0 +1,297 @@
+/**
+ * Manual ExecutionTrace builder for `ACE: Capture Learning`.
+ *
+ * Mirrors the trace shape the Stop-hook learn helper (v05Helpers.ts
+ * getLearnHelperContent) sends, so a manually captured learning is
+ * indistinguishable server-side from a hook-captured one. Used for work done
+ * outside chat and as a recovery path when the Stop hook failed.
+ *
+ * Pure fs-only module (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GitContext } from './trajectory';
+
+export type ManualTraceStep = {
+	step: number;
+	action: string;
+	args: Record<string, unknown>;
+	result: string;
+	start_ms: number;
+	end_ms: number;
+};
+
+export type ManualTrace = {
+	task: string;
+	trajectory: ManualTraceStep[];
+	result: { success: boolean; output: string; summary: string };
+	timestamp: string;
+	session_id: string;
+	agent_type: 'cursor';
+	agent_id: string;
+	playbook_used: string[];
+	received_patterns: Record<string, unknown>[];
+	git: { branch: string; commit_hash: string; isRepo: boolean };
+};
+
+export type ManualTraceInput = {
+	task: string;
+	success: boolean;
+	lessons: string;
+	/** Cursor conversation_id; empty when capturing without a conversation. */
+	conversationId: string;
+	/** Raw lines of tasks/<conv>/mcp_trajectory.jsonl (may be empty). */
+	trajectoryLines: string[];
+	git: GitContext;
+	now?: Date;
+};
+
+export type TaskConversation = {
+	id: string;
+	trajectoryPath: string;
+	mtimeMs: number;
+};
+
+// Same caps as the learn helper.
+const MAX_RESULT_CHARS = 2000;
+const MAX_OUTPUT_CHARS = 4000;
+const MAX_PATTERN_CONTENT_CHARS = 500;
+
+/**
+ * List conversations under .cursor/ace/tasks/ that have an mcp_trajectory.jsonl,
+ * most recently touched first.
+ */
+export function listTaskConversations(aceDir: string): TaskConversation[] {
+	const tasksDir = path.join(aceDir, 'tasks');
+	let names: string[] = [];
+	try {
+		names = fs.readdirSync(tasksDir);
+	} catch {
+		return [];
+	}
+	const out: TaskConversation[] = [];
+	for (const name of names) {
+		const trajectoryPath = path.join(tasksDir, name, 'mcp_trajectory.jsonl');
+		try {
+			const st = fs.statSync(trajectoryPath);
+			out.push({ id: name, trajectoryPath, mtimeMs: st.mtimeMs });
+		} catch {
+			// No trajectory yet — not worth offering.
+		}
+	}
+	return out.sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+/**
+ * Unwrap an ace_search result_json (MCP wrapper or direct shape).
+ * TypeScript twin of unwrapAceSearchResultJson in the learn helper.
+ */
+export function unwrapAceSearchResult(raw: unknown): { results: Record<string, unknown>[]; sessionId: string } {
+	try {
+		const outer = typeof raw === 'string' ? JSON.parse(raw) : raw;
+		if (!outer || typeof outer !== 'object') return { results: [], sessionId: '' };
+		if (Array.isArray(outer.results) || Array.isArray(outer.similar_patterns)) {
+			return {
+				results: outer.results || outer.similar_patterns || [],
+				sessionId: String(outer.session_id || ''),
+			};
+		}
+		const first = Array.isArray(outer.content) ? outer.content[0] : null;
+		if (first && typeof first.text === 'string') {
+			const inner = JSON.parse(first.text);
+			return {
+				results: Array.isArray(inner.results) ? inner.results : (inner.similar_patterns || []),
+				sessionId: String(inner.session_id || ''),
+			};
+		}
+	} catch {
+		// Not JSON — fall through.
+	}
+	return { results: [], sessionId: '' };
+}
+
+function stringifyResult(entry: Record<string, unknown>): string {
+	let resultStr = '';
+	if (entry.result_json) {
+		resultStr = typeof entry.result_json === 'string' ? entry.result_json : JSON.stringify(entry.result_json);
+	} else if (typeof entry.tool_output === 'string') {
+		resultStr = entry.tool_output;
+	}
+	return resultStr.length > MAX_RESULT_CHARS ? resultStr.slice(0, MAX_RESULT_CHARS) + '…' : resultStr;
+}
+
+/**
+ * Build an ExecutionTrace from the user's answers plus the conversation's
+ * MCP trajectory. The user's lessons become result.output/summary — that's
+ * what the server reflects on.
+ */
+export function buildManualTrace(input: ManualTraceInput): ManualTrace {
+	const now = input.now ?? new Date();
+	const nowMs = now.getTime();
+	const convId = input.conversationId;
+	const trajectory: ManualTraceStep[] = [];
+	const playbookUsed = new Set<string>();
+	let receivedPatterns: Record<string, unknown>[] = [];
+	let serverSessionId = '';
+
+	if (convId) {
+		for (const line of input.trajectoryLines) {
+			if (!line.trim()) continue;
+			let entry: Record<string, unknown>;
+			try { entry = JSON.parse(line); } catch { continue; }
+			if (!entry || entry.conversation_id !== convId || !entry.tool_name) continue;
+			// before_mcp markers carry no result — the afterMCPExecution line does.
+			if (entry.event === 'before_mcp') continue;
+
+			let args: Record<string, unknown> = {};
+			try {
+				const raw = entry.tool_input;
+				args = typeof raw === 'string' ? JSON.parse(raw) : ((raw as Record<string, unknown>) || {});
+			} catch { /* keep {} */ }
+
+			trajectory.push({
+				step: trajectory.length + 1,
+				action: String(entry.tool_name).slice(0, 200),
+				args,
+				result: stringifyResult(entry),
+				start_ms: nowMs,
+				end_ms: nowMs,
+			});
+
+			// Latest ace_search wins for received_patterns + server session_id.
+			if (/ace_search/i.test(String(entry.tool_name)) && entry.result_json) {
+				const { results, sessionId } = unwrapAceSearchResult(entry.result_json);
+				if (results.length > 0) {
+					for (const p of results) { if (p && p.id) playbookUsed.add(String(p.id)); }
+					receivedPatterns = results.map(p => {
+						const copy = { ...p };
+						if (typeof copy.content === 'string' && copy.content.length > MAX_PATTERN_CONTENT_CHARS) {
+							copy.content = copy.content.slice(0, MAX_PATTERN_CONTENT_CHARS) + '…';
+						}
+						return copy;
+					});
+				}
+				if (sessionId) serverSessionId = sessionId;
+			}
+		}
+	}
+
+	const lessons = input.lessons.trim();
+	const outcome = input.success ? 'Success' : 'Failure';
+	const output = (lessons ? `${outcome}. Lessons learned: ${lessons}` : outcome).slice(0, MAX_OUTPUT_CHARS);
+	const idSuffix = convId ? convId.slice(0, 8) : `manual-${nowMs}`;
+
+	return {
+		task: input.task.slice(0, 1000),
+		trajectory,
+		result: { success: input.success, output, summary: lessons.slice(0, 2000) },
+		timestamp: now.toISOString(),
+		session_id: serverSessionId || convId || `manual-${nowMs}`,
+		agent_type: 'cursor',
+		agent_id: `cursor-${idSuffix}`,
+		playbook_used: Array.from(playbookUsed),
+		received_patterns: receivedPatterns,
+		git: { branch: input.git.branch, commit_hash: input.git.hash, isRepo: input.git.isRepo },
+	};
+}
+
+/**
+ * Check a trace read back from disk (a hand-edited pending trace, a queued
+ * outbox entry) against the shape above before it is sent. Fields an edit
+ * dropped get the defaults buildManualTrace would use; a present field of the
+ * wrong type is an error. Extra fields the helper added are kept.
+ */
+export function toManualTrace(value: unknown, now = new Date()): { trace?: ManualTrace; error?: string } {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		return { error: 'Trace must be a JSON object' };
+	}
+	const raw = value as Record<string, unknown>;
+	if (typeof raw.task !== 'string' || !raw.task.trim()) {
+		return { error: 'Trace is missing "task"' };
+	}
+	if (!Array.isArray(raw.trajectory)) {
+		return { error: 'Trace is missing the "trajectory" array' };
+	}
+	const nowMs = now.getTime();
+	const trajectory: ManualTraceStep[] = [];
+	for (const [i, step] of raw.trajectory.entries()) {
+		if (!step || typeof step !== 'object' || Array.isArray(step)) {
+			return { error: `Trajectory step ${i + 1} must be an object` };
+		}
+		const s = step as Record<string, unknown>;
+		trajectory.push({
+			...s,
+			step: typeof s.step === 'number' ? s.step : i + 1,
+			action: String(s.action ?? ''),
+			args: s.args && typeof s.args === 'object' && !Array.isArray(s.args) ? s.args as Record<string, unknown> : {},
+			result: typeof s.result === 'string' ? s.result : JSON.stringify(s.result ?? ''),
+			start_ms: typeof s.start_ms === 'number' ? s.start_ms : nowMs,
+			end_ms: typeof s.end_ms === 'number' ? s.end_ms : nowMs,
+		});
+	}
+	if (raw.result !== undefined && (!raw.result || typeof raw.result !== 'object' || Array.isArray(raw.result))) {
+		return { error: '"result" must be an object' };
+	}
+	const result = (raw.result ?? {}) as Record<string, unknown>;
+	for (const key of ['playbook_used', 'received_patterns'] as const) {
+		if (raw[key] !== undefined && !Array.isArray(raw[key])) {
+			return { error: `"${key}" must be an array` };
+		}
+	}
+	const git = (raw.git && typeof raw.git === 'object' ? raw.git : {}) as Record<string, unknown>;
+	const text = (v: unknown, fallback: string) => typeof v === 'string' ? v : fallback;
+	const sessionId = text(raw.session_id, `manual-${nowMs}`);
+
+	return {
+		trace: {
+			...raw,
+			task: raw.task,
+			trajectory,
+			result: {
+				...result,
+				success: typeof result.success === 'boolean' ? result.success : true,
+				output: text(result.output, ''),
+				summary: text(result.summary, ''),
+			},
+			timestamp: text(raw.timestamp, now.toISOString()),
+			session_id: sessionId,
+			agent_type: 'cursor',
+			agent_id: text(raw.agent_id, `cursor-${sessionId.slice(0, 8)}`),
+			playbook_used: ((raw.playbook_used ?? []) as unknown[]).map(String),
+			received_patterns: ((raw.received_patterns ?? []) as unknown[])
+				.filter((p): p is Record<string, unknown> => !!p && typeof p === 'object'),
+			git: {
+				branch: text(git.branch, 'unknown'),
+				commit_hash: text(git.commit_hash, 'unknown'),
+				isRepo: typeof git.isRepo === 'boolean' ? git.isRepo : false,
+			},
+		},
+	};
+}
+
+/**
+ * Pull the new/updated patterns out of a storeExecutionTrace response.
+ * The server has used a few key names over time; check them all and
+ * return whatever arrays of patterns we find, keyed by a display label.
+ */
+export function extractLearnedPatterns(response: unknown): { label: string; patterns: Record<string, unknown>[] }[] {
+	if (!response || typeof response !== 'object') return [];
+	const r = response as Record<string, unknown>;
+	const keys: [string, string][] = [
+		['new_patterns', 'New patterns'],
+		['patterns_added', 'New patterns'],
+		['updated_patterns', 'Updated patterns'],
+		['patterns_updated', 'Updated patterns'],
+		['delta', 'Playbook changes'],
+		['patterns', 'Patterns'],
+	];
+	const out: { label: string; patterns: Record<string, unknown>[] }[] = [];
+	for (const [key, label] of keys) {
+		const v = r[key];
+		if (Array.isArray(v) && v.length > 0) {
+			out.push({ label, patterns: v.filter(p => p && typeof p === 'object') as Record<string, unknown>[] });
+		}
+	}
+	return out;
+}
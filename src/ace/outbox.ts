@@ -0,0 +1,187 @@
+/**
+ * Offline outbox for learn traces that failed to upload.
+ *
+ * When ace_learn_helper.js fails with a retriable error (rc 3 = 5xx, rc 4 =
+ * network) it writes the built trace to .cursor/ace/outbox/<conv_id>.json
+ * with its error class. The extension retries due entries with exponential
+ * backoff (OutboxRetrier) and removes them once the server accepts them.
+ * Entries the server rejects (4xx), that no longer validate, or that failed
+ * OUTBOX_MAX_ATTEMPTS times are parked in outbox/failed/ instead of being
+ * retried forever. Successful retries are logged as OUTBOX_SENT and parked
+ * ones as OUTBOX_PARKED in ace-stop-debug.log so Task History picks them up.
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomicWrite';
+
+export type OutboxErrorClass = 'api_5xx' | 'network';
+
+/** A retry's failure: retriable classes, a 4xx rejection, or unclassified. */
+export type RetryFailure = OutboxErrorClass | 'rejected' | 'other';
+
+/** Why an entry was taken out of the retry queue. */
+export type OutboxParkReason = 'rejected' | 'invalid' | 'max_attempts';
+
+export type OutboxEntry = {
+	conv_id: string;
+	error_class: OutboxErrorClass;
+	error: string;
+	failed_at: string;
+	attempts: number;
+	next_attempt_at: string;
+	trace: Record<string, unknown>;
+};
+
+export type OutboxItem = {
+	path: string;
+	entry: OutboxEntry;
+};
+
+// First retry after a minute, doubling up to an hour.
+export const OUTBOX_BASE_DELAY_MS = 60 * 1000;
+export const OUTBOX_MAX_DELAY_MS = 60 * 60 * 1000;
+// With the backoff above, about a day of retries.
+export const OUTBOX_MAX_ATTEMPTS = 30;
+
+export function getOutboxDir(aceDir: string): string {
+	return path.join(aceDir, 'outbox');
+}
+
+export function getParkedOutboxDir(aceDir: string): string {
+	return path.join(getOutboxDir(aceDir), 'failed');
+}
+
+function isOutboxEntry(value: unknown): value is OutboxEntry {
+	const e = value as OutboxEntry;
+	return !!e && typeof e === 'object'
+		&& typeof e.conv_id === 'string'
+		&& !!e.trace && typeof e.trace === 'object';
+}
+
+/**
+ * Queued traces, oldest failure first. Unreadable files are skipped (the
+ * helper writes tmp+rename, so a half-written file is never picked up).
+ */
+export function listOutbox(aceDir: string): OutboxItem[] {
+	const dir = getOutboxDir(aceDir);
+	let names: string[];
+	try {
+		names = fs.readdirSync(dir).filter(n => n.endsWith('.json'));
+	} catch {
+		return [];
+	}
+	const out: OutboxItem[] = [];
+	for (const name of names) {
+		const p = path.join(dir, name);
+		try {
+			const entry = JSON.parse(fs.readFileSync(p, 'utf-8'));
+			if (!isOutboxEntry(entry)) continue;
+			entry.attempts = typeof entry.attempts === 'number' ? entry.attempts : 0;
+			out.push({ path: p, entry });
+		} catch {
+			// Skip malformed entries.
+		}
+	}
+	return out.sort((a, b) => String(a.entry.failed_at).localeCompare(String(b.entry.failed_at)));
+}
+
+/** Backoff before the next attempt after `attempts` failed retries. */
+export function retryDelayMs(attempts: number): number {
+	return Math.min(OUTBOX_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts)), OUTBOX_MAX_DELAY_MS);
+}
+
+export function isDue(entry: OutboxEntry, now = new Date()): boolean {
+	const next = Date.parse(entry.next_attempt_at);
+	return Number.isNaN(next) || next <= now.getTime();
+}
+
+/**
+ * Classify a retry error the way the learn helper classifies its upload
+ * errors: an HTTP status on the error, then the SDK's "Server error (NNN)"
+ * message, then network error names.
+ */
+export function classifyRetryError(error: unknown): RetryFailure {
+	const status = (error as { status?: unknown } | null)?.status;
+	const message = error instanceof Error ? error.message : String(error);
+	const code = typeof status === 'number' && status > 0
+		? status
+		: Number(message.match(/Server error \((\d{3})\)/)?.[1] ?? 0);
+	if (code >= 500) return 'api_5xx';
+	if (code >= 400) return 'rejected';
+	if (/Network|Timeout|ECONN|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|fetch failed/i.test(message)) return 'network';
+	return 'other';
+}
+
+/** Count the failed retry and push the next attempt out. */
+export function recordRetryFailure(item: OutboxItem, error: string, now = new Date()): OutboxEntry {
+	const entry: OutboxEntry = {
+		...item.entry,
+		attempts: item.entry.attempts + 1,
+		error: error.slice(0, 500),
+		next_attempt_at: new Date(now.getTime() + retryDelayMs(item.entry.attempts)).toISOString(),
+	};
+	writeFileAtomic(item.path, JSON.stringify(entry, null, 2));
+	return entry;
+}
+
+/** Drop a sent entry and leave an OUTBOX_SENT line for Task History. */
+export function completeOutboxItem(aceDir: string, item: OutboxItem, now = new Date()): void {
+	try {
+		fs.unlinkSync(item.path);
+	} catch {
+		// Already gone.
+	}
+	try {
+		fs.appendFileSync(
+			path.join(aceDir, 'ace-stop-debug.log'),
+			`${now.toISOString()} OUTBOX_SENT conv=${item.entry.conv_id} attempts=${item.entry.attempts + 1}\n`
+		);
+	} catch {
+		// Best-effort breadcrumb only.
+	}
+}
+
+/**
+ * Move an entry that won't be retried to outbox/failed/ (kept, with the
+ * reason and last error, for inspection) and leave an OUTBOX_PARKED line
+ * for Task History.
+ */
+export function parkOutboxItem(
+	aceDir: string,
+	item: OutboxItem,
+	reason: OutboxParkReason,
+	error: string,
+	now = new Date()
+): void {
+	const parkedDir = getParkedOutboxDir(aceDir);
+	try {
+		fs.mkdirSync(parkedDir, { recursive: true });
+		writeFileAtomic(
+			path.join(parkedDir, path.basename(item.path)),
+			JSON.stringify({ ...item.entry, error: error.slice(0, 500), parked_reason: reason, parked_at: now.toISOString() }, null, 2)
+		);
+	} catch {
+		// Dropping it is still better than retrying it forever.
+	}
+	fs.rmSync(item.path, { force: true });
+	try {
+		fs.appendFileSync(
+			path.join(aceDir, 'ace-stop-debug.log'),
+			`${now.toISOString()} OUTBOX_PARKED conv=${item.entry.conv_id} reason=${reason}\n`
+		);
+	} catch {
+		// Best-effort breadcrumb only.
+	}
+}
+
+/**
+ * Append (or replace) the outbox line of a status bar tooltip.
+ */
+export function withOutboxLine(tooltip: string, size: number): string {
+	const base = tooltip.split('\n').filter(l => !l.startsWith('Outbox: ')).join('\n').replace(/\n+$/, '');
+	if (size <= 0) return base;
+	return `${base}\n\nOutbox: ${size} learning trace${size === 1 ? '' : 's'} waiting to upload`;
+}
@@ -0,0 +1,453 @@
+/**
+ * Pattern attribution — which patterns ACE put in front of the agent during a
+ * task, why, and which of them the agent says it applied.
+ *
+ * The hooks append every injection (pre-tool-use, post-tool-use, domain
+ * shift, and the agent's own ace_search calls) to
+ * .cursor/ace/tasks/<conv>/injections.jsonl. The MCP proxy answers three
+ * local tools from it without the child server:
+ *
+ *   ace_task_status         patterns injected so far in this conversation
+ *   ace_explain_injection   why they were chosen (query, domain, scores, pins)
+ *   ace_report_pattern_use  the agent lists the pattern ids it applied
+ *
+ * Reports go to tasks/<conv>/pattern_use.jsonl. The Stop hook's learn helper
+ * attaches the latest one to the trace and prefers its time_saved_min over
+ * the TIME_SAVED text it otherwise parses out of the agent's reply.
+ *
+ * MCP tool calls don't carry Cursor's conversation id, so the proxy works on
+ * the most recently active task dir (the pre-tool-use hook has just written
+ * to it) unless the agent passes `conversation_id`.
+ *
+ * fs-only (no vscode, no SDK); getPatternAttributionJs() is the same logic
+ * for the baked proxy and learn helper.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const INJECTIONS_FILE = 'injections.jsonl';
+export const PATTERN_USE_FILE = 'pattern_use.jsonl';
+
+/** Injections ace_explain_injection returns, newest last. */
+const MAX_EXPLAINED_INJECTIONS = 10;
+const MAX_TEXT_CHARS = 200;
+
+export type InjectionSource = 'pre_tool_use' | 'post_tool_use' | 'domain_shift' | 'ace_search';
+
+export type InjectedPatternRef = {
+	id: string;
+	domain: string;
+	section: string;
+	similarity?: number;
+	confidence?: number;
+	/** Pinned by the team (ACE: Pin Pattern) rather than found by the search. */
+	pinned?: boolean;
+};
+
+export type InjectionRecord = {
+	timestamp: string;
+	source: InjectionSource;
+	generation_id: string;
+	query: string;
+	/** domain_shift: the file's local domain and the server domain searched. */
+	domain?: string;
+	server_domain?: string;
+	patterns: InjectedPatternRef[];
+};
+
+export type PatternUseReport = {
+	timestamp: string;
+	applied: string[];
+	not_applied: string[];
+	/** Reported ids never injected in this task — typos or stale ids. */
+	unknown_ids: string[];
+	time_saved_min?: number;
+	note?: string;
+};
+
+export type TaskStatus = {
+	conversation_id: string;
+	injections: number;
+	patterns: Array<InjectedPatternRef & { injected_by: InjectionSource[]; times: number }>;
+	last_report: PatternUseReport | null;
+};
+
+export type InjectionExplanation = {
+	conversation_id: string;
+	injections: Array<Omit<InjectionRecord, 'generation_id'> & { reason: string }>;
+};
+
+export type AttributionError = { error: string };
+
+function finiteNumber(value: unknown): number | undefined {
+	const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+	return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+/** Id, domain, section, scores and pin flag of search results; entries without an id are dropped. */
+export function toInjectedPatternRefs(patterns: unknown): InjectedPatternRef[] {
+	if (!Array.isArray(patterns)) return [];
+	const refs: InjectedPatternRef[] = [];
+	for (const entry of patterns) {
+		if (!entry || typeof entry !== 'object') continue;
+		const p = entry as Record<string, unknown>;
+		const id = p.id ?? p.pattern_id ?? p.bullet_id;
+		if (id === undefined || id === null || id === '') continue;
+		const ref: InjectedPatternRef = {
+			id: String(id),
+			domain: typeof p.domain === 'string' && p.domain ? p.domain : 'general',
+			section: typeof p.section === 'string' && p.section ? p.section : 'general',
+		};
+		const similarity = finiteNumber(p.similarity);
+		const confidence = finiteNumber(p.confidence);
+		if (similarity !== undefined) ref.similarity = similarity;
+		if (confidence !== undefined) ref.confidence = confidence;
+		if (p.pinned === true) ref.pinned = true;
+		refs.push(ref);
+	}
+	return refs;
+}
+
+/** Appends to tasks/<conv>/injections.jsonl; injections without patterns are skipped. */
+export function recordInjection(taskDir: string, record: InjectionRecord): void {
+	if (record.patterns.length === 0) return;
+	fs.mkdirSync(taskDir, { recursive: true });
+	const entry = { ...record, query: record.query.slice(0, MAX_TEXT_CHARS) };
+	fs.appendFileSync(path.join(taskDir, INJECTIONS_FILE), JSON.stringify(entry) + '\n');
+}
+
+function readJsonl(file: string): Record<string, any>[] {
+	let text = '';
+	try {
+		text = fs.readFileSync(file, 'utf-8');
+	} catch {
+		return [];
+	}
+	const entries: Record<string, any>[] = [];
+	for (const line of text.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			const entry = JSON.parse(line);
+			if (entry && typeof entry === 'object' && !Array.isArray(entry)) entries.push(entry);
+		} catch {
+			// Partial write — skip.
+		}
+	}
+	return entries;
+}
+
+export function readInjections(taskDir: string): InjectionRecord[] {
+	return readJsonl(path.join(taskDir, INJECTIONS_FILE))
+		.filter(e => Array.isArray(e.patterns)) as InjectionRecord[];
+}
+
+export function readPatternUse(taskDir: string): PatternUseReport[] {
+	return readJsonl(path.join(taskDir, PATTERN_USE_FILE))
+		.filter(e => Array.isArray(e.applied)) as PatternUseReport[];
+}
+
+function latestMtime(dir: string): number {
+	let latest = 0;
+	for (const file of ['', 'mcp_trajectory.jsonl', INJECTIONS_FILE]) {
+		try {
+			latest = Math.max(latest, fs.statSync(path.join(dir, file)).mtimeMs);
+		} catch {
+			// Not written yet.
+		}
+	}
+	return latest;
+}
+
+/**
+ * tasks/<conversationId>, or the most recently active task dir when no id is
+ * given. Undefined when there is no such task (or the id isn't a plain name).
+ */
+export function resolveTaskDir(aceDir: string, conversationId?: string): string | undefined {
+	const tasksDir = path.join(aceDir, 'tasks');
+	if (conversationId) {
+		if (/[\\/]|^\.\.?$/.test(conversationId)) return undefined;
+		const dir = path.join(tasksDir, conversationId);
+		return fs.existsSync(dir) ? dir : undefined;
+	}
+	let best: string | undefined;
+	let bestMtime = -1;
+	let names: string[] = [];
+	try {
+		names = fs.readdirSync(tasksDir);
+	} catch {
+		return undefined;
+	}
+	for (const name of names) {
+		if (name.startsWith('_')) continue;
+		const dir = path.join(tasksDir, name);
+		try {
+			if (!fs.statSync(dir).isDirectory()) continue;
+		} catch {
+			continue;
+		}
+		const mtime = latestMtime(dir);
+		if (mtime > bestMtime) {
+			best = dir;
+			bestMtime = mtime;
+		}
+	}
+	return best;
+}
+
+function noTask(conversationId?: string): AttributionError {
+	return { error: conversationId ? `No ACE task for conversation ${conversationId}.` : 'No ACE task recorded yet in this workspace.' };
+}
+
+export function taskStatus(aceDir: string, conversationId?: string): TaskStatus | AttributionError {
+	const dir = resolveTaskDir(aceDir, conversationId);
+	if (!dir) return noTask(conversationId);
+	const injections = readInjections(dir);
+	const byId = new Map<string, TaskStatus['patterns'][number]>();
+	for (const injection of injections) {
+		for (const ref of injection.patterns) {
+			const seen = byId.get(ref.id);
+			if (seen) {
+				seen.times++;
+				if (!seen.injected_by.includes(injection.source)) seen.injected_by.push(injection.source);
+			} else {
+				byId.set(ref.id, { ...ref, injected_by: [injection.source], times: 1 });
+			}
+		}
+	}
+	const reports = readPatternUse(dir);
+	return {
+		conversation_id: path.basename(dir),
+		injections: injections.length,
+		patterns: [...byId.values()],
+		last_report: reports.length > 0 ? reports[reports.length - 1] : null,
+	};
+}
+
+/** One sentence on why an injection happened. */
+export function injectionReason(record: Pick<InjectionRecord, 'source' | 'domain' | 'server_domain'>): string {
+	switch (record.source) {
+		case 'pre_tool_use':
+			return 'Semantic search for the user\'s prompt, injected before the first tool call of the turn. Pinned patterns whose domain matched the results go first.';
+		case 'post_tool_use':
+			return 'Semantic search for the user\'s prompt, added after a tool call because nothing had been injected yet this turn.';
+		case 'domain_shift':
+			return `The agent opened a file in the "${record.domain}" domain` + (record.server_domain
+				? `; the search was narrowed to the server domain "${record.server_domain}".`
+				: '; no server domain matched, so the search was not narrowed.');
+		case 'ace_search':
+			return 'The agent called ace_search itself.';
+		default:
+			return 'Unknown source.';
+	}
+}
+
+/** The task's injections (those containing patternId, if given) with their reasons; the last few only. */
+export function explainInjection(aceDir: string, conversationId?: string, patternId?: string): InjectionExplanation | AttributionError {
+	const dir = resolveTaskDir(aceDir, conversationId);
+	if (!dir) return noTask(conversationId);
+	let injections = readInjections(dir);
+	if (patternId) {
+		injections = injections.filter(i => i.patterns.some(p => p.id === patternId));
+		if (injections.length === 0) return { error: `Pattern ${patternId} was not injected in this task.` };
+	}
+	return {
+		conversation_id: path.basename(dir),
+		injections: injections.slice(-MAX_EXPLAINED_INJECTIONS).map(({ generation_id: _gen, ...rest }) => ({
+			...rest,
+			reason: injectionReason(rest),
+		})),
+	};
+}
+
+function idList(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	return [...new Set(value.filter(v => (typeof v === 'string' && v) || typeof v === 'number').map(String))];
+}
+
+/**
+ * Records the agent's report (`applied` required; `not_applied`,
+ * `time_saved_min`, `note` optional) in tasks/<conv>/pattern_use.jsonl.
+ */
+export function reportPatternUse(
+	aceDir: string,
+	args: Record<string, unknown>,
+	now = new Date()
+): { conversation_id: string; report: PatternUseReport } | AttributionError {
+	const conversationId = typeof args.conversation_id === 'string' && args.conversation_id ? args.conversation_id : undefined;
+	const applied = idList(args.applied);
+	if (!applied) return { error: '"applied" must be an array of pattern ids (empty if none helped).' };
+	const dir = resolveTaskDir(aceDir, conversationId);
+	if (!dir) return noTask(conversationId);
+
+	const notApplied = (idList(args.not_applied) ?? []).filter(id => !applied.includes(id));
+	const injected = new Set(readInjections(dir).flatMap(i => i.patterns.map(p => p.id)));
+	const report: PatternUseReport = {
+		timestamp: now.toISOString(),
+		applied,
+		not_applied: notApplied,
+		unknown_ids: [...applied, ...notApplied].filter(id => !injected.has(id)),
+	};
+	const minutes = finiteNumber(args.time_saved_min);
+	if (minutes !== undefined && minutes >= 0) report.time_saved_min = Math.round(minutes);
+	if (typeof args.note === 'string' && args.note.trim()) report.note = args.note.trim().slice(0, MAX_TEXT_CHARS);
+	fs.appendFileSync(path.join(dir, PATTERN_USE_FILE), JSON.stringify(report) + '\n');
+	return { conversation_id: path.basename(dir), report };
+}
+
+/**
+ * resolveTaskDir / taskStatus / explainInjection / reportPatternUse /
+ * readPatternUse as a JS snippet for the baked proxy and learn helper.
+ * Defines aceResolveTaskDir, aceTaskStatus, aceExplainInjection,
+ * aceReportPatternUse(aceDir, args, nowIso) and acePatternUse(taskDir).
+ * Expects `fs` and `path` in scope.
+ */
+export function getPatternAttributionJs(): string {
+	return `// --- ACE pattern attribution (generated from src/ace/patternAttribution.ts) ---
+const ACE_INJECTIONS_FILE = ${JSON.stringify(INJECTIONS_FILE)};
+const ACE_PATTERN_USE_FILE = ${JSON.stringify(PATTERN_USE_FILE)};
+
+function aceFiniteNumber(value) {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+function aceReadJsonl(file) {
+  let text = '';
+  try { text = fs.readFileSync(file, 'utf-8'); } catch (_) { return []; }
+  const entries = [];
+  for (const line of text.split('\\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (entry && typeof entry === 'object' && !Array.isArray(entry)) entries.push(entry);
+    } catch (_) {}
+  }
+  return entries;
+}
+
+function aceReadInjections(taskDir) {
+  return aceReadJsonl(path.join(taskDir, ACE_INJECTIONS_FILE)).filter((e) => Array.isArray(e.patterns));
+}
+
+function acePatternUse(taskDir) {
+  const reports = aceReadJsonl(path.join(taskDir, ACE_PATTERN_USE_FILE)).filter((e) => Array.isArray(e.applied));
+  return reports.length > 0 ? reports[reports.length - 1] : null;
+}
+
+function aceResolveTaskDir(aceDir, conversationId) {
+  const tasksDir = path.join(aceDir, 'tasks');
+  if (conversationId) {
+    if (/[\\\\/]|^\\.\\.?$/.test(conversationId)) return undefined;
+    const dir = path.join(tasksDir, conversationId);
+    return fs.existsSync(dir) ? dir : undefined;
+  }
+  let names = [];
+  try { names = fs.readdirSync(tasksDir); } catch (_) { return undefined; }
+  let best;
+  let bestMtime = -1;
+  for (const name of names) {
+    if (name.startsWith('_')) continue;
+    const dir = path.join(tasksDir, name);
+    try { if (!fs.statSync(dir).isDirectory()) continue; } catch (_) { continue; }
+    let mtime = 0;
+    for (const file of ['', 'mcp_trajectory.jsonl', ACE_INJECTIONS_FILE]) {
+      try { mtime = Math.max(mtime, fs.statSync(path.join(dir, file)).mtimeMs); } catch (_) {}
+    }
+    if (mtime > bestMtime) { best = dir; bestMtime = mtime; }
+  }
+  return best;
+}
+
+function aceNoTask(conversationId) {
+  return { error: conversationId ? 'No ACE task for conversation ' + conversationId + '.' : 'No ACE task recorded yet in this workspace.' };
+}
+
+function aceTaskStatus(aceDir, conversationId) {
+  const dir = aceResolveTaskDir(aceDir, conversationId);
+  if (!dir) return aceNoTask(conversationId);
+  const injections = aceReadInjections(dir);
+  const byId = new Map();
+  for (const injection of injections) {
+    for (const ref of injection.patterns) {
+      const seen = byId.get(ref.id);
+      if (seen) {
+        seen.times++;
+        if (!seen.injected_by.includes(injection.source)) seen.injected_by.push(injection.source);
+      } else {
+        byId.set(ref.id, Object.assign({}, ref, { injected_by: [injection.source], times: 1 }));
+      }
+    }
+  }
+  return {
+    conversation_id: path.basename(dir),
+    injections: injections.length,
+    patterns: Array.from(byId.values()),
+    last_report: acePatternUse(dir),
+  };
+}
+
+function aceInjectionReason(record) {
+  switch (record.source) {
+    case 'pre_tool_use':
+      return ${JSON.stringify(injectionReason({ source: 'pre_tool_use' }))};
+    case 'post_tool_use':
+      return ${JSON.stringify(injectionReason({ source: 'post_tool_use' }))};
+    case 'domain_shift':
+      return 'The agent opened a file in the "' + record.domain + '" domain' + (record.server_domain
+        ? '; the search was narrowed to the server domain "' + record.server_domain + '".'
+        : '; no server domain matched, so the search was not narrowed.');
+    case 'ace_search':
+      return ${JSON.stringify(injectionReason({ source: 'ace_search' }))};
+    default:
+      return 'Unknown source.';
+  }
+}
+
+function aceExplainInjection(aceDir, conversationId, patternId) {
+  const dir = aceResolveTaskDir(aceDir, conversationId);
+  if (!dir) return aceNoTask(conversationId);
+  let injections = aceReadInjections(dir);
+  if (patternId) {
+    injections = injections.filter((i) => i.patterns.some((p) => p.id === patternId));
+    if (injections.length === 0) return { error: 'Pattern ' + patternId + ' was not injected in this task.' };
+  }
+  return {
+    conversation_id: path.basename(dir),
+    injections: injections.slice(-${MAX_EXPLAINED_INJECTIONS}).map((injection) => {
+      const rest = Object.assign({}, injection);
+      delete rest.generation_id;
+      rest.reason = aceInjectionReason(rest);
+      return rest;
+    }),
+  };
+}
+
+function aceIdList(value) {
+  if (!Array.isArray(value)) return undefined;
+  return Array.from(new Set(value.filter((v) => (typeof v === 'string' && v) || typeof v === 'number').map(String)));
+}
+
+function aceReportPatternUse(aceDir, args, nowIso) {
+  const conversationId = typeof args.conversation_id === 'string' && args.conversation_id ? args.conversation_id : undefined;
+  const applied = aceIdList(args.applied);
+  if (!applied) return { error: '"applied" must be an array of pattern ids (empty if none helped).' };
+  const dir = aceResolveTaskDir(aceDir, conversationId);
+  if (!dir) return aceNoTask(conversationId);
+  const notApplied = (aceIdList(args.not_applied) || []).filter((id) => !applied.includes(id));
+  const injected = new Set();
+  for (const injection of aceReadInjections(dir)) for (const p of injection.patterns) injected.add(p.id);
+  const report = {
+    timestamp: nowIso,
+    applied,
+    not_applied: notApplied,
+    unknown_ids: applied.concat(notApplied).filter((id) => !injected.has(id)),
+  };
+  const minutes = aceFiniteNumber(args.time_saved_min);
+  if (minutes !== undefined && minutes >= 0) report.time_saved_min = Math.round(minutes);
+  if (typeof args.note === 'string' && args.note.trim()) report.note = args.note.trim().slice(0, ${MAX_TEXT_CHARS});
+  fs.appendFileSync(path.join(dir, ACE_PATTERN_USE_FILE), JSON.stringify(report) + '\\n');
+  return { conversation_id: path.basename(dir), report };
+}
+// --- end pattern attribution ---`;
+}
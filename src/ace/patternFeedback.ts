@@ -0,0 +1,128 @@
+/**
+ * Explicit 👍/👎 pattern feedback from the editor.
+ *
+ * Every rating is appended to .cursor/ace/feedback.jsonl after the send is
+ * attempted, with `sent` recording whether the server accepted it — the log
+ * is the human-signal counterpart to the AI's TIME_SAVED self-report, the
+ * audit record of what was sent, and keeps ratings given offline. Also
+ * extracts the patterns ace_search injected into a task so the Injected
+ * Patterns view can offer them for rating.
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested;
+ * src/commands/feedback.ts sends the rating and wires the UI entry points.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeSearchResults, type PatternHit } from './patternSearch';
+import { unwrapAceSearchResult } from './manualTrace';
+
+export type FeedbackRating = 'helpful' | 'harmful';
+
+/** Where in the UI the rating was given. */
+export type FeedbackSource = 'search' | 'status' | 'explorer' | 'injected';
+
+export type FeedbackEntry = {
+	timestamp: string;
+	pattern_id: string;
+	rating: FeedbackRating;
+	source: FeedbackSource;
+	domain: string;
+	section: string;
+	/** First 200 chars, so the log is readable without a server round-trip. */
+	content_preview: string;
+	sent: boolean;
+	error?: string;
+};
+
+const PREVIEW_CHARS = 200;
+
+export function getFeedbackLogPath(wsRoot: string): string {
+	return path.join(wsRoot, '.cursor', 'ace', 'feedback.jsonl');
+}
+
+export function buildFeedbackEntry(
+	hit: PatternHit,
+	rating: FeedbackRating,
+	source: FeedbackSource,
+	now = new Date()
+): FeedbackEntry {
+	return {
+		timestamp: now.toISOString(),
+		pattern_id: hit.id,
+		rating,
+		source,
+		domain: hit.domain,
+		section: hit.section,
+		content_preview: hit.content.trim().slice(0, PREVIEW_CHARS),
+		sent: false,
+	};
+}
+
+export function appendFeedbackEntry(wsRoot: string, entry: FeedbackEntry): void {
+	const p = getFeedbackLogPath(wsRoot);
+	fs.mkdirSync(path.dirname(p), { recursive: true });
+	fs.appendFileSync(p, JSON.stringify(entry) + '\n');
+}
+
+/** All well-formed entries, oldest first. Malformed lines are skipped. */
+export function readFeedbackLog(wsRoot: string): FeedbackEntry[] {
+	let text = '';
+	try {
+		text = fs.readFileSync(getFeedbackLogPath(wsRoot), 'utf-8');
+	} catch {
+		return [];
+	}
+	const entries: FeedbackEntry[] = [];
+	for (const line of text.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			const e = JSON.parse(line);
+			if (e && typeof e.pattern_id === 'string' && (e.rating === 'helpful' || e.rating === 'harmful')) {
+				entries.push(e as FeedbackEntry);
+			}
+		} catch {
+			// Partial write — skip.
+		}
+	}
+	return entries;
+}
+
+/** Latest rating per pattern id (a later 👎 overrides an earlier 👍). */
+export function latestRatings(entries: FeedbackEntry[]): Map<string, FeedbackRating> {
+	const out = new Map<string, FeedbackRating>();
+	for (const e of entries) {
+		out.set(e.pattern_id, e.rating);
+	}
+	return out;
+}
+
+/**
+ * Patterns returned by ace_search calls in one task's mcp_trajectory.jsonl,
+ * de-duplicated by id (first occurrence wins).
+ */
+export function injectedPatternsFromTrajectory(lines: string[]): PatternHit[] {
+	const seen = new Set<string>();
+	const out: PatternHit[] = [];
+	for (const line of lines) {
+		if (!line.trim()) continue;
+		let entry: Record<string, unknown>;
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			continue;
+		}
+		const tool = String(entry?.tool_name || '').toLowerCase();
+		if (tool !== 'ace_search' && !tool.endsWith('/ace_search')) continue;
+		if (entry.result_json === undefined || entry.result_json === null) continue;
+		const { results } = unwrapAceSearchResult(entry.result_json);
+		for (const hit of normalizeSearchResults(results)) {
+			// Positional fallback ids (result-N) collide across searches.
+			const key = hit.id.startsWith('result-') ? `${hit.id}:${hit.content}` : hit.id;
+			if (seen.has(key)) continue;
+			seen.add(key);
+			out.push(hit);
+		}
+	}
+	return out;
+}
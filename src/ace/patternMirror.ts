@@ -0,0 +1,305 @@
+/**
+ * Local pattern mirror — the project's playbook in SQLite with FTS5.
+ *
+ * PatternMirrorSync keeps .cursor/ace/mirror/patterns.db up to date from the
+ * server, fetching only patterns whose updated_at is newer than the last
+ * sync's high-water mark. The mirror backs two offline paths:
+ *   - ace_search_helper.js answers from it when the server call fails with
+ *     rc 3 (5xx) or rc 4 (network) — see getMirrorSearchJs()
+ *   - ACE: Search Patterns falls back to it (or uses it on request)
+ *
+ * state.json next to the database records the last sync for the Status panel,
+ * so showing "last synced" never needs the native module.
+ *
+ * better-sqlite3 is a native addon; it is loaded lazily and every entry point
+ * degrades to "no mirror" when the binary is missing. No vscode, no SDK.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomicWrite';
+import type { PatternHit } from './patternSearch';
+
+export type MirrorState = {
+	/** ISO time of the last successful sync. */
+	lastSyncedAt: string;
+	/** Largest updated_at seen so far — the next sync asks for newer ones. */
+	highWater?: string;
+	count: number;
+	/** Project the rows belong to; a different project forces a full resync. */
+	projectId?: string;
+	/**
+	 * ISO time of the last complete full pass. Incremental syncs only see
+	 * updates, so a periodic full pass drops patterns deleted or deprecated
+	 * on the server since.
+	 */
+	lastFullSyncAt?: string;
+	/** Last sync failure, cleared by the next success. */
+	error?: string;
+};
+
+type Statement = {
+	run(...params: unknown[]): unknown;
+	get(...params: unknown[]): unknown;
+	all(...params: unknown[]): unknown[];
+};
+
+export type MirrorDb = {
+	exec(sql: string): void;
+	prepare(sql: string): Statement;
+	transaction<F extends (...args: any[]) => void>(fn: F): F;
+	close(): void;
+};
+
+type DatabaseCtor = new (file: string, options?: { readonly?: boolean; fileMustExist?: boolean }) => MirrorDb;
+
+export const MIRROR_SCHEMA = `
+CREATE TABLE IF NOT EXISTS patterns (
+	id TEXT PRIMARY KEY,
+	content TEXT NOT NULL,
+	section TEXT NOT NULL DEFAULT '',
+	domain TEXT NOT NULL DEFAULT '',
+	confidence REAL NOT NULL DEFAULT 0,
+	helpful INTEGER NOT NULL DEFAULT 0,
+	harmful INTEGER NOT NULL DEFAULT 0,
+	updated_at TEXT
+);
+CREATE VIRTUAL TABLE IF NOT EXISTS patterns_fts USING fts5(id UNINDEXED, content, section, domain, tokenize = 'porter unicode61');
+`;
+
+/** Shared with the search helper so both rank the same way. */
+export const MIRROR_SEARCH_SQL =
+	'SELECT p.id, p.content, p.section, p.domain, p.confidence, p.helpful, p.harmful, p.updated_at'
+	+ ' FROM patterns_fts JOIN patterns p ON p.id = patterns_fts.id'
+	+ ' WHERE patterns_fts MATCH ? ORDER BY bm25(patterns_fts) LIMIT ?';
+
+const MAX_QUERY_TERMS = 16;
+
+export const FULL_RESYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function getMirrorDir(aceDir: string): string {
+	return path.join(aceDir, 'mirror');
+}
+
+export function getMirrorDbPath(aceDir: string): string {
+	return path.join(getMirrorDir(aceDir), 'patterns.db');
+}
+
+export function getMirrorStatePath(aceDir: string): string {
+	return path.join(getMirrorDir(aceDir), 'state.json');
+}
+
+let sqlite: DatabaseCtor | null | undefined;
+
+function loadSqlite(): DatabaseCtor | null {
+	if (sqlite === undefined) {
+		try {
+			const ctor = require('better-sqlite3') as DatabaseCtor;
+			// The JS wrapper loads fine without the .node binary; opening a
+			// database is what actually proves the addon works.
+			new ctor(':memory:').close();
+			sqlite = ctor;
+		} catch {
+			sqlite = null;
+		}
+	}
+	return sqlite;
+}
+
+/** Whether the native SQLite addon loads in this environment. */
+export function isMirrorAvailable(): boolean {
+	return loadSqlite() !== null;
+}
+
+export function readMirrorState(aceDir: string): MirrorState | null {
+	try {
+		const state = JSON.parse(fs.readFileSync(getMirrorStatePath(aceDir), 'utf-8'));
+		if (!state || typeof state.lastSyncedAt !== 'string') return null;
+		state.count = typeof state.count === 'number' ? state.count : 0;
+		return state as MirrorState;
+	} catch {
+		return null;
+	}
+}
+
+export function writeMirrorState(aceDir: string, state: MirrorState): void {
+	fs.mkdirSync(getMirrorDir(aceDir), { recursive: true });
+	writeFileAtomic(getMirrorStatePath(aceDir), JSON.stringify(state, null, 2));
+}
+
+/**
+ * Turn free text into an FTS5 query: each word quoted (so FTS syntax in the
+ * prompt can't break the MATCH) and OR'd, ranked by bm25. '' when the text
+ * has no searchable words.
+ */
+export function toFtsQuery(query: string): string {
+	const words = String(query).toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+	const unique = Array.from(new Set(words.filter(w => w.length >= 2))).slice(0, MAX_QUERY_TERMS);
+	return unique.map(w => `"${w}"`).join(' OR ');
+}
+
+/** Largest updated_at among `hits` and `current` (ISO strings compare lexically). */
+export function nextHighWater(hits: PatternHit[], current?: string): string | undefined {
+	let high = current;
+	for (const hit of hits) {
+		if (hit.updatedAt && (!high || hit.updatedAt > high)) high = hit.updatedAt;
+	}
+	return high;
+}
+
+/** Open (creating if needed) the mirror for writing. null without SQLite. */
+export function openMirror(aceDir: string): MirrorDb | null {
+	const Database = loadSqlite();
+	if (!Database) return null;
+	fs.mkdirSync(getMirrorDir(aceDir), { recursive: true });
+	const db = new Database(getMirrorDbPath(aceDir));
+	db.exec(MIRROR_SCHEMA);
+	return db;
+}
+
+/** Drop every mirrored pattern (project changed). */
+export function clearMirror(db: MirrorDb): void {
+	db.exec('DELETE FROM patterns; DELETE FROM patterns_fts;');
+}
+
+/**
+ * Delete every row whose id the server no longer lists (after a complete
+ * full pass). Returns how many rows were removed.
+ */
+export function pruneMirror(db: MirrorDb, keepIds: Set<string>): number {
+	const ids = (db.prepare('SELECT id FROM patterns').all() as { id: string }[]).map(r => r.id);
+	const gone = ids.filter(id => !keepIds.has(id));
+	if (gone.length === 0) return 0;
+	const removeRow = db.prepare('DELETE FROM patterns WHERE id = ?');
+	const removeFts = db.prepare('DELETE FROM patterns_fts WHERE id = ?');
+	db.transaction(() => {
+		for (const id of gone) {
+			removeRow.run(id);
+			removeFts.run(id);
+		}
+	})();
+	return gone.length;
+}
+
+/** A full pass is due once a day (or when none has completed yet). */
+export function isFullResyncDue(state: MirrorState | null, now = new Date()): boolean {
+	const last = state?.lastFullSyncAt ? Date.parse(state.lastFullSyncAt) : NaN;
+	return Number.isNaN(last) || now.getTime() - last >= FULL_RESYNC_INTERVAL_MS;
+}
+
+/**
+ * Insert or replace `hits`. Rows the mirror already has at the same or a
+ * newer updated_at are left alone. Returns how many rows changed.
+ */
+export function upsertPatterns(db: MirrorDb, hits: PatternHit[]): number {
+	const existing = db.prepare('SELECT updated_at FROM patterns WHERE id = ?');
+	const removeRow = db.prepare('DELETE FROM patterns WHERE id = ?');
+	const removeFts = db.prepare('DELETE FROM patterns_fts WHERE id = ?');
+	const insertRow = db.prepare(
+		'INSERT INTO patterns (id, content, section, domain, confidence, helpful, harmful, updated_at)'
+		+ ' VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+	);
+	const insertFts = db.prepare('INSERT INTO patterns_fts (id, content, section, domain) VALUES (?, ?, ?, ?)');
+	let changed = 0;
+	db.transaction(() => {
+		for (const hit of hits) {
+			if (!hit.id) continue;
+			const row = existing.get(hit.id) as { updated_at: string | null } | undefined;
+			if (row && row.updated_at && hit.updatedAt && row.updated_at >= hit.updatedAt) continue;
+			removeRow.run(hit.id);
+			removeFts.run(hit.id);
+			insertRow.run(hit.id, hit.content, hit.section, hit.domain, hit.confidence, hit.helpful, hit.harmful, hit.updatedAt ?? null);
+			insertFts.run(hit.id, hit.content, hit.section, hit.domain);
+			changed++;
+		}
+	})();
+	return changed;
+}
+
+export function countMirrored(db: MirrorDb): number {
+	const row = db.prepare('SELECT COUNT(*) AS n FROM patterns').get() as { n: number } | undefined;
+	return row?.n ?? 0;
+}
+
+/**
+ * Full-text search over the mirror, best match first. [] when there is no
+ * mirror, no SQLite, or nothing matches.
+ */
+export function searchMirror(aceDir: string, query: string, topK: number): PatternHit[] {
+	const Database = loadSqlite();
+	const match = toFtsQuery(query);
+	if (!Database || !match || !fs.existsSync(getMirrorDbPath(aceDir))) return [];
+	let db: MirrorDb | undefined;
+	try {
+		db = new Database(getMirrorDbPath(aceDir), { readonly: true, fileMustExist: true });
+		const rows = db.prepare(MIRROR_SEARCH_SQL).all(match, topK) as Array<Record<string, unknown>>;
+		return rows.map(r => ({
+			id: String(r.id),
+			content: String(r.content ?? ''),
+			section: String(r.section ?? ''),
+			domain: String(r.domain ?? ''),
+			confidence: Number(r.confidence) || 0,
+			helpful: Number(r.helpful) || 0,
+			harmful: Number(r.harmful) || 0,
+			updatedAt: typeof r.updated_at === 'string' ? r.updated_at : undefined,
+		}));
+	} catch {
+		return [];
+	} finally {
+		db?.close();
+	}
+}
+
+/** "synced 5 min ago · 312 patterns" for the Status panel and QuickPick. */
+export function formatMirrorAge(state: MirrorState | null, now = new Date()): string {
+	if (!state) return 'never synced';
+	const minutes = Math.max(0, Math.floor((now.getTime() - Date.parse(state.lastSyncedAt)) / 60000));
+	let age: string;
+	if (Number.isNaN(minutes)) age = 'at an unknown time';
+	else if (minutes < 1) age = 'just now';
+	else if (minutes < 60) age = `${minutes} min ago`;
+	else if (minutes < 48 * 60) age = `${Math.floor(minutes / 60)} h ago`;
+	else age = `${Math.floor(minutes / (24 * 60))} days ago`;
+	return `synced ${age} · ${state.count} pattern${state.count === 1 ? '' : 's'}`;
+}
+
+/**
+ * The mirror search as a JS snippet for ace_search_helper.js. Defines
+ * aceSearchLocalMirror(aceDir, query, topK), which returns a
+ * SearchResponse-shaped object or null. Expects `fs` and `path` in scope.
+ */
+export function getMirrorSearchJs(): string {
+	return `// --- ACE local mirror search (generated from src/ace/patternMirror.ts) ---
+const ACE_MIRROR_SEARCH_SQL = ${JSON.stringify(MIRROR_SEARCH_SQL)};
+
+function aceToFtsQuery(query) {
+  const words = String(query).toLowerCase().match(/[\\p{L}\\p{N}_]+/gu) || [];
+  const unique = Array.from(new Set(words.filter((w) => w.length >= 2))).slice(0, ${MAX_QUERY_TERMS});
+  return unique.map((w) => '"' + w + '"').join(' OR ');
+}
+
+function aceSearchLocalMirror(aceDir, query, topK) {
+  let db = null;
+  try {
+    const dbPath = path.join(aceDir, 'mirror', 'patterns.db');
+    const match = aceToFtsQuery(query);
+    if (!match || !fs.existsSync(dbPath)) return null;
+    const Database = require('better-sqlite3');
+    db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    const rows = db.prepare(ACE_MIRROR_SEARCH_SQL).all(match, topK);
+    if (!rows.length) return null;
+    return {
+      similar_patterns: rows.map((r) => ({
+        id: r.id, content: r.content, section: r.section, domain: r.domain,
+        confidence: r.confidence, helpful: r.helpful, harmful: r.harmful,
+      })),
+      source: 'local_mirror',
+    };
+  } catch (_) {
+    return null;
+  } finally {
+    try { if (db) db.close(); } catch (_) {}
+  }
+}
+// --- end local mirror search ---`;
+}
@@ -0,0 +1,257 @@
+/**
+ * Pure helpers for the in-editor `ACE: Search Patterns` QuickPick and the
+ * Pattern Explorer tree view.
+ *
+ * Kept free of vscode + @ace-sdk/core imports so normalisation, grouping and
+ * formatting can be unit-tested in plain Node. src/commands/search.ts and
+ * src/views/patternExplorer.ts wire these into the UI.
+ */
+
+export type PatternHit = {
+	id: string;
+	content: string;
+	section: string;
+	domain: string;
+	confidence: number;
+	helpful: number;
+	harmful: number;
+	similarity?: number;
+	/** ISO timestamp of the last server-side update, when the API sends one. */
+	updatedAt?: string;
+};
+
+export type PatternGroup = {
+	key: string;
+	label: string;
+	patterns: PatternHit[];
+};
+
+/**
+ * Human-readable labels for the four playbook sections (same set the Status
+ * panel renders). Unknown sections fall back to underscore → space.
+ */
+export const SECTION_LABELS: Record<string, string> = {
+	strategies_and_hard_rules: 'Strategies & Hard Rules',
+	useful_code_snippets: 'Useful Code Snippets',
+	troubleshooting_and_pitfalls: 'Troubleshooting & Pitfalls',
+	apis_to_use: 'APIs to Use',
+};
+
+export function sectionLabel(section: string): string {
+	return SECTION_LABELS[section] || section.replace(/_/g, ' ');
+}
+
+function toNumber(v: unknown): number {
+	const n = typeof v === 'number' ? v : Number(v);
+	return Number.isFinite(n) ? n : 0;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+	for (const v of values) {
+		if (typeof v === 'string' && v) return v;
+	}
+	return undefined;
+}
+
+/**
+ * Normalise a searchPatterns response into PatternHit[].
+ *
+ * The SDK returns SearchResponseWithMetadata (`similar_patterns`), older
+ * servers return `results`, and callers sometimes hand us a bare array.
+ * Entries without content are dropped.
+ */
+export function normalizeSearchResults(result: unknown): PatternHit[] {
+	let raw: unknown[] = [];
+	if (Array.isArray(result)) {
+		raw = result;
+	} else if (result && typeof result === 'object') {
+		const r = result as Record<string, unknown>;
+		if (Array.isArray(r.similar_patterns)) { raw = r.similar_patterns; }
+		else if (Array.isArray(r.results)) { raw = r.results; }
+		else if (Array.isArray(r.patterns)) { raw = r.patterns; }
+		else if (Array.isArray(r.bullets)) { raw = r.bullets; }
+	}
+
+	const hits: PatternHit[] = [];
+	raw.forEach((entry, i) => {
+		if (!entry || typeof entry !== 'object') { return; }
+		const p = entry as Record<string, unknown>;
+		const content = typeof p.content === 'string' ? p.content : '';
+		if (!content.trim()) { return; }
+		hits.push({
+			id: String(p.id ?? p.pattern_id ?? p.bullet_id ?? `result-${i}`),
+			content,
+			section: typeof p.section === 'string' && p.section ? p.section : 'general',
+			domain: typeof p.domain === 'string' && p.domain ? p.domain : 'general',
+			confidence: toNumber(p.confidence),
+			helpful: toNumber(p.helpful ?? p.helpful_count),
+			harmful: toNumber(p.harmful ?? p.harmful_count),
+			similarity: p.similarity !== undefined ? toNumber(p.similarity) : undefined,
+			updatedAt: firstString(p.updated_at, p.last_updated, p.updatedAt, p.created_at),
+		});
+	});
+	return hits;
+}
+
+/**
+ * Group hits by section, then domain. Groups keep the order in which the
+ * server ranked their best hit, so the most relevant group is on top.
+ */
+export function groupPatterns(hits: PatternHit[]): PatternGroup[] {
+	const groups = new Map<string, PatternGroup>();
+	for (const hit of hits) {
+		const key = `${hit.section}/${hit.domain}`;
+		let group = groups.get(key);
+		if (!group) {
+			group = {
+				key,
+				label: `${sectionLabel(hit.section)} · ${hit.domain.replace(/-/g, ' ')}`,
+				patterns: [],
+			};
+			groups.set(key, group);
+		}
+		group.patterns.push(hit);
+	}
+	return Array.from(groups.values());
+}
+
+/** One-line QuickPick label: first line of content, truncated. */
+export function formatPatternLabel(hit: PatternHit, maxLen = 100): string {
+	const firstLine = hit.content.split('\n')[0].trim();
+	return firstLine.length > maxLen ? `${firstLine.slice(0, maxLen - 1)}…` : firstLine;
+}
+
+/** QuickPick description: confidence + helpful/harmful counts. */
+export function formatPatternStats(hit: PatternHit): string {
+	const conf = Math.round(hit.confidence * 100);
+	return `${conf}% · 👍 ${hit.helpful} · 👎 ${hit.harmful}`;
+}
+
+/** Markdown rendering used by the preview document and the copy/insert actions. */
+export function formatPatternMarkdown(hit: PatternHit): string {
+	return [
+		`### ${sectionLabel(hit.section)} (${hit.domain})`,
+		'',
+		hit.content.trim(),
+		'',
+		`- id: \`${hit.id}\``,
+		`- confidence: ${Math.round(hit.confidence * 100)}%`,
+		`- helpful: ${hit.helpful} · harmful: ${hit.harmful}`,
+		'',
+	].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Pattern Explorer (tree view) helpers
+// ---------------------------------------------------------------------------
+
+export type PatternPage = {
+	patterns: PatternHit[];
+	total?: number;
+	hasMore: boolean;
+};
+
+/**
+ * Parse one page of a paged pattern listing. Servers report "more" via
+ * has_more, next_offset or total; when none is present a full page is
+ * taken to mean there may be more.
+ */
+export function parsePatternPage(response: unknown, offset: number, limit: number): PatternPage {
+	const patterns = normalizeSearchResults(response);
+	const r = (response && typeof response === 'object' ? response : {}) as Record<string, unknown>;
+	const total = typeof r.total === 'number' ? r.total : undefined;
+	let hasMore: boolean;
+	if (typeof r.has_more === 'boolean') {
+		hasMore = r.has_more;
+	} else if (r.next_offset !== undefined) {
+		hasMore = r.next_offset !== null;
+	} else if (total !== undefined) {
+		hasMore = offset + patterns.length < total;
+	} else {
+		hasMore = patterns.length >= limit;
+	}
+	return { patterns, total, hasMore };
+}
+
+/**
+ * Group a domain's patterns by section. Known sections come first in
+ * playbook order, unknown ones follow alphabetically.
+ */
+export function groupBySection(hits: PatternHit[]): { section: string; label: string; patterns: PatternHit[] }[] {
+	const bySection = new Map<string, PatternHit[]>();
+	for (const hit of hits) {
+		const list = bySection.get(hit.section) ?? [];
+		list.push(hit);
+		bySection.set(hit.section, list);
+	}
+	const known = Object.keys(SECTION_LABELS);
+	const order = (s: string) => {
+		const i = known.indexOf(s);
+		return i === -1 ? known.length : i;
+	};
+	return Array.from(bySection.entries())
+		.sort(([a], [b]) => order(a) - order(b) || a.localeCompare(b))
+		.map(([section, patterns]) => ({ section, label: sectionLabel(section), patterns }));
+}
+
+/** Short relative time ("just now", "5m ago", "3d ago"); '' when unparseable. */
+export function formatRelativeTime(iso: string | undefined, now = Date.now()): string {
+	if (!iso) return '';
+	const t = Date.parse(iso);
+	if (Number.isNaN(t)) return '';
+	const sec = Math.max(0, Math.round((now - t) / 1000));
+	if (sec < 60) return 'just now';
+	const min = Math.round(sec / 60);
+	if (min < 60) return `${min}m ago`;
+	const hr = Math.round(min / 60);
+	if (hr < 24) return `${hr}h ago`;
+	const day = Math.round(hr / 24);
+	if (day < 60) return `${day}d ago`;
+	return new Date(t).toISOString().slice(0, 10);
+}
+
+/**
+ * Domain → pattern count from getStatus().by_domain, largest first. Servers
+ * send plain counts; object values ({ count } / { total }) are tolerated.
+ */
+export function parseDomainCounts(byDomain: unknown): { domain: string; count: number }[] {
+	if (!byDomain || typeof byDomain !== 'object') return [];
+	return Object.entries(byDomain as Record<string, unknown>)
+		.map(([domain, v]) => {
+			const o = (v && typeof v === 'object' ? v : {}) as Record<string, unknown>;
+			return { domain, count: typeof v === 'object' ? toNumber(o.count ?? o.total) : toNumber(v) };
+		})
+		.sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain));
+}
+
+// ---------------------------------------------------------------------------
+// Pattern edit / deprecate / delete
+// ---------------------------------------------------------------------------
+
+export type PatternChange =
+	| { kind: 'edit'; content?: string; section?: string }
+	| { kind: 'deprecate' }
+	| { kind: 'delete' };
+
+/**
+ * Before/after Markdown for the confirmation diff shown ahead of a pattern
+ * change. A delete diffs against an empty document.
+ */
+export function patternChangePreview(hit: PatternHit, change: PatternChange): { before: string; after: string } {
+	const before = formatPatternMarkdown(hit);
+	switch (change.kind) {
+		case 'edit':
+			return {
+				before,
+				after: formatPatternMarkdown({
+					...hit,
+					content: change.content ?? hit.content,
+					section: change.section ?? hit.section,
+				}),
+			};
+		case 'deprecate':
+			return { before, after: `${before}- status: deprecated\n` };
+		case 'delete':
+			return { before, after: '' };
+	}
+}
@@ -0,0 +1,135 @@
+/**
+ * Review-before-upload traces.
+ *
+ * With `ace.reviewTracesBeforeUpload` on, ace_learn_helper.js writes the
+ * ExecutionTrace it built to .cursor/ace/tasks/<conv_id>/pending-trace.json
+ * instead of sending it, plus an untouched copy in pending-trace.orig.json.
+ * The Trace Review panel reads both from here, shows a line diff of any edits
+ * against the copy, and either sends or discards the trace. Outcomes are appended to ace-stop-debug.log (REVIEW_SENT /
+ * REVIEW_DISCARDED) so Task History shows them next to the Stop hook lines.
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { type ManualTrace, toManualTrace } from './manualTrace';
+
+export const PENDING_TRACE_FILE = 'pending-trace.json';
+export const PENDING_TRACE_ORIGINAL_FILE = 'pending-trace.orig.json';
+
+export type PendingTrace = {
+	convId: string;
+	path: string;
+	mtimeMs: number;
+};
+
+export type DiffLine = {
+	kind: ' ' | '+' | '-';
+	text: string;
+};
+
+export type ReviewOutcome = 'sent' | 'discarded';
+
+export function getPendingTracePath(aceDir: string, convId: string): string {
+	return path.join(aceDir, 'tasks', convId, PENDING_TRACE_FILE);
+}
+
+/** The helper's untouched copy, or undefined when the helper predates it. */
+export function readPendingTraceOriginal(aceDir: string, convId: string): string | undefined {
+	try {
+		return fs.readFileSync(path.join(aceDir, 'tasks', convId, PENDING_TRACE_ORIGINAL_FILE), 'utf-8');
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Every parked trace under <aceDir>/tasks, newest first.
+ */
+export function listPendingTraces(aceDir: string): PendingTrace[] {
+	let ids: string[];
+	try {
+		ids = fs.readdirSync(path.join(aceDir, 'tasks'));
+	} catch {
+		return [];
+	}
+	const out: PendingTrace[] = [];
+	for (const convId of ids) {
+		const p = getPendingTracePath(aceDir, convId);
+		try {
+			out.push({ convId, path: p, mtimeMs: fs.statSync(p).mtimeMs });
+		} catch {
+			// No pending trace for this task.
+		}
+	}
+	return out.sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+/**
+ * Parse and check a (possibly hand-edited) pending trace. The server needs
+ * at least a task string and a trajectory array; see toManualTrace.
+ */
+export function parsePendingTrace(text: string): { trace?: ManualTrace; error?: string } {
+	let value: unknown;
+	try {
+		value = JSON.parse(text);
+	} catch (error) {
+		return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+	}
+	return toManualTrace(value);
+}
+
+/** Remove a parked trace and its copy. Returns false when there was none. */
+export function removePendingTrace(aceDir: string, convId: string): boolean {
+	fs.rmSync(path.join(aceDir, 'tasks', convId, PENDING_TRACE_ORIGINAL_FILE), { force: true });
+	try {
+		fs.unlinkSync(getPendingTracePath(aceDir, convId));
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Append REVIEW_SENT / REVIEW_DISCARDED to ace-stop-debug.log. */
+export function recordReviewOutcome(aceDir: string, convId: string, outcome: ReviewOutcome, now = new Date()): void {
+	const tag = outcome === 'sent' ? 'REVIEW_SENT' : 'REVIEW_DISCARDED';
+	try {
+		fs.mkdirSync(aceDir, { recursive: true });
+		fs.appendFileSync(path.join(aceDir, 'ace-stop-debug.log'), `${now.toISOString()} ${tag} conv=${convId}\n`);
+	} catch {
+		// Best-effort breadcrumb only.
+	}
+}
+
+/**
+ * Line diff (LCS) between the trace the helper built and the edited one.
+ * Traces are a few hundred lines, so the O(n·m) table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split('\n');
+	const b = after.split('\n');
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+	const out: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			out.push({ kind: ' ', text: a[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			out.push({ kind: '-', text: a[i++] });
+		} else {
+			out.push({ kind: '+', text: b[j++] });
+		}
+	}
+	while (i < a.length) out.push({ kind: '-', text: a[i++] });
+	while (j < b.length) out.push({ kind: '+', text: b[j++] });
+	return out;
+}
@@ -0,0 +1,83 @@
+/**
+ * Pinned patterns — stored per workspace under `pinnedPatterns` in
+ * .cursor/ace/settings.json (next to the org/project ids).
+ *
+ * The pre-tool-use hook merges every pin whose domain appears in the current
+ * ace_search result, or is the domain the agent is working in, into the
+ * `<ace-patterns>` payload, ahead of the search hits and flagged
+ * `"pinned": true`. The pin stores the pattern content so
+ * the hook needs no extra server round-trip.
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomicWrite';
+import type { PatternHit } from './patternSearch';
+
+export type PinnedPattern = {
+	id: string;
+	content: string;
+	section: string;
+	domain: string;
+	confidence: number;
+	pinned_at: string;
+};
+
+export function getWorkspaceSettingsPath(wsRoot: string): string {
+	return path.join(wsRoot, '.cursor', 'ace', 'settings.json');
+}
+
+function readSettings(wsRoot: string): Record<string, unknown> {
+	try {
+		const data = JSON.parse(fs.readFileSync(getWorkspaceSettingsPath(wsRoot), 'utf-8'));
+		return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+	} catch {
+		return {};
+	}
+}
+
+export function readPinnedPatterns(wsRoot: string): PinnedPattern[] {
+	const pins = readSettings(wsRoot).pinnedPatterns;
+	if (!Array.isArray(pins)) return [];
+	return pins.filter((p): p is PinnedPattern =>
+		!!p && typeof p === 'object' && typeof p.id === 'string' && typeof p.content === 'string' && typeof p.domain === 'string'
+	);
+}
+
+/** Rewrite the pin list, keeping every other settings.json key intact. */
+export function writePinnedPatterns(wsRoot: string, pins: PinnedPattern[]): void {
+	const settings = readSettings(wsRoot);
+	settings.pinnedPatterns = pins;
+	const p = getWorkspaceSettingsPath(wsRoot);
+	fs.mkdirSync(path.dirname(p), { recursive: true });
+	writeFileAtomic(p, JSON.stringify(settings, null, 2));
+}
+
+export function isPinned(wsRoot: string, id: string): boolean {
+	return readPinnedPatterns(wsRoot).some(p => p.id === id);
+}
+
+/** Pin (or re-pin with fresh content) a pattern for its domain. */
+export function pinPattern(wsRoot: string, hit: PatternHit, now = new Date()): void {
+	const pins = readPinnedPatterns(wsRoot).filter(p => p.id !== hit.id);
+	pins.push({
+		id: hit.id,
+		content: hit.content,
+		section: hit.section,
+		domain: hit.domain,
+		confidence: hit.confidence,
+		pinned_at: now.toISOString(),
+	});
+	writePinnedPatterns(wsRoot, pins);
+}
+
+/** Returns false when the pattern was not pinned. */
+export function unpinPattern(wsRoot: string, id: string): boolean {
+	const pins = readPinnedPatterns(wsRoot);
+	const remaining = pins.filter(p => p.id !== id);
+	if (remaining.length === pins.length) return false;
+	writePinnedPatterns(wsRoot, remaining);
+	return true;
+}
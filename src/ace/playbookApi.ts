@@ -0,0 +1,149 @@
+/**
+ * Playbook REST calls the SDK doesn't wrap: paged listing for the Pattern
+ * Explorer and the local mirror, pattern edit/deprecate/delete, and the
+ * feedback fallback.
+ *
+ * Like the Status panel's /analytics and /top calls, these talk to the REST
+ * API directly with the device-login token (getValidToken auto-refreshes).
+ */
+
+import * as vscode from 'vscode';
+import { loadConfig, getDefaultOrgId, type AceClient } from '@ace-sdk/core';
+import { readContext } from './context';
+import { getValidToken } from '../commands/login';
+import { parsePatternPage, type PatternPage } from './patternSearch';
+import type { FeedbackRating } from './patternFeedback';
+
+export const PATTERN_PAGE_SIZE = 50;
+
+const DEFAULT_SERVER_URL = 'https://ace-api.code-engine.app';
+
+async function getApiRequestInit(folder?: vscode.WorkspaceFolder): Promise<{ serverUrl: string; headers: Record<string, string> }> {
+	const ctx = readContext(folder);
+	if (!ctx?.projectId) {
+		throw new Error('ACE not configured');
+	}
+	const serverUrl = loadConfig()?.serverUrl || DEFAULT_SERVER_URL;
+	const tokenResult = await getValidToken(serverUrl);
+	if (!tokenResult?.token) {
+		throw new Error('No valid authentication token');
+	}
+	const orgId = ctx.orgId || getDefaultOrgId();
+	if (!orgId) {
+		throw new Error('Organization ID required. Please configure ACE.');
+	}
+	return {
+		serverUrl,
+		headers: {
+			'Authorization': `Bearer ${tokenResult.token}`,
+			'Content-Type': 'application/json',
+			'X-ACE-Org': orgId,
+			'X-ACE-Project': ctx.projectId
+		}
+	};
+}
+
+/**
+ * Fetch one page of a domain's patterns.
+ * Throws on missing config/auth or non-2xx responses.
+ */
+export async function fetchPatternPage(
+	domain: string,
+	offset: number,
+	limit: number = PATTERN_PAGE_SIZE,
+	folder?: vscode.WorkspaceFolder
+): Promise<PatternPage> {
+	const { serverUrl, headers } = await getApiRequestInit(folder);
+	const params = new URLSearchParams({ domain, limit: String(limit), offset: String(offset) });
+	const response = await fetch(`${serverUrl}/patterns?${params.toString()}`, { headers });
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	return parsePatternPage(await response.json(), offset, limit);
+}
+
+/**
+ * Fetch one page of the whole playbook, oldest update first, optionally only
+ * patterns updated after `since` (the local mirror's high-water mark).
+ */
+export async function fetchPatternsUpdatedSince(
+	since: string | undefined,
+	offset: number,
+	limit: number = PATTERN_PAGE_SIZE,
+	folder?: vscode.WorkspaceFolder
+): Promise<PatternPage> {
+	const { serverUrl, headers } = await getApiRequestInit(folder);
+	const params = new URLSearchParams({ limit: String(limit), offset: String(offset), sort: 'updated_at' });
+	if (since) {
+		params.set('updated_since', since);
+	}
+	const response = await fetch(`${serverUrl}/patterns?${params.toString()}`, { headers });
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	return parsePatternPage(await response.json(), offset, limit);
+}
+
+/**
+ * Record a 👍/👎 on a pattern. Goes through AceClient.sendFeedback, which
+ * updates the pattern's helpful/harmful counters server-side; SDK builds
+ * without it fall back to the REST endpoint that method wraps.
+ */
+export async function sendPatternFeedback(
+	client: AceClient,
+	patternId: string,
+	rating: FeedbackRating,
+	folder?: vscode.WorkspaceFolder
+): Promise<void> {
+	const sdk = client as unknown as {
+		sendFeedback?: (feedback: { pattern_id: string; rating: FeedbackRating; agent_type: string }) => Promise<unknown>;
+	};
+	if (typeof sdk.sendFeedback === 'function') {
+		await sdk.sendFeedback({ pattern_id: patternId, rating, agent_type: 'cursor' });
+		return;
+	}
+	const { serverUrl, headers } = await getApiRequestInit(folder);
+	const response = await fetch(`${serverUrl}/patterns/${encodeURIComponent(patternId)}/feedback`, {
+		method: 'POST',
+		headers,
+		body: JSON.stringify({ rating, agent_type: 'cursor' })
+	});
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+}
+
+async function patternRequest(
+	patternId: string,
+	method: 'PATCH' | 'DELETE',
+	body?: Record<string, unknown>,
+	folder?: vscode.WorkspaceFolder
+): Promise<void> {
+	const { serverUrl, headers } = await getApiRequestInit(folder);
+	const response = await fetch(`${serverUrl}/patterns/${encodeURIComponent(patternId)}`, {
+		method,
+		headers,
+		body: body ? JSON.stringify(body) : undefined
+	});
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+}
+
+/** Update a pattern's content and/or section. */
+export async function updatePattern(
+	patternId: string,
+	changes: { content?: string; section?: string },
+	folder?: vscode.WorkspaceFolder
+): Promise<void> {
+	await patternRequest(patternId, 'PATCH', changes, folder);
+}
+
+/** Mark a pattern deprecated — kept for history, no longer returned by search. */
+export async function deprecatePattern(patternId: string, folder?: vscode.WorkspaceFolder): Promise<void> {
+	await patternRequest(patternId, 'PATCH', { status: 'deprecated' }, folder);
+}
+
+export async function deletePattern(patternId: string, folder?: vscode.WorkspaceFolder): Promise<void> {
+	await patternRequest(patternId, 'DELETE', undefined, folder);
+}
@@ -0,0 +1,268 @@
+/**
+ * Secret redaction for everything ACE sends off the machine.
+ *
+ * Runs on ace_search_helper.js queries, ace_learn_helper.js traces, ace_search
+ * arguments passing through the MCP proxy, and the extension's own search /
+ * Capture Learning calls. Built-in detectors cover AWS access keys, JWTs,
+ * PEM private keys, `.env`-style secret assignments and high-entropy tokens;
+ * teams add their own regexes in .cursor/ace/redaction.json:
+ *
+ *   {
+ *     "enabled": true,
+ *     "disableBuiltins": ["high_entropy"],
+ *     "patterns": [{ "name": "customer_id", "regex": "CUST-\\d{6}", "flags": "i" }]
+ *   }
+ *
+ * Matches become `[REDACTED:<name>]`. The helpers and the proxy are plain
+ * Node scripts, so getRedactionEngineJs() returns the same engine as JS with
+ * the detector table serialised from BUILTIN_REDACTORS — the table has a
+ * single source; the driver is mirrored (redaction.test.ts checks parity).
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RedactorSpec = {
+	name: string;
+	/** RegExp source. */
+	source: string;
+	flags: string;
+	/** Leading capture groups kept verbatim (e.g. the `API_KEY=` part). */
+	keep?: number;
+	/** Only redact matches at or above this Shannon entropy (bits/char). */
+	minEntropy?: number;
+};
+
+export type RedactionStats = Record<string, number>;
+
+export const BUILTIN_REDACTORS: RedactorSpec[] = [
+	{
+		name: 'private_key',
+		source: '-----BEGIN[A-Z ]*PRIVATE KEY-----[\\s\\S]*?(?:-----END[A-Z ]*PRIVATE KEY-----|$)',
+		flags: 'g',
+	},
+	{
+		name: 'jwt',
+		source: '\\beyJ[A-Za-z0-9_-]{8,}\\.[A-Za-z0-9_-]{8,}\\.[A-Za-z0-9_-]{8,}',
+		flags: 'g',
+	},
+	{
+		name: 'aws_access_key',
+		source: '\\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\\b',
+		flags: 'g',
+	},
+	{
+		// KEY=value, KEY: value, "key": "value" — also inside JSON-in-a-string.
+		// The name must end in the secret word (not TOKEN_LIMIT, API_KEY_HEADER)
+		// and the value must be a literal: not a number, a call or a.property.
+		name: 'env_secret',
+		source: '(\\b[A-Za-z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?)S?(?![A-Za-z0-9_])\\\\?["\']?\\s*[:=]\\s*\\\\?["\']?)'
+			+ '(?!\\d+(?:\\.\\d+)?(?![^\\s"\'`,;\\\\])|[A-Za-z_$][\\w$]*(?:\\.[A-Za-z_$][\\w$]*)*\\(|[A-Za-z_$][\\w$]*(?:\\.[A-Za-z_$][\\w$]*)+(?![^\\s"\'`,;\\\\]))'
+			+ '([^\\s"\'`,;\\\\]{6,})',
+		flags: 'gi',
+		keep: 1,
+	},
+	{
+		name: 'high_entropy',
+		source: '[A-Za-z0-9+/_=-]{32,}',
+		flags: 'g',
+		minEntropy: 4.5,
+	},
+];
+
+/** Object keys whose string values are always redacted. */
+export const SECRET_KEY_SOURCE = '^(?:.*_)?(?:secret|token|password|passwd|api_?key|access_?key|private_?key|credentials?)$';
+
+export function getRedactionConfigPath(aceDir: string): string {
+	return path.join(aceDir, 'redaction.json');
+}
+
+/**
+ * Built-ins (minus any disabled) plus the user's patterns. Invalid user
+ * regexes are skipped; `enabled: false` turns redaction off entirely.
+ */
+export function loadRedactors(aceDir: string): RedactorSpec[] {
+	let config: Record<string, unknown> = {};
+	try {
+		const parsed = JSON.parse(fs.readFileSync(getRedactionConfigPath(aceDir), 'utf-8'));
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) config = parsed;
+	} catch {
+		// No file (or unreadable) — built-ins only.
+	}
+	if (config.enabled === false) return [];
+	const disabled = new Set(Array.isArray(config.disableBuiltins) ? config.disableBuiltins.map(String) : []);
+	const specs = BUILTIN_REDACTORS.filter(s => !disabled.has(s.name));
+	if (Array.isArray(config.patterns)) {
+		config.patterns.forEach((p: any, i: number) => {
+			if (!p || typeof p.regex !== 'string' || !p.regex) return;
+			const flags = String(p.flags || '').replace(/[^gimsuy]/g, '');
+			try {
+				new RegExp(p.regex, flags);
+			} catch {
+				return;
+			}
+			specs.push({
+				name: typeof p.name === 'string' && p.name ? p.name : `custom_${i + 1}`,
+				source: p.regex,
+				flags: flags.includes('g') ? flags : flags + 'g',
+			});
+		});
+	}
+	return specs;
+}
+
+function shannonEntropy(s: string): number {
+	const counts = new Map<string, number>();
+	for (const ch of s) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+	let bits = 0;
+	for (const n of counts.values()) {
+		const p = n / s.length;
+		bits -= p * Math.log2(p);
+	}
+	return bits;
+}
+
+/** Random-looking: mixed case plus digits, and above the entropy floor. */
+function looksRandom(s: string, minEntropy: number): boolean {
+	return /[a-z]/.test(s) && /[A-Z]/.test(s) && /[0-9]/.test(s) && shannonEntropy(s) >= minEntropy;
+}
+
+export function redactString(text: string, specs: RedactorSpec[], stats: RedactionStats = {}): string {
+	let out = text;
+	for (const spec of specs) {
+		const re = new RegExp(spec.source, spec.flags);
+		out = out.replace(re, (match: string, ...groups: unknown[]) => {
+			if (spec.minEntropy !== undefined && !looksRandom(match, spec.minEntropy)) return match;
+			stats[spec.name] = (stats[spec.name] ?? 0) + 1;
+			const kept = groups.slice(0, spec.keep ?? 0).map(g => (typeof g === 'string' ? g : '')).join('');
+			return `${kept}[REDACTED:${spec.name}]`;
+		});
+	}
+	return out;
+}
+
+/**
+ * Deep copy of `value` with every string redacted, and string values under
+ * secret-looking keys (password, api_key, …) replaced outright.
+ */
+export function redactValue<T>(value: T, specs: RedactorSpec[], stats: RedactionStats = {}): T {
+	if (specs.length === 0) return value;
+	const secretKey = new RegExp(SECRET_KEY_SOURCE, 'i');
+	const walk = (v: unknown): unknown => {
+		if (typeof v === 'string') return redactString(v, specs, stats);
+		if (Array.isArray(v)) return v.map(walk);
+		if (v && typeof v === 'object') {
+			const out: Record<string, unknown> = {};
+			for (const [k, child] of Object.entries(v as Record<string, unknown>)) {
+				if (typeof child === 'string' && child && secretKey.test(k)) {
+					stats.secret_field = (stats.secret_field ?? 0) + 1;
+					out[k] = '[REDACTED:secret_field]';
+				} else {
+					out[k] = walk(child);
+				}
+			}
+			return out;
+		}
+		return v;
+	};
+	return walk(value) as T;
+}
+
+/** "jwt×2, env_secret×1" for logs; '' when nothing was redacted. */
+export function formatRedactionStats(stats: RedactionStats): string {
+	return Object.entries(stats).map(([name, n]) => `${name}×${n}`).join(', ');
+}
+
+/**
+ * The same engine as a JS snippet for the Node helpers and the MCP proxy.
+ * Defines aceLoadRedactors(aceDir), aceRedactString(text, specs, stats) and
+ * aceRedactValue(value, specs, stats). Expects `fs` and `path` in scope.
+ */
+export function getRedactionEngineJs(): string {
+	return `// --- ACE redaction engine (generated from src/ace/redaction.ts) ---
+const ACE_BUILTIN_REDACTORS = ${JSON.stringify(BUILTIN_REDACTORS)};
+const ACE_SECRET_KEY_SOURCE = ${JSON.stringify(SECRET_KEY_SOURCE)};
+
+function aceLoadRedactors(aceDir) {
+  let config = {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(aceDir, 'redaction.json'), 'utf-8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) config = parsed;
+  } catch (_) {}
+  if (config.enabled === false) return [];
+  const disabled = new Set(Array.isArray(config.disableBuiltins) ? config.disableBuiltins.map(String) : []);
+  const specs = ACE_BUILTIN_REDACTORS.filter((s) => !disabled.has(s.name));
+  if (Array.isArray(config.patterns)) {
+    config.patterns.forEach((p, i) => {
+      if (!p || typeof p.regex !== 'string' || !p.regex) return;
+      const flags = String(p.flags || '').replace(/[^gimsuy]/g, '');
+      try { new RegExp(p.regex, flags); } catch (_) { return; }
+      specs.push({
+        name: typeof p.name === 'string' && p.name ? p.name : 'custom_' + (i + 1),
+        source: p.regex,
+        flags: flags.includes('g') ? flags : flags + 'g',
+      });
+    });
+  }
+  return specs;
+}
+
+function aceShannonEntropy(s) {
+  const counts = new Map();
+  for (const ch of s) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let bits = 0;
+  for (const n of counts.values()) {
+    const p = n / s.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function aceLooksRandom(s, minEntropy) {
+  return /[a-z]/.test(s) && /[A-Z]/.test(s) && /[0-9]/.test(s) && aceShannonEntropy(s) >= minEntropy;
+}
+
+function aceRedactString(text, specs, stats) {
+  stats = stats || {};
+  let out = text;
+  for (const spec of specs) {
+    const re = new RegExp(spec.source, spec.flags);
+    out = out.replace(re, function (match) {
+      if (spec.minEntropy !== undefined && !aceLooksRandom(match, spec.minEntropy)) return match;
+      stats[spec.name] = (stats[spec.name] || 0) + 1;
+      const groups = Array.prototype.slice.call(arguments, 1, 1 + (spec.keep || 0));
+      const kept = groups.map((g) => (typeof g === 'string' ? g : '')).join('');
+      return kept + '[REDACTED:' + spec.name + ']';
+    });
+  }
+  return out;
+}
+
+function aceRedactValue(value, specs, stats) {
+  stats = stats || {};
+  if (specs.length === 0) return value;
+  const secretKey = new RegExp(ACE_SECRET_KEY_SOURCE, 'i');
+  const walk = (v) => {
+    if (typeof v === 'string') return aceRedactString(v, specs, stats);
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === 'object') {
+      const out = {};
+      for (const k of Object.keys(v)) {
+        const child = v[k];
+        if (typeof child === 'string' && child && secretKey.test(k)) {
+          stats.secret_field = (stats.secret_field || 0) + 1;
+          out[k] = '[REDACTED:secret_field]';
+        } else {
+          out[k] = walk(child);
+        }
+      }
+      return out;
+    }
+    return v;
+  };
+  return walk(value);
+}
+// --- end redaction engine ---`;
+}
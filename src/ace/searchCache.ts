@@ -0,0 +1,207 @@
+/**
+ * Shared on-disk cache of pattern search results.
+ *
+ * The pre-tool-use, post-tool-use and domain-shift hooks often search for
+ * nearly the same text within seconds, and every searchPatterns call costs
+ * quota. ace_search_helper.js and ace_search_daemon.js look results up in
+ * .cursor/ace/cache/search/<sha256>.json before calling the server and store
+ * them after. The key hashes the normalized query (lower-cased, whitespace
+ * collapsed), threshold, top_k, project and any allowed_domains filter, so
+ * any hook asking the same question of the same project shares one entry.
+ *
+ * Entries live for `searchCacheTtlSeconds` from runtime-settings.json (synced
+ * from the ace.searchCacheTtlSeconds setting; 0 turns the cache off). Hits and
+ * misses are counted in .cursor/ace/cache/search-stats.json for the Status
+ * panel — best effort, concurrent hooks may drop the odd increment.
+ *
+ * getSearchCacheJs() is the same cache as a JS snippet for the helper and the
+ * daemon; searchCacheKey() and aceSearchCacheKey() must agree (tested).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomicWrite';
+
+export const DEFAULT_SEARCH_CACHE_TTL_SECONDS = 300;
+
+export type SearchCacheStats = {
+	hits: number;
+	misses: number;
+	/** ISO time of the first recorded lookup. */
+	since?: string;
+};
+
+export type SearchCacheKeyParts = {
+	query: string;
+	threshold: number;
+	topK: number;
+	projectId?: string;
+	/** allowed_domains filter; order-insensitive, omitted from the key when empty. */
+	allowedDomains?: string[];
+};
+
+export function getSearchCacheDir(aceDir: string): string {
+	return path.join(aceDir, 'cache', 'search');
+}
+
+export function getSearchCacheStatsPath(aceDir: string): string {
+	return path.join(aceDir, 'cache', 'search-stats.json');
+}
+
+export function normalizeSearchQuery(query: string): string {
+	return String(query).toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function searchCacheKey(parts: SearchCacheKeyParts): string {
+	const key: unknown[] = [normalizeSearchQuery(parts.query), parts.threshold, parts.topK, parts.projectId || ''];
+	if (parts.allowedDomains && parts.allowedDomains.length > 0) key.push([...parts.allowedDomains].sort());
+	return crypto.createHash('sha256').update(JSON.stringify(key)).digest('hex');
+}
+
+/** TTL from runtime-settings.json in ms; 0 when the cache is turned off. */
+export function readSearchCacheTtlMs(aceDir: string): number {
+	let seconds = DEFAULT_SEARCH_CACHE_TTL_SECONDS;
+	try {
+		const rs = JSON.parse(fs.readFileSync(path.join(aceDir, 'runtime-settings.json'), 'utf-8'));
+		if (rs && typeof rs.searchCacheTtlSeconds === 'number' && rs.searchCacheTtlSeconds >= 0) {
+			seconds = rs.searchCacheTtlSeconds;
+		}
+	} catch {
+		// No runtime settings yet — default TTL.
+	}
+	return seconds * 1000;
+}
+
+/** The cached search response for `key`, or undefined when missing or expired. */
+export function readSearchCache(aceDir: string, key: string, ttlMs: number, now = Date.now()): unknown {
+	if (ttlMs <= 0) return undefined;
+	try {
+		const entry = JSON.parse(fs.readFileSync(path.join(getSearchCacheDir(aceDir), `${key}.json`), 'utf-8'));
+		const cachedAt = Date.parse(entry?.cachedAt);
+		if (Number.isNaN(cachedAt) || now - cachedAt > ttlMs) return undefined;
+		return entry.response;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Store `response` under `key` and drop entries older than `ttlMs`. */
+export function writeSearchCache(aceDir: string, key: string, response: unknown, ttlMs: number, now = Date.now()): void {
+	if (ttlMs <= 0) return;
+	const dir = getSearchCacheDir(aceDir);
+	fs.mkdirSync(dir, { recursive: true });
+	writeFileAtomic(path.join(dir, `${key}.json`), JSON.stringify({ cachedAt: new Date(now).toISOString(), response }));
+	pruneSearchCache(dir, ttlMs, now);
+}
+
+function pruneSearchCache(dir: string, ttlMs: number, now: number): void {
+	for (const name of fs.readdirSync(dir)) {
+		if (!name.endsWith('.json')) continue;
+		const file = path.join(dir, name);
+		try {
+			if (now - fs.statSync(file).mtimeMs > ttlMs) fs.unlinkSync(file);
+		} catch {
+			// Another hook pruned it first.
+		}
+	}
+}
+
+export function readSearchCacheStats(aceDir: string): SearchCacheStats {
+	try {
+		const stats = JSON.parse(fs.readFileSync(getSearchCacheStatsPath(aceDir), 'utf-8'));
+		return {
+			hits: Number(stats?.hits) || 0,
+			misses: Number(stats?.misses) || 0,
+			since: typeof stats?.since === 'string' ? stats.since : undefined,
+		};
+	} catch {
+		return { hits: 0, misses: 0 };
+	}
+}
+
+export function recordSearchCacheLookup(aceDir: string, hit: boolean, now = new Date()): void {
+	const stats = readSearchCacheStats(aceDir);
+	if (hit) stats.hits++;
+	else stats.misses++;
+	stats.since = stats.since ?? now.toISOString();
+	fs.mkdirSync(path.dirname(getSearchCacheStatsPath(aceDir)), { recursive: true });
+	writeFileAtomic(getSearchCacheStatsPath(aceDir), JSON.stringify(stats, null, 2));
+}
+
+/** "12 hits · 4 misses (75% hit rate)" for the Status panel. */
+export function formatSearchCacheStats(stats: SearchCacheStats): string {
+	const total = stats.hits + stats.misses;
+	if (total === 0) return 'no lookups yet';
+	const rate = Math.round((stats.hits / total) * 100);
+	return `${stats.hits} hit${stats.hits === 1 ? '' : 's'} · ${stats.misses} miss${stats.misses === 1 ? '' : 'es'} (${rate}% hit rate)`;
+}
+
+/**
+ * The cache as a JS snippet for ace_search_helper.js and ace_search_daemon.js.
+ * Defines aceSearchCacheTtlMs, aceSearchCacheKey, aceReadSearchCache,
+ * aceWriteSearchCache and aceCountSearchCache. Expects `fs` and `path` in scope.
+ */
+export function getSearchCacheJs(): string {
+	return `// --- ACE search cache (generated from src/ace/searchCache.ts) ---
+function aceSearchCacheTtlMs(aceDir) {
+  let seconds = ${DEFAULT_SEARCH_CACHE_TTL_SECONDS};
+  try {
+    const rs = JSON.parse(fs.readFileSync(path.join(aceDir, 'runtime-settings.json'), 'utf-8'));
+    if (rs && typeof rs.searchCacheTtlSeconds === 'number' && rs.searchCacheTtlSeconds >= 0) seconds = rs.searchCacheTtlSeconds;
+  } catch (_) {}
+  return seconds * 1000;
+}
+
+function aceSearchCacheKey(query, threshold, topK, projectId, allowedDomains) {
+  const normalized = String(query).toLowerCase().replace(/\\s+/g, ' ').trim();
+  const key = [normalized, threshold, topK, projectId || ''];
+  if (allowedDomains && allowedDomains.length > 0) key.push(allowedDomains.slice().sort());
+  return require('crypto').createHash('sha256').update(JSON.stringify(key)).digest('hex');
+}
+
+function aceReadSearchCache(aceDir, key, ttlMs) {
+  if (ttlMs <= 0) return undefined;
+  try {
+    const entry = JSON.parse(fs.readFileSync(path.join(aceDir, 'cache', 'search', key + '.json'), 'utf-8'));
+    const cachedAt = Date.parse(entry && entry.cachedAt);
+    if (Number.isNaN(cachedAt) || Date.now() - cachedAt > ttlMs) return undefined;
+    return entry.response;
+  } catch (_) {
+    return undefined;
+  }
+}
+
+function aceWriteSearchCache(aceDir, key, response, ttlMs) {
+  if (ttlMs <= 0) return;
+  try {
+    const dir = path.join(aceDir, 'cache', 'search');
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, key + '.json');
+    const tmp = file + '.' + process.pid + '.tmp';
+    fs.writeFileSync(tmp, JSON.stringify({ cachedAt: new Date().toISOString(), response }));
+    fs.renameSync(tmp, file);
+    const now = Date.now();
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith('.json')) continue;
+      try { if (now - fs.statSync(path.join(dir, name)).mtimeMs > ttlMs) fs.unlinkSync(path.join(dir, name)); } catch (_) {}
+    }
+  } catch (_) { /* cache is best effort */ }
+}
+
+function aceCountSearchCache(aceDir, hit) {
+  try {
+    const file = path.join(aceDir, 'cache', 'search-stats.json');
+    let stats = { hits: 0, misses: 0 };
+    try { stats = JSON.parse(fs.readFileSync(file, 'utf-8')) || stats; } catch (_) {}
+    stats.hits = (Number(stats.hits) || 0) + (hit ? 1 : 0);
+    stats.misses = (Number(stats.misses) || 0) + (hit ? 0 : 1);
+    stats.since = stats.since || new Date().toISOString();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = file + '.' + process.pid + '.tmp';
+    fs.writeFileSync(tmp, JSON.stringify(stats, null, 2));
+    fs.renameSync(tmp, file);
+  } catch (_) { /* counters are best effort */ }
+}
+// --- end search cache ---`;
+}
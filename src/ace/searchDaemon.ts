@@ -0,0 +1,361 @@
+/**
+ * Search daemon — a warm, long-lived twin of ace_search_helper.js.
+ *
+ * Every pattern-injecting hook (pre-tool-use, post-tool-use and domain
+ * shift) used to spawn `node ace_search_helper.js` and pay a Node +
+ * @ace-sdk/core cold start on each call. The extension now runs
+ * ace_search_daemon.js (SearchDaemonHost) on a per-user Unix socket — a
+ * named pipe on Windows — with a warm AceClient per project and an in-memory
+ * LRU in front of the shared on-disk result cache (src/ace/searchCache.ts).
+ *
+ * Protocol: plain HTTP over the socket.
+ *   GET  /health                       → {"ok":true,"pid":…,"cached":…}
+ *   POST /search {"query","cwd"}        → exactly what the helper prints,
+ *        with the helper's exit code as the status (see RC_TO_STATUS).
+ *        An optional "allowed_domains" array narrows the search, like the
+ *        helper's third argument.
+ *
+ * The ace_hook.js dispatcher reaches it through searchViaDaemon() and spawns
+ * the helper as before whenever the daemon is down, so nothing depends on it
+ * being up.
+ *
+ * No vscode, no SDK — the daemon loads @ace-sdk/core itself.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { getRedactionEngineJs } from './redaction';
+import { getMirrorSearchJs } from './patternMirror';
+import { getSearchCacheJs } from './searchCache';
+
+export const SEARCH_DAEMON_SCRIPT = 'ace_search_daemon.js';
+
+/** Helper exit code → HTTP status. Anything else means "ask the helper". */
+export const RC_TO_STATUS: Record<number, number> = { 0: 200, 2: 401, 3: 502, 4: 504, 5: 500 };
+
+const CACHE_MAX_ENTRIES = 200;
+// Config (and with it the token) is re-read at least this often.
+const CLIENT_TTL_MS = 10 * 60 * 1000;
+
+function userTag(): string {
+	let name = '';
+	try {
+		name = os.userInfo().username;
+	} catch {
+		// No passwd entry (containers) — fall back to the environment.
+	}
+	name = name || process.env.USER || process.env.USERNAME || 'user';
+	return name.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
+
+/** Named pipe name for Windows, without the `\\.\pipe\` prefix. */
+export function getSearchDaemonPipeName(): string {
+	return `ace-search-${userTag()}`;
+}
+
+/**
+ * Where the daemon listens: ~/.config/ace/run/search.sock (directory kept
+ * 0700), or `\\.\pipe\ace-search-<user>` on Windows.
+ */
+export function getSearchDaemonSocketPath(platform: NodeJS.Platform = process.platform, home = os.homedir()): string {
+	if (platform === 'win32') {
+		return `\\\\.\\pipe\\${getSearchDaemonPipeName()}`;
+	}
+	return path.join(home, '.config', 'ace', 'run', 'search.sock');
+}
+
+/** True when a daemon answers /health on `socketPath` within `timeoutMs`. */
+export function pingSearchDaemon(socketPath: string, timeoutMs = 500): Promise<boolean> {
+	if (process.platform !== 'win32' && !fs.existsSync(socketPath)) {
+		return Promise.resolve(false);
+	}
+	return new Promise(resolve => {
+		const req = http.get({ socketPath, path: '/health', timeout: timeoutMs }, res => {
+			res.resume();
+			resolve(res.statusCode === 200);
+		});
+		req.on('timeout', () => req.destroy());
+		req.on('error', () => resolve(false));
+	});
+}
+
+/**
+ * ace_search_daemon.js. Usage: `node ace_search_daemon.js <socket>`.
+ *
+ * Exits when its stdin closes, so it never outlives the extension host that
+ * spawned it. A second daemon started on a socket that is already being
+ * served exits quietly; a stale socket file left by a crash is replaced.
+ */
+export function getSearchDaemonContent(): string {
+	return `#!/usr/bin/env node
+// ACE search daemon — warm twin of ace_search_helper.js (generated from
+// src/ace/searchDaemon.ts). Spawned and owned by the ACE extension.
+// POST /search {"query","cwd","allowed_domains"?} → helper stdout; status = helper exit code
+// (200=0, 401=2, 502=3, 504=4, 500=5). GET /health for liveness.
+
+'use strict';
+
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const net = require('net');
+
+${getRedactionEngineJs()}
+
+${getMirrorSearchJs()}
+
+${getSearchCacheJs()}
+
+const SOCKET = process.argv[2];
+if (!SOCKET) { process.stderr.write('usage: ace_search_daemon.js <socket>\\n'); process.exit(1); }
+const IS_PIPE = process.platform === 'win32';
+const RC_TO_STATUS = ${JSON.stringify(RC_TO_STATUS)};
+const CACHE_MAX_ENTRIES = ${CACHE_MAX_ENTRIES};
+const CLIENT_TTL_MS = ${CLIENT_TTL_MS};
+
+function log(msg) { process.stderr.write('[ace-search-daemon] ' + msg + '\\n'); }
+
+// In-memory LRU in front of the on-disk search cache, keyed the same way.
+// Map keeps insertion order, so re-inserting on a hit moves the entry to the
+// back and the front is always least recently used.
+const cache = new Map();
+function cacheGet(key, ttlMs) {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  cache.delete(key);
+  if (Date.now() - entry.at > ttlMs) return undefined;
+  cache.set(key, entry);
+  return entry.body;
+}
+function cacheSet(key, body) {
+  cache.delete(key);
+  cache.set(key, { body, at: Date.now() });
+  while (cache.size > CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value);
+}
+
+// Warm clients per workspace .cursor/ace dir.
+const clients = new Map();
+
+function readWorkspaceEnv(aceDir) {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(aceDir, 'settings.json'), 'utf-8'));
+    return (parsed && parsed.env) || {};
+  } catch (_) {
+    return {};
+  }
+}
+
+async function getClient(aceDir) {
+  const cached = clients.get(aceDir);
+  if (cached && Date.now() - cached.at < CLIENT_TTL_MS) return cached;
+  clients.delete(aceDir);
+  const { loadConfig, AceClient } = require('@ace-sdk/core');
+  const config = await loadConfig();
+  if (!config) return null;
+  // Same precedence as the learn helper: the daemon serves every workspace,
+  // so the project comes from that workspace's settings.json, then env,
+  // then the config's defaults.
+  const workspaceEnv = readWorkspaceEnv(aceDir);
+  if (!config.orgId) {
+    config.orgId = workspaceEnv.ACE_ORG_ID || process.env.ACE_ORG_ID
+      || config.default_org_id || config.defaultOrgId || '';
+  }
+  if (!config.projectId) {
+    config.projectId = workspaceEnv.ACE_PROJECT_ID || process.env.ACE_PROJECT_ID
+      || config.default_project_id || config.defaultProjectId || '';
+  }
+  const threshold = (config.search_threshold !== undefined && config.search_threshold !== null)
+    ? config.search_threshold
+    : ((config.constitution_threshold !== undefined && config.constitution_threshold !== null)
+      ? config.constitution_threshold
+      : 0.85);
+  const entry = {
+    client: new AceClient(config),
+    threshold,
+    top_k: config.search_top_k || 5,
+    projectId: config.projectId,
+    at: Date.now(),
+  };
+  clients.set(aceDir, entry);
+  return entry;
+}
+
+// Same taxonomy as ace_search_helper.js.
+function classify(err) {
+  try {
+    const sdk = require('@ace-sdk/core');
+    if (sdk.isTokenExpiredError && sdk.isTokenExpiredError(err)) return 2;
+    if (err instanceof sdk.AceApiError) return (err.status || 0) >= 500 ? 3 : 4;
+  } catch (_) { /* fall through */ }
+  const name = (err && err.name) || '';
+  if (/TokenExpired/i.test(name)) return 2;
+  if (/AceApiError/i.test(name)) return 3;
+  if (/Network|Timeout|ECONN|ETIMEDOUT/i.test(String(err && err.message || err))) return 4;
+  return 5;
+}
+
+async function search(rawQuery, cwd, allowedDomains) {
+  const aceDir = path.join(cwd, '.cursor', 'ace');
+  const query = aceRedactString(String(rawQuery || ''), aceLoadRedactors(aceDir)).slice(0, 500);
+  if (!query) return { rc: 0, body: '{}' };
+  try {
+    const entry = await getClient(aceDir);
+    if (!entry) return { rc: 0, body: '{}' };
+    const ttlMs = aceSearchCacheTtlMs(aceDir);
+    const key = aceSearchCacheKey(query, entry.threshold, entry.top_k, entry.projectId, allowedDomains);
+    if (ttlMs > 0) {
+      let hit = cacheGet(key, ttlMs);
+      if (hit === undefined) {
+        const onDisk = aceReadSearchCache(aceDir, key, ttlMs);
+        if (onDisk !== undefined) hit = JSON.stringify(onDisk);
+      }
+      aceCountSearchCache(aceDir, hit !== undefined);
+      if (hit !== undefined) { cacheSet(key, hit); return { rc: 0, body: hit }; }
+    }
+    const result = await entry.client.searchPatterns({
+      query,
+      threshold: entry.threshold,
+      top_k: entry.top_k,
+      include_metadata: false,
+      agent_type: 'cursor',
+      ...(allowedDomains.length > 0 ? { allowed_domains: allowedDomains } : {}),
+    });
+    const body = JSON.stringify(result || {});
+    if (ttlMs > 0) {
+      cacheSet(key, body);
+      aceWriteSearchCache(aceDir, key, result || {}, ttlMs);
+    }
+    return { rc: 0, body };
+  } catch (err) {
+    // Re-read config next time — a re-login or project switch fixes most errors.
+    clients.delete(aceDir);
+    const rc = classify(err);
+    let body = '';
+    if (rc === 3 || rc === 4) {
+      const local = aceSearchLocalMirror(aceDir, query, 5);
+      if (local) body = JSON.stringify(local);
+    }
+    return { rc, body };
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) });
+  res.end(body);
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/health') {
+    send(res, 200, JSON.stringify({ ok: true, pid: process.pid, cached: cache.size }));
+    return;
+  }
+  if (req.method !== 'POST' || req.url !== '/search') { send(res, 404, ''); return; }
+  let raw = '';
+  req.setEncoding('utf-8');
+  req.on('data', (chunk) => {
+    raw += chunk;
+    if (raw.length > 1000000) req.destroy();
+  });
+  req.on('end', () => {
+    let body = null;
+    try { body = JSON.parse(raw); } catch (_) { /* handled below */ }
+    if (!body || typeof body.cwd !== 'string' || !path.isAbsolute(body.cwd)) { send(res, 400, ''); return; }
+    const allowedDomains = Array.isArray(body.allowed_domains)
+      ? body.allowed_domains.filter((d) => typeof d === 'string' && d) : [];
+    search(body.query, body.cwd, allowedDomains).then(
+      (out) => send(res, RC_TO_STATUS[out.rc] || 500, out.body),
+      (err) => { log('search failed: ' + (err && err.message || err)); send(res, 500, ''); }
+    );
+  });
+});
+
+let listening = false;
+
+function shutdown() {
+  if (listening && !IS_PIPE) { try { fs.unlinkSync(SOCKET); } catch (_) {} }
+  process.exit(0);
+}
+
+server.on('listening', () => {
+  listening = true;
+  if (!IS_PIPE) { try { fs.chmodSync(SOCKET, 0o600); } catch (_) {} }
+  log('listening on ' + SOCKET + ' pid=' + process.pid);
+});
+
+server.on('error', (err) => {
+  if (err.code !== 'EADDRINUSE' || IS_PIPE) {
+    // On Windows EADDRINUSE means another daemon already owns the pipe.
+    log('listen failed: ' + err.message);
+    process.exit(err.code === 'EADDRINUSE' ? 0 : 1);
+  }
+  // A live daemon accepts the connection; a socket file left by a crash refuses it.
+  const probe = net.connect(SOCKET);
+  probe.once('connect', () => { probe.destroy(); log('another daemon is serving ' + SOCKET); process.exit(0); });
+  probe.once('error', () => {
+    try { fs.unlinkSync(SOCKET); } catch (_) {}
+    server.listen(SOCKET);
+  });
+});
+
+if (!IS_PIPE) {
+  const dir = path.dirname(SOCKET);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  try { fs.chmodSync(dir, 0o700); } catch (_) {}
+}
+server.listen(SOCKET);
+
+// Owned by the extension host: stdin closes when it goes away.
+process.stdin.on('end', shutdown);
+process.stdin.on('close', shutdown);
+process.stdin.resume();
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+`;
+}
+
+/** HTTP status → helper exit code; the inverse of RC_TO_STATUS. */
+const STATUS_TO_RC: Record<number, number> = Object.fromEntries(
+	Object.entries(RC_TO_STATUS).map(([rc, status]) => [status, Number(rc)])
+);
+
+/**
+ * Client the ace_hook.js dispatcher uses. Resolves with what the helper
+ * would print and its exit code, or undefined when no daemon answers and the
+ * caller should spawn the helper instead. A daemon that takes longer than
+ * `timeoutMs` counts as a network error (rc 4) rather than costing another
+ * helper timeout.
+ */
+export function searchViaDaemon(
+	socketPath: string,
+	query: string,
+	cwd: string,
+	timeoutMs = 8000,
+	allowedDomains: string[] = []
+): Promise<{ rc: number; stdout: string } | undefined> {
+	if (process.platform !== 'win32' && !fs.existsSync(socketPath)) {
+		return Promise.resolve(undefined);
+	}
+	return new Promise(resolve => {
+		let timedOut = false;
+		const req = http.request({ socketPath, path: '/search', method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+			let body = '';
+			res.setEncoding('utf-8');
+			res.on('data', chunk => { body += chunk; });
+			res.on('end', () => {
+				const rc = STATUS_TO_RC[res.statusCode ?? 0];
+				if (rc === undefined) resolve(undefined);
+				// 401 and 500 carry no payload, same as the helper's stdout.
+				else resolve({ rc, stdout: rc === 2 || rc === 5 ? '' : body });
+			});
+			res.on('error', () => resolve(timedOut ? { rc: 4, stdout: '' } : undefined));
+		});
+		req.setTimeout(timeoutMs, () => {
+			timedOut = true;
+			req.destroy();
+		});
+		req.on('error', () => resolve(timedOut ? { rc: 4, stdout: '' } : undefined));
+		req.end(JSON.stringify(allowedDomains.length > 0 ? { query, cwd, allowed_domains: allowedDomains } : { query, cwd }));
+	});
+}
@@ -0,0 +1,389 @@
+/**
+ * Task history for the "Task History" view — one entry per conversation
+ * folder under .cursor/ace/tasks/<conv_id>/.
+ *
+ * Summaries come from the folder itself (mcp_trajectory.jsonl, gate flags,
+ * .last-domain markers, the transcript_path the Stop hook records) plus the
+ * learn outcome parsed from ace-stop-debug.log. The timeline is rebuilt with
+ * a TypeScript twin of the learn helper's merge (v05Helpers.ts
+ * getLearnHelperContent): transcript tool_use blocks in order, MCP results
+ * matched by (tool_name, canonical args) with a same-tool fallback; without a
+ * transcript, mcp_trajectory.jsonl alone.
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { injectedPatternsFromTrajectory } from './patternFeedback';
+import { describeHelperExitCode } from './diagnosticHelpers';
+import { PENDING_TRACE_FILE } from './pendingTrace';
+
+export type LearnStatus = {
+	state: 'stored' | 'skipped' | 'failed' | 'running' | 'pending';
+	/** Skip reason or helper exit description. */
+	detail: string;
+	timestamp: string;
+};
+
+export type TaskSummary = {
+	id: string;
+	dir: string;
+	/** Earliest timestamp seen in the trajectory, else the folder mtime. */
+	startedAt: string;
+	updatedAtMs: number;
+	firstPrompt: string;
+	toolCalls: number;
+	/** Unique patterns returned by ace_search in this task. */
+	patternsInjected: number;
+	/** Generations where the pre-tool-use hook injected patterns. */
+	injections: number;
+	domains: string[];
+	transcriptPath?: string;
+	learn?: LearnStatus;
+};
+
+export type TimelineStep = {
+	step: number;
+	action: string;
+	args: Record<string, unknown>;
+	result: string;
+	/** 'transcript' when ordered by the Cursor transcript, else 'mcp'. */
+	source: 'transcript' | 'mcp';
+};
+
+export type TaskTimeline = {
+	task: string;
+	lastReply: string;
+	steps: TimelineStep[];
+};
+
+// Same cap as the learn helper.
+const MAX_RESULT_CHARS = 2000;
+const MAX_PROMPT_CHARS = 300;
+
+function readLines(file: string): string[] {
+	try {
+		return fs.readFileSync(file, 'utf-8').split('\n').filter(l => l.trim().length > 0);
+	} catch {
+		return [];
+	}
+}
+
+function parseLine(line: string): Record<string, any> | null {
+	try {
+		const v = JSON.parse(line);
+		return v && typeof v === 'object' ? v : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Latest learn outcome per conversation from ace-stop-debug.log.
+ * STOP_FIRED/STOP_SKIP lines carry conv=; helper_start/helper_done don't,
+ * so they're attributed to the most recent STOP_FIRED. A helper run that
+ * parked its trace for review stays 'pending' until REVIEW_SENT or
+ * REVIEW_DISCARDED (written by the extension) shows up for that conv.
+ * Failed uploads queued in the outbox turn 'stored' on OUTBOX_SENT, or stay
+ * 'failed' with the reason on OUTBOX_PARKED.
+ */
+export function parseLearnStatuses(logText: string): Map<string, LearnStatus> {
+	const out = new Map<string, LearnStatus>();
+	let current = '';
+	let parked = false;
+	let queued = false;
+	for (const raw of logText.split('\n')) {
+		const line = raw.trim();
+		if (!line) continue;
+		const timestamp = line.split(' ')[0];
+		const conv = line.match(/\bconv=(\S*)/)?.[1] ?? '';
+		if (/\bSTOP_FIRED\b/.test(line)) {
+			current = conv;
+			parked = false;
+			queued = false;
+			continue;
+		}
+		if (/\bOUTBOX_SENT\b/.test(line) && conv) {
+			out.set(conv, { state: 'stored', detail: 'sent from outbox', timestamp });
+			continue;
+		}
+		const parkedUpload = line.match(/\bOUTBOX_PARKED\b.*\breason=(\S+)/);
+		if (parkedUpload && conv) {
+			out.set(conv, { state: 'failed', detail: `outbox gave up (${parkedUpload[1].replace(/_/g, ' ')})`, timestamp });
+			continue;
+		}
+		const review = line.match(/\bREVIEW_(SENT|DISCARDED)\b/);
+		if (review && conv) {
+			out.set(conv, review[1] === 'SENT'
+				? { state: 'stored', detail: 'sent after review', timestamp }
+				: { state: 'skipped', detail: 'discarded in review', timestamp });
+			continue;
+		}
+		const skip = line.match(/\bSTOP_SKIP reason=(\S+)/);
+		if (skip) {
+			const target = conv || current;
+			if (target) out.set(target, { state: 'skipped', detail: skip[1], timestamp });
+			continue;
+		}
+		if (!current) continue;
+		if (/\bpending_review\b/.test(line)) {
+			parked = true;
+			continue;
+		}
+		if (/\boutbox_saved\b/.test(line)) {
+			queued = true;
+			continue;
+		}
+		if (/\bhelper_start\b/.test(line)) {
+			out.set(current, { state: 'running', detail: 'helper started', timestamp });
+			continue;
+		}
+		const done = line.match(/\bhelper_done rc=(\d+)/);
+		if (done) {
+			const rc = parseInt(done[1], 10);
+			if (rc === 0 && parked) {
+				out.set(current, { state: 'pending', detail: 'waiting for review', timestamp });
+			} else {
+				out.set(current, rc === 0
+					? { state: 'stored', detail: 'trace stored', timestamp }
+					: { state: 'failed', detail: describeHelperExitCode(rc) + (queued ? ' — queued for retry' : ''), timestamp });
+			}
+		}
+	}
+	return out;
+}
+
+function textOf(entry: Record<string, any>): { role: string; text: string; content: any[] | null } {
+	const role = entry.role || entry.message?.role || '';
+	const content = Array.isArray(entry.message?.content)
+		? entry.message.content
+		: (Array.isArray(entry.content) ? entry.content : null);
+	let text = '';
+	if (Array.isArray(content)) {
+		text = content.filter(c => c && c.type === 'text').map(c => String(c.text || '')).join(' ');
+	} else if (typeof entry.content === 'string') {
+		text = entry.content;
+	}
+	return { role, text, content };
+}
+
+function firstUserPrompt(transcriptLines: string[]): string {
+	for (const line of transcriptLines) {
+		const entry = parseLine(line);
+		if (!entry) continue;
+		const { role, text } = textOf(entry);
+		if (role === 'user' && text.trim()) return text.trim();
+	}
+	return '';
+}
+
+function readTranscriptPath(dir: string): string | undefined {
+	try {
+		const p = fs.readFileSync(path.join(dir, 'transcript_path'), 'utf-8').trim();
+		return p || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Summarise one task folder. Returns null when the folder doesn't exist.
+ */
+export function summarizeTask(tasksDir: string, id: string, learn?: LearnStatus): TaskSummary | null {
+	const dir = path.join(tasksDir, id);
+	let st: fs.Stats;
+	let names: string[];
+	try {
+		st = fs.statSync(dir);
+		if (!st.isDirectory()) return null;
+		names = fs.readdirSync(dir);
+	} catch {
+		return null;
+	}
+
+	const lines = readLines(path.join(dir, 'mcp_trajectory.jsonl'));
+	let preToolUse = 0;
+	let mcpResults = 0;
+	let earliest = '';
+	let searchQuery = '';
+	for (const line of lines) {
+		const entry = parseLine(line);
+		if (!entry) continue;
+		const ts = typeof entry.timestamp === 'string' ? entry.timestamp : '';
+		if (ts && (!earliest || ts < earliest)) earliest = ts;
+		if (entry.event === 'pre_tool_use') {
+			preToolUse++;
+		} else if (entry.tool_name && entry.event !== 'before_mcp') {
+			mcpResults++;
+			if (!searchQuery && /ace_search/i.test(String(entry.tool_name))) {
+				let input = entry.tool_input;
+				try { input = typeof input === 'string' ? JSON.parse(input) : input; } catch { /* keep raw */ }
+				searchQuery = typeof input?.query === 'string' ? input.query : '';
+			}
+		}
+	}
+
+	const transcriptPath = readTranscriptPath(dir);
+	const prompt = (transcriptPath ? firstUserPrompt(readLines(transcriptPath)) : '') || searchQuery;
+
+	const domains = new Set<string>();
+	for (const name of names.filter(n => n.endsWith('.last-domain'))) {
+		try {
+			const d = fs.readFileSync(path.join(dir, name), 'utf-8').trim();
+			if (d) domains.add(d);
+		} catch { /* ignore */ }
+	}
+
+	return {
+		id,
+		dir,
+		startedAt: earliest || st.mtime.toISOString(),
+		updatedAtMs: st.mtimeMs,
+		firstPrompt: prompt.replace(/\s+/g, ' ').slice(0, MAX_PROMPT_CHARS),
+		// preToolUse fires for every tool; older tasks only have MCP results.
+		toolCalls: preToolUse > 0 ? preToolUse : mcpResults,
+		patternsInjected: injectedPatternsFromTrajectory(lines).length,
+		injections: names.filter(n => n.endsWith('.patterns-injected')).length,
+		domains: Array.from(domains).sort(),
+		transcriptPath,
+		// The file is the source of truth — the log may have been rotated.
+		learn: names.includes(PENDING_TRACE_FILE)
+			? { state: 'pending', detail: 'waiting for review', timestamp: learn?.timestamp ?? '' }
+			: learn,
+	};
+}
+
+/**
+ * Every task under <aceDir>/tasks, most recently touched first.
+ */
+export function listTaskHistory(aceDir: string): TaskSummary[] {
+	const tasksDir = path.join(aceDir, 'tasks');
+	let ids: string[];
+	try {
+		ids = fs.readdirSync(tasksDir);
+	} catch {
+		return [];
+	}
+	let learn = new Map<string, LearnStatus>();
+	try {
+		learn = parseLearnStatuses(fs.readFileSync(path.join(aceDir, 'ace-stop-debug.log'), 'utf-8'));
+	} catch { /* no Stop hook runs yet */ }
+
+	const out: TaskSummary[] = [];
+	for (const id of ids) {
+		const summary = summarizeTask(tasksDir, id, learn.get(id));
+		if (summary) out.push(summary);
+	}
+	return out.sort((a, b) => b.updatedAtMs - a.updatedAtMs);
+}
+
+function canonicalArgs(obj: unknown): string {
+	try {
+		if (obj === null || obj === undefined) return '';
+		if (typeof obj !== 'object') return JSON.stringify(obj);
+		const sorted: Record<string, unknown> = {};
+		for (const k of Object.keys(obj as object).sort()) sorted[k] = (obj as Record<string, unknown>)[k];
+		return JSON.stringify(sorted);
+	} catch {
+		return '';
+	}
+}
+
+function parseArgs(raw: unknown): Record<string, unknown> {
+	try {
+		const v = typeof raw === 'string' ? JSON.parse(raw) : raw;
+		return v && typeof v === 'object' ? v as Record<string, unknown> : {};
+	} catch {
+		return {};
+	}
+}
+
+function resultOf(entry: Record<string, any>): string {
+	let s = '';
+	if (entry.result_json) {
+		s = typeof entry.result_json === 'string' ? entry.result_json : JSON.stringify(entry.result_json);
+	} else if (typeof entry.tool_output === 'string') {
+		s = entry.tool_output;
+	}
+	return s.length > MAX_RESULT_CHARS ? s.slice(0, MAX_RESULT_CHARS) + '…' : s;
+}
+
+function isMcpToolName(name: string): boolean {
+	return /^(ace_|CallMcpTool$|mcp[_:])/i.test(name);
+}
+
+/**
+ * Rebuild a task's steps the way the learn helper does.
+ */
+export function buildTaskTimeline(convId: string, trajectoryLines: string[], transcriptLines: string[] | null): TaskTimeline {
+	const entries = trajectoryLines
+		.map(parseLine)
+		.filter((e): e is Record<string, any> => !!e && e.conversation_id === convId && !!e.tool_name);
+
+	const byFingerprint = new Map<string, string[]>();
+	const byTool = new Map<string, string[]>();
+	for (const e of entries) {
+		const result = resultOf(e);
+		const fp = `${e.tool_name}\u0001${canonicalArgs(parseArgs(e.tool_input))}`;
+		if (!byFingerprint.has(fp)) byFingerprint.set(fp, []);
+		byFingerprint.get(fp)!.push(result);
+		const tk = String(e.tool_name);
+		if (!byTool.has(tk)) byTool.set(tk, []);
+		byTool.get(tk)!.push(result);
+	}
+	const popResult = (tool: string, args: Record<string, unknown>): string => {
+		const exact = byFingerprint.get(`${tool}\u0001${canonicalArgs(args)}`);
+		if (exact && exact.length > 0) return exact.shift()!;
+		const same = byTool.get(tool);
+		if (same && same.length > 0) return same.shift()!;
+		return '';
+	};
+
+	let task = '';
+	let lastReply = '';
+	const steps: TimelineStep[] = [];
+	for (const line of transcriptLines ?? []) {
+		const entry = parseLine(line);
+		if (!entry) continue;
+		const { role, text, content } = textOf(entry);
+		if (role === 'user' && !task) task = text;
+		if (role === 'assistant' && text) lastReply = text;
+		if (!Array.isArray(content)) continue;
+		for (const block of content) {
+			if (!block || block.type !== 'tool_use') continue;
+			const action = String(block.name || '').slice(0, 200);
+			const args = block.input !== undefined && block.input !== null
+				? (typeof block.input === 'object' ? block.input : { raw: String(block.input) })
+				: {};
+			steps.push({
+				step: steps.length + 1,
+				action,
+				args,
+				result: isMcpToolName(action) ? popResult(action, args) : '',
+				source: 'transcript',
+			});
+		}
+	}
+
+	if (steps.length === 0) {
+		for (const e of entries) {
+			steps.push({
+				step: steps.length + 1,
+				action: String(e.tool_name).slice(0, 200),
+				args: parseArgs(e.tool_input),
+				result: resultOf(e),
+				source: 'mcp',
+			});
+		}
+	}
+
+	return { task: task.slice(0, 1000), lastReply: lastReply.slice(-2000), steps };
+}
+
+/** Read a task's files and rebuild its timeline. */
+export function loadTaskTimeline(task: Pick<TaskSummary, 'id' | 'dir' | 'transcriptPath'>): TaskTimeline {
+	const trajectory = readLines(path.join(task.dir, 'mcp_trajectory.jsonl'));
+	const transcript = task.transcriptPath ? readLines(task.transcriptPath) : [];
+	return buildTaskTimeline(task.id, trajectory, transcript.length > 0 ? transcript : null);
+}
@@ -18,6 +18,10 @@
 export type AceUiUpdate = {
 	statusBarText: string;
 	outputLine: string;
+	/** Set on ace_learn success so the Pattern Explorer can refresh. */
+	learnStored?: boolean;
+	/** Set on ace_search success so the Injected Patterns view can refresh. */
+	searchCompleted?: boolean;
 };
 
 function ts(): string {
@@ -122,6 +126,7 @@ export function trajectoryLineToUiUpdate(line: string): AceUiUpdate | null {
 		return {
 			statusBarText: `$(check) ACE: ${count} pattern${count === 1 ? '' : 's'}`,
 			outputLine: `[${ts()}] ace_search → ${count} patterns${origPart}`,
+			searchCompleted: true,
 		};
 	}
 
@@ -129,5 +134,6 @@ export function trajectoryLineToUiUpdate(line: string): AceUiUpdate | null {
 	return {
 		statusBarText: '$(check) ACE: trace stored',
 		outputLine: `[${ts()}] ace_learn → stored`,
+		learnStored: true,
 	};
 }
@@ -1,9 +1,10 @@
 /**
- * Pure helpers for ACE uninstall cleanup.
+ * Pure helpers for the ACE-owned entries of hooks.json.
  *
- * The interactive command lives in extension.ts. This module contains
- * the unit-testable filter logic that removes ace_* hook entries from
- * a parsed hooks.json while preserving user customizations.
+ * The interactive commands live in extension.ts. This module contains
+ * the unit-testable logic that removes ace_* hook entries from a parsed
+ * hooks.json on uninstall, and upserts them on install, while preserving
+ * user customizations.
  */
 
 interface HookEntry {
@@ -17,12 +18,42 @@ interface HooksJson {
 	[key: string]: unknown;
 }
 
+export interface HooksMergeResult {
+	hooksJson: HooksJson;
+	/** `event: command` of ACE entries written that were not there before. */
+	added: string[];
+	/** `event: command` of ACE entries dropped or replaced. */
+	removed: string[];
+	/** Non-ACE entries carried over unchanged. */
+	foreignKept: number;
+}
+
+/**
+ * The bundled dispatcher (".../dist/hooks/ace_hook.js") or a legacy
+ * per-event script (".cursor/scripts/ace_*.sh|.ps1"), matched on a path
+ * boundary so foreign scripts such as "trace_dump.sh" or
+ * "workspace_ace_sync.sh" are left alone.
+ */
+const ACE_HOOK_COMMAND_RE =
+	/(?:^|[\\/])dist[\\/]hooks[\\/]ace_hook\.js(?=$|[\s"'])|(?:^|[\\/\s"'])ace_[a-z0-9_]+\.(?:sh|ps1)(?=$|[\s"'])/i;
+
+/** True when a hooks.json command runs one of ACE's hooks. */
+export function isAceHookCommand(command: string): boolean {
+	return ACE_HOOK_COMMAND_RE.test(command);
+}
+
+/** An entry is ACE-owned iff its command runs one of ACE's hooks. */
+function isAceEntry(entry: unknown): boolean {
+	return !!entry && typeof entry === 'object' && isAceHookCommand(String((entry as HookEntry).command ?? ''));
+}
+
 /**
  * Return a new HooksJson object with ace_* hook entries filtered out.
  * Pure: does not mutate the input.
  *
- * - An entry is "ace" iff its command references an "ace_" prefix (e.g.
- *   ".cursor/scripts/ace_session_start.sh", "ace_stop_hook.sh").
+ * - An entry is "ace" iff its command runs the hook dispatcher or a legacy
+ *   ace_* script (e.g. ".cursor/scripts/ace_session_start.sh"); see
+ *   isAceHookCommand.
  * - Hook keys with zero entries after filtering are deleted (Cursor
  *   loads empty arrays as no-op but cleaner files are easier to read).
  * - Top-level keys other than "hooks" are preserved verbatim.
@@ -32,7 +63,7 @@ export function removeAceHooksFromHooksJson(input: HooksJson): HooksJson {
 	if (!input.hooks) return out;
 	const newHooks: Record<string, HookEntry[]> = {};
 	for (const [key, entries] of Object.entries(input.hooks)) {
-		const filtered = entries.filter(e => !String(e.command ?? '').includes('ace_'));
+		const filtered = entries.filter(e => !isAceEntry(e));
 		if (filtered.length > 0) {
 			newHooks[key] = filtered;
 		}
@@ -40,3 +71,52 @@ export function removeAceHooksFromHooksJson(input: HooksJson): HooksJson {
 	out.hooks = newHooks;
 	return out;
 }
+
+/**
+ * Upsert ACE's hook entries into a parsed hooks.json (undefined or any
+ * non-object is treated as empty) — the reverse of
+ * removeAceHooksFromHooksJson. Pure: does not mutate the input.
+ *
+ * - Per event, the old ACE entries are replaced by the expected ones at the
+ *   position of the first old one, or appended when the event had none.
+ * - Foreign entries keep their order; events ACE doesn't use keep their
+ *   foreign entries and lose only ACE ones (dropped when left empty).
+ * - Top-level keys other than "hooks" are preserved; "version" defaults to
+ *   the expected config's.
+ */
+export function mergeAceHooksIntoHooksJson(input: unknown, expected: Required<Pick<HooksJson, 'version' | 'hooks'>>): HooksMergeResult {
+	const base: HooksJson = input && typeof input === 'object' && !Array.isArray(input) ? input as HooksJson : {};
+	const result: HooksMergeResult = { hooksJson: { version: expected.version, ...base }, added: [], removed: [], foreignKept: 0 };
+	const oldHooks: Record<string, unknown> = base.hooks && typeof base.hooks === 'object' ? base.hooks : {};
+	const newHooks: Record<string, HookEntry[]> = {};
+	const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+	const events = [...Object.keys(oldHooks), ...Object.keys(expected.hooks).filter(e => !(e in oldHooks))];
+	for (const event of events) {
+		const old: HookEntry[] = Array.isArray(oldHooks[event]) ? oldHooks[event] as HookEntry[] : [];
+		const want = expected.hooks[event] ?? [];
+		const oldAce = old.filter(isAceEntry);
+		for (const entry of want) {
+			if (!oldAce.some(o => same(o, entry))) result.added.push(`${event}: ${entry.command}`);
+		}
+		for (const entry of oldAce) {
+			if (!want.some(w => same(w, entry))) result.removed.push(`${event}: ${String(entry.command)}`);
+		}
+
+		const merged: HookEntry[] = [];
+		let placed = false;
+		for (const entry of old) {
+			if (!isAceEntry(entry)) {
+				merged.push(entry);
+				result.foreignKept++;
+			} else if (!placed) {
+				merged.push(...want);
+				placed = true;
+			}
+		}
+		if (!placed) merged.push(...want);
+		if (merged.length > 0) newHooks[event] = merged;
+	}
+	result.hooksJson.hooks = newHooks;
+	return result;
+}
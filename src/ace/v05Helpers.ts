@@ -2,10 +2,15 @@
  * v0.5.0 helpers — Stop-hook ace_learn (TASK 1) + domain-shift inject (TASK 3).
  *
  * Kept in a separate file from hookScripts.ts to keep the SDK helper templates
- * focused on search-time injection. These templates are written to disk by
- * extension.ts at activation/initialization.
+ * focused on search-time injection. The learn helper is written to disk by
+ * extension.ts at activation/initialization; the Stop and domain-shift hooks
+ * themselves run in the ace_hook.js dispatcher (src/hooks/handlers.ts).
  */
 
+import { getRedactionEngineJs } from './redaction';
+import { getPatternAttributionJs } from './patternAttribution';
+import { type DomainRuleSet, matchDomain } from './domainRules';
+
 // ===========================================================================
 // TASK 1 — server-side ace_learn from Stop hook
 // ===========================================================================
@@ -20,7 +25,8 @@
  *   transcript_path  — optional Cursor transcript JSONL (for task + last reply)
  *
  * Stable exit codes:
- *   0  trace stored OK
+ *   0  trace stored OK (or parked in tasks/<conv>/pending-trace.json when
+ *      runtime-settings.json has reviewTracesBeforeUpload: true)
  *   2  TokenExpiredError
  *   3  AceApiError 5xx
  *   4  network/timeout/other recoverable
@@ -28,7 +34,12 @@
  *
  * Side effect: writes .cursor/ace/ace-review-result.json with
  *   { helpful_pct, time_saved_min, reason, timestamp }
- * so the next prompt's pre-tool-use hook can render <ace-roi/>.
+ * so the next prompt's pre-tool-use hook can render <ace-roi/>; the agent's
+ * ace_report_pattern_use report (tasks/<conv>/pattern_use.jsonl) supplies
+ * time_saved_min when present and rides along as trace.pattern_use. On rc 3 and
+ * network rc 4 the built trace is queued in .cursor/ace/outbox/<conv>.json
+ * for the extension to retry (see outbox.ts). Secrets are redacted from the
+ * trace before any of that (see redaction.ts).
  */
 export function getLearnHelperContent(): string {
 	return `#!/usr/bin/env node
@@ -71,6 +82,10 @@ const path = require('path');
 const os = require('os');
 const childProc = require('child_process');
 
+${getRedactionEngineJs()}
+
+${getPatternAttributionJs()}
+
 // HOME may be empty when Cursor strips the env. Fall back to os.homedir() so
 // loadConfig() can find ~/.config/ace/config.json.
 if (!process.env.HOME) {
@@ -104,6 +119,15 @@ function debugLogPath(jsonlPath) {
   return path.join(cwdAce, 'ace-stop-debug.log');
 }
 
+// .cursor/ace/ for a top-level or per-conv (tasks/<conv>/) jsonl path.
+function aceRootDir(jsonlPath) {
+  let dir = path.dirname(jsonlPath);
+  if (['tasks', 'sessions'].includes(path.basename(path.dirname(dir)))) {
+    dir = path.dirname(path.dirname(dir));
+  }
+  return dir;
+}
+
 function debugLog(jsonlPath, msg) {
   try {
     const p = debugLogPath(jsonlPath);
@@ -154,6 +178,39 @@ function unwrapAceSearchResultJson(rawResultJson) {
   const convId = String(process.argv[2] || '');
   const jsonlPath = String(process.argv[3] || '');
   const transcriptPath = String(process.argv[4] || '');
+  // Set once the trace is built so a failed upload can be queued for retry.
+  let builtTrace = null;
+
+  // Offline outbox: park a trace that failed with a retriable error (5xx or
+  // network) in .cursor/ace/outbox/<conv>.json. The extension retries it with
+  // exponential backoff. A later Stop for the same conv overwrites it, or
+  // removes it once its upload succeeds — each trace covers the whole
+  // conversation so far.
+  function outboxPath() {
+    return path.join(aceRootDir(jsonlPath), 'outbox', convId.replace(/[^A-Za-z0-9._-]/g, '_') + '.json');
+  }
+  function queueForRetry(errorClass, errMsg) {
+    if (!builtTrace || !jsonlPath) return;
+    try {
+      const outPath = outboxPath();
+      fs.mkdirSync(path.dirname(outPath), { recursive: true });
+      const now = new Date().toISOString();
+      const entry = {
+        conv_id: convId,
+        error_class: errorClass,
+        error: String(errMsg || '').slice(0, 500),
+        failed_at: now,
+        attempts: 0,
+        next_attempt_at: now,
+        trace: builtTrace,
+      };
+      fs.writeFileSync(outPath + '.tmp', JSON.stringify(entry, null, 2), 'utf-8');
+      fs.renameSync(outPath + '.tmp', outPath);
+      debugLog(jsonlPath, 'outbox_saved class=' + errorClass + ' path=' + outPath);
+    } catch (e) {
+      debugLog(jsonlPath, 'outbox_error: ' + (e && e.message || e));
+    }
+  }
 
   // Always log invocation up front so we know if helper even started.
   debugLog(jsonlPath, 'invoked argv=' + JSON.stringify({
@@ -457,7 +514,11 @@ function unwrapAceSearchResultJson(rawResultJson) {
     // Cursor's conversation_id when no ace_search ran.
     const sessionId = serverSessionId || convId;
 
-    const trace = {
+    // The agent's latest ace_report_pattern_use report (MCP proxy local tool):
+    // structured attribution, preferred over the TIME_SAVED text below.
+    const patternUse = acePatternUse(path.join(aceRootDir(jsonlPath), 'tasks', convId));
+
+    const rawTrace = {
       task,
       trajectory,
       result: { success: true, output: lastAssistant.slice(0, 4000), summary },
@@ -470,23 +531,76 @@ function unwrapAceSearchResultJson(rawResultJson) {
       received_patterns: lastReceivedPatterns,
       git: { branch: git.branch, commit_hash: git.hash, isRepo: git.hash !== 'unknown' },
     };
+    if (patternUse) {
+      rawTrace.pattern_use = {
+        applied: patternUse.applied,
+        not_applied: patternUse.not_applied || [],
+        time_saved_min: patternUse.time_saved_min,
+        note: patternUse.note,
+      };
+    }
+
+    // Redact secrets (built-ins + .cursor/ace/redaction.json) before the trace
+    // is uploaded, parked for review or queued in the outbox.
+    const redactionStats = {};
+    const trace = aceRedactValue(rawTrace, aceLoadRedactors(aceRootDir(jsonlPath)), redactionStats);
+    const redactedKinds = Object.keys(redactionStats);
+    if (redactedKinds.length > 0) {
+      debugLog(jsonlPath, 'redacted ' + redactedKinds.map((k) => k + '=' + redactionStats[k]).join(' '));
+    }
 
     debugLog(jsonlPath, 'trace_built session_id=' + sessionId.slice(0, 8) +
       ' patterns=' + lastReceivedPatterns.length +
       ' trajectory_steps=' + trajectory.length +
       ' playbook_used=' + playbookUsed.size);
 
+    // Review-before-upload: runtime-settings.json reviewTracesBeforeUpload
+    // (synced from the ace.reviewTracesBeforeUpload setting) parks the trace in
+    // tasks/<conv>/pending-trace.json, with an untouched copy in
+    // pending-trace.orig.json for the review diff. The extension shows it for
+    // Send / Edit / Discard and sends it itself — nothing leaves the machine
+    // from here.
+    const aceRoot = aceRootDir(jsonlPath);
+    let reviewFirst = false;
+    try {
+      const rs = JSON.parse(fs.readFileSync(path.join(aceRoot, 'runtime-settings.json'), 'utf-8'));
+      reviewFirst = !!(rs && rs.reviewTracesBeforeUpload === true);
+    } catch (_) {}
+    if (reviewFirst) {
+      const pendingDir = path.join(aceRoot, 'tasks', convId);
+      fs.mkdirSync(pendingDir, { recursive: true });
+      const pendingPath = path.join(pendingDir, 'pending-trace.json');
+      const pendingText = JSON.stringify(trace, null, 2);
+      fs.writeFileSync(path.join(pendingDir, 'pending-trace.orig.json'), pendingText, 'utf-8');
+      fs.writeFileSync(pendingPath + '.tmp', pendingText, 'utf-8');
+      fs.renameSync(pendingPath + '.tmp', pendingPath);
+      debugLog(jsonlPath, 'exit_0 pending_review path=' + pendingPath);
+      process.stdout.write(JSON.stringify({ stored: false, pending_review: true }));
+      process.exit(0);
+    }
+
+    builtTrace = trace;
     const learning = await client.storeExecutionTrace(trace);
+    if (jsonlPath) {
+      try {
+        fs.unlinkSync(outboxPath());
+        debugLog(jsonlPath, 'outbox_cleared');
+      } catch (_) {}
+    }
 
     // ----- Write ace-review-result.json for next-prompt ROI inject -----
     let time_saved_min = 0;
     let helpful_pct = 0;
     let reason = '';
 
-    // Look for TIME_SAVED in the output text we sent (AI's own self-report).
+    // The agent's structured report wins; otherwise look for TIME_SAVED in
+    // the output text we sent (AI's own self-report).
     const out = (trace.result && trace.result.output) || '';
     const m = String(out).match(/TIME_SAVED:\\s*(\\d+)\\s*m?\\s*\\|?\\s*(.{0,200})?/i);
-    if (m) {
+    if (patternUse && typeof patternUse.time_saved_min === 'number') {
+      time_saved_min = patternUse.time_saved_min;
+      reason = String(patternUse.note || 'applied ' + patternUse.applied.length + ' pattern(s)').slice(0, 200);
+    } else if (m) {
       time_saved_min = parseInt(m[1], 10) || 0;
       reason = String(m[2] || '').trim().slice(0, 200);
     }
@@ -536,7 +650,7 @@ function unwrapAceSearchResultJson(rawResultJson) {
       if (sdk.isTokenExpiredError && sdk.isTokenExpiredError(err)) { debugLog(jsonlPath, 'exit_2 token_expired'); process.exit(2); }
       if (err instanceof sdk.AceApiError) {
         const status = err.status || 0;
-        if (status >= 500) { debugLog(jsonlPath, 'exit_3 api_5xx status=' + status); process.exit(3); }
+        if (status >= 500) { queueForRetry('api_5xx', errMsg); debugLog(jsonlPath, 'exit_3 api_5xx status=' + status); process.exit(3); }
         debugLog(jsonlPath, 'exit_4 api_4xx status=' + status); process.exit(4);
       }
     } catch (_) {}
@@ -546,14 +660,14 @@ function unwrapAceSearchResultJson(rawResultJson) {
     // "Server error (NNN): {detail...}" for HTTP errors. Detect 5xx vs
     // 4xx by status digit BEFORE the name-fallback so HTTP 400 doesn't
     // get misclassified as rc=5.
-    if (/Server error \\(5\\d\\d\\)/.test(errMsg)) { debugLog(jsonlPath, 'exit_3 api_5xx_bymsg'); process.exit(3); }
+    if (/Server error \\(5\\d\\d\\)/.test(errMsg)) { queueForRetry('api_5xx', errMsg); debugLog(jsonlPath, 'exit_3 api_5xx_bymsg'); process.exit(3); }
     if (/Server error \\(\\d{3}\\)/.test(errMsg)) { debugLog(jsonlPath, 'exit_4 api_4xx_bymsg'); process.exit(4); }
     // Bug 2 cont. — name-fallback: previously exited 3 (5xx) for ANY
     // AceApiError name match, including 400s. That's wrong without status
     // info. Default to 4 (recoverable 4xx) — the instanceof check above
     // already handles the case where status is known.
     if (/AceApiError/i.test(name)) { debugLog(jsonlPath, 'exit_4 api_byname'); process.exit(4); }
-    if (/Network|Timeout|ECONN|ETIMEDOUT/i.test(errMsg)) { debugLog(jsonlPath, 'exit_4 network'); process.exit(4); }
+    if (/Network|Timeout|ECONN|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|fetch failed/i.test(errMsg)) { queueForRetry('network', errMsg); debugLog(jsonlPath, 'exit_4 network'); process.exit(4); }
     debugLog(jsonlPath, 'exit_5 unclassified');
     process.exit(5);
   }
@@ -561,349 +675,15 @@ function unwrapAceSearchResultJson(rawResultJson) {
 `;
 }
 
-/**
- * v0.5.0 TASK 1 — Stop hook (bash) that delegates ace_learn to a node helper.
- *
- * @param helperPath  Optional absolute path to ace_learn_helper.js. When set,
- *                    the path is baked into the script (TRUSTED location). When
- *                    omitted, the script falls back to <workspace>/.cursor/scripts.
- */
-export function getStopHookScriptContent(helperPath?: string): string {
-	const baked = helperPath
-		? helperPath.replace(/"/g, '\\"')
-		: '.cursor/scripts/ace_learn_helper.js';
-	return `#!/bin/bash
-# ACE Stop Hook (v0.5.0-dev.10+) — delegate ace_learn to node helper.
-# Replaces v0.4.x stop hook that nudged AI to call ace_learn manually.
-# Helper writes ace-review-result.json with time_saved_min for next-prompt ROI.
-#
-# v0.5.0-dev.10+ HOTFIX (Bugs A + C):
-#  - Cursor invokes hooks with a stripped PATH (often /usr/bin:/bin only),
-#    so bare \`command -v node\` misses Homebrew/nvm installs. We now extend
-#    PATH to include the common node install dirs BEFORE any node lookup.
-#  - Every gate exit writes a labelled breadcrumb to ace-stop-debug.log so
-#    silent failures become diagnosable. Helper stderr is captured to the
-#    same log instead of being swallowed by /dev/null.
-
-# Caveman: HELPER baked at write time from extensionContext.extensionPath.
-HELPER="${baked}"
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-debug_log="$ace_dir/ace-stop-debug.log"
-
-# Bug A fix — extend PATH with common node install dirs BEFORE any node probe.
-# Cursor often hands hooks PATH=/usr/bin:/bin. Homebrew, /usr/local, and nvm
-# installs aren't on that minimal PATH, so node disappears. Prepend the usual
-# suspects so \`command -v node\` and \`node\` calls succeed.
-export PATH="/opt/homebrew/bin:/usr/local/bin:/opt/local/bin:$HOME/.nvm/current/bin:$HOME/.nvm/versions/node/current/bin:$HOME/.local/bin:$HOME/bin:$PATH"
-
-# v0.5.0-dev.10: extract status/conv_id/loop_count BEFORE any gate so we can
-# write a breadcrumb proving the hook fired regardless of which gate exits.
-if command -v jq >/dev/null 2>&1; then
-  status=$(echo "$input" | jq -r '.status // empty')
-  loop_count=$(echo "$input" | jq -r '.loop_count // 0')
-  transcript=$(echo "$input" | jq -r '.transcript_path // empty')
-  conv_id=$(echo "$input" | jq -r '.conversation_id // empty')
-else
-  status=$(echo "$input" | grep -oE '"status"[[:space:]]*:[[:space:]]*"[^"]*"' | head -1 | sed 's/.*: *"//' | sed 's/"$//')
-  loop_count=$(echo "$input" | grep -oE '"loop_count"[[:space:]]*:[[:space:]]*[0-9]*' | head -1 | grep -oE '[0-9]+$' || echo "0")
-  transcript=$(echo "$input" | grep -oE '"transcript_path"[[:space:]]*:[[:space:]]*"[^"]*"' | head -1 | sed 's/.*: *"//' | sed 's/"$//')
-  conv_id=$(echo "$input" | grep -oE '"conversation_id"[[:space:]]*:[[:space:]]*"[^"]*"' | head -1 | sed 's/.*: *"//' | sed 's/"$//')
-fi
-
-# Unconditional breadcrumb — proves the hook fired and shows what Cursor sent us.
-printf '%s STOP_FIRED status=%s conv=%s loop=%s\\n' "$(date -Iseconds)" "$status" "$conv_id" "$loop_count" >> "$debug_log" 2>/dev/null
-
-# Bug C fix — every gate exit now writes a LABELLED reason to debug_log
-# instead of silently \`exit 0\`. Easier to diagnose what's blocking learn.
-log_skip() {
-  printf '%s STOP_SKIP reason=%s status=%s conv=%s loop=%s\\n' "$(date -Iseconds)" "$1" "$status" "$conv_id" "$loop_count" >> "$debug_log" 2>/dev/null
-}
-
-# Only fire on completed top-of-stack stops
-if [ "$status" != "completed" ]; then log_skip status_not_completed; echo '{}'; exit 0; fi
-if [ "$loop_count" != "0" ] && [ -n "$loop_count" ]; then log_skip loop_count_nonzero; echo '{}'; exit 0; fi
-if [ -z "$conv_id" ]; then log_skip no_conv_id; echo '{}'; exit 0; fi
-
-# Skip if no real work — count ANY trajectory activity for THIS conversation.
-# v0.5.0-dev.5: also count mcp_trajectory + shell_trajectory because AI may
-# write files via MCP tools (filesystem/serena) which don't fire afterFileEdit.
-# v0.5.0-dev.19 Task A: also count per-conversation trajectory file lines (no
-# grep filter needed — per-conv file by definition only holds this conv's data).
-work_count=0
-per_conv_dir="$ace_dir/tasks/$conv_id"
-if [ -f "$per_conv_dir/mcp_trajectory.jsonl" ]; then
-  pn=$(wc -l < "$per_conv_dir/mcp_trajectory.jsonl" 2>/dev/null | tr -cd '0-9')
-  [ -z "$pn" ] && pn=0
-  work_count=$((work_count + pn))
-fi
-for traj in edit_trajectory.jsonl mcp_trajectory.jsonl shell_trajectory.jsonl; do
-  if [ -f "$ace_dir/$traj" ]; then
-    # grep -c always prints a number; exit 1 means 0 matches, NOT error.
-    # Do NOT add: || echo 0 — it concatenates with grep's own "0" output.
-    n=$(grep -c "\\"conversation_id\\":\\"$conv_id\\"" "$ace_dir/$traj" 2>/dev/null)
-    [ -z "$n" ] && n=0
-    n=$(echo "$n" | head -1 | tr -cd '0-9')
-    [ -z "$n" ] && n=0
-    work_count=$((work_count + n))
-  fi
-done
-if [ "$work_count" -lt 1 ]; then log_skip no_work_count_zero; echo '{}'; exit 0; fi
-
-if [ ! -f "$HELPER" ]; then
-  printf '%s STOP_SKIP reason=helper_missing path=%s\\n' "$(date -Iseconds)" "$HELPER" >> "$debug_log" 2>/dev/null
-  echo '{}'; exit 0
-fi
-
-# Bug A fix — explicit node binary resolver. PATH extension above usually
-# does the trick, but on truly minimal environments we still probe known
-# candidate paths so we can log a clear node_missing diagnostic if all
-# candidates fail.
-NODE_BIN=""
-if command -v node >/dev/null 2>&1; then
-  NODE_BIN="$(command -v node)"
-else
-  for candidate in \\
-    "/opt/homebrew/bin/node" \\
-    "/usr/local/bin/node" \\
-    "/opt/local/bin/node" \\
-    "$HOME/.nvm/current/bin/node" \\
-    "$HOME/.nvm/versions/node/current/bin/node" \\
-    "$HOME/.local/bin/node" \\
-    "$HOME/bin/node"; do
-    if [ -x "$candidate" ]; then NODE_BIN="$candidate"; break; fi
-  done
-fi
-if [ -z "$NODE_BIN" ]; then
-  printf '%s STOP_SKIP reason=node_missing path=%s\\n' "$(date -Iseconds)" "$PATH" >> "$debug_log" 2>/dev/null
-  echo '{}'; exit 0
-fi
-
-# v0.5.0-dev.19 Task A — prefer per-conv trajectory if it exists, else fall
-# back to legacy top-level path. Per-conv path keeps cross-tab data isolated.
-# v0.5.0-dev.24 — folder renamed sessions/ → tasks/.
-per_conv_jsonl="$ace_dir/tasks/$conv_id/mcp_trajectory.jsonl"
-if [ -f "$per_conv_jsonl" ]; then
-  jsonl="$per_conv_jsonl"
-else
-  jsonl="$ace_dir/mcp_trajectory.jsonl"
-fi
-
-printf '%s helper_start node=%s helper=%s jsonl=%s\\n' "$(date -Iseconds)" "$NODE_BIN" "$HELPER" "$jsonl" >> "$debug_log" 2>/dev/null
-
-# Run helper (synchronous, 30s budget — server side may stream a learning
-# response). Bug C fix: capture helper stderr to debug log instead of
-# silencing with >/dev/null 2>&1. stdout still piped to /dev/null since the
-# helper writes ace-review-result.json on its own.
-if command -v gtimeout >/dev/null 2>&1; then
-  gtimeout 30 "$NODE_BIN" "$HELPER" "$conv_id" "$jsonl" "$transcript" >/dev/null 2>>"$debug_log"
-  rc=$?
-elif command -v timeout >/dev/null 2>&1; then
-  timeout 30 "$NODE_BIN" "$HELPER" "$conv_id" "$jsonl" "$transcript" >/dev/null 2>>"$debug_log"
-  rc=$?
-else
-  perl -e 'alarm 30; exec @ARGV' -- "$NODE_BIN" "$HELPER" "$conv_id" "$jsonl" "$transcript" >/dev/null 2>>"$debug_log"
-  rc=$?
-fi
-
-printf '%s helper_done rc=%s\\n' "$(date -Iseconds)" "$rc" >> "$debug_log" 2>/dev/null
-
-echo '{}'
-`;
-}
-
 // ===========================================================================
 // TASK 3 — domain-shift inject on Read
 // ===========================================================================
 
 /**
- * Heuristic: derive an ACE domain name from a file path.
- * Mirrors Claude Code's ace_posttooluse_domain_inject.sh inferDomain logic.
+ * Derive an ACE domain name from a workspace-relative file path. Thin
+ * wrapper over the domainRules engine; pass loadDomainRules(aceDir) to apply
+ * the workspace's .cursor/ace/domains.json, or omit it for the defaults.
  */
-export function inferDomain(filePath: string): string {
-	const lc = String(filePath || '').toLowerCase();
-
-	// Caveman: order matters — most specific first.
-	if (
-		lc.includes('docker') ||
-		/(^|\/)dockerfile(\.|$)/.test(lc) ||
-		lc.includes('.github/workflows') ||
-		lc.endsWith('.yml') ||
-		lc.endsWith('.yaml')
-	) {
-		return 'devops-infrastructure';
-	}
-	if (
-		/\.test\./.test(lc) ||
-		/\.spec\./.test(lc) ||
-		/(^|\/)__tests__(\/|$)/.test(lc) ||
-		/(^|\/)tests?(\/|$)/.test(lc)
-	) {
-		return 'testing-strategies';
-	}
-	if (lc.includes('/migrations/') || lc.endsWith('.sql')) {
-		return 'database-migrations';
-	}
-	if (lc.includes('/components/') || lc.endsWith('.tsx') || lc.endsWith('.jsx')) {
-		return 'react-components';
-	}
-	if (
-		/(^|\/)auth(\/|$)/.test(lc) ||
-		/(^|\/)(login|session|jwt|oauth)/.test(lc)
-	) {
-		return 'auth-development';
-	}
-	if (
-		/(^|\/)api(\/|$)/.test(lc) ||
-		/(^|\/)routes?(\/|$)/.test(lc) ||
-		/(^|\/)(controller|endpoint|handler)s?(\/|$)/.test(lc)
-	) {
-		return 'api-development';
-	}
-
-	const parts = lc.split('/').filter(Boolean);
-	if (parts.length >= 2) return parts[0];
-	return 'general';
-}
-
-/**
- * v0.5.0 TASK 3 — Domain-shift inject hook (bash).
- *
- * Fires on afterFileEdit / postToolUse for Read|Edit. When the AI Reads/Edits
- * a file in a different domain than the last cached one, fetch fresh patterns
- * and inject as <ace-patterns-domain-shift domain="...">{JSON}</ace-patterns-domain-shift>
- * via additional_context.
- */
-export function getDomainShiftScriptContent(searchHelperPath?: string): string {
-	const baked = searchHelperPath
-		? searchHelperPath.replace(/"/g, '\\"')
-		: '.cursor/scripts/ace_search_helper.js';
-	return `#!/bin/bash
-# ACE Domain-Shift Inject Hook (v0.5.0-dev.10+) — fires on Read/Edit.
-# Detects domain mismatch vs last_domain marker and injects fresh patterns
-# wrapped as <ace-patterns-domain-shift domain="..."> ... </ace-patterns-domain-shift>.
-#
-# v0.5.0-dev.10+ HOTFIX (Bug A clone): Cursor strips PATH on hook invocation,
-# so bare \`command -v node\` misses Homebrew/nvm. Extend PATH up front so
-# both jq and node lookups succeed even on minimal Cursor PATH.
-
-# Caveman: search helper baked at write time from extensionContext.extensionPath.
-HELPER="${baked}"
-
-# Bug A fix — extend PATH before any binary lookup.
-export PATH="/opt/homebrew/bin:/usr/local/bin:/opt/local/bin:$HOME/.nvm/current/bin:$HOME/.nvm/versions/node/current/bin:$HOME/.local/bin:$HOME/bin:$PATH"
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-if ! command -v jq >/dev/null 2>&1; then echo '{}'; exit 0; fi
-
-tool_name=$(echo "$input" | jq -r '.tool_name // ""')
-file_path=$(echo "$input" | jq -r '.tool_input.file_path // .file_path // ""')
-conv_id=$(echo "$input" | jq -r '.conversation_id // ""')
-gen_id=$(echo "$input" | jq -r '.generation_id // ""')
-
-# Only fire on Read/Edit-style tools (not on bash, mcp, etc.)
-case "$tool_name" in
-  Read|Edit|Write|MultiEdit|edit|read|write) ;;
-  *) echo '{}'; exit 0;;
-esac
-
-[ -z "$file_path" ] && echo '{}' && exit 0
-[ -z "$conv_id" ] || [ -z "$gen_id" ] && echo '{}' && exit 0
-
-# Privacy gate (same as pre-tool-use): only inject when opt-in true.
-opt_in=0
-settings_file="$ace_dir/runtime-settings.json"
-if [ -f "$settings_file" ]; then
-  raw=$(jq -r '.shareRawPromptsForRetrievalAnalysis // false' "$settings_file" 2>/dev/null || echo "false")
-  if [ "$raw" = "true" ]; then opt_in=1; fi
-fi
-[ "$opt_in" = "0" ] && echo '{}' && exit 0
-
-# Caveman: derive domain from file path.
-# Quick heuristic mirroring inferDomain() — keep in sync with TS.
-lc=$(echo "$file_path" | tr '[:upper:]' '[:lower:]')
-domain=""
-case "$lc" in
-  *docker*|*.yml|*.yaml|*.github/workflows*) domain="devops-infrastructure" ;;
-  *.test.*|*.spec.*|*__tests__*|*/tests/*|*/test/*) domain="testing-strategies" ;;
-  */migrations/*|*.sql) domain="database-migrations" ;;
-  */components/*|*.tsx|*.jsx) domain="react-components" ;;
-  */auth/*|*login*|*session*|*jwt*|*oauth*) domain="auth-development" ;;
-  */api/*|*/routes/*|*/route/*|*/controllers/*|*/handlers/*|*/endpoints/*) domain="api-development" ;;
-  *)
-    domain=$(echo "$file_path" | cut -d/ -f1)
-    [ -z "$domain" ] && domain="general"
-    ;;
-esac
-
-# Track last-domain per conv/gen.
-# v0.5.0-dev.24 — folder renamed sessions/ → tasks/.
-session_dir="$ace_dir/tasks/$conv_id"
-mkdir -p "$session_dir"
-last_domain_file="$session_dir/$gen_id.last-domain"
-last_domain=""
-[ -f "$last_domain_file" ] && last_domain=$(cat "$last_domain_file" 2>/dev/null)
-
-# Same domain → no shift, no injection.
-if [ "$domain" = "$last_domain" ]; then
-  echo '{}'; exit 0
-fi
-
-# Update last-domain marker BEFORE network call (single inject per domain change).
-echo "$domain" > "$last_domain_file"
-
-# Helper exists?
-[ ! -f "$HELPER" ] && echo '{}' && exit 0
-
-# Bug A fix — explicit node binary resolver (PATH already extended above).
-NODE_BIN=""
-if command -v node >/dev/null 2>&1; then
-  NODE_BIN="$(command -v node)"
-else
-  for candidate in \\
-    "/opt/homebrew/bin/node" \\
-    "/usr/local/bin/node" \\
-    "/opt/local/bin/node" \\
-    "$HOME/.nvm/current/bin/node" \\
-    "$HOME/.nvm/versions/node/current/bin/node" \\
-    "$HOME/.local/bin/node" \\
-    "$HOME/bin/node"; do
-    if [ -x "$candidate" ]; then NODE_BIN="$candidate"; break; fi
-  done
-fi
-[ -z "$NODE_BIN" ] && echo '{}' && exit 0
-
-# Build a query from filename + domain hint.
-basename=$(basename "$file_path" 2>/dev/null | sed 's/\\.[^.]*$//')
-query="$domain $basename"
-
-# Fetch patterns (8s timeout).
-patterns=""
-if command -v gtimeout >/dev/null 2>&1; then
-  patterns=$(gtimeout 8 "$NODE_BIN" "$HELPER" "$query" 2>/dev/null)
-elif command -v timeout >/dev/null 2>&1; then
-  patterns=$(timeout 8 "$NODE_BIN" "$HELPER" "$query" 2>/dev/null)
-else
-  patterns=$(perl -e 'alarm 8; exec @ARGV' -- "$NODE_BIN" "$HELPER" "$query" 2>/dev/null)
-fi
-
-[ -z "$patterns" ] || [ "$patterns" = "{}" ] && echo '{}' && exit 0
-
-# Sanity: require at least 1 pattern.
-n=$(echo "$patterns" | jq -r '(.similar_patterns // []) | length' 2>/dev/null || echo "0")
-[ "$n" = "0" ] && echo '{}' && exit 0
-
-# Wrap as <ace-patterns-domain-shift domain="..."> ... </ace-patterns-domain-shift>.
-wrapped=$(printf '<ace-patterns-domain-shift domain="%s">%s</ace-patterns-domain-shift>' "$domain" "$patterns")
-ctx_json=$(printf '%s' "$wrapped" | jq -Rs .)
-
-cat <<EOF
-{"additional_context":$ctx_json}
-EOF
-`;
+export function inferDomain(filePath: string, ruleSet?: DomainRuleSet): string {
+	return matchDomain(filePath, ruleSet).domain;
 }
@@ -37,6 +37,29 @@ export const ORPHAN_SCRIPTS: readonly string[] = [
 	'ace_track_edit.ps1',
 	'ace_track_response.ps1',
 	'ace_track_shell.ps1',
+	// Per-event bash / PowerShell hooks, replaced by the single ace_hook.js
+	// dispatcher in the extension install dir (src/hooks). hooks.json no
+	// longer points at any of them.
+	...[
+		'ace_track_mcp',
+		'ace_session_start',
+		'ace_session_end',
+		'ace_pre_compact',
+		'ace_subagent_start',
+		'ace_subagent_stop',
+		'ace_stop_hook',
+		'ace_domain_shift',
+		'ace_pre_tool_use',
+		'ace_post_tool_use',
+		'ace_post_tool_use_failure',
+		'ace_before_shell',
+		'ace_before_mcp',
+		'ace_before_read_file',
+		'ace_before_submit_prompt',
+		'ace_after_agent_thought',
+		'ace_before_tab_file_read',
+		'ace_after_tab_file_edit',
+	].flatMap(name => [`${name}.sh`, `${name}.ps1`]),
 ];
 
 /**
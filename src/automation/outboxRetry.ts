@@ -0,0 +1,137 @@
+/**
+ * Outbox Retrier - Re-sends learn traces the Stop hook couldn't upload
+ *
+ * Scans .cursor/ace/outbox/ in every workspace folder on activation (all
+ * entries, ignoring backoff), then once a minute for due entries. The first
+ * successful send means connectivity is back, so every remaining entry is
+ * made due and retried in the same pass. A network error ends the pass (still
+ * offline); entries the server rejects, that don't validate as a trace, or
+ * that hit OUTBOX_MAX_ATTEMPTS are parked and the pass moves on.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isTokenExpiredError } from '@ace-sdk/core';
+import { getAceClient } from '../ace/client';
+import { toManualTrace } from '../ace/manualTrace';
+import {
+	listOutbox,
+	isDue,
+	classifyRetryError,
+	recordRetryFailure,
+	completeOutboxItem,
+	parkOutboxItem,
+	OUTBOX_MAX_ATTEMPTS
+} from '../ace/outbox';
+
+const SCAN_INTERVAL_MS = 60 * 1000;
+
+export class OutboxRetrier implements vscode.Disposable {
+	private _timer: ReturnType<typeof setInterval> | undefined;
+	private _running = false;
+
+	/**
+	 * @param onSizeChange  called with the total queued count after every scan
+	 * @param log           one-line activity messages (ACE Activity channel)
+	 */
+	constructor(
+		private readonly _onSizeChange: (size: number) => void,
+		private readonly _log: (message: string) => void
+	) {}
+
+	start(): void {
+		void this.retry(true);
+		this._timer = setInterval(() => void this.retry(false), SCAN_INTERVAL_MS);
+	}
+
+	/** Total queued traces across workspace folders. */
+	size(): number {
+		return (vscode.workspace.workspaceFolders ?? [])
+			.reduce((n, f) => n + listOutbox(this._aceDir(f)).length, 0);
+	}
+
+	/**
+	 * Retry due entries (or all of them when `force`). Returns how many were sent.
+	 */
+	async retry(force: boolean): Promise<number> {
+		if (this._running) return 0;
+		this._running = true;
+		let sent = 0;
+		try {
+			for (const folder of vscode.workspace.workspaceFolders ?? []) {
+				sent += await this._retryFolder(folder, force);
+			}
+		} finally {
+			this._running = false;
+			this._onSizeChange(this.size());
+		}
+		return sent;
+	}
+
+	dispose(): void {
+		if (this._timer) {
+			clearInterval(this._timer);
+			this._timer = undefined;
+		}
+	}
+
+	private _aceDir(folder: vscode.WorkspaceFolder): string {
+		return path.join(folder.uri.fsPath, '.cursor', 'ace');
+	}
+
+	private async _retryFolder(folder: vscode.WorkspaceFolder, force: boolean): Promise<number> {
+		const aceDir = this._aceDir(folder);
+		const items = listOutbox(aceDir);
+		if (items.length === 0) return 0;
+		const client = getAceClient(folder);
+		if (!client) return 0;
+
+		let sent = 0;
+		for (const item of items) {
+			if (!force && !isDue(item.entry)) continue;
+			const conv = item.entry.conv_id.slice(0, 8);
+			const { trace, error: invalid } = toManualTrace(item.entry.trace);
+			if (!trace) {
+				parkOutboxItem(aceDir, item, 'invalid', invalid ?? 'invalid trace');
+				this._log(`Outbox: dropped trace for task ${conv} — ${invalid}`);
+				continue;
+			}
+			try {
+				await client.storeExecutionTrace(trace);
+				completeOutboxItem(aceDir, item);
+				sent++;
+				this._log(`Outbox: sent trace for task ${conv} (attempt ${item.entry.attempts + 1})`);
+				if (!force) {
+					// Connectivity is back — don't wait out the others' backoff.
+					return sent + await this._retryFolder(folder, true);
+				}
+			} catch (error) {
+				if (isTokenExpiredError(error)) {
+					// Nothing will succeed until the user logs in again.
+					this._log('Outbox: retry paused — ACE session expired');
+					break;
+				}
+				const message = error instanceof Error ? error.message : String(error);
+				const failure = classifyRetryError(error);
+				if (failure === 'rejected') {
+					// A 4xx won't change on retry.
+					parkOutboxItem(aceDir, item, 'rejected', message);
+					this._log(`Outbox: server rejected trace for task ${conv} — ${message}`);
+					continue;
+				}
+				const entry = recordRetryFailure(item, message);
+				if (entry.attempts >= OUTBOX_MAX_ATTEMPTS) {
+					parkOutboxItem(aceDir, { path: item.path, entry }, 'max_attempts', message);
+					this._log(`Outbox: gave up on trace for task ${conv} after ${entry.attempts} attempts — ${message}`);
+				} else {
+					console.log(`[ACE] Outbox retry failed for ${conv}: ${message} (next ${entry.next_attempt_at})`);
+				}
+				if (failure === 'network') {
+					// Still offline — leave the rest for their own schedule.
+					break;
+				}
+			}
+		}
+		return sent;
+	}
+}
@@ -0,0 +1,143 @@
+/**
+ * Pattern Mirror Sync - Keeps .cursor/ace/mirror/patterns.db current
+ *
+ * Syncs every configured workspace folder on activation and then every 30
+ * minutes. Each sync pages through patterns updated since the previous
+ * high-water mark. Once a day, and on a forced sync (ACE: Sync Pattern
+ * Mirror), it pages through the whole playbook instead and drops rows the
+ * server no longer lists; a project change clears the mirror first.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { readContext } from '../ace/context';
+import { fetchPatternsUpdatedSince, PATTERN_PAGE_SIZE } from '../ace/playbookApi';
+import {
+	openMirror,
+	clearMirror,
+	pruneMirror,
+	isFullResyncDue,
+	upsertPatterns,
+	countMirrored,
+	nextHighWater,
+	readMirrorState,
+	writeMirrorState,
+	isMirrorAvailable
+} from '../ace/patternMirror';
+
+const SYNC_INTERVAL_MS = 30 * 60 * 1000;
+// Guard against a server that ignores offset and keeps returning page one.
+const MAX_PAGES = 200;
+
+export class PatternMirrorSync implements vscode.Disposable {
+	private _timer: ReturnType<typeof setInterval> | undefined;
+	private _running = false;
+
+	/**
+	 * @param onSynced  called after every sync pass (Status panel refresh)
+	 * @param log       one-line activity messages (ACE Activity channel)
+	 */
+	constructor(
+		private readonly _onSynced: () => void,
+		private readonly _log: (message: string) => void
+	) {}
+
+	start(): void {
+		if (!isMirrorAvailable()) {
+			console.log('[ACE] Pattern mirror disabled: better-sqlite3 native module not available');
+			return;
+		}
+		void this.sync(false);
+		this._timer = setInterval(() => void this.sync(false), SYNC_INTERVAL_MS);
+	}
+
+	/**
+	 * Sync every configured folder. Returns how many patterns changed and the
+	 * errors of folders that failed, or undefined when a sync was already running.
+	 */
+	async sync(full: boolean): Promise<{ changed: number; errors: string[] } | undefined> {
+		if (this._running) return undefined;
+		this._running = true;
+		const result = { changed: 0, errors: [] as string[] };
+		try {
+			for (const folder of vscode.workspace.workspaceFolders ?? []) {
+				try {
+					result.changed += await this._syncFolder(folder, full);
+				} catch (error) {
+					result.errors.push(`${folder.name}: ${error instanceof Error ? error.message : String(error)}`);
+				}
+			}
+		} finally {
+			this._running = false;
+			this._onSynced();
+		}
+		return result;
+	}
+
+	dispose(): void {
+		if (this._timer) {
+			clearInterval(this._timer);
+			this._timer = undefined;
+		}
+	}
+
+	private async _syncFolder(folder: vscode.WorkspaceFolder, full: boolean): Promise<number> {
+		const ctx = readContext(folder);
+		if (!ctx?.projectId) return 0;
+		const aceDir = path.join(folder.uri.fsPath, '.cursor', 'ace');
+		const previous = readMirrorState(aceDir);
+		const db = openMirror(aceDir);
+		if (!db) return 0;
+
+		const projectChanged = !previous || previous.projectId !== ctx.projectId;
+		const rebuild = full || projectChanged || isFullResyncDue(previous);
+		let highWater = rebuild ? undefined : previous?.highWater;
+		let changed = 0;
+		const listed = new Set<string>();
+		let complete = false;
+		try {
+			for (let page = 0, offset = 0; page < MAX_PAGES; page++) {
+				const result = await fetchPatternsUpdatedSince(rebuild ? undefined : previous?.highWater, offset, PATTERN_PAGE_SIZE, folder);
+				if (projectChanged && page === 0) {
+					// Only drop the old rows once the server has answered.
+					clearMirror(db);
+				}
+				changed += upsertPatterns(db, result.patterns);
+				highWater = nextHighWater(result.patterns, highWater);
+				for (const hit of result.patterns) listed.add(hit.id);
+				if (!result.hasMore || result.patterns.length === 0) {
+					complete = true;
+					break;
+				}
+				offset += result.patterns.length;
+			}
+			// Prune only after a complete pass — a page cap would drop live rows.
+			const now = new Date().toISOString();
+			const fullPass = rebuild && complete;
+			if (fullPass) {
+				changed += pruneMirror(db, listed);
+			}
+			const count = countMirrored(db);
+			writeMirrorState(aceDir, {
+				lastSyncedAt: now,
+				highWater,
+				count,
+				projectId: ctx.projectId,
+				lastFullSyncAt: fullPass ? now : projectChanged ? undefined : previous?.lastFullSyncAt
+			});
+			if (changed > 0) {
+				this._log(`Pattern mirror: ${changed} pattern${changed === 1 ? '' : 's'} updated in ${folder.name} (${count} total)`);
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.log(`[ACE] Pattern mirror sync failed for ${folder.name}: ${message}`);
+			if (previous) {
+				writeMirrorState(aceDir, { ...previous, error: message });
+			}
+			throw error;
+		} finally {
+			db.close();
+		}
+		return changed;
+	}
+}
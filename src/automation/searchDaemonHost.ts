@@ -0,0 +1,107 @@
+/**
+ * Search Daemon Host - Runs ace_search_daemon.js for the hooks
+ *
+ * Writes the daemon next to the search helper in <extensionPath>/scripts and
+ * keeps one running per user: if another window's daemon already answers on
+ * the socket it is reused, and a health check every minute restarts it when
+ * that window closes. The daemon runs on the extension host's own Node
+ * (ELECTRON_RUN_AS_NODE), so no `node` on PATH is needed and native modules
+ * match the extension's ABI.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, type ChildProcess } from 'child_process';
+import { writeFileAtomic } from '../ace/atomicWrite';
+import {
+	SEARCH_DAEMON_SCRIPT,
+	getSearchDaemonContent,
+	getSearchDaemonSocketPath,
+	pingSearchDaemon
+} from '../ace/searchDaemon';
+
+const HEALTH_CHECK_INTERVAL_MS = 60 * 1000;
+
+export class SearchDaemonHost implements vscode.Disposable {
+	private _child: ChildProcess | undefined;
+	private _timer: ReturnType<typeof setInterval> | undefined;
+	private _checking = false;
+	private readonly _scriptPath: string;
+
+	/**
+	 * @param extensionPath  trusted install dir; the daemon is written to its scripts/
+	 * @param log            one-line activity messages (ACE Activity channel)
+	 * @param socketPath     defaults to the per-user socket / named pipe
+	 */
+	constructor(
+		extensionPath: string,
+		private readonly _log: (message: string) => void,
+		private readonly _socketPath: string = getSearchDaemonSocketPath()
+	) {
+		this._scriptPath = path.join(extensionPath, 'scripts', SEARCH_DAEMON_SCRIPT);
+	}
+
+	start(): void {
+		try {
+			fs.mkdirSync(path.dirname(this._scriptPath), { recursive: true });
+			writeFileAtomic(this._scriptPath, getSearchDaemonContent(), { mode: 0o755 });
+		} catch (error) {
+			console.warn('[ACE] Could not write search daemon:', error instanceof Error ? error.message : String(error));
+			return;
+		}
+		void this._ensureRunning();
+		this._timer = setInterval(() => void this._ensureRunning(), HEALTH_CHECK_INTERVAL_MS);
+	}
+
+	dispose(): void {
+		if (this._timer) {
+			clearInterval(this._timer);
+			this._timer = undefined;
+		}
+		const child = this._child;
+		this._child = undefined;
+		if (child && child.exitCode === null) {
+			// Closing stdin is the daemon's shutdown signal; kill in case it hangs.
+			child.stdin?.end();
+			child.kill();
+		}
+	}
+
+	private async _ensureRunning(): Promise<void> {
+		if (this._checking || (this._child && this._child.exitCode === null)) return;
+		this._checking = true;
+		try {
+			if (await pingSearchDaemon(this._socketPath)) return;
+			this._spawn();
+		} finally {
+			this._checking = false;
+		}
+	}
+
+	private _spawn(): void {
+		const child = spawn(process.execPath, [this._scriptPath, this._socketPath], {
+			env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+			stdio: ['pipe', 'ignore', 'pipe'],
+			windowsHide: true
+		});
+		this._child = child;
+		child.stderr?.on('data', (chunk: Buffer) => {
+			for (const line of chunk.toString('utf-8').split('\n')) {
+				if (line.trim()) console.log(`[ACE] ${line.trim()}`);
+			}
+		});
+		child.on('error', error => {
+			console.log(`[ACE] Search daemon failed to start: ${error.message}`);
+		});
+		child.on('exit', code => {
+			if (this._child === child) {
+				this._child = undefined;
+				// 0 = another window's daemon already owns the socket.
+				if (code !== 0 && code !== null) {
+					this._log(`Search daemon exited (code ${code}); hooks spawn the search helper until it restarts`);
+				}
+			}
+		});
+	}
+}
@@ -14,6 +14,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as crypto from 'crypto';
 import { readContext, isMultiRootWorkspace } from '../ace/context';
+import { loadDomainRules, matchDomain, toDomainPath } from '../ace/domainRules';
 
 // Import getAceConfig from extension - will be set via init
 let getAceConfigFn: ((folder?: vscode.WorkspaceFolder) => { serverUrl?: string; projectId?: string; orgId?: string } | null) | undefined;
@@ -25,48 +26,14 @@ let promptedFolders: Set<string> = new Set(); // Track folders we've already pro
 
 /**
  * Domain detection based on file path patterns
- * Used for domain-aware pattern search (Issue #3)
+ * Used for domain-aware pattern search (Issue #3). Shares the rules in
+ * .cursor/ace/domains.json with the domain-shift hook, so both agree.
+ * Files outside every workspace folder are "general".
  */
-function detectDomain(filePath: string): string {
-	const lowerPath = filePath.toLowerCase();
-
-	// Auth domain
-	if (/\/(auth|login|session|jwt|oauth|sso)\//.test(lowerPath) ||
-		/(auth|login|session|jwt|oauth)/.test(path.basename(lowerPath))) {
-		return 'auth';
-	}
-
-	// API domain
-	if (/\/(api|routes|endpoint|controller|handler)\//.test(lowerPath) ||
-		/(route|endpoint|controller|handler)/.test(path.basename(lowerPath))) {
-		return 'api';
-	}
-
-	// Cache domain
-	if (/\/(cache|redis|memo)\//.test(lowerPath) ||
-		/(cache|redis|memo)/.test(path.basename(lowerPath))) {
-		return 'cache';
-	}
-
-	// Database domain
-	if (/\/(db|database|migration|model|schema|repository)\//.test(lowerPath) ||
-		/(model|schema|migration|repository)/.test(path.basename(lowerPath))) {
-		return 'database';
-	}
-
-	// UI domain
-	if (/\/(component|ui|view|page|layout)\//.test(lowerPath) ||
-		/\.(tsx|jsx)$/.test(lowerPath)) {
-		return 'ui';
-	}
-
-	// Test domain
-	if (/\/(test|spec|__tests__|__mocks__)\//.test(lowerPath) ||
-		/\.(test|spec)\.(ts|js|tsx|jsx)$/.test(lowerPath)) {
-		return 'test';
-	}
-
-	return 'general';
+function detectDomain(filePath: string, folder: vscode.WorkspaceFolder | undefined): string {
+	if (!folder) return 'general';
+	const root = folder.uri.fsPath;
+	return matchDomain(toDomainPath(root, filePath), loadDomainRules(path.join(root, '.cursor', 'ace'))).domain;
 }
 
 /**
@@ -166,7 +133,7 @@ export function initWorkspaceMonitor(
 			console.log(`[ACE] Editor folder: ${folder?.name}, Current folder: ${currentFolder?.name}, Same: ${isSameFolder(folder, currentFolder)}`);
 
 			// Domain tracking - detect and log domain shifts
-			const newDomain = detectDomain(filePath);
+			const newDomain = detectDomain(filePath, folder);
 			if (newDomain !== currentDomain) {
 				console.log(`[ACE] Domain shift: ${currentDomain} → ${newDomain} (${path.basename(filePath)})`);
 				logDomainShift(currentDomain, newDomain, filePath);
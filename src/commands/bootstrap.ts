@@ -0,0 +1,155 @@
+/**
+ * ACE Bootstrap Playbook Command
+ * Collects seed material locally (git log, docs, source files), redacts it
+ * and uploads it as execution traces with a cancellable progress notification. Resumes from
+ * .cursor/ace/bootstrap-state.json after a reload or cancel.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isTokenExpiredError } from '@ace-sdk/core';
+import { getAceClient } from '../ace/client';
+import { getTargetFolder } from '../ace/context';
+import { getGitContext } from '../ace/trajectory';
+import { loadRedactors, redactValue } from '../ace/redaction';
+import {
+	type BootstrapItem,
+	type BootstrapMode,
+	planBootstrap,
+	itemToSeedTrace,
+	readBootstrapState,
+	writeBootstrapState,
+	newBootstrapState,
+	isResumable,
+	remainingItems
+} from '../ace/bootstrap';
+
+const MODE_ITEMS: (vscode.QuickPickItem & { mode: BootstrapMode })[] = [
+	{ label: 'hybrid (recommended)', detail: 'Docs, recent git history and source files', mode: 'hybrid' },
+	{ label: 'docs-only', detail: 'README, CHANGELOG, CONTRIBUTING and docs/', mode: 'docs-only' },
+	{ label: 'git-history', detail: 'Recent non-merge commits', mode: 'git-history' },
+	{ label: 'local-files', detail: 'Source files under the size budget', mode: 'local-files' }
+];
+
+/**
+ * Run the bootstrap flow for the target folder
+ */
+export async function runBootstrap(output?: vscode.OutputChannel): Promise<void> {
+	const folder = await getTargetFolder('Select folder to bootstrap');
+	if (!folder) {
+		vscode.window.showWarningMessage('Open a workspace folder to bootstrap the playbook.');
+		return;
+	}
+
+	const client = getAceClient(folder);
+	if (!client) {
+		vscode.window.showWarningMessage('ACE not configured. Run ACE: Configure Connection first.');
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(MODE_ITEMS, { placeHolder: 'Select bootstrap mode' });
+	if (!picked) return;
+	const mode = picked.mode;
+	const wsRoot = folder.uri.fsPath;
+
+	let state = readBootstrapState(wsRoot);
+	if (isResumable(state, mode)) {
+		const choice = await vscode.window.showInformationMessage(
+			`A previous ${mode} bootstrap stopped at ${state.completed_ids.length}/${state.total}. Resume it?`,
+			'Resume',
+			'Start Over'
+		);
+		if (!choice) return;
+		if (choice === 'Start Over') {
+			state = null;
+		}
+	} else {
+		state = null;
+	}
+
+	const log = (msg: string) => output?.appendLine(`[${new Date().toLocaleTimeString()}] bootstrap: ${msg}`);
+
+	await vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: `ACE bootstrap (${mode})`,
+		cancellable: true
+	}, async (progress, token) => {
+		progress.report({ message: 'collecting workspace material...' });
+		const abort = new AbortController();
+		const onCancel = token.onCancellationRequested(() => abort.abort());
+		let items: BootstrapItem[];
+		try {
+			items = await planBootstrap(wsRoot, mode, { signal: abort.signal });
+		} finally {
+			onCancel.dispose();
+		}
+		if (token.isCancellationRequested) {
+			log('cancelled while collecting');
+			return;
+		}
+		if (items.length === 0) {
+			vscode.window.showInformationMessage(`ACE bootstrap: nothing to upload in ${mode} mode.`);
+			return;
+		}
+
+		const current = state ?? newBootstrapState(mode, items.length);
+		current.total = Math.max(current.total, items.length);
+		const todo = remainingItems(items, current);
+		writeBootstrapState(wsRoot, current);
+		log(`${mode} run ${current.run_id}: ${items.length} items, ${todo.length} remaining`);
+
+		const git = await getGitContext(wsRoot);
+		// Docs and source files are exactly where secrets sit in plain text.
+		const redactors = loadRedactors(path.join(wsRoot, '.cursor', 'ace'));
+		const step = 100 / items.length;
+		progress.report({ increment: step * (items.length - todo.length) });
+
+		let failed = 0;
+		for (const item of todo) {
+			if (token.isCancellationRequested) {
+				log(`cancelled at ${current.completed_ids.length}/${current.total}`);
+				vscode.window.showInformationMessage(
+					`ACE bootstrap paused at ${current.completed_ids.length}/${current.total}. Run it again to resume.`
+				);
+				return;
+			}
+
+			progress.report({ message: `${current.completed_ids.length + 1}/${current.total} ${item.title.slice(0, 60)}` });
+			try {
+				await client.storeExecutionTrace(redactValue(itemToSeedTrace(item, current.run_id, git), redactors));
+				current.completed_ids.push(item.id);
+				current.updated_at = new Date().toISOString();
+				writeBootstrapState(wsRoot, current);
+			} catch (error) {
+				if (isTokenExpiredError(error)) {
+					log('stopped: token expired');
+					const action = await vscode.window.showWarningMessage(
+						'ACE session expired during bootstrap. Login, then run it again to resume.',
+						'Login Now'
+					);
+					if (action === 'Login Now') {
+						vscode.commands.executeCommand('ace.login');
+					}
+					return;
+				}
+				failed++;
+				const message = error instanceof Error ? error.message : String(error);
+				log(`failed ${item.id}: ${message}`);
+			}
+			progress.report({ increment: step });
+		}
+
+		if (failed === 0) {
+			current.completed_at = new Date().toISOString();
+			writeBootstrapState(wsRoot, current);
+			log(`completed ${current.completed_ids.length} items`);
+			vscode.window.showInformationMessage(
+				`ACE bootstrap complete: ${current.completed_ids.length} items uploaded. Patterns appear once the server has reflected on them.`
+			);
+		} else {
+			vscode.window.showWarningMessage(
+				`ACE bootstrap finished with ${failed} failed item(s). Run it again to retry them.`
+			);
+		}
+	});
+}
@@ -0,0 +1,125 @@
+/**
+ * ACE: Test Domain Mapping
+ * Lists every open file with the domain the shared domain rules map it to
+ * (the same answer the domain-shift hook and the status bar get), which rule
+ * decided, and the server domain the hook narrows its search to. Also opens
+ * — or creates — the workspace's domains.json.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from '../ace/atomicWrite';
+import {
+	type DomainRuleSet,
+	describeDomainRule,
+	getDomainsConfigPath,
+	loadDomainRules,
+	matchDomain,
+	matchServerDomain,
+	toDomainPath
+} from '../ace/domainRules';
+
+const DOMAINS_JSON_TEMPLATE = {
+	rules: [
+		{ glob: 'services/billing/**', domain: 'billing' },
+	],
+	disableDefaults: false,
+};
+
+type MappingItem = vscode.QuickPickItem & { uri?: vscode.Uri; editConfig?: vscode.WorkspaceFolder };
+
+/** Open file tabs (active editor first), de-duplicated. */
+function openFileUris(): vscode.Uri[] {
+	const uris: vscode.Uri[] = [];
+	const active = vscode.window.activeTextEditor?.document.uri;
+	if (active?.scheme === 'file') uris.push(active);
+	for (const tab of vscode.window.tabGroups.all.flatMap(g => g.tabs)) {
+		if (tab.input instanceof vscode.TabInputText && tab.input.uri.scheme === 'file'
+			&& !uris.some(u => u.fsPath === (tab.input as vscode.TabInputText).uri.fsPath)) {
+			uris.push(tab.input.uri);
+		}
+	}
+	return uris;
+}
+
+type FolderDomains = { folder: vscode.WorkspaceFolder; ruleSet: DomainRuleSet; serverDomains: string[] };
+
+/** Server domains from the pattern_cache.json the extension's preload writes. */
+function readServerDomains(aceDir: string): string[] {
+	try {
+		const cache = JSON.parse(fs.readFileSync(path.join(aceDir, 'pattern_cache.json'), 'utf-8'));
+		return Array.isArray(cache?.domains) ? cache.domains.map(String) : [];
+	} catch {
+		return [];
+	}
+}
+
+function mappingItem(uri: vscode.Uri, { folder, ruleSet, serverDomains }: FolderDomains): MappingItem {
+	const rel = toDomainPath(folder.uri.fsPath, uri.fsPath);
+	const match = matchDomain(rel, ruleSet);
+	const why = match.rule
+		? `${describeDomainRule(match.rule)} (${match.rule.origin})`
+		: ruleSet.fallback ? 'no rule matched — fallback' : 'no rule matched — top-level directory';
+	const serverDomain = matchServerDomain(match.domain, serverDomains);
+	const server = serverDomain ? `server domain ${serverDomain}` : 'no matching server domain';
+	return { label: `$(symbol-namespace) ${match.domain}`, description: rel, detail: `${why} · ${server}`, uri };
+}
+
+export async function runTestDomainMapping(): Promise<void> {
+	const uris = openFileUris();
+	const folders = new Map<string, FolderDomains>();
+	const items: MappingItem[] = [];
+	for (const uri of uris) {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder) {
+			items.push({ label: '$(symbol-namespace) general', description: uri.fsPath, detail: 'outside the workspace', uri });
+			continue;
+		}
+		let entry = folders.get(folder.uri.fsPath);
+		if (!entry) {
+			const aceDir = path.join(folder.uri.fsPath, '.cursor', 'ace');
+			entry = { folder, ruleSet: loadDomainRules(aceDir), serverDomains: readServerDomains(aceDir) };
+			folders.set(folder.uri.fsPath, entry);
+		}
+		items.push(mappingItem(uri, entry));
+	}
+
+	const errors = [...folders.values()].flatMap(({ folder, ruleSet }) =>
+		ruleSet.errors.map(e => (folders.size > 1 ? `${folder.name}: ${e}` : e)));
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`ACE: skipped invalid domains.json entries — ${errors.join('; ')}`);
+	}
+
+	const configFolder = (uris[0] && vscode.workspace.getWorkspaceFolder(uris[0])) || vscode.workspace.workspaceFolders?.[0];
+	if (configFolder) {
+		if (items.length > 0) items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+		items.push({ label: '$(gear) Edit domains.json', description: configFolder.name, editConfig: configFolder });
+	}
+	if (items.length === 0) {
+		vscode.window.showInformationMessage('ACE: open a file to see which domain it maps to.');
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(items, {
+		title: 'ACE: Domain Mapping',
+		placeHolder: uris.length > 0 ? 'Domain of each open file (select to open it)' : 'No open files',
+		matchOnDescription: true,
+		matchOnDetail: true,
+	});
+	if (picked?.uri) {
+		await vscode.window.showTextDocument(picked.uri);
+	} else if (picked?.editConfig) {
+		await openDomainsConfig(picked.editConfig);
+	}
+}
+
+/** Open the folder's domains.json, creating it from a template first. */
+async function openDomainsConfig(folder: vscode.WorkspaceFolder): Promise<void> {
+	const configPath = getDomainsConfigPath(path.join(folder.uri.fsPath, '.cursor', 'ace'));
+	if (!fs.existsSync(configPath)) {
+		fs.mkdirSync(path.dirname(configPath), { recursive: true });
+		writeFileAtomic(configPath, JSON.stringify(DOMAINS_JSON_TEMPLATE, null, 2) + '\n');
+	}
+	await vscode.window.showTextDocument(vscode.Uri.file(configPath));
+}
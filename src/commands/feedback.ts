@@ -0,0 +1,115 @@
+/**
+ * ACE Pattern Feedback
+ * 👍/👎 on a pattern from search results, the Status panel, the Pattern
+ * Explorer or the Injected Patterns view. Sent to the server so explicit
+ * human signal feeds the playbook's quality metrics, then logged locally
+ * with whether it was sent.
+ */
+
+import * as vscode from 'vscode';
+import { isTokenExpiredError } from '@ace-sdk/core';
+import { getAceClient } from '../ace/client';
+import { getTargetFolder } from '../ace/context';
+import { sendPatternFeedback } from '../ace/playbookApi';
+import { type PatternHit, formatPatternLabel } from '../ace/patternSearch';
+import {
+	type FeedbackEntry,
+	type FeedbackRating,
+	type FeedbackSource,
+	buildFeedbackEntry,
+	appendFeedbackEntry
+} from '../ace/patternFeedback';
+
+/**
+ * Rate a pattern. Returns true when the server accepted the rating; the
+ * local log entry is written either way (with `sent` set accordingly).
+ */
+export async function ratePattern(
+	hit: PatternHit,
+	rating: FeedbackRating,
+	source: FeedbackSource,
+	folder?: vscode.WorkspaceFolder
+): Promise<boolean> {
+	const target = folder ?? await getTargetFolder('Select folder to record pattern feedback in');
+	if (!target) {
+		vscode.window.showWarningMessage('Open a workspace folder to rate patterns.');
+		return false;
+	}
+
+	const entry = buildFeedbackEntry(hit, rating, source);
+	const client = getAceClient(target);
+	if (!client) {
+		entry.error = 'not configured';
+		logFeedback(target.uri.fsPath, entry);
+		vscode.window.showWarningMessage('ACE not configured. Feedback was saved locally only.');
+		return false;
+	}
+
+	let failure: unknown;
+	try {
+		await sendPatternFeedback(client, hit.id, rating, target);
+		entry.sent = true;
+	} catch (error) {
+		failure = error;
+		entry.error = error instanceof Error ? error.message : String(error);
+		console.error('[ACE] Pattern feedback failed:', entry.error);
+	}
+	logFeedback(target.uri.fsPath, entry);
+
+	const icon = rating === 'helpful' ? '👍' : '👎';
+	if (entry.sent) {
+		vscode.window.setStatusBarMessage(`$(check) ACE: ${icon} ${formatPatternLabel(hit, 40)}`, 3000);
+		return true;
+	}
+	if (isTokenExpiredError(failure)) {
+		const action = await vscode.window.showWarningMessage(
+			'ACE session expired. Feedback was saved locally; login to send future ratings.',
+			'Login Now'
+		);
+		if (action === 'Login Now') {
+			vscode.commands.executeCommand('ace.login');
+		}
+	} else {
+		vscode.window.showWarningMessage(`ACE: feedback saved locally but not sent (${entry.error}).`);
+	}
+	return false;
+}
+
+/** The log is best-effort: a read-only workspace must not fail the rating. */
+function logFeedback(wsRoot: string, entry: FeedbackEntry): void {
+	try {
+		appendFeedbackEntry(wsRoot, entry);
+	} catch (error) {
+		console.error('[ACE] Saving pattern feedback failed:', error instanceof Error ? error.message : String(error));
+	}
+}
+
+/**
+ * Resolve the argument of a tree/menu invocation: Pattern Explorer and
+ * Injected Patterns nodes wrap the hit as `{ kind: 'pattern', pattern }`
+ * (injected ones add `source: 'injected'`); callers may pass a bare hit.
+ */
+export function patternFromCommandArg(arg: unknown): { hit: PatternHit; source: FeedbackSource } | undefined {
+	if (!arg || typeof arg !== 'object') return undefined;
+	const a = arg as { pattern?: PatternHit; source?: FeedbackSource; id?: unknown; content?: unknown };
+	if (a.pattern && typeof a.pattern === 'object') {
+		return { hit: a.pattern, source: a.source ?? 'explorer' };
+	}
+	if (typeof a.id === 'string' && typeof a.content === 'string') {
+		return { hit: arg as PatternHit, source: 'explorer' };
+	}
+	return undefined;
+}
+
+/**
+ * `ace.pattern.markHelpful` / `ace.pattern.markHarmful` handler for tree
+ * item context menus.
+ */
+export async function runRatePatternCommand(arg: unknown, rating: FeedbackRating): Promise<boolean> {
+	const resolved = patternFromCommandArg(arg);
+	if (!resolved) {
+		vscode.window.showWarningMessage('Select a pattern in the ACE view to rate it.');
+		return false;
+	}
+	return ratePattern(resolved.hit, rating, resolved.source);
+}
@@ -0,0 +1,124 @@
+/**
+ * ACE Capture Learning Command
+ * Builds a real ExecutionTrace from the user's answers plus the current
+ * conversation's MCP trajectory and sends it via storeExecutionTrace.
+ * Covers work done outside chat and Stop-hook failures.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isTokenExpiredError } from '@ace-sdk/core';
+import { getAceClient } from '../ace/client';
+import { getTargetFolder } from '../ace/context';
+import { getGitContext } from '../ace/trajectory';
+import { buildManualTrace, listTaskConversations } from '../ace/manualTrace';
+import { loadRedactors, redactValue } from '../ace/redaction';
+import { LearnResultPanel } from '../webviews/learnResultPanel';
+
+/**
+ * Let the user pick which conversation's trajectory to attach.
+ * Returns '' for "answers only", undefined when cancelled.
+ */
+async function pickConversation(aceDir: string): Promise<string | undefined> {
+	const conversations = listTaskConversations(aceDir);
+	if (conversations.length === 0) {
+		return '';
+	}
+
+	const items: (vscode.QuickPickItem & { convId: string })[] = conversations.slice(0, 20).map((c, i) => ({
+		label: `$(comment-discussion) ${c.id.slice(0, 8)}`,
+		description: i === 0 ? 'most recent' : undefined,
+		detail: `Last activity: ${new Date(c.mtimeMs).toLocaleString()}`,
+		convId: c.id
+	}));
+	items.push({
+		label: '$(circle-slash) No conversation',
+		detail: 'Send only the task, outcome and lessons',
+		convId: ''
+	});
+
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: 'Attach which conversation\'s trajectory?',
+		title: 'ACE: Capture Learning'
+	});
+	return selected?.convId;
+}
+
+/**
+ * Run the Capture Learning flow for the target folder
+ */
+export async function runCaptureLearning(extensionUri: vscode.Uri): Promise<void> {
+	const folder = await getTargetFolder('Select folder to capture learning for');
+	if (!folder) {
+		vscode.window.showWarningMessage('Open a workspace folder to capture learning.');
+		return;
+	}
+
+	const client = getAceClient(folder);
+	if (!client) {
+		vscode.window.showWarningMessage('ACE not configured. Run ACE: Configure Connection first.');
+		return;
+	}
+
+	const task = await vscode.window.showInputBox({
+		prompt: 'What task did you complete?',
+		ignoreFocusOut: true
+	});
+	if (!task) return;
+
+	const outcome = await vscode.window.showQuickPick(['Success', 'Failure'], {
+		placeHolder: 'Was the task successful?'
+	});
+	if (!outcome) return;
+
+	const lessons = await vscode.window.showInputBox({
+		prompt: 'What were the key lessons learned?',
+		ignoreFocusOut: true
+	});
+	if (lessons === undefined) return;
+
+	const aceDir = path.join(folder.uri.fsPath, '.cursor', 'ace');
+	const conversationId = await pickConversation(aceDir);
+	if (conversationId === undefined) return;
+
+	let trajectoryLines: string[] = [];
+	if (conversationId) {
+		try {
+			const raw = fs.readFileSync(path.join(aceDir, 'tasks', conversationId, 'mcp_trajectory.jsonl'), 'utf-8');
+			trajectoryLines = raw.split('\n');
+		} catch {
+			// Trajectory vanished between pick and read — send answers only.
+		}
+	}
+
+	const trace = redactValue(buildManualTrace({
+		task,
+		success: outcome === 'Success',
+		lessons,
+		conversationId,
+		trajectoryLines,
+		git: await getGitContext(folder.uri.fsPath)
+	}), loadRedactors(aceDir));
+
+	try {
+		const response = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'ACE: sending learning trace...',
+			cancellable: false
+		}, () => client.storeExecutionTrace(trace));
+
+		console.log(`[ACE] Manual trace stored (session=${trace.session_id}, steps=${trace.trajectory.length})`);
+		LearnResultPanel.show(extensionUri, trace, response);
+	} catch (error) {
+		if (isTokenExpiredError(error)) {
+			const action = await vscode.window.showWarningMessage('ACE session expired. Login required.', 'Login Now');
+			if (action === 'Login Now') {
+				vscode.commands.executeCommand('ace.login');
+			}
+			return;
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		vscode.window.showErrorMessage(`ACE: failed to store learning trace: ${message}`);
+	}
+}
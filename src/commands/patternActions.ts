@@ -0,0 +1,200 @@
+/**
+ * ACE Pattern Actions
+ * Edit, deprecate, delete and pin playbook patterns from the Pattern Explorer,
+ * the Injected Patterns view or search results. Edits, deprecations and
+ * deletes go to the playbook REST API after a before/after diff and a modal
+ * confirmation; pins live in .cursor/ace/settings.json.
+ */
+
+import * as vscode from 'vscode';
+import { isTokenExpiredError } from '@ace-sdk/core';
+import { getTargetFolder } from '../ace/context';
+import { updatePattern, deprecatePattern, deletePattern } from '../ace/playbookApi';
+import {
+	type PatternHit,
+	type PatternChange,
+	SECTION_LABELS,
+	sectionLabel,
+	formatPatternLabel,
+	patternChangePreview
+} from '../ace/patternSearch';
+import { isPinned, pinPattern, unpinPattern } from '../ace/pinnedPatterns';
+import { patternFromCommandArg } from './feedback';
+
+const PREVIEW_SCHEME = 'ace-pattern-preview';
+const previewContents = new Map<string, string>();
+
+/**
+ * Read-only documents backing the confirmation diff (untitled documents
+ * would prompt to save when the diff is closed).
+ */
+export function registerPatternPreviewProvider(): vscode.Disposable {
+	return vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+		provideTextDocumentContent: uri => previewContents.get(uri.toString()) ?? ''
+	});
+}
+
+async function showChangeDiff(hit: PatternHit, change: PatternChange, verb: string): Promise<void> {
+	const { before, after } = patternChangePreview(hit, change);
+	const stamp = Date.now();
+	const left = vscode.Uri.parse(`${PREVIEW_SCHEME}:/${encodeURIComponent(hit.id)}/current.md?${stamp}`);
+	const right = vscode.Uri.parse(`${PREVIEW_SCHEME}:/${encodeURIComponent(hit.id)}/${change.kind}.md?${stamp}`);
+	previewContents.set(left.toString(), before);
+	previewContents.set(right.toString(), after);
+	await vscode.commands.executeCommand('vscode.diff', left, right, `ACE: ${verb} ${formatPatternLabel(hit, 40)}`, { preview: true });
+}
+
+function resolvePattern(arg: unknown): PatternHit | undefined {
+	const hit = patternFromCommandArg(arg)?.hit;
+	if (!hit) {
+		vscode.window.showWarningMessage('Select a pattern in the ACE view first.');
+	}
+	return hit;
+}
+
+async function applyServerChange(label: string, action: () => Promise<void>): Promise<boolean> {
+	try {
+		await action();
+		return true;
+	} catch (error) {
+		if (isTokenExpiredError(error)) {
+			const choice = await vscode.window.showWarningMessage('ACE session expired. Login to change patterns.', 'Login Now');
+			if (choice === 'Login Now') {
+				vscode.commands.executeCommand('ace.login');
+			}
+			return false;
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		vscode.window.showErrorMessage(`ACE: failed to ${label} pattern: ${message}`);
+		return false;
+	}
+}
+
+/**
+ * Edit a pattern's content and/or section after a confirmation diff.
+ * Returns true when the server accepted a change.
+ */
+export async function runEditPattern(arg: unknown): Promise<boolean> {
+	const hit = resolvePattern(arg);
+	if (!hit) return false;
+
+	const content = await vscode.window.showInputBox({
+		title: 'ACE: Edit Pattern',
+		prompt: 'Pattern content',
+		value: hit.content,
+		validateInput: value => value.trim() ? undefined : 'Content cannot be empty'
+	});
+	if (content === undefined) return false;
+
+	const sections = Array.from(new Set([hit.section, ...Object.keys(SECTION_LABELS)]));
+	const picked = await vscode.window.showQuickPick(
+		sections.map(section => ({
+			label: sectionLabel(section),
+			description: section === hit.section ? 'current' : undefined,
+			section
+		})),
+		{ title: 'ACE: Edit Pattern', placeHolder: 'Section' }
+	);
+	if (!picked) return false;
+
+	const change: PatternChange = { kind: 'edit' };
+	if (content.trim() !== hit.content.trim()) change.content = content.trim();
+	if (picked.section !== hit.section) change.section = picked.section;
+	if (change.content === undefined && change.section === undefined) {
+		vscode.window.showInformationMessage('ACE: pattern unchanged.');
+		return false;
+	}
+
+	await showChangeDiff(hit, change, 'Edit');
+	const choice = await vscode.window.showWarningMessage(
+		'Save these changes to the pattern? They apply to every workspace using this playbook.',
+		{ modal: true },
+		'Save'
+	);
+	if (choice !== 'Save') return false;
+
+	const ok = await applyServerChange('update', () =>
+		updatePattern(hit.id, { content: change.content, section: change.section })
+	);
+	if (!ok) return false;
+
+	// Keep a pinned copy in step with the server.
+	const folder = await getTargetFolder('Select folder with pinned patterns');
+	if (folder && isPinned(folder.uri.fsPath, hit.id)) {
+		pinPattern(folder.uri.fsPath, { ...hit, content: change.content ?? hit.content, section: change.section ?? hit.section });
+	}
+	vscode.window.showInformationMessage('ACE: pattern updated.');
+	return true;
+}
+
+/** Deprecate after a confirmation diff. */
+export async function runDeprecatePattern(arg: unknown): Promise<boolean> {
+	const hit = resolvePattern(arg);
+	if (!hit) return false;
+
+	await showChangeDiff(hit, { kind: 'deprecate' }, 'Deprecate');
+	const choice = await vscode.window.showWarningMessage(
+		'Deprecate this pattern? It stays in the playbook history but is no longer returned by search.',
+		{ modal: true },
+		'Deprecate'
+	);
+	if (choice !== 'Deprecate') return false;
+
+	const ok = await applyServerChange('deprecate', () => deprecatePattern(hit.id));
+	if (ok) {
+		await unpinFromTarget(hit.id);
+		vscode.window.showInformationMessage('ACE: pattern deprecated.');
+	}
+	return ok;
+}
+
+/** Delete after a confirmation diff. */
+export async function runDeletePattern(arg: unknown): Promise<boolean> {
+	const hit = resolvePattern(arg);
+	if (!hit) return false;
+
+	await showChangeDiff(hit, { kind: 'delete' }, 'Delete');
+	const choice = await vscode.window.showWarningMessage(
+		'Delete this pattern permanently? This cannot be undone.',
+		{ modal: true },
+		'Delete'
+	);
+	if (choice !== 'Delete') return false;
+
+	const ok = await applyServerChange('delete', () => deletePattern(hit.id));
+	if (ok) {
+		await unpinFromTarget(hit.id);
+		vscode.window.showInformationMessage('ACE: pattern deleted.');
+	}
+	return ok;
+}
+
+async function unpinFromTarget(id: string): Promise<void> {
+	const folder = await getTargetFolder('Select folder with pinned patterns');
+	if (folder) {
+		unpinPattern(folder.uri.fsPath, id);
+	}
+}
+
+/**
+ * Pin a pattern for its domain in this workspace, or unpin it if already
+ * pinned. Local only — no server call.
+ */
+export async function runTogglePinPattern(arg: unknown): Promise<boolean> {
+	const hit = resolvePattern(arg);
+	if (!hit) return false;
+	const folder = await getTargetFolder('Select folder to pin the pattern in');
+	if (!folder) {
+		vscode.window.showWarningMessage('Open a workspace folder to pin patterns.');
+		return false;
+	}
+	const wsRoot = folder.uri.fsPath;
+	if (isPinned(wsRoot, hit.id)) {
+		unpinPattern(wsRoot, hit.id);
+		vscode.window.setStatusBarMessage(`$(pinned) ACE: unpinned ${formatPatternLabel(hit, 40)}`, 3000);
+	} else {
+		pinPattern(wsRoot, hit);
+		vscode.window.showInformationMessage(`ACE: pinned for ${hit.domain} — injected whenever a search touches that domain.`);
+	}
+	return true;
+}
@@ -0,0 +1,275 @@
+/**
+ * ACE Search Patterns Command
+ * Live QuickPick over AceClient.searchPatterns — lets engineers check what the
+ * playbook says without starting a chat. Falls back to (or, via the title bar
+ * button, searches only) the local pattern mirror when the server is out of reach.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAceClient } from '../ace/client';
+import { getTargetFolder } from '../ace/context';
+import { ratePattern } from './feedback';
+import { runEditPattern, runDeprecatePattern, runDeletePattern, runTogglePinPattern } from './patternActions';
+import {
+	type PatternHit,
+	normalizeSearchResults,
+	groupPatterns,
+	formatPatternLabel,
+	formatPatternStats,
+	formatPatternMarkdown,
+} from '../ace/patternSearch';
+import { BUILTIN_REDACTORS, loadRedactors, redactString } from '../ace/redaction';
+import { readMirrorState, searchMirror, formatMirrorAge, isMirrorAvailable } from '../ace/patternMirror';
+
+// Interactive search is exploratory — looser than the hook threshold (0.85)
+// so partial queries still surface something.
+const SEARCH_THRESHOLD = 0.5;
+const SEARCH_TOP_K = 20;
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 3;
+
+type PatternItem = vscode.QuickPickItem & { hit?: PatternHit };
+
+const copyButton: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('copy'),
+	tooltip: 'Copy pattern'
+};
+const insertButton: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('insert'),
+	tooltip: 'Insert into active editor'
+};
+const previewButton: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('open-preview'),
+	tooltip: 'Open in preview document'
+};
+const helpfulButton: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('thumbsup'),
+	tooltip: 'Mark helpful'
+};
+const harmfulButton: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('thumbsdown'),
+	tooltip: 'Mark harmful'
+};
+const offlineButton: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('database'),
+	tooltip: 'Search the local pattern mirror (offline)'
+};
+const onlineButton: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('cloud'),
+	tooltip: 'Search the ACE server'
+};
+
+/**
+ * Build grouped QuickPick items (separator per section/domain group)
+ */
+function buildItems(hits: PatternHit[]): PatternItem[] {
+	const items: PatternItem[] = [];
+	for (const group of groupPatterns(hits)) {
+		items.push({ label: group.label, kind: vscode.QuickPickItemKind.Separator });
+		for (const hit of group.patterns) {
+			items.push({
+				label: formatPatternLabel(hit),
+				description: formatPatternStats(hit),
+				detail: hit.content.includes('\n') ? hit.content.split('\n').slice(1).join(' ').trim().slice(0, 200) : undefined,
+				buttons: [copyButton, insertButton, previewButton, helpfulButton, harmfulButton],
+				// Hits are semantic matches; don't let the QuickPick's text filter hide them.
+				alwaysShow: true,
+				hit
+			});
+		}
+	}
+	return items;
+}
+
+async function copyPattern(hit: PatternHit): Promise<void> {
+	await vscode.env.clipboard.writeText(hit.content);
+	vscode.window.setStatusBarMessage('$(check) ACE: pattern copied', 2000);
+}
+
+async function insertPattern(hit: PatternHit): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor) {
+		vscode.window.showWarningMessage('No active editor to insert the pattern into.');
+		return;
+	}
+	await editor.edit(edit => {
+		for (const selection of editor.selections) {
+			edit.replace(selection, hit.content);
+		}
+	});
+}
+
+async function previewPattern(hit: PatternHit): Promise<void> {
+	const doc = await vscode.workspace.openTextDocument({
+		language: 'markdown',
+		content: formatPatternMarkdown(hit)
+	});
+	await vscode.window.showTextDocument(doc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+}
+
+/**
+ * Show the live pattern search QuickPick
+ * Queries searchPatterns as the user types (debounced); accepting an item
+ * offers copy / insert / preview / rate / pin / edit, or use the inline
+ * buttons directly.
+ */
+export async function showSearchPatternsQuickPick(): Promise<void> {
+	const folder = await getTargetFolder('Select folder to search patterns');
+	const client = getAceClient(folder);
+	const aceDir = folder ? path.join(folder.uri.fsPath, '.cursor', 'ace') : undefined;
+	// A synced local mirror lets the search work without the server.
+	const hasMirror = !!aceDir && readMirrorState(aceDir) !== null && isMirrorAvailable();
+	if (!client && !hasMirror) {
+		const action = await vscode.window.showWarningMessage(
+			'ACE not configured or not logged in. Configure ACE to search patterns.',
+			'Configure',
+			'Login'
+		);
+		if (action === 'Configure') {
+			vscode.commands.executeCommand('ace.configure');
+		} else if (action === 'Login') {
+			vscode.commands.executeCommand('ace.login');
+		}
+		return;
+	}
+
+	const qp = vscode.window.createQuickPick<PatternItem>();
+	qp.placeholder = 'Type to search the playbook (e.g. "jwt refresh token rotation")';
+
+	let offline = !client;
+	const setOffline = (value: boolean) => {
+		offline = value;
+		qp.title = offline
+			? `ACE: Search Patterns (offline — ${formatMirrorAge(readMirrorState(aceDir!))})`
+			: 'ACE: Search Patterns';
+		qp.buttons = hasMirror && client ? [offline ? onlineButton : offlineButton] : [];
+	};
+	setOffline(offline);
+
+	const redactors = aceDir ? loadRedactors(aceDir) : BUILTIN_REDACTORS;
+	let timer: NodeJS.Timeout | undefined;
+	// Drop responses that arrive after a newer query was issued.
+	let requestSeq = 0;
+
+	const showHits = (hits: PatternHit[], query: string, note = '') => {
+		qp.items = buildItems(hits);
+		qp.placeholder = (hits.length === 0
+			? `No patterns matched "${query}"`
+			: `${hits.length} pattern${hits.length === 1 ? '' : 's'} for "${query}"`) + note;
+	};
+
+	const runSearch = async (query: string) => {
+		const seq = ++requestSeq;
+		if (offline || !client) {
+			qp.busy = false;
+			showHits(searchMirror(aceDir!, query, SEARCH_TOP_K), query);
+			return;
+		}
+		qp.busy = true;
+		try {
+			const result = await client.searchPatterns({
+				query: redactString(query, redactors),
+				threshold: SEARCH_THRESHOLD,
+				top_k: SEARCH_TOP_K,
+				include_metadata: false,
+				agent_type: 'cursor'
+			});
+			if (seq !== requestSeq) return;
+			showHits(normalizeSearchResults(result), query);
+		} catch (error) {
+			if (seq !== requestSeq) return;
+			const message = error instanceof Error ? error.message : String(error);
+			if (hasMirror) {
+				showHits(searchMirror(aceDir!, query, SEARCH_TOP_K), query, ` — server unavailable (${message}), showing local mirror`);
+				return;
+			}
+			qp.items = [];
+			qp.placeholder = `Search failed: ${message}`;
+		} finally {
+			if (seq === requestSeq) {
+				qp.busy = false;
+			}
+		}
+	};
+
+	qp.onDidChangeValue(value => {
+		if (timer) clearTimeout(timer);
+		const query = value.trim();
+		if (query.length < MIN_QUERY_LENGTH) {
+			requestSeq++;
+			qp.busy = false;
+			qp.items = [];
+			return;
+		}
+		timer = setTimeout(() => { void runSearch(query); }, DEBOUNCE_MS);
+	});
+
+	qp.onDidTriggerButton(button => {
+		setOffline(button === offlineButton);
+		const query = qp.value.trim();
+		if (query.length >= MIN_QUERY_LENGTH) {
+			void runSearch(query);
+		}
+	});
+
+	qp.onDidTriggerItemButton(async e => {
+		const hit = e.item.hit;
+		if (!hit) return;
+		if (e.button === copyButton) {
+			await copyPattern(hit);
+		} else if (e.button === insertButton) {
+			qp.hide();
+			await insertPattern(hit);
+		} else if (e.button === previewButton) {
+			await previewPattern(hit);
+		} else if (e.button === helpfulButton || e.button === harmfulButton) {
+			await ratePattern(hit, e.button === helpfulButton ? 'helpful' : 'harmful', 'search', folder);
+		}
+	});
+
+	qp.onDidAccept(async () => {
+		const hit = qp.selectedItems[0]?.hit;
+		if (!hit) return;
+		qp.hide();
+		const action = await vscode.window.showQuickPick(
+			[
+				{ label: '$(copy) Copy', action: 'copy' },
+				{ label: '$(insert) Insert into Editor', action: 'insert' },
+				{ label: '$(open-preview) Open Preview', action: 'preview' },
+				{ label: '$(thumbsup) Mark Helpful', action: 'helpful' },
+				{ label: '$(thumbsdown) Mark Harmful', action: 'harmful' },
+				{ label: '$(pinned) Pin / Unpin for Domain', action: 'pin' },
+				{ label: '$(edit) Edit…', action: 'edit' },
+				{ label: '$(archive) Deprecate…', action: 'deprecate' },
+				{ label: '$(trash) Delete…', action: 'delete' }
+			],
+			{ placeHolder: formatPatternLabel(hit, 80) }
+		);
+		if (!action) return;
+		if (action.action === 'copy') {
+			await copyPattern(hit);
+		} else if (action.action === 'insert') {
+			await insertPattern(hit);
+		} else if (action.action === 'helpful' || action.action === 'harmful') {
+			await ratePattern(hit, action.action, 'search', folder);
+		} else if (action.action === 'pin') {
+			await runTogglePinPattern(hit);
+		} else if (action.action === 'edit') {
+			await runEditPattern(hit);
+		} else if (action.action === 'deprecate') {
+			await runDeprecatePattern(hit);
+		} else if (action.action === 'delete') {
+			await runDeletePattern(hit);
+		} else {
+			await previewPattern(hit);
+		}
+	});
+
+	qp.onDidHide(() => {
+		if (timer) clearTimeout(timer);
+		qp.dispose();
+	});
+
+	qp.show();
+}
@@ -0,0 +1,62 @@
+/**
+ * ACE Review Pending Traces Command
+ * Opens the Trace Review panel for traces the Stop hook parked because
+ * ace.reviewTracesBeforeUpload is on, and prompts when a new one appears.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getTargetFolder } from '../ace/context';
+import { listPendingTraces } from '../ace/pendingTrace';
+import { TraceReviewPanel } from '../webviews/traceReviewPanel';
+
+/**
+ * Pick a pending trace in the target folder and open it for review.
+ */
+export async function runReviewPendingTraces(extensionUri: vscode.Uri, onResolved?: () => void): Promise<void> {
+	const folder = await getTargetFolder('Select folder to review traces for');
+	if (!folder) {
+		vscode.window.showWarningMessage('Open a workspace folder to review traces.');
+		return;
+	}
+
+	const pending = listPendingTraces(path.join(folder.uri.fsPath, '.cursor', 'ace'));
+	if (pending.length === 0) {
+		vscode.window.showInformationMessage('ACE: no traces waiting for review.');
+		return;
+	}
+
+	let convId = pending[0].convId;
+	if (pending.length > 1) {
+		const selected = await vscode.window.showQuickPick(
+			pending.map((p, i) => ({
+				label: `$(comment-discussion) ${p.convId.slice(0, 8)}`,
+				description: i === 0 ? 'most recent' : undefined,
+				detail: `Built: ${new Date(p.mtimeMs).toLocaleString()}`,
+				convId: p.convId
+			})),
+			{ placeHolder: 'Review which trace?', title: 'ACE: Review Pending Traces' }
+		);
+		if (!selected) return;
+		convId = selected.convId;
+	}
+
+	TraceReviewPanel.show(extensionUri, folder, convId, onResolved);
+}
+
+/**
+ * Called by the pending-trace.json watcher when the Stop hook parks a trace.
+ */
+export async function promptForPendingTrace(extensionUri: vscode.Uri, uri: vscode.Uri, onResolved?: () => void): Promise<void> {
+	const folder = vscode.workspace.getWorkspaceFolder(uri);
+	if (!folder) return;
+	const convId = path.basename(path.dirname(uri.fsPath));
+	const choice = await vscode.window.showInformationMessage(
+		`ACE: the trace for task ${convId.slice(0, 8)} is waiting for your review before upload.`,
+		'Review',
+		'Later'
+	);
+	if (choice === 'Review') {
+		TraceReviewPanel.show(extensionUri, folder, convId, onResolved);
+	}
+}
@@ -14,28 +14,60 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { getAceGlobalConfigPath } from './ace/globalConfigPath';
-import { getDiagnosticRulesPath } from './ace/diagnosticHelpers';
+import {
+	getDiagnosticRulesPath,
+	findHookNode,
+	buildHookCommand,
+	findHookFileProblems,
+	diffHooksConfig,
+	getMcpStatusPath,
+	parseHelperDoneResults,
+	describeHelperExitCode,
+	formatDiagnosticReportMarkdown,
+	type DiagnosticFinding,
+	type DiagnosticFixId,
+} from './ace/diagnosticHelpers';
+import type { HookEvent } from './hooks/payload';
 import { StatusPanel } from './webviews/statusPanel';
 import { ConfigurePanel } from './webviews/configurePanel';
 import { readContext, readWorkspaceVersion, writeWorkspaceVersion, pickWorkspaceFolder, getTargetFolder, isMultiRootWorkspace, type AceContext } from './ace/context';
-import { removeAceHooksFromHooksJson } from './ace/uninstallHelpers';
+import { mergeAceHooksIntoHooksJson, removeAceHooksFromHooksJson } from './ace/uninstallHelpers';
 import { writeFileAtomic } from './ace/atomicWrite';
 import { initWorkspaceMonitor, getCurrentFolder, refreshStatusBar } from './automation/workspaceMonitor';
 import { runLoginCommand, logout, isAuthenticated, getTokenExpiration, handleAuthError, getValidToken, getHardCapInfo } from './commands/login';
 import { AceClient, loadConfig, loadUserAuth, getDefaultOrgId } from '@ace-sdk/core';
 import { showDevicesQuickPick } from './commands/devices';
+import { showSearchPatternsQuickPick } from './commands/search';
+import { runCaptureLearning } from './commands/learn';
+import { runBootstrap } from './commands/bootstrap';
+import { runTestDomainMapping } from './commands/domainMapping';
+import { PatternExplorerProvider } from './views/patternExplorer';
+import { InjectedPatternsProvider } from './views/injectedPatterns';
+import { TaskHistoryProvider } from './views/taskHistory';
+import { TaskTimelinePanel } from './webviews/taskTimelinePanel';
+import { runReviewPendingTraces, promptForPendingTrace } from './commands/traceReview';
+import { OutboxRetrier } from './automation/outboxRetry';
+import { PatternMirrorSync } from './automation/patternMirrorSync';
+import { SearchDaemonHost } from './automation/searchDaemonHost';
+import { withOutboxLine } from './ace/outbox';
+import { isMirrorAvailable } from './ace/patternMirror';
+import { DEFAULT_SEARCH_CACHE_TTL_SECONDS } from './ace/searchCache';
+import { runRatePatternCommand } from './commands/feedback';
+import {
+	registerPatternPreviewProvider,
+	runEditPattern,
+	runDeprecatePattern,
+	runDeletePattern,
+	runTogglePinPattern
+} from './commands/patternActions';
+import { PatternDetailPanel } from './webviews/patternDetailPanel';
 import { getAceClient, clearQuotaWarningTracking, getLastUsageInfo, invalidateClient } from './ace/client';
 import {
 	getAcePatternsRuleContent,
 	getDomainSearchRuleContent,
-	getMcpTrackScriptContent,
-	getPreToolUseScriptContent,
-	getPreToolUsePsScriptContent,
 	getSearchHelperContent,
-	// v0.5.0 — server-side learn helper + domain-shift inject
+	// v0.5.0 — server-side learn helper
 	getLearnHelperContent,
-	getStopHookScriptContent,
-	getDomainShiftScriptContent,
 	// v0.5.0-dev.19 Task G — workspace AGENTS.md
 	getAgentsMdContent,
 } from './ace/hookScripts';
@@ -44,7 +76,16 @@ import {
 	pickFoldersToInitializeOnAdd,
 } from './ace/optInHelpers';
 import { cleanupOldExtensionDirs } from './lifecycle/cleanupOldVersions';
-import { getAceMcpProxyContent } from './mcp/ace-mcp-proxy';
+import {
+	ACE_MCP_PACKAGE,
+	ACE_MCP_VERSION,
+	formatProxyLogLine,
+	getAceMcpProxyContent,
+	PROXY_ENV_VARS,
+	PROXY_LOG_FILE,
+	WORKSPACE_ROOT_ENV
+} from './mcp/ace-mcp-proxy';
+import { McpHttpServer } from './mcp/httpTransport';
 import { trajectoryLineToUiUpdate } from './ace/trajectoryWatcher';
 // v0.5.0-dev.20 — workspace cleanup + initializer overhaul (Tasks C–H).
 // v0.5.0-dev.21 — adds migrateLegacyMdRules (RULE.md → RULE.mdc).
@@ -71,6 +112,21 @@ export function getAceOutputChannel(): vscode.OutputChannel | undefined {
 	return aceOutput;
 }
 
+// Activity bar Pattern Explorer (refreshed after ace_learn succeeds)
+let patternExplorer: PatternExplorerProvider | undefined;
+// Activity bar Injected Patterns (refreshed after ace_search and after rating)
+let injectedPatterns: InjectedPatternsProvider | undefined;
+// Activity bar Task History (refreshed after ace_search and ace_learn)
+let taskHistory: TaskHistoryProvider | undefined;
+// Retries learn traces the Stop hook queued in .cursor/ace/outbox/
+let outboxRetrier: OutboxRetrier | undefined;
+// Keeps the offline pattern mirror (.cursor/ace/mirror/patterns.db) in sync
+let patternMirror: PatternMirrorSync | undefined;
+// Runs ace_search_daemon.js so hooks skip the Node cold start
+let searchDaemon: SearchDaemonHost | undefined;
+// Current MCP server registration (and HTTP endpoint), replaced on re-register
+let mcpRegistration: vscode.Disposable | undefined;
+
 // Preloaded pattern info for status bar display
 let preloadedPatternCount: number = 0;
 let preloadedDomains: string[] = [];
@@ -84,6 +140,9 @@ interface CursorMcpApi {
 			command: string;
 			args: string[];
 			env?: Record<string, string>;
+		} | {
+			url: string;
+			headers?: Record<string, string>;
 		};
 	}): { dispose(): void };
 }
@@ -506,6 +565,15 @@ export async function activate(context: vscode.ExtensionContext) {
 							statusBarItem.show();
 						}
 						aceOutput?.appendLine(update.outputLine);
+						if (update.learnStored) {
+							patternExplorer?.refresh();
+						}
+						if (update.searchCompleted) {
+							injectedPatterns?.refresh();
+						}
+						if (update.learnStored || update.searchCompleted) {
+							taskHistory?.refresh();
+						}
 						// Only revert to idle on terminal updates (check/error icons),
 						// not on spinner ones — those are followed by a result line.
 						if (update.statusBarText.includes('$(check)') || update.statusBarText.includes('$(error)')) {
@@ -520,6 +588,33 @@ export async function activate(context: vscode.ExtensionContext) {
 			mcpWatcher.onDidCreate(onMcpChange);
 			context.subscriptions.push(mcpWatcher);
 
+			// MCP proxy supervision log (child starts, crashes, restarts) → ACE Activity.
+			const proxyLogPattern = new vscode.RelativePattern(workspaceRoot, `.cursor/ace/${PROXY_LOG_FILE}`);
+			const proxyLogWatcher = vscode.workspace.createFileSystemWatcher(proxyLogPattern);
+			let lastProxyLogSize = 0;
+			try {
+				lastProxyLogSize = fs.statSync(path.join(workspaceRoot, '.cursor', 'ace', PROXY_LOG_FILE)).size;
+			} catch {
+				// No log yet.
+			}
+			const onProxyLogChange = async (uri: vscode.Uri) => {
+				try {
+					const buf = await vscode.workspace.fs.readFile(uri);
+					// Rotated (smaller than last read) → read the new file from the start.
+					const newSlice = buf.length >= lastProxyLogSize ? buf.slice(lastProxyLogSize) : buf;
+					lastProxyLogSize = buf.length;
+					for (const line of Buffer.from(newSlice).toString('utf-8').split('\n')) {
+						const text = line.trim() && formatProxyLogLine(line.trim());
+						if (text) { aceOutput?.appendLine(text); }
+					}
+				} catch {
+					// Ignore read errors (file may be transiently locked / removed).
+				}
+			};
+			proxyLogWatcher.onDidChange(onProxyLogChange);
+			proxyLogWatcher.onDidCreate(onProxyLogChange);
+			context.subscriptions.push(proxyLogWatcher);
+
 			// Watch ace-review-result.json for task helpfulness display
 			const reviewPattern = new vscode.RelativePattern(workspaceRoot, '.cursor/ace/ace-review-result.json');
 			const reviewWatcher = vscode.workspace.createFileSystemWatcher(reviewPattern);
@@ -557,17 +652,6 @@ export async function activate(context: vscode.ExtensionContext) {
 
 		console.log('[ACE] Extension activated successfully');
 
-		// 9. Check jq availability (needed for hook scripts on Unix/macOS)
-		if (process.platform !== 'win32') {
-			const { execSync } = require('child_process');
-			try {
-				execSync('command -v jq', { stdio: 'ignore' });
-			} catch {
-				console.warn('[ACE] jq not found — some hook features (task helpfulness) will be limited. Install: brew install jq (macOS) or apt install jq (Linux)');
-				aceOutput?.appendLine('[ACE] Warning: jq not found. Install jq for full hook functionality (brew install jq / apt install jq)');
-			}
-		}
-
 		// Clean up older same-publisher extension install dirs (Cursor leaves them behind).
 		// Deferred so it doesn't slow activation.
 		setTimeout(() => {
@@ -641,11 +725,7 @@ export async function activate(context: vscode.ExtensionContext) {
 			const wsRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 			if (wsRoot) {
 				try {
-					const projectHash = wsRoot.replace(/\//g, '-').replace(/^-/, '');
-					const statusPath = path.join(
-						os.homedir(), '.cursor', 'projects', projectHash,
-						'mcps', 'user-ce-dot-net.cursor-ace-extension-extension-ace-pattern-learning', 'STATUS.md'
-					);
+					const statusPath = getMcpStatusPath(wsRoot, os.homedir());
 					if (fs.existsSync(statusPath)) {
 						const status = fs.readFileSync(statusPath, 'utf8');
 						if (status.includes('errored') || status.includes('error')) {
@@ -663,6 +743,35 @@ export async function activate(context: vscode.ExtensionContext) {
 		}, 30 * 60 * 1000); // Every 30 minutes
 
 		context.subscriptions.push({ dispose: () => clearInterval(authHealthInterval) });
+
+		// 12. Offline outbox — retry learn traces that failed with 5xx/network
+		const showOutboxSize = (size: number) => {
+			if (statusBarItem && typeof statusBarItem.tooltip !== 'object') {
+				statusBarItem.tooltip = withOutboxLine(statusBarItem.tooltip ?? '', size);
+			}
+		};
+		outboxRetrier = new OutboxRetrier(showOutboxSize, message => {
+			aceOutput?.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+			taskHistory?.refresh();
+		});
+		const outboxWatcher = vscode.workspace.createFileSystemWatcher('**/.cursor/ace/outbox/*.json');
+		outboxWatcher.onDidCreate(() => showOutboxSize(outboxRetrier?.size() ?? 0));
+		context.subscriptions.push(outboxRetrier, outboxWatcher);
+		outboxRetrier.start();
+
+		// 13. Local pattern mirror — offline search for the helper and ACE: Search Patterns
+		patternMirror = new PatternMirrorSync(() => StatusPanel.refresh(), message => {
+			aceOutput?.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+		});
+		context.subscriptions.push(patternMirror);
+		patternMirror.start();
+
+		// 14. Search daemon — hooks query a warm AceClient instead of spawning node
+		searchDaemon = new SearchDaemonHost(context.extensionPath, message => {
+			aceOutput?.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+		});
+		context.subscriptions.push(searchDaemon);
+		searchDaemon.start();
 	} catch (error) {
 		console.error('[ACE] Activation error:', error);
 		vscode.window.showErrorMessage(`ACE extension activation failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -695,22 +804,122 @@ export async function activate(context: vscode.ExtensionContext) {
 			vscode.window.showInformationMessage('ACE search is now automatic via MCP. The AI calls ace_search before every task.');
 		}),
 		vscode.commands.registerCommand('ace.devices', showDevicesQuickPick),
+		vscode.commands.registerCommand('ace.testDomainMapping', runTestDomainMapping),
 		vscode.commands.registerCommand('ace.uninstallCleanup', runUninstallCleanup)
 	);
 
-	// v0.4.0: privacy opt-in marker. Bash hook only injects patterns when this
-	// marker exists. We sync from the VS Code setting on activation + on change.
+	// Pattern Explorer (activity bar)
+	patternExplorer = new PatternExplorerProvider();
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider('ace.patternExplorer', patternExplorer),
+		vscode.commands.registerCommand('ace.patternExplorer.refresh', () => patternExplorer?.refresh()),
+		vscode.commands.registerCommand('ace.patternExplorer.loadMore', (domain: string) => patternExplorer?.loadMore(domain)),
+		vscode.commands.registerCommand('ace.patternExplorer.openPattern', (pattern) => PatternDetailPanel.show(context.extensionUri, pattern))
+	);
+
+	// Injected Patterns (activity bar) + 👍/👎 from tree items
+	injectedPatterns = new InjectedPatternsProvider();
+	const rateFromTree = (rating: 'helpful' | 'harmful') => async (arg: unknown) => {
+		if (await runRatePatternCommand(arg, rating)) {
+			injectedPatterns?.refresh();
+		}
+	};
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider('ace.injectedPatterns', injectedPatterns),
+		vscode.commands.registerCommand('ace.injectedPatterns.refresh', () => injectedPatterns?.refresh()),
+		vscode.commands.registerCommand('ace.pattern.markHelpful', rateFromTree('helpful')),
+		vscode.commands.registerCommand('ace.pattern.markHarmful', rateFromTree('harmful'))
+	);
+
+	// Task History (activity bar) + per-task timeline
+	taskHistory = new TaskHistoryProvider();
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider('ace.taskHistory', taskHistory),
+		vscode.commands.registerCommand('ace.taskHistory.refresh', () => taskHistory?.refresh()),
+		vscode.commands.registerCommand('ace.taskHistory.openTask', (task) => TaskTimelinePanel.show(context.extensionUri, task))
+	);
+
+	// Review-before-upload: the Stop hook parks traces in pending-trace.json
+	const pendingTraceWatcher = vscode.workspace.createFileSystemWatcher('**/.cursor/ace/tasks/*/pending-trace.json');
+	const onTraceResolved = () => taskHistory?.refresh();
+	pendingTraceWatcher.onDidCreate(uri => {
+		taskHistory?.refresh();
+		promptForPendingTrace(context.extensionUri, uri, onTraceResolved);
+	});
+	context.subscriptions.push(
+		pendingTraceWatcher,
+		vscode.commands.registerCommand('ace.reviewPendingTraces', () => runReviewPendingTraces(context.extensionUri, onTraceResolved)),
+		vscode.commands.registerCommand('ace.retryOutbox', async () => {
+			if (!outboxRetrier) {
+				vscode.window.showWarningMessage('ACE is not active in this workspace.');
+				return;
+			}
+			const queued = outboxRetrier.size();
+			if (queued === 0) {
+				vscode.window.showInformationMessage('ACE: outbox is empty.');
+				return;
+			}
+			const sent = await outboxRetrier.retry(true);
+			vscode.window.showInformationMessage(`ACE: sent ${sent} of ${queued} queued trace${queued === 1 ? '' : 's'}.`);
+		}),
+		vscode.commands.registerCommand('ace.syncPatternMirror', async () => {
+			if (!patternMirror || !isMirrorAvailable()) {
+				vscode.window.showWarningMessage('ACE: the local pattern mirror needs the better-sqlite3 native module, which failed to load.');
+				return;
+			}
+			const result = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'ACE: syncing local pattern mirror...',
+				cancellable: false
+			}, () => patternMirror!.sync(true));
+			if (!result) {
+				vscode.window.showInformationMessage('ACE: a pattern mirror sync is already running.');
+			} else if (result.errors.length > 0) {
+				vscode.window.showErrorMessage(`ACE: pattern mirror sync failed — ${result.errors.join('; ')}`);
+			} else {
+				vscode.window.showInformationMessage(`ACE: pattern mirror rebuilt (${result.changed} pattern${result.changed === 1 ? '' : 's'}).`);
+			}
+		})
+	);
+
+	// Pattern edit / deprecate / delete / pin
+	const afterServerChange = (run: (arg: unknown) => Promise<boolean>) => async (arg: unknown) => {
+		if (await run(arg)) {
+			patternExplorer?.refresh();
+			injectedPatterns?.refresh();
+		}
+	};
+	context.subscriptions.push(
+		registerPatternPreviewProvider(),
+		vscode.commands.registerCommand('ace.pattern.edit', afterServerChange(runEditPattern)),
+		vscode.commands.registerCommand('ace.pattern.deprecate', afterServerChange(runDeprecatePattern)),
+		vscode.commands.registerCommand('ace.pattern.delete', afterServerChange(runDeletePattern)),
+		vscode.commands.registerCommand('ace.pattern.togglePin', async (arg: unknown) => {
+			if (await runTogglePinPattern(arg)) {
+				patternExplorer?.refreshPins();
+				injectedPatterns?.refresh();
+			}
+		})
+	);
+
+	// v0.4.0: privacy opt-in marker. Hooks only inject patterns when
+	// runtime-settings.json opts in. We sync from the VS Code setting on activation + on change.
 	syncShareRawPromptsOptInMarker();
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeConfiguration(e => {
-			if (e.affectsConfiguration('ace.shareRawPromptsForRetrievalAnalysis')) {
+			if (e.affectsConfiguration('ace.shareRawPromptsForRetrievalAnalysis')
+				|| e.affectsConfiguration('ace.reviewTracesBeforeUpload')
+				|| e.affectsConfiguration('ace.searchCacheTtlSeconds')) {
 				syncShareRawPromptsOptInMarker();
 			}
+			if (e.affectsConfiguration('ace.mcpTransport')) {
+				void registerMcpServer(context);
+			}
 		})
 	);
 
-	// v0.4.0: auth-status watcher. Bash hook writes "auth_expired" to
-	// .cursor/ace/auth-status.txt when ace-cli rejects with token-expired.
+	// v0.4.0: auth-status watcher. The post-tool-use hook writes "auth_expired"
+	// to .cursor/ace/auth-status.txt when the search helper reports token-expired.
 	// Surface ONE warning per status change (not per write — file may rewrite).
 	registerAuthStatusWatcher(context);
 }
@@ -718,11 +927,13 @@ export async function activate(context: vscode.ExtensionContext) {
 /**
  * v0.5.0 TASK 6 — write `runtime-settings.json` per workspace folder with the
  * full runtime toggle set (extensible). Replaces v0.4.0 marker-file-existence
- * scheme. Hooks read this JSON via jq.
+ * scheme. The ace_hook.js dispatcher reads this JSON on every hook.
  *
  * Schema:
  *   {
  *     "shareRawPromptsForRetrievalAnalysis": true|false,
+ *     "reviewTracesBeforeUpload": true|false,
+ *     "searchCacheTtlSeconds": number (0 = search cache off),
  *     "lastUpdated": "ISO 8601 timestamp"
  *   }
  *
@@ -734,6 +945,8 @@ function syncShareRawPromptsOptInMarker(): void {
 	for (const f of folders) {
 		const cfg = vscode.workspace.getConfiguration('ace', f.uri);
 		const optedIn = cfg.get<boolean>('shareRawPromptsForRetrievalAnalysis', false);
+		const reviewFirst = cfg.get<boolean>('reviewTracesBeforeUpload', false);
+		const cacheTtl = cfg.get<number>('searchCacheTtlSeconds', DEFAULT_SEARCH_CACHE_TTL_SECONDS);
 		const aceDir = path.join(f.uri.fsPath, '.cursor', 'ace');
 		const settingsFile = path.join(aceDir, 'runtime-settings.json');
 		const legacyMarker = path.join(aceDir, 'share-raw-prompts.optin');
@@ -742,6 +955,8 @@ function syncShareRawPromptsOptInMarker(): void {
 			// Caveman: write JSON config atomically (tmp+rename via writeFileAtomic).
 			const settings = {
 				shareRawPromptsForRetrievalAnalysis: !!optedIn,
+				reviewTracesBeforeUpload: !!reviewFirst,
+				searchCacheTtlSeconds: Math.max(0, Number(cacheTtl) || 0),
 				lastUpdated: new Date().toISOString(),
 			};
 			writeFileAtomic(settingsFile, JSON.stringify(settings, null, 2) + '\n');
@@ -756,8 +971,8 @@ function syncShareRawPromptsOptInMarker(): void {
 }
 
 /**
- * v0.4.0 — watch .cursor/ace/auth-status.txt across workspaces. The bash hook
- * writes "auth_expired" when ace-cli reports a token-expired error; we surface
+ * v0.4.0 — watch .cursor/ace/auth-status.txt across workspaces. The post-tool-use
+ * hook writes "auth_expired" when the search helper reports a token-expired error; we surface
  * ONE warning, then clear the file so the next failure can re-warn.
  */
 function registerAuthStatusWatcher(context: vscode.ExtensionContext): void {
@@ -1071,17 +1286,26 @@ async function registerMcpServer(context: vscode.ExtensionContext): Promise<void
 	if (aceConfig?.projectId) env.ACE_PROJECT_ID = aceConfig.projectId;
 	if (aceConfig?.orgId) env.ACE_ORG_ID = aceConfig.orgId;
 	if (userAuth?.token) env.ACE_API_TOKEN = userAuth.token;
+	// Proxy overrides set where Cursor was launched; .cursor/ace/proxy.json wins.
+	for (const name of PROXY_ENV_VARS) {
+		const value = process.env[name];
+		if (value !== undefined) env[name] = value;
+	}
+	// The proxy reads .cursor/ace/ from here, not from whatever cwd Cursor picks.
+	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	if (workspaceRoot) env[WORKSPACE_ROOT_ENV] = workspaceRoot;
 
 	// v0.5.0-dev.4 TASK 1 — bake the MCP proxy script into the TRUSTED extension
 	// dir, then register the MCP server pointed at `node <proxyPath>` instead of
 	// `npx @ace-sdk/mcp`. Proxy filters tools/list to hide ace_get_playbook +
 	// ace_learn from the AI's tool list. AI no see, AI no call.
 	let mcpCommand = 'npx';
-	let mcpArgs: string[] = ['-y', '@ace-sdk/mcp'];
+	let mcpArgs: string[] = ['-y', `${ACE_MCP_PACKAGE}@${ACE_MCP_VERSION}`];
+	let proxyPath: string | undefined;
 	try {
 		const helperDir = path.join(context.extensionPath, 'scripts');
 		fs.mkdirSync(helperDir, { recursive: true });
-		const proxyPath = path.join(helperDir, 'ace_mcp_proxy.js');
+		proxyPath = path.join(helperDir, 'ace_mcp_proxy.js');
 		writeFileAtomic(proxyPath, getAceMcpProxyContent(), { mode: 0o755 });
 		mcpCommand = 'node';
 		mcpArgs = [proxyPath];
@@ -1089,9 +1313,26 @@ async function registerMcpServer(context: vscode.ExtensionContext): Promise<void
 	} catch (e) {
 		// Caveman: proxy write failed → fall back to direct npx. AI still sees
 		// hidden tools, but preToolUse updated_input rewrite (TASK 2) catches.
+		proxyPath = undefined;
 		console.warn('[ACE] MCP proxy write failed, falling back to direct npx:', (e as Error).message);
 	}
 
+	// Re-registering (login, config change, Diagnose fix) replaces the old server.
+	mcpRegistration?.dispose();
+	mcpRegistration = undefined;
+
+	const transport = vscode.workspace.getConfiguration('ace').get<string>('mcpTransport', 'stdio');
+	if (transport === 'http' && proxyPath) {
+		mcpRegistration = await registerHttpMcpServer(cursorApi.mcp, proxyPath, env);
+		if (mcpRegistration) {
+			context.subscriptions.push(mcpRegistration);
+			vscode.window.showInformationMessage(
+				'ACE MCP server registered over local HTTP! AI will automatically retrieve patterns and capture learning.'
+			);
+			return;
+		}
+	}
+
 	try {
 		// Register the MCP server using Cursor's API.
 		const disposable = cursorApi.mcp.registerServer({
@@ -1103,6 +1344,7 @@ async function registerMcpServer(context: vscode.ExtensionContext): Promise<void
 			}
 		});
 
+		mcpRegistration = disposable;
 		context.subscriptions.push(disposable);
 		console.log('[ACE] MCP server registered successfully (command:', mcpCommand, ')');
 
@@ -1119,69 +1361,69 @@ async function registerMcpServer(context: vscode.ExtensionContext): Promise<void
 }
 
 /**
- * Create Cursor hooks for AI-Trail trajectory tracking
- * Full trajectory capture: MCP tools, shell commands, agent responses, file edits
- * Creates bash scripts on Unix, PowerShell scripts on Windows
- * @param folder - Target workspace folder
- * @param forceUpdate - If true, overwrite existing files (used during version upgrade)
+ * ace.mcpTransport = "http": serve the MCP proxy on a localhost
+ * Streamable-HTTP endpoint (src/mcp/httpTransport.ts) and register it with
+ * Cursor by URL, so ace_search results aren't truncated for the stdio pipe.
+ * The proxy runs on the extension host's own Node. Returns undefined when
+ * the endpoint can't start or Cursor's API rejects URL servers — the caller
+ * then registers the stdio proxy.
  */
-async function createCursorHooks(folder?: vscode.WorkspaceFolder, forceUpdate: boolean = false): Promise<void> {
-	const targetFolder = folder || await getTargetFolder('Select folder for ACE hooks');
-	if (!targetFolder) {
-		return;
-	}
-
-	const workspaceRoot = targetFolder.uri.fsPath;
-	const cursorDir = path.join(workspaceRoot, '.cursor');
-	const scriptsDir = path.join(cursorDir, 'scripts');
-	const isWindows = process.platform === 'win32';
-
-	// Ensure directories exist
-	if (!fs.existsSync(cursorDir)) {
-		fs.mkdirSync(cursorDir, { recursive: true });
-	}
-	if (!fs.existsSync(scriptsDir)) {
-		fs.mkdirSync(scriptsDir, { recursive: true });
-	}
-
-	// Helper to get script command prefix for platform
-	const scriptPrefix = isWindows ? 'powershell -ExecutionPolicy Bypass -File ' : '';
-	const scriptExt = isWindows ? '.ps1' : '.sh';
-
-	// v0.4.1: Resolve TRUSTED extension install dir for helper.js path baking.
-	// Both PS and bash hook templates interpolate this value at write time.
-	// Caveman: extensionContext provided by Cursor — workspace cannot influence.
-	const aceExtDir = extensionContext ? extensionContext.extensionPath : '';
-	if (extensionContext) {
-		const helperDir = path.join(extensionContext.extensionPath, 'scripts');
-		try {
-			fs.mkdirSync(helperDir, { recursive: true });
-			const helperPath = path.join(helperDir, 'ace_search_helper.js');
-			writeFileAtomic(helperPath, getSearchHelperContent(), { mode: 0o755 });
-			// v0.5.0 TASK 1 — write learn helper alongside search helper.
-			const learnHelperPath = path.join(helperDir, 'ace_learn_helper.js');
-			writeFileAtomic(learnHelperPath, getLearnHelperContent(), { mode: 0o755 });
-			// Caveman: kill the v0.4.0 wrapper if it's still around.
-			const orphanWrapper = path.join(helperDir, 'ace-search-wrapper.sh');
-			if (fs.existsSync(orphanWrapper)) {
-				try { fs.unlinkSync(orphanWrapper); console.log('[ACE] Removed obsolete ace-search-wrapper.sh (v0.4.1)'); } catch {}
+async function registerHttpMcpServer(
+	mcpApi: CursorMcpApi,
+	proxyPath: string,
+	env: Record<string, string>
+): Promise<vscode.Disposable | undefined> {
+	const server = new McpHttpServer({
+		command: process.execPath,
+		args: [proxyPath],
+		env: { ...env, ELECTRON_RUN_AS_NODE: '1' },
+		cwd: env[WORKSPACE_ROOT_ENV]
+	}, message => {
+		aceOutput?.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+	});
+	try {
+		const endpoint = await server.start();
+		const registration = mcpApi.registerServer({ name: 'ace-pattern-learning', server: endpoint });
+		console.log('[ACE] MCP server registered over HTTP:', endpoint.url);
+		return {
+			dispose: () => {
+				registration.dispose();
+				server.dispose();
 			}
-		} catch (e) {
-			console.warn('[ACE] Could not write ace search/learn helpers:', (e as Error).message);
-		}
+		};
+	} catch (error) {
+		server.dispose();
+		const reason = error instanceof Error ? error.message : String(error);
+		console.warn('[ACE] MCP HTTP transport unavailable, falling back to stdio:', reason);
+		aceOutput?.appendLine(`[${new Date().toLocaleTimeString()}] MCP HTTP transport unavailable (${reason}); using stdio`);
+		return undefined;
 	}
+}
+
+/**
+ * Expected ACE hooks.json config for the platform.
+ * Shared by createCursorHooks (write) and ACE: Diagnose (drift check).
+ *
+ * Every event runs the same dispatcher from the TRUSTED extension install
+ * dir — `<node> <extensionPath>/dist/hooks/ace_hook.js <event>` — so hooks
+ * behave the same on every OS and nothing in the workspace decides what runs.
+ * On macOS/Linux node is resolved here because Cursor hands hooks a stripped
+ * PATH; Windows runs `node` from the user's PATH.
+ */
+function buildAceHooksConfig(isWindows: boolean): { version: number; hooks: Record<string, Array<Record<string, unknown>>> } {
+	const nodeBin = isWindows ? null : findHookNode(os.homedir(), false);
+	const dispatcher = path.join(extensionContext?.extensionPath ?? '', 'dist', 'hooks', 'ace_hook.js');
+	const hook = (event: HookEvent) => buildHookCommand(event, dispatcher, nodeBin, isWindows);
 
-	// Create hooks.json with FULL AI-Trail support
-	const hooksPath = path.join(cursorDir, 'hooks.json');
 	const hooksConfig = {
 		version: 1,
 		hooks: {
 			// Session lifecycle - inject patterns at start, log at end
 			sessionStart: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_session_start${scriptExt}`
+				command: hook('sessionStart')
 			}],
 			sessionEnd: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_session_end${scriptExt}`
+				command: hook('sessionEnd')
 			}],
 			// MCP tool execution tracking (PostToolUse equivalent).
 			// v0.5.0-dev.14: this is the ONLY post-* tracker we keep. Cursor's
@@ -1192,7 +1434,7 @@ async function createCursorHooks(folder?: vscode.WorkspaceFolder, forceUpdate: b
 			// which the learn helper needs to extract server-assigned
 			// session_id and pattern IDs. KEEP.
 			afterMCPExecution: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_track_mcp${scriptExt}`
+				command: hook('afterMCPExecution')
 			}],
 			// v0.5.0-dev.14: REMOVED redundant hooks.
 			//   afterShellExecution → ace_track_shell  (transcript has Shell tool_use)
@@ -1202,1395 +1444,173 @@ async function createCursorHooks(folder?: vscode.WorkspaceFolder, forceUpdate: b
 			// needs to react to file-edit events server-fetch-style (it isn't
 			// reading the transcript).
 			afterFileEdit: [
-				// v0.5.0 TASK 3 — fire domain-shift inject on every Read/Edit. Bash
-				// version only on unix; PS counterpart is a no-op stub for Windows.
-				{ command: `${scriptPrefix}.cursor/scripts/ace_domain_shift${scriptExt}` },
+				// v0.5.0 TASK 3 — fire domain-shift inject on every Read/Edit.
+				{ command: hook('afterFileEdit') },
 			],
 			// Stop hook with git context aggregation + transcript_path
 			stop: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_stop_hook${scriptExt}`,
+				command: hook('stop'),
 				loop_limit: null
 			}],
 			// Pre-compaction trajectory preservation
 			preCompact: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_pre_compact${scriptExt}`
+				command: hook('preCompact')
 			}],
 			// Subagent lifecycle tracking
 			subagentStart: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_subagent_start${scriptExt}`,
+				command: hook('subagentStart'),
 				matcher: ".*"
 			}],
 			subagentStop: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_subagent_stop${scriptExt}`
+				command: hook('subagentStop')
 			}],
 			// v0.5.0: preToolUse restored — wraps patterns as <ace-patterns> XML JSON
 			// via deny+agent_message. Plus ROI feedback from prior task.
 			preToolUse: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_pre_tool_use${scriptExt}`
+				command: hook('preToolUse')
 			}],
 			// postToolUse path stays for additional_context inject (legacy + helpful).
 			postToolUse: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_post_tool_use${scriptExt}`
+				command: hook('postToolUse')
 			}],
 			postToolUseFailure: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_post_tool_use_failure${scriptExt}`
+				command: hook('postToolUseFailure')
 			}],
 			// Pre-execution gates
 			beforeShellExecution: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_before_shell${scriptExt}`,
+				command: hook('beforeShellExecution'),
 				matcher: ".*"
 			}],
 			beforeMCPExecution: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_before_mcp${scriptExt}`
+				command: hook('beforeMCPExecution')
 			}],
 			beforeReadFile: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_before_read_file${scriptExt}`
+				command: hook('beforeReadFile')
 			}],
 			// Prompt interception
 			beforeSubmitPrompt: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_before_submit_prompt${scriptExt}`,
+				command: hook('beforeSubmitPrompt'),
 				timeout: 5000
 			}],
 			// Agent thought capture
 			afterAgentThought: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_after_agent_thought${scriptExt}`
+				command: hook('afterAgentThought')
 			}],
 			// Tab file hooks
 			beforeTabFileRead: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_before_tab_file_read${scriptExt}`
+				command: hook('beforeTabFileRead')
 			}],
 			afterTabFileEdit: [{
-				command: `${scriptPrefix}.cursor/scripts/ace_after_tab_file_edit${scriptExt}`
+				command: hook('afterTabFileEdit')
 			}]
 		}
 	};
-
-	// Always update hooks.json to ensure all AI-Trail hooks are present
-	let shouldWriteHooks = forceUpdate;  // Force update if version upgrade
-	if (forceUpdate) {
-		console.log('[ACE] Force updating hooks.json (version upgrade)');
-	} else if (!fs.existsSync(hooksPath)) {
-		shouldWriteHooks = true;
-		console.log('[ACE] Creating hooks.json with AI-Trail support');
-	} else {
-		try {
-			const existingHooks = JSON.parse(fs.readFileSync(hooksPath, 'utf-8'));
-			// Check if AI-Trail hooks are missing.
-			// v0.5.0-dev.14: do NOT check for afterShellExecution/afterAgentResponse
-			// any more (those are intentionally REMOVED; transcript covers them).
-			const hasAllHooks = existingHooks?.hooks?.afterMCPExecution &&
-			                    existingHooks?.hooks?.sessionStart &&
-			                    existingHooks?.hooks?.sessionEnd &&
-			                    existingHooks?.hooks?.preCompact &&
-			                    existingHooks?.hooks?.subagentStart &&
-			                    existingHooks?.hooks?.subagentStop &&
-			                    existingHooks?.hooks?.preToolUse &&
-			                    existingHooks?.hooks?.postToolUse &&
-			                    existingHooks?.hooks?.postToolUseFailure &&
-			                    existingHooks?.hooks?.beforeShellExecution &&
-			                    existingHooks?.hooks?.beforeMCPExecution &&
-			                    existingHooks?.hooks?.beforeReadFile &&
-			                    existingHooks?.hooks?.beforeSubmitPrompt &&
-			                    existingHooks?.hooks?.afterAgentThought &&
-			                    existingHooks?.hooks?.beforeTabFileRead &&
-			                    existingHooks?.hooks?.afterTabFileEdit;
-			if (!hasAllHooks) {
-				shouldWriteHooks = true;
-				console.log('[ACE] Updating hooks.json with AI-Trail hooks');
-			}
-			// v0.5.0-dev.14: prune removed hooks from existing installs.
-			// If user upgrades from <=0.5.0-dev.13 they still have the redundant
-			// afterShellExecution / afterAgentResponse / ace_track_edit handlers
-			// firing — those waste process spawns and produce duplicate data.
-			const hasRemovedHooks =
-				existingHooks?.hooks?.afterShellExecution ||
-				existingHooks?.hooks?.afterAgentResponse ||
-				(Array.isArray(existingHooks?.hooks?.afterFileEdit) &&
-				 existingHooks.hooks.afterFileEdit.some((h: any) => /ace_track_edit/.test(String(h?.command || ''))));
-			if (hasRemovedHooks) {
-				shouldWriteHooks = true;
-				console.log('[ACE] Pruning redundant tracker hooks from hooks.json');
-			}
-			// Also check platform compatibility
-			const stopCmd = existingHooks?.hooks?.stop?.[0]?.command || '';
-			if (isWindows && stopCmd.endsWith('.sh')) {
-				shouldWriteHooks = true;
-				console.log('[ACE] Updating hooks.json for Windows platform');
-			}
-			if (!isWindows && stopCmd.includes('.ps1')) {
-				shouldWriteHooks = true;
-				console.log('[ACE] Updating hooks.json for Unix platform');
-			}
-		} catch {
-			shouldWriteHooks = true;
-			console.log('[ACE] Recreating invalid hooks.json');
-		}
-	}
-
-	if (shouldWriteHooks) {
-		writeFileAtomic(hooksPath, JSON.stringify(hooksConfig, null, 2));
-		console.log('[ACE] hooks.json ready with AI-Trail support');
-	}
-
-	// Create all hook scripts for the current platform (pass forceUpdate)
-	if (isWindows) {
-		createWindowsHookScripts(scriptsDir, forceUpdate);
-	} else {
-		createUnixHookScripts(scriptsDir, forceUpdate);
-	}
+	return hooksConfig;
 }
 
 /**
- * Create Windows PowerShell hook scripts for AI-Trail
- * @param scriptsDir - Directory to write scripts to
+ * Create Cursor hooks for AI-Trail trajectory tracking
+ * Full trajectory capture: MCP tools, shell commands, agent responses, file edits
+ * Every event runs the ace_hook.js dispatcher (src/hooks) from the extension
+ * install dir; only hooks.json is written into the workspace.
+ * @param folder - Target workspace folder
  * @param forceUpdate - If true, overwrite existing files (used during version upgrade)
  */
-function createWindowsHookScripts(scriptsDir: string, forceUpdate: boolean = false): void {
-	// v0.4.1: TRUSTED extension install dir for helper.js path baking.
-	const aceExtDir = extensionContext ? extensionContext.extensionPath : '';
-	// MCP Execution Tracking (PostToolUse equivalent)
-	// v0.5.1 — per-conversation trajectory rotation. Mirrors bash counterpart
-	// in getMcpTrackScriptContent(): writes go to .cursor/ace/tasks/<conv_id>/
-	// mcp_trajectory.jsonl when conversation_id is present, else fall back to
-	// top-level path. Prior versions appended unbounded to the top-level file.
-	const mcpTrackPath = path.join(scriptsDir, 'ace_track_mcp.ps1');
-	const mcpTrackScript = `# ACE MCP Tracking Hook - Captures tool executions for AI-Trail
-# Also detects ace_learn calls and extracts task helpfulness (TIME_SAVED)
-# Input: tool_name, tool_input, result_json, duration, conversation_id
-
-$inputJson = [Console]::In.ReadToEnd()
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-# Parse input early so we can use conversation_id for per-conv routing.
-try {
-    $data = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-    $toolName = if ($data.tool_name) { $data.tool_name } else { "" }
-    $convIdForTraj = if ($data.conversation_id) { $data.conversation_id } elseif ($data.conv_id) { $data.conv_id } else { "" }
-} catch {
-    $toolName = ""
-    $convIdForTraj = ""
-}
-
-# v0.5.1 per-conv trajectory rotation. Mirror bash ace_track_mcp.sh logic.
-if ($convIdForTraj -and $convIdForTraj -ne "null") {
-    $perConvDir = "$aceDir\\tasks\\$convIdForTraj"
-    if (-not (Test-Path $perConvDir)) {
-        New-Item -ItemType Directory -Path $perConvDir -Force | Out-Null
-    }
-    $inputJson | Out-File -Append -FilePath "$perConvDir\\mcp_trajectory.jsonl" -Encoding utf8
-} else {
-    $inputJson | Out-File -Append -FilePath "$aceDir\\mcp_trajectory.jsonl" -Encoding utf8
-}
-
-# Detect ace_learn call — extract helpfulness from tool_input.output
-if ($toolName -match "ace_learn") {
-    try {
-        # tool_input may be string or object
-        $toolInput = $data.tool_input
-        if ($toolInput -is [string]) {
-            $toolInput = $toolInput | ConvertFrom-Json -ErrorAction SilentlyContinue
-        }
-        $outputField = if ($toolInput.output) { $toolInput.output } else { "" }
-    } catch {
-        $outputField = ""
-    }
-
-    # Look for TIME_SAVED: Xm | reason on the first line
-    $firstLine = ($outputField -split "\\n")[0]
-    if ($firstLine -match "^TIME_SAVED:\\s*([^|]+?)\\s*(?:\\|\\s*(.+))?$") {
-        $timeSaved = $Matches[1].Trim()
-        $reason = if ($Matches[2]) { $Matches[2].Trim().Substring(0, [Math]::Min(200, $Matches[2].Trim().Length)) } else { "" }
-
-        # Extract numeric minutes for helpful_pct
-        if ($timeSaved -match "(\\d+)") {
-            $minutes = [int]$Matches[1]
-        } else {
-            $minutes = 0
-        }
-        # Map time to helpful %: 0m=0%, 1-4m=15%, 5-14m=30%, 15-29m=60%, 30m+=80%
-        if ($minutes -ge 30) { $helpfulPct = 80 }
-        elseif ($minutes -ge 15) { $helpfulPct = 60 }
-        elseif ($minutes -ge 5) { $helpfulPct = 30 }
-        elseif ($minutes -gt 0) { $helpfulPct = 15 }
-        else { $helpfulPct = 0 }
-
-        # Write review result (overwrites previous)
-        $reviewResult = @{
-            helpful_pct = $helpfulPct
-            time_saved = $timeSaved
-            reason = $reason
-            timestamp = (Get-Date -Format "o")
-        } | ConvertTo-Json -Compress
-        $reviewResult | Out-File -FilePath "$aceDir\\ace-review-result.json" -Encoding utf8
-    }
-}
-`;
-	// Always update to get ace_learn helpfulness detection + per-conv routing.
-	writeFileAtomic(mcpTrackPath, mcpTrackScript);
-	console.log(`[ACE] Updated ace_track_mcp.ps1 (v0.5.1 — per-conv tasks/<conv_id>/ rotation)`);
-
-	// v0.5.1 — orphan PS1 generators removed for parity with bash side
-	// (dev.20 Task B). The afterShellExecution / afterAgentResponse hooks were
-	// unhooked from hooks.json in dev.14; the ace_track_edit.ps1 / .sh scripts
-	// were superseded by ace_domain_shift on afterFileEdit. Old PS1 files are
-	// deleted on activation by cleanupOrphanScripts() in workspaceCleanup.ts.
-
-	// Session Start Hook - Injects pattern context into new conversations
-	const sessionStartPath = path.join(scriptsDir, 'ace_session_start.ps1');
-	const sessionStartScript = `# ACE Session Start Hook - Injects pattern context into new conversations
-# Input: session_id, is_background_agent, composer_mode
-# Output: additional_context, env
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$inputJson = [Console]::In.ReadToEnd()
-$data = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-$sessionId = if ($data.session_id) { $data.session_id } else { "" }
-$isBg = if ($data.is_background_agent) { "true" } else { "false" }
-
-# Clear trajectory files from previous session
-@("mcp_trajectory.jsonl", "shell_trajectory.jsonl", "edit_trajectory.jsonl", "response_trajectory.jsonl", "ace-relevance.jsonl") | ForEach-Object {
-    $trajFile = "$aceDir\\$_"
-    if (Test-Path $trajFile) { Clear-Content $trajFile }
-}
-if (Test-Path "$aceDir\\ace-review-result.json") { Remove-Item "$aceDir\\ace-review-result.json" -Force }
-
-# Save session info
-@{session_id=$sessionId; started_at=(Get-Date -Format "o"); is_background=$isBg} | ConvertTo-Json -Compress | Out-File -FilePath "$aceDir\\current_session.json" -Encoding utf8
-
-# Read cached pattern info
-$patternCount = 0
-$domains = ""
-$cacheFile = "$aceDir\\pattern_cache.json"
-if (Test-Path $cacheFile) {
-    try {
-        $cache = Get-Content $cacheFile | ConvertFrom-Json
-        $patternCount = $cache.patternCount
-        $domains = ($cache.domains -join ", ")
-    } catch {}
-}
-
-# Build context
-if ($patternCount -gt 0) {
-    $context = "[ACE Pattern Learning] This project has $patternCount patterns across domains: $domains. Use ace_search MCP tool to retrieve relevant patterns before starting work."
-} else {
-    $context = "[ACE Pattern Learning] ACE is configured. Use ace_search MCP tool to find patterns relevant to your task."
-}
-
-# Return env + additional_context
-Write-Output "{\`"env\`": {\`"ACE_SESSION_ID\`": \`"$sessionId\`"}, \`"additional_context\`": \`"$context\`"}"
-`;
-	if (forceUpdate || !fs.existsSync(sessionStartPath)) {
-		writeFileAtomic(sessionStartPath, sessionStartScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_session_start.ps1`);
-	}
-
-	// Session End Hook - Logs session analytics
-	const sessionEndPath = path.join(scriptsDir, 'ace_session_end.ps1');
-	const sessionEndScript = `# ACE Session End Hook - Logs session analytics
-# Input: session_id, reason, duration_ms, is_background_agent
-# Output: none (fire-and-forget)
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$inputJson = [Console]::In.ReadToEnd()
-$data = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$mcpCount = 0; $shellCount = 0; $editCount = 0; $responseCount = 0
-if (Test-Path "$aceDir\\mcp_trajectory.jsonl") { $mcpCount = (Get-Content "$aceDir\\mcp_trajectory.jsonl" | Measure-Object -Line).Lines }
-if (Test-Path "$aceDir\\shell_trajectory.jsonl") { $shellCount = (Get-Content "$aceDir\\shell_trajectory.jsonl" | Measure-Object -Line).Lines }
-if (Test-Path "$aceDir\\edit_trajectory.jsonl") { $editCount = (Get-Content "$aceDir\\edit_trajectory.jsonl" | Measure-Object -Line).Lines }
-if (Test-Path "$aceDir\\response_trajectory.jsonl") { $responseCount = (Get-Content "$aceDir\\response_trajectory.jsonl" | Measure-Object -Line).Lines }
-
-$sessionId = $data.session_id
-$reason = if ($data.reason) { $data.reason } else { "unknown" }
-$durationMs = if ($data.duration_ms) { $data.duration_ms } else { 0 }
-
-$logEntry = @{
-    session_id=$sessionId; reason=$reason; duration_ms=$durationMs
-    trajectory=@{mcp=$mcpCount; shell=$shellCount; edits=$editCount; responses=$responseCount}
-    ended_at=(Get-Date -Format "o")
-} | ConvertTo-Json -Compress
-
-$logEntry | Out-File -Append -FilePath "$aceDir\\session_log.jsonl" -Encoding utf8
-`;
-	if (forceUpdate || !fs.existsSync(sessionEndPath)) {
-		writeFileAtomic(sessionEndPath, sessionEndScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_session_end.ps1`);
-	}
-
-	// Pre-Compaction Trajectory Preservation
-	const preCompactPath = path.join(scriptsDir, 'ace_pre_compact.ps1');
-	const preCompactScript = `# ACE Pre-Compact Hook - Preserves trajectory before context compaction
-# Input: trigger, context_usage_percent, context_tokens, message_count, messages_to_compact
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$inputJson = [Console]::In.ReadToEnd()
-$data = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$trigger = if ($data.trigger) { $data.trigger } else { "auto" }
-$usagePct = if ($data.context_usage_percent) { $data.context_usage_percent } else { 0 }
-$tokens = if ($data.context_tokens) { $data.context_tokens } else { 0 }
-$msgCount = if ($data.message_count) { $data.message_count } else { 0 }
-$toCompact = if ($data.messages_to_compact) { $data.messages_to_compact } else { 0 }
-
-$mcpCount = if (Test-Path "$aceDir\\mcp_trajectory.jsonl") { (Get-Content "$aceDir\\mcp_trajectory.jsonl" | Measure-Object -Line).Lines } else { 0 }
-$shellCount = if (Test-Path "$aceDir\\shell_trajectory.jsonl") { (Get-Content "$aceDir\\shell_trajectory.jsonl" | Measure-Object -Line).Lines } else { 0 }
-$editCount = if (Test-Path "$aceDir\\edit_trajectory.jsonl") { (Get-Content "$aceDir\\edit_trajectory.jsonl" | Measure-Object -Line).Lines } else { 0 }
-$responseCount = if (Test-Path "$aceDir\\response_trajectory.jsonl") { (Get-Content "$aceDir\\response_trajectory.jsonl" | Measure-Object -Line).Lines } else { 0 }
-
-$snapshot = @{
-    trigger=$trigger; context_usage_percent=$usagePct; context_tokens=$tokens
-    message_count=$msgCount; messages_to_compact=$toCompact
-    trajectory=@{mcp=$mcpCount; shell=$shellCount; edits=$editCount; responses=$responseCount}
-    timestamp=(Get-Date -Format "o")
-} | ConvertTo-Json -Compress
-$snapshot | Out-File -Append -FilePath "$aceDir\\compaction_log.jsonl" -Encoding utf8
-
-$msg = "Context compacting (\${usagePct}% used). AI-Trail preserved: MCP:\${mcpCount} Shell:\${shellCount} Edits:\${editCount} Responses:\${responseCount}"
-Write-Output "{\`"user_message\`": \`"$msg\`"}"
-`;
-	if (forceUpdate || !fs.existsSync(preCompactPath)) {
-		writeFileAtomic(preCompactPath, preCompactScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_pre_compact.ps1`);
-	}
-
-	// Subagent Start Tracking
-	const subagentStartPath = path.join(scriptsDir, 'ace_subagent_start.ps1');
-	const subagentStartScript = `# ACE Subagent Start Hook - Tracks subagent spawning for AI-Trail
-# Input: subagent_type, prompt, model
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$inputJson = [Console]::In.ReadToEnd()
-$data = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$subagentType = if ($data.subagent_type) { $data.subagent_type } else { "unknown" }
-$model = if ($data.model) { $data.model } else { "unknown" }
-$promptPreview = if ($data.prompt) { $data.prompt.Substring(0, [Math]::Min(200, $data.prompt.Length)) } else { "" }
-
-$entry = @{event="subagent_start"; type=$subagentType; model=$model; prompt_preview=$promptPreview; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -Append -FilePath "$aceDir\\mcp_trajectory.jsonl" -Encoding utf8
-
-Write-Output '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(subagentStartPath)) {
-		writeFileAtomic(subagentStartPath, subagentStartScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_subagent_start.ps1`);
-	}
-
-	// Subagent Stop Tracking
-	const subagentStopPath = path.join(scriptsDir, 'ace_subagent_stop.ps1');
-	const subagentStopScript = `# ACE Subagent Stop Hook - Tracks subagent completion for AI-Trail
-# Input: subagent_type, status, result, duration, agent_transcript_path
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$inputJson = [Console]::In.ReadToEnd()
-$data = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$subagentType = if ($data.subagent_type) { $data.subagent_type } else { "unknown" }
-$status = if ($data.status) { $data.status } else { "unknown" }
-$duration = if ($data.duration) { $data.duration } else { 0 }
-$transcript = $data.agent_transcript_path
-$hasTranscript = if ($transcript) { "true" } else { "false" }
-
-$entry = @{event="subagent_stop"; type=$subagentType; status=$status; duration_ms=$duration; has_transcript=$hasTranscript; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -Append -FilePath "$aceDir\\mcp_trajectory.jsonl" -Encoding utf8
-
-if ($transcript) {
-    $transcriptEntry = @{subagent_type=$subagentType; transcript_path=$transcript; status=$status; duration_ms=$duration; saved_at=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-    $transcriptEntry | Out-File -Append -FilePath "$aceDir\\subagent_transcripts.jsonl" -Encoding utf8
-}
-
-exit 0
-`;
-	if (forceUpdate || !fs.existsSync(subagentStopPath)) {
-		writeFileAtomic(subagentStopPath, subagentStopScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_subagent_stop.ps1`);
-	}
-
-	// v0.5.1 — ace_track_edit.ps1 generator removed. The afterFileEdit hook now
-	// uses ace_domain_shift (PS variant pending; bash version exists). The old
-	// PS1 file is removed from disk by cleanupOrphanScripts() on activation.
-
-	// Stop Hook with Git Context Aggregation
-	const stopHookPath = path.join(scriptsDir, 'ace_stop_hook.ps1');
-	const stopHookScript = `# ACE Stop Hook - Hybrid: trajectory summary + ace_learn fallback nudge
-# Primary: afterMCPExecution detects ace_learn (via rules instruction)
-# Fallback: if ace_learn wasn't called, nudge the AI via followup_message
-# Input: status, loop_count, transcript_path, conversation_id
-
-$inputJson = [Console]::In.ReadToEnd()
-$data = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-$status = $data.status
-$loopCount = if ($data.loop_count) { $data.loop_count } else { 0 }
-$transcriptPath = $data.transcript_path
-$convId = $data.conversation_id
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) { New-Item -ItemType Directory -Path $aceDir -Force | Out-Null }
-
-# Only process completed tasks
-if ($status -ne "completed") {
-    Write-Output '{}'
-    exit 0
-}
-
-# Aggregate trajectory — v0.2.91: count ONLY entries from current conversation.
-# See bash counterpart for rationale (cross-session contamination fix).
-$gitBranch = git rev-parse --abbrev-ref HEAD 2>$null
-if (-not $gitBranch) { $gitBranch = "unknown" }
-$gitHash = git rev-parse --short HEAD 2>$null
-if (-not $gitHash) { $gitHash = "unknown" }
-
-$mcpCount = 0; $shellCount = 0; $editCount = 0; $responseCount = 0
-if ($convId) {
-    $q = [char]34
-    $convPattern = $q + 'conversation_id' + $q + ':' + $q + $convId + $q
-    if (Test-Path "$aceDir\\mcp_trajectory.jsonl") {
-        $mcpCount = (Select-String -Path "$aceDir\\mcp_trajectory.jsonl" -Pattern $convPattern -SimpleMatch).Count
-    }
-    if (Test-Path "$aceDir\\shell_trajectory.jsonl") {
-        $shellCount = (Select-String -Path "$aceDir\\shell_trajectory.jsonl" -Pattern $convPattern -SimpleMatch).Count
-    }
-    if (Test-Path "$aceDir\\edit_trajectory.jsonl") {
-        $editCount = (Select-String -Path "$aceDir\\edit_trajectory.jsonl" -Pattern $convPattern -SimpleMatch).Count
-    }
-    if (Test-Path "$aceDir\\response_trajectory.jsonl") {
-        $responseCount = (Select-String -Path "$aceDir\\response_trajectory.jsonl" -Pattern $convPattern -SimpleMatch).Count
-    }
-}
-
-if ($transcriptPath) {
-    @{transcript_path=$transcriptPath; saved_at=(Get-Date -Format "o")} | ConvertTo-Json -Compress | Out-File -FilePath "$aceDir\\last_transcript.json" -Encoding utf8
-}
-
-$summary = "MCP:$mcpCount Shell:$shellCount Edits:$editCount Responses:$responseCount"
-$entry = @{event="stop"; summary=$summary; git_branch=$gitBranch; git_hash=$gitHash; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -Append -FilePath "$aceDir\\ace-relevance.jsonl" -Encoding utf8
-
-# v0.2.89: edits-only gate. Shell alone (ls /path) is exploration, not
-# implementation. AI ran shell to check path missing then asked user, hook
-# nudged ace_learn prematurely with success=false. See bash counterpart.
-$didRealWork = $editCount -gt 0
-
-if ($loopCount -eq 0 -and -not (Test-Path "$aceDir\\ace-review-result.json") -and $didRealWork) {
-    # ace_learn was NOT called and AI did productive work — nudge.
-    $msg = "Now call ace_learn to capture what you learned. Start the output field with TIME_SAVED: Xm | reason (estimate minutes saved by ACE patterns, 0 if none helped)."
-    Write-Output "{\`"followup_message\`": \`"$msg\`"}"
-} else {
-    # Either ace_learn already ran, retry loop, OR AI did nothing — stay quiet.
-    Write-Output '{}'
-}
-`;
-	// Always update stop hook
-	writeFileAtomic(stopHookPath, stopHookScript);
-	console.log('[ACE] Updated ace_stop_hook.ps1');
-
-	// v0.5.0: pre-tool-use gate restored on Windows as well. PS variant is a fail-open
-	// stub for now (see hookScripts.getPreToolUsePsScriptContent); bash variant does
-	// the real <ace-patterns> wrapper + ROI inject work.
-	const preToolUsePsPath = path.join(scriptsDir, 'ace_pre_tool_use.ps1');
-	writeFileAtomic(preToolUsePsPath, getPreToolUsePsScriptContent());
-	console.log('[ACE] Updated ace_pre_tool_use.ps1 (v0.5.0 fail-open stub)');
-
-	// Post-Tool Use Tracking + helper.js pattern injection (v0.4.1, PowerShell).
-	// Mirrors the bash hook. $helper is BAKED at write time from
-	// extensionContext.extensionPath — workspace cannot influence it.
-	const postToolUsePath = path.join(scriptsDir, 'ace_post_tool_use.ps1');
-	// Caveman: $helper baked here as a literal. PS forward-slash works fine for node.
-	const postToolUseScript = `# ACE Post-Tool Use Hook (v0.4.1) - tracking + helper.js pattern injection
-# Input: tool_type, tool_name, tool_input, tool_output, duration, transcript_path, conversation_id, generation_id
-
-$helper = "${aceExtDir}/scripts/ace_search_helper.js"
-
-$inputJson = [Console]::In.ReadToEnd()
-$input = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$toolType = if ($input.tool_type) { $input.tool_type } else { "unknown" }
-$toolName = if ($input.tool_name) { $input.tool_name } else { "unknown" }
-$toolOutput = if ($input.tool_output) { $input.tool_output.Substring(0, [Math]::Min(500, $input.tool_output.Length)) } else { "" }
-$duration = if ($input.duration) { $input.duration } else { 0 }
-$convId = if ($input.conversation_id) { $input.conversation_id } else { "" }
-$genId = if ($input.generation_id) { $input.generation_id } else { "" }
-$transcript = if ($input.transcript_path) { $input.transcript_path } else { "" }
-
-$entry = @{event="post_tool_use"; tool_type=$toolType; tool_name=$toolName; tool_output=$toolOutput; duration=$duration; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -FilePath "$aceDir\\mcp_trajectory.jsonl" -Encoding utf8 -Append
-
-# v0.3.1 injection: only on first non-search tool of generation
-if ([string]::IsNullOrEmpty($convId) -or [string]::IsNullOrEmpty($genId)) { Write-Output '{}'; exit 0 }
-$flagDir = "$aceDir\\sessions\\$convId"
-if (-not (Test-Path $flagDir)) { New-Item -ItemType Directory -Path $flagDir -Force | Out-Null }
-$flagFile = "$flagDir\\$genId.patterns-injected"
-if (Test-Path $flagFile) { Write-Output '{}'; exit 0 }
-
-# v0.5.0-dev.4 TASK 6 — privacy opt-in via runtime-settings.json. Legacy
-# marker file removed in v0.5.0-dev.4 cleanup.
-$optIn = $false
-$settingsFile = "$aceDir\\runtime-settings.json"
-if (Test-Path $settingsFile) {
-    try {
-        $settings = Get-Content $settingsFile -Raw | ConvertFrom-Json
-        if ($settings.shareRawPromptsForRetrievalAnalysis -eq $true) { $optIn = $true }
-    } catch {}
-}
-if (-not $optIn) { Write-Output '{}'; exit 0 }
-
-# If AI already called search-style tool, mark flag and skip
-if ($toolName -eq "MCP:ace_search" -or $toolName -eq "ace_search") {
-    New-Item -ItemType File -Path $flagFile -Force | Out-Null
-    Write-Output '{}'; exit 0
-}
-
-# Read user prompt from transcript (last user message, char-truncated to 500).
-$prompt = ""
-if ((-not [string]::IsNullOrEmpty($transcript)) -and (Test-Path $transcript)) {
-    try {
-        $userLines = Get-Content -Path $transcript -ErrorAction SilentlyContinue | Where-Object { $_ -match '"role":"user"' }
-        if ($userLines -and $userLines.Count -gt 0) {
-            $last = $userLines[-1]
-            $obj = $last | ConvertFrom-Json -ErrorAction SilentlyContinue
-            if ($obj.message -and $obj.message.content) {
-                $textParts = @()
-                foreach ($c in $obj.message.content) {
-                    if ($c.type -eq "text" -and $c.text) { $textParts += $c.text }
-                }
-                $prompt = ($textParts -join " ")
-            } elseif ($obj.content) {
-                $prompt = [string]$obj.content
-            }
-            if ($prompt.Length -gt 500) { $prompt = $prompt.Substring(0, 500) }
-        }
-    } catch {}
-}
-if ([string]::IsNullOrEmpty($prompt)) { Write-Output '{}'; exit 0 }
-
-# Helper file must exist; node must be on PATH. Otherwise fail-open.
-if (-not (Test-Path $helper)) { Write-Output '{}'; exit 0 }
-$nodeCmd = Get-Command node -ErrorAction SilentlyContinue
-if (-not $nodeCmd) { Write-Output '{}'; exit 0 }
-
-# Spawn node with timeout. PS lacks alarm; use Wait-Process with TimeoutSec.
-$psi = New-Object System.Diagnostics.ProcessStartInfo
-$psi.FileName = "node"
-$psi.ArgumentList.Add($helper)
-$psi.ArgumentList.Add($prompt)
-$psi.RedirectStandardOutput = $true
-$psi.RedirectStandardError = $true
-$psi.UseShellExecute = $false
-$proc = [System.Diagnostics.Process]::Start($psi)
-$patternsJson = ""
-$rc = 5
-if ($proc.WaitForExit(8000)) {
-    $patternsJson = $proc.StandardOutput.ReadToEnd()
-    $rc = $proc.ExitCode
-} else {
-    try { $proc.Kill() } catch {}
-    $rc = 4
-}
-
-# v0.4.1 — helper exit code taxonomy (SDK team contract).
-if ($rc -eq 2) {
-    "auth_expired" | Out-File -FilePath "$aceDir\\auth-status.txt" -Encoding utf8
-    $warn = "ACE: session expired. Run /ace-login. Pattern injection paused until you re-authenticate."
-    $payload = @{additional_context=$warn} | ConvertTo-Json -Compress
-    Write-Output $payload
-    # Caveman: do NOT touch flag — let next tool call retry once user re-logs in.
-    exit 0
-}
-
-# Network/server/unknown — silently fail-open, no flag.
-if ($rc -ne 0 -or [string]::IsNullOrEmpty($patternsJson) -or $patternsJson.Trim() -eq "{}") {
-    Write-Output '{}'; exit 0
-}
-
-# Parse similar_patterns array.
-try {
-    $parsed = $patternsJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-} catch {
-    Write-Output '{}'; exit 0
-}
-if (-not $parsed -or -not $parsed.similar_patterns) { Write-Output '{}'; exit 0 }
-
-$lines = @()
-foreach ($p in $parsed.similar_patterns) {
-    $section = if ($p.section) { $p.section } else { "?" }
-    $domain = if ($p.domain) { $p.domain } else { "?" }
-    $content = if ($p.content) { $p.content } else { "?" }
-    if ($content.Length -gt 200) { $content = $content.Substring(0, 200) }
-    $lines += "- [$section/$domain] $content"
-}
-if ($lines.Count -eq 0) { Write-Output '{}'; exit 0 }
-
-$ctxMsg = "📚 ACE patterns retrieved for: $prompt\`n\`n" + ($lines -join "\`n") + "\`n\`n(Patterns auto-fetched by ACE extension. Do NOT call ace_search unless you need fresh patterns mid-task.)"
-$payload = @{additional_context=$ctxMsg} | ConvertTo-Json -Compress
-Write-Output $payload
-
-# v0.4.0 plan §5.3 — flag-after-success.
-New-Item -ItemType File -Path $flagFile -Force | Out-Null
-`;
-	if (forceUpdate || !fs.existsSync(postToolUsePath)) {
-		writeFileAtomic(postToolUsePath, postToolUseScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_post_tool_use.ps1`);
+async function createCursorHooks(folder?: vscode.WorkspaceFolder, forceUpdate: boolean = false): Promise<void> {
+	const targetFolder = folder || await getTargetFolder('Select folder for ACE hooks');
+	if (!targetFolder) {
+		return;
 	}
 
-	// Post-Tool Use Failure Tracking
-	const postToolUseFailurePath = path.join(scriptsDir, 'ace_post_tool_use_failure.ps1');
-	const postToolUseFailureScript = `# ACE Post-Tool Use Failure Hook - Tracks tool failures
-# Input: tool_type, tool_name, error_type, error_message
-
-$inputJson = [Console]::In.ReadToEnd()
-$input = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$toolType = if ($input.tool_type) { $input.tool_type } else { "unknown" }
-$toolName = if ($input.tool_name) { $input.tool_name } else { "unknown" }
-$errorType = if ($input.error_type) { $input.error_type } else { "unknown" }
-$errorMessage = if ($input.error_message) { $input.error_message.Substring(0, [Math]::Min(500, $input.error_message.Length)) } else { "" }
-
-$entry = @{event="tool_failure"; tool_type=$toolType; tool_name=$toolName; error_type=$errorType; error_message=$errorMessage; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -FilePath "$aceDir\\mcp_trajectory.jsonl" -Encoding utf8 -Append
+	const workspaceRoot = targetFolder.uri.fsPath;
+	const cursorDir = path.join(workspaceRoot, '.cursor');
+	const scriptsDir = path.join(cursorDir, 'scripts');
+	const isWindows = process.platform === 'win32';
 
-Write-Output '{}'
-`;
-	if (forceUpdate || !fs.existsSync(postToolUseFailurePath)) {
-		writeFileAtomic(postToolUseFailurePath, postToolUseFailureScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_post_tool_use_failure.ps1`);
+	// Ensure directories exist
+	if (!fs.existsSync(cursorDir)) {
+		fs.mkdirSync(cursorDir, { recursive: true });
 	}
 
-	// Before Shell Execution Gate
-	const beforeShellPath = path.join(scriptsDir, 'ace_before_shell.ps1');
-	const beforeShellScript = `# ACE Before Shell Hook - Gates shell command execution
-# Input: command
-
-$inputJson = [Console]::In.ReadToEnd()
-$input = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$command = if ($input.command) { $input.command } else { "" }
-
-$entry = @{event="before_shell"; command=$command; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -FilePath "$aceDir\\shell_trajectory.jsonl" -Encoding utf8 -Append
-
-Write-Output '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeShellPath)) {
-		writeFileAtomic(beforeShellPath, beforeShellScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_shell.ps1`);
+	// v0.4.1: helpers live in the TRUSTED extension install dir, next to the
+	// bundled node_modules. The dispatcher resolves them relative to itself.
+	// Caveman: extensionContext provided by Cursor — workspace cannot influence.
+	if (extensionContext) {
+		const helperDir = path.join(extensionContext.extensionPath, 'scripts');
+		try {
+			fs.mkdirSync(helperDir, { recursive: true });
+			const helperPath = path.join(helperDir, 'ace_search_helper.js');
+			writeFileAtomic(helperPath, getSearchHelperContent(), { mode: 0o755 });
+			// v0.5.0 TASK 1 — write learn helper alongside search helper.
+			const learnHelperPath = path.join(helperDir, 'ace_learn_helper.js');
+			writeFileAtomic(learnHelperPath, getLearnHelperContent(), { mode: 0o755 });
+			// Caveman: kill the v0.4.0 wrapper if it's still around.
+			const orphanWrapper = path.join(helperDir, 'ace-search-wrapper.sh');
+			if (fs.existsSync(orphanWrapper)) {
+				try { fs.unlinkSync(orphanWrapper); console.log('[ACE] Removed obsolete ace-search-wrapper.sh (v0.4.1)'); } catch {}
+			}
+		} catch (e) {
+			console.warn('[ACE] Could not write ace search/learn helpers:', (e as Error).message);
+		}
 	}
 
-	// Before MCP Execution Gate
-	const beforeMcpPath = path.join(scriptsDir, 'ace_before_mcp.ps1');
-	const beforeMcpScript = `# ACE Before MCP Hook - Gates MCP tool execution
-# Input: tool_name, tool_input
-
-$inputJson = [Console]::In.ReadToEnd()
-$input = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$toolName = if ($input.tool_name) { $input.tool_name } else { "unknown" }
-$toolInput = if ($input.tool_input) { ($input.tool_input | ConvertTo-Json -Compress).Substring(0, [Math]::Min(500, ($input.tool_input | ConvertTo-Json -Compress).Length)) } else { "{}" }
-
-$entry = @{event="before_mcp"; tool_name=$toolName; tool_input=$toolInput; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -FilePath "$aceDir\\mcp_trajectory.jsonl" -Encoding utf8 -Append
-
-Write-Output '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeMcpPath)) {
-		writeFileAtomic(beforeMcpPath, beforeMcpScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_mcp.ps1`);
-	}
-
-	// Before Read File Gate (minimal - fires frequently)
-	const beforeReadFilePath = path.join(scriptsDir, 'ace_before_read_file.ps1');
-	const beforeReadFileScript = `# ACE Before Read File Hook - Minimal gate (fires frequently)
-Write-Output '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeReadFilePath)) {
-		writeFileAtomic(beforeReadFilePath, beforeReadFileScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_read_file.ps1`);
-	}
-
-	// Before Submit Prompt - Pattern context injection
-	const beforeSubmitPromptPath = path.join(scriptsDir, 'ace_before_submit_prompt.ps1');
-	const beforeSubmitPromptScript = `# ACE Before Submit Prompt Hook - Injects pattern context + logs injection for task helpfulness
-# Input: prompt_text
-
-$inputJson = [Console]::In.ReadToEnd()
-$input = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) { New-Item -ItemType Directory -Path $aceDir -Force | Out-Null }
-$cacheFile = "$aceDir\\pattern_cache.json"
-
-if (Test-Path $cacheFile) {
-    try {
-        $cache = Get-Content $cacheFile | ConvertFrom-Json
-        $patternCount = $cache.patternCount
-        if ($patternCount -gt 0) {
-            $domains = if ($cache.domains) { ($cache.domains -join ", ") } else { "" }
-            $avgConf = if ($cache.avgConfidence) { $cache.avgConfidence } else { 0 }
-            $domainsJson = if ($cache.domains) { ($cache.domains | ForEach-Object { "\`"$_\`"" }) -join ", " } else { "" }
-            # Log injection event for task helpfulness tracking
-            $logEntry = "{\`"event\`": \`"search\`", \`"patterns_injected\`": $patternCount, \`"domains\`": [$domainsJson], \`"avg_confidence\`": $avgConf, \`"timestamp\`": \`"$(Get-Date -Format 'o')\`"}"
-            $logEntry | Out-File -FilePath "$aceDir\\ace-relevance.jsonl" -Encoding utf8 -Append
-            Write-Output '{"continue": true}'
-        } else {
-            Write-Output '{"continue": true}'
-        }
-    } catch {
-        Write-Output '{"continue": true}'
-    }
-} else {
-    Write-Output '{"continue": true}'
-}
-`;
-	// Always update to get relevance logging
-	writeFileAtomic(beforeSubmitPromptPath, beforeSubmitPromptScript);
-	console.log('[ACE] Updated ace_before_submit_prompt.ps1 with relevance logging');
-
-	// After Agent Thought - Thinking capture
-	const afterAgentThoughtPath = path.join(scriptsDir, 'ace_after_agent_thought.ps1');
-	const afterAgentThoughtScript = `# ACE After Agent Thought Hook - Captures agent thinking
-# Input: text, duration_ms
-
-$inputJson = [Console]::In.ReadToEnd()
-$input = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$text = if ($input.text) { $input.text.Substring(0, [Math]::Min(300, $input.text.Length)) } else { "" }
-$durationMs = if ($input.duration_ms) { $input.duration_ms } else { 0 }
-
-$entry = @{event="agent_thought"; text=$text; duration_ms=$durationMs; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -FilePath "$aceDir\\response_trajectory.jsonl" -Encoding utf8 -Append
-
-Write-Output '{}'
-`;
-	if (forceUpdate || !fs.existsSync(afterAgentThoughtPath)) {
-		writeFileAtomic(afterAgentThoughtPath, afterAgentThoughtScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_after_agent_thought.ps1`);
+	// Create hooks.json with FULL AI-Trail support
+	const hooksPath = path.join(cursorDir, 'hooks.json');
+	const hooksConfig = buildAceHooksConfig(isWindows);
+
+	// Upsert hooks.json's ACE entries whenever they differ from the expected
+	// config: missing events, legacy per-event scripts, hooks removed in
+	// dev.14 (afterShellExecution / afterAgentResponse / ace_track_edit), or a
+	// dispatcher path from an older extension install. Entries other tools or
+	// the team added (formatters, audit loggers, ...) are kept in place.
+	let existingHooks: unknown;
+	let shouldWriteHooks = forceUpdate;  // Force update if version upgrade
+	if (!fs.existsSync(hooksPath)) {
+		shouldWriteHooks = true;
+		console.log('[ACE] Creating hooks.json with AI-Trail support');
+	} else {
+		try {
+			existingHooks = JSON.parse(fs.readFileSync(hooksPath, 'utf-8'));
+			if (forceUpdate) {
+				console.log('[ACE] Force updating hooks.json ACE entries (version upgrade)');
+			} else {
+				const drift = diffHooksConfig(hooksConfig, existingHooks);
+				if (drift.missing.length + drift.changed.length + drift.unexpected.length > 0) {
+					shouldWriteHooks = true;
+					console.log('[ACE] Updating hooks.json ACE entries:', [...drift.missing, ...drift.changed, ...drift.unexpected]);
+				}
+			}
+		} catch {
+			// Keep the unparseable file so hand edits can be recovered.
+			existingHooks = undefined;
+			shouldWriteHooks = true;
+			fs.copyFileSync(hooksPath, `${hooksPath}.bak`);
+			console.log(`[ACE] Recreating invalid hooks.json (previous copy saved to ${hooksPath}.bak)`);
+		}
 	}
 
-	// Before Tab File Read (minimal - fires very frequently)
-	const beforeTabFileReadPath = path.join(scriptsDir, 'ace_before_tab_file_read.ps1');
-	const beforeTabFileReadScript = `# ACE Before Tab File Read Hook - Minimal gate (fires very frequently)
-Write-Output '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeTabFileReadPath)) {
-		writeFileAtomic(beforeTabFileReadPath, beforeTabFileReadScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_tab_file_read.ps1`);
+	if (shouldWriteHooks) {
+		const merge = mergeAceHooksIntoHooksJson(existingHooks, hooksConfig);
+		writeFileAtomic(hooksPath, JSON.stringify(merge.hooksJson, null, 2));
+		console.log(`[ACE] hooks.json ready with AI-Trail support (${merge.added.length} ACE entries added/updated, ${merge.removed.length} removed, ${merge.foreignKept} foreign entries kept)`);
+		if (merge.added.length + merge.removed.length > 0) {
+			console.log('[ACE] hooks.json ACE changes:', { added: merge.added, removed: merge.removed });
+		}
 	}
 
-	// After Tab File Edit - Edit tracking
-	const afterTabFileEditPath = path.join(scriptsDir, 'ace_after_tab_file_edit.ps1');
-	const afterTabFileEditScript = `# ACE After Tab File Edit Hook - Tracks tab edits
-# Input: file_path
-
-$inputJson = [Console]::In.ReadToEnd()
-$input = $inputJson | ConvertFrom-Json -ErrorAction SilentlyContinue
-
-$aceDir = ".cursor\\ace"
-if (-not (Test-Path $aceDir)) {
-    New-Item -ItemType Directory -Path $aceDir -Force | Out-Null
-}
-
-$filePath = if ($input.file_path) { $input.file_path } else { "" }
-
-$entry = @{event="tab_edit"; file_path=$filePath; timestamp=(Get-Date -Format "o")} | ConvertTo-Json -Compress
-$entry | Out-File -FilePath "$aceDir\\edit_trajectory.jsonl" -Encoding utf8 -Append
-`;
-	if (forceUpdate || !fs.existsSync(afterTabFileEditPath)) {
-		writeFileAtomic(afterTabFileEditPath, afterTabFileEditScript);
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_after_tab_file_edit.ps1`);
-	}
-
-	// v0.5.0 TASK 3 — domain-shift inject (PowerShell stub: no-op).
-	// Bash variant does the real work; Windows users skip until ported.
-	const domainShiftPsPath = path.join(scriptsDir, 'ace_domain_shift.ps1');
-	const domainShiftPsScript = `# ACE Domain-Shift Inject (PowerShell stub) — v0.5.0
-# Bash counterpart implements the real logic. PS variant is a no-op until ported.
-Write-Output '{}'
-exit 0
-`;
-	writeFileAtomic(domainShiftPsPath, domainShiftPsScript);
-}
-
-/**
- * Create Unix bash hook scripts for AI-Trail
- * @param scriptsDir - Directory to write scripts to
- * @param forceUpdate - If true, overwrite existing files (used during version upgrade)
- */
-function createUnixHookScripts(scriptsDir: string, forceUpdate: boolean = false): void {
-	// v0.4.1: TRUSTED extension install dir for helper.js path baking.
-	const aceExtDir = extensionContext ? extensionContext.extensionPath : '';
-	// MCP Execution Tracking (PostToolUse equivalent)
-	const mcpTrackPath = path.join(scriptsDir, 'ace_track_mcp.sh');
-	const mcpTrackScript = getMcpTrackScriptContent();
-	// Always update to get ace_learn helpfulness detection
-	writeFileAtomic(mcpTrackPath, mcpTrackScript, { mode: 0o755 });
-	console.log(`[ACE] Updated ace_track_mcp.sh with ace_learn helpfulness detection`);
-
-	// v0.5.0-dev.20 Task B — orphan track-script generation removed.
-	// dev.14 unhooked afterShellExecution / afterAgentResponse / ace_track_edit
-	// from hooks.json (transcript already carries that data). Continuing to
-	// write the now-orphan scripts confused users + wasted disk. The scripts
-	// (and their .bak buddies) are deleted on activation by
-	// cleanupOrphanScripts() — see workspaceCleanup.ts.
-
-	// Session Start Hook - Injects pattern context into new conversations
-	const sessionStartPath = path.join(scriptsDir, 'ace_session_start.sh');
-	const sessionStartScript = `#!/bin/bash
-# ACE Session Start Hook - Injects pattern context into new conversations
-# Input: session_id, is_background_agent, composer_mode
-# Output: additional_context, env
-
-input=$(cat)
-session_id=$(echo "$input" | jq -r '.session_id // empty')
-is_bg=$(echo "$input" | jq -r '.is_background_agent // false')
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-# Clear trajectory files from previous session
-> "$ace_dir/mcp_trajectory.jsonl" 2>/dev/null
-> "$ace_dir/shell_trajectory.jsonl" 2>/dev/null
-> "$ace_dir/edit_trajectory.jsonl" 2>/dev/null
-> "$ace_dir/response_trajectory.jsonl" 2>/dev/null
-> "$ace_dir/ace-relevance.jsonl" 2>/dev/null
-rm -f "$ace_dir/ace-review-result.json" 2>/dev/null
-
-# Save session info
-echo "{\\"session_id\\": \\"$session_id\\", \\"started_at\\": \\"$(date -Iseconds)\\", \\"is_background\\": $is_bg}" > "$ace_dir/current_session.json"
-
-# Read cached pattern info (written by extension preloadPatterns)
-pattern_count=0
-domains=""
-if [ -f "$ace_dir/pattern_cache.json" ]; then
-  pattern_count=$(jq -r '.patternCount // 0' "$ace_dir/pattern_cache.json" 2>/dev/null || echo "0")
-  domains=$(jq -r '.domains // [] | join(", ")' "$ace_dir/pattern_cache.json" 2>/dev/null || echo "")
-fi
-
-# Build additional context for the conversation
-context=""
-if [ "$pattern_count" -gt 0 ] 2>/dev/null; then
-  context="[ACE Pattern Learning] This project has $pattern_count patterns across domains: $domains. Use ace_search MCP tool to retrieve relevant patterns before starting work."
-else
-  context="[ACE Pattern Learning] ACE is configured. Use ace_search MCP tool to find patterns relevant to your task."
-fi
-
-# Return env vars + additional_context
-echo "{\\"env\\": {\\"ACE_SESSION_ID\\": \\"$session_id\\"}, \\"additional_context\\": \\"$context\\"}"
-`;
-	if (forceUpdate || !fs.existsSync(sessionStartPath)) {
-		writeFileAtomic(sessionStartPath, sessionStartScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_session_start.sh`);
-	}
-
-	// Session End Hook - Logs session analytics
-	const sessionEndPath = path.join(scriptsDir, 'ace_session_end.sh');
-	const sessionEndScript = `#!/bin/bash
-# ACE Session End Hook - Logs session analytics
-# Input: session_id, reason, duration_ms, is_background_agent, final_status
-# Output: none (fire-and-forget)
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-# Count trajectory entries for this session
-mcp_count=$(wc -l < "$ace_dir/mcp_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-shell_count=$(wc -l < "$ace_dir/shell_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-edit_count=$(wc -l < "$ace_dir/edit_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-response_count=$(wc -l < "$ace_dir/response_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-
-# Append session info + trajectory counts to session log
-session_id=$(echo "$input" | jq -r '.session_id // empty')
-reason=$(echo "$input" | jq -r '.reason // "unknown"')
-duration_ms=$(echo "$input" | jq -r '.duration_ms // 0')
-
-echo "{\\"session_id\\": \\"$session_id\\", \\"reason\\": \\"$reason\\", \\"duration_ms\\": $duration_ms, \\"trajectory\\": {\\"mcp\\": $mcp_count, \\"shell\\": $shell_count, \\"edits\\": $edit_count, \\"responses\\": $response_count}, \\"ended_at\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/session_log.jsonl"
-
-exit 0
-`;
-	if (forceUpdate || !fs.existsSync(sessionEndPath)) {
-		writeFileAtomic(sessionEndPath, sessionEndScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_session_end.sh`);
-	}
-
-	// Pre-Compaction Trajectory Preservation
-	const preCompactPath = path.join(scriptsDir, 'ace_pre_compact.sh');
-	const preCompactScript = `#!/bin/bash
-# ACE Pre-Compact Hook - Preserves trajectory before context compaction
-# Input: trigger, context_usage_percent, context_tokens, message_count, messages_to_compact
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-trigger=$(echo "$input" | jq -r '.trigger // "auto"')
-usage_pct=$(echo "$input" | jq -r '.context_usage_percent // 0')
-tokens=$(echo "$input" | jq -r '.context_tokens // 0')
-msg_count=$(echo "$input" | jq -r '.message_count // 0')
-to_compact=$(echo "$input" | jq -r '.messages_to_compact // 0')
-
-# Count current trajectory entries
-mcp_count=$(wc -l < "$ace_dir/mcp_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-shell_count=$(wc -l < "$ace_dir/shell_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-edit_count=$(wc -l < "$ace_dir/edit_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-response_count=$(wc -l < "$ace_dir/response_trajectory.jsonl" 2>/dev/null | tr -d ' ' || echo "0")
-
-# Save compaction snapshot
-echo "{\\"trigger\\": \\"$trigger\\", \\"context_usage_percent\\": $usage_pct, \\"context_tokens\\": $tokens, \\"message_count\\": $msg_count, \\"messages_to_compact\\": $to_compact, \\"trajectory\\": {\\"mcp\\": $mcp_count, \\"shell\\": $shell_count, \\"edits\\": $edit_count, \\"responses\\": $response_count}, \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/compaction_log.jsonl"
-
-# Notify user about compaction with trajectory counts
-msg="Context compacting (\${usage_pct}% used). AI-Trail preserved: MCP:$mcp_count Shell:$shell_count Edits:$edit_count Responses:$response_count"
-echo "{\\"user_message\\": \\"$msg\\"}"
-`;
-	if (forceUpdate || !fs.existsSync(preCompactPath)) {
-		writeFileAtomic(preCompactPath, preCompactScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_pre_compact.sh`);
-	}
-
-	// Subagent Start Tracking
-	const subagentStartPath = path.join(scriptsDir, 'ace_subagent_start.sh');
-	const subagentStartScript = `#!/bin/bash
-# ACE Subagent Start Hook - Tracks subagent spawning for AI-Trail
-# Input: subagent_type, prompt, model
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-subagent_type=$(echo "$input" | jq -r '.subagent_type // "unknown"')
-model=$(echo "$input" | jq -r '.model // "unknown"')
-prompt_preview=$(echo "$input" | jq -r '.prompt // ""' | head -c 200)
-
-echo "{\\"event\\": \\"subagent_start\\", \\"type\\": \\"$subagent_type\\", \\"model\\": \\"$model\\", \\"prompt_preview\\": \\"$prompt_preview\\", \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/mcp_trajectory.jsonl"
-
-# Allow all subagents (no blocking)
-echo '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(subagentStartPath)) {
-		writeFileAtomic(subagentStartPath, subagentStartScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_subagent_start.sh`);
-	}
-
-	// Subagent Stop Tracking
-	const subagentStopPath = path.join(scriptsDir, 'ace_subagent_stop.sh');
-	const subagentStopScript = `#!/bin/bash
-# ACE Subagent Stop Hook - Tracks subagent completion for AI-Trail
-# Input: subagent_type, status, result, duration, agent_transcript_path
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-subagent_type=$(echo "$input" | jq -r '.subagent_type // "unknown"')
-status=$(echo "$input" | jq -r '.status // "unknown"')
-duration=$(echo "$input" | jq -r '.duration // 0')
-transcript=$(echo "$input" | jq -r '.agent_transcript_path // empty')
-
-echo "{\\"event\\": \\"subagent_stop\\", \\"type\\": \\"$subagent_type\\", \\"status\\": \\"$status\\", \\"duration_ms\\": $duration, \\"has_transcript\\": $([ -n \\"$transcript\\" ] && echo true || echo false), \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/mcp_trajectory.jsonl"
-
-# Save subagent transcript path if available
-if [ -n "$transcript" ]; then
-  echo "{\\"subagent_type\\": \\"$subagent_type\\", \\"transcript_path\\": \\"$transcript\\", \\"status\\": \\"$status\\", \\"duration_ms\\": $duration, \\"saved_at\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/subagent_transcripts.jsonl"
-fi
-
-exit 0
-`;
-	if (forceUpdate || !fs.existsSync(subagentStopPath)) {
-		writeFileAtomic(subagentStopPath, subagentStopScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_subagent_stop.sh`);
-	}
-
-	// v0.5.0-dev.20 Task B — ace_track_edit.sh generation removed (orphan since
-	// dev.14, the afterFileEdit hook is now ace_domain_shift.sh). Old file is
-	// deleted on activation by cleanupOrphanScripts().
-
-	// v0.5.0 TASK 1 — Stop hook delegates ace_learn to a node helper instead of
-	// nudging the AI via followup_message. Helper writes ace-review-result.json
-	// for next-prompt ROI inject.
-	const stopHookPath = path.join(scriptsDir, 'ace_stop_hook.sh');
-	const learnHelperAbs = aceExtDir
-		? path.join(aceExtDir, 'scripts', 'ace_learn_helper.js')
-		: '';
-	const stopHookScript = getStopHookScriptContent(learnHelperAbs);
-	writeFileAtomic(stopHookPath, stopHookScript, { mode: 0o755 });
-	console.log('[ACE] Updated ace_stop_hook.sh (v0.5.0 — delegates to learn helper)');
-
-	// v0.5.0 TASK 3 — domain-shift inject hook on Read/Edit.
-	const domainShiftPath = path.join(scriptsDir, 'ace_domain_shift.sh');
-	const searchHelperAbs = aceExtDir
-		? path.join(aceExtDir, 'scripts', 'ace_search_helper.js')
-		: '';
-	writeFileAtomic(domainShiftPath, getDomainShiftScriptContent(searchHelperAbs), { mode: 0o755 });
-	console.log('[ACE] Updated ace_domain_shift.sh (v0.5.0 — domain-shift pattern inject)');
-
-	// v0.5.0: pre-tool-use gate restored — wraps patterns as <ace-patterns> XML JSON
-	// + injects <ace-roi/> from prior task's ace-review-result.json (TASK 4).
-	const preToolUsePath = path.join(scriptsDir, 'ace_pre_tool_use.sh');
-	writeFileAtomic(preToolUsePath, getPreToolUseScriptContent(), { mode: 0o755 });
-	console.log('[ACE] Updated ace_pre_tool_use.sh (v0.5.0 — wrapped pattern injection + ROI)');
-
 	// v0.4.1: legacy workspace-resident helper.js + extension-path.txt cleanup.
 	// Old approach (pre-v0.4.0) wrote helper.js INTO the workspace .cursor/scripts
 	// dir and read a workspace-controlled extension-path.txt — workspace-trust
-	// escape RCE. v0.4.1 writes helper.js to <extensionPath>/scripts (TRUSTED),
-	// so any helper.js still sitting in the workspace scriptsDir is an orphan.
+	// escape RCE. Any helper.js still sitting in the workspace scriptsDir is an
+	// orphan. The old per-event hook scripts are removed by cleanupOrphanScripts().
 	const orphanHelperJs = path.join(scriptsDir, 'ace_search_helper.js');
 	if (fs.existsSync(orphanHelperJs)) {
 		try { fs.unlinkSync(orphanHelperJs); console.log('[ACE] Removed obsolete workspace-resident ace_search_helper.js (v0.4.1)'); } catch {}
 	}
-	const orphanExtPathTxt = path.join(scriptsDir, '..', 'ace', 'extension-path.txt');
+	const orphanExtPathTxt = path.join(cursorDir, 'ace', 'extension-path.txt');
 	if (fs.existsSync(orphanExtPathTxt)) {
 		try { fs.unlinkSync(orphanExtPathTxt); console.log('[ACE] Removed obsolete extension-path.txt (v0.4.0 RCE fix)'); } catch {}
 	}
-
-	// Post-Tool Use Tracking + helper.js pattern injection (v0.4.1).
-	// SDK team correction: drop ace-cli subprocess; use node + helper.js with
-	// @ace-sdk/core in-process. HELPER path is BAKED at write time using
-	// extensionContext.extensionPath — workspace cannot influence it.
-	// §3: helper exit code 2 → auth-status.txt + warning; §4: opt-in marker
-	// gates injection; §5: jq char-truncation, sync timeout, flag-after-success.
-	const postToolUsePath = path.join(scriptsDir, 'ace_post_tool_use.sh');
-	const postToolUseScript = `#!/bin/bash
-# ACE Post-Tool Use Hook - Tracking + v0.4.1 helper.js pattern injection.
-# Spawns node "$HELPER" "<prompt>" with HELPER baked at extension-activation
-# time from context.extensionPath (TRUSTED — not workspace-controlled).
-
-# Caveman: helper path baked here as a literal. No workspace input on this line.
-HELPER="${aceExtDir}/scripts/ace_search_helper.js"
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-tool_type=$(echo "$input" | jq -r '.tool_type // "unknown"')
-tool_name=$(echo "$input" | jq -r '.tool_name // "unknown"')
-# v0.4.0: jq char-based slice (UTF-8 safe). Old \`head -c 500\` chopped multibyte chars.
-tool_input=$(echo "$input" | jq -r '.tool_input // "{}" | tostring | .[0:500]')
-tool_output=$(echo "$input" | jq -r '.tool_output // "" | tostring | .[0:500]')
-duration=$(echo "$input" | jq -r '.duration // 0')
-conv_id=$(echo "$input" | jq -r '.conversation_id // ""')
-gen_id=$(echo "$input" | jq -r '.generation_id // ""')
-transcript=$(echo "$input" | jq -r '.transcript_path // ""')
-
-# v0.5.0-dev.20 Task A — per-conv trajectory rotation. Mirror ace_track_mcp.sh.
-post_event_line="{\\"event\\": \\"post_tool_use\\", \\"tool_type\\": \\"$tool_type\\", \\"tool_name\\": \\"$tool_name\\", \\"tool_input\\": \\"$tool_input\\", \\"tool_output\\": \\"$tool_output\\", \\"duration\\": $duration, \\"timestamp\\": \\"$(date -Iseconds)\\"}"
-if [ -n "$conv_id" ] && [ "$conv_id" != "null" ]; then
-  per_conv_dir="$ace_dir/tasks/$conv_id"
-  mkdir -p "$per_conv_dir"
-  echo "$post_event_line" >> "$per_conv_dir/mcp_trajectory.jsonl"
-else
-  echo "$post_event_line" >> "$ace_dir/mcp_trajectory.jsonl"
-fi
-
-# v0.3.1 injection: only on first non-search tool of generation
-[ -z "$conv_id" ] || [ -z "$gen_id" ] && echo '{}' && exit 0
-flag_file="$ace_dir/tasks/$conv_id/$gen_id.patterns-injected"
-mkdir -p "$ace_dir/tasks/$conv_id"
-[ -f "$flag_file" ] && echo '{}' && exit 0
-
-# v0.5.0-dev.4 TASK 6 — privacy opt-in via runtime-settings.json. Legacy
-# marker file (share-raw-prompts.optin) was removed in v0.5.0-dev.4 cleanup.
-opt_in=0
-settings_file="$ace_dir/runtime-settings.json"
-if [ -f "$settings_file" ]; then
-  raw=$(jq -r '.shareRawPromptsForRetrievalAnalysis // false' "$settings_file" 2>/dev/null || echo "false")
-  if [ "$raw" = "true" ]; then opt_in=1; fi
-fi
-if [ "$opt_in" = "0" ]; then
-  echo '{}'
-  exit 0
-fi
-
-# If AI already called ace_search, mark flag and skip (don't double-inject).
-# ace_get_playbook is hidden by the MCP proxy (v0.5.0-dev.4) so we no longer
-# need to handle it here.
-case "$tool_name" in
-  MCP:ace_search|ace_search)
-    touch "$flag_file"; echo '{}'; exit 0;;
-esac
-
-# Read user prompt from transcript. v0.4.0: jq char-based truncation (UTF-8 safe).
-prompt=""
-if [ -n "$transcript" ] && [ -f "$transcript" ]; then
-  prompt=$(grep '"role":"user"' "$transcript" 2>/dev/null | tail -1 | jq -r '
-    (if .message.content and (.message.content | type == "array") then
-      [.message.content[] | select(.type=="text") | .text] | join(" ")
-    elif .content then .content
-    else empty end) | .[0:500]
-  ' 2>/dev/null)
-fi
-[ -z "$prompt" ] && echo '{}' && exit 0
-
-# Helper file must exist (extension writes it at activation). Otherwise fail-open.
-[ ! -f "$HELPER" ] && echo '{}' && exit 0
-command -v node >/dev/null 2>&1 || { echo '{}'; exit 0; }
-
-# v0.4.0 plan §5 — synchronous timeout. macOS lacks GNU timeout; use perl alarm.
-# Capture stdout (JSON), stderr separately (debug only — exit code drives logic).
-stderr_file=$(mktemp -t ace-helper-stderr.XXXXXX 2>/dev/null || echo "/tmp/ace-helper-stderr.$$")
-patterns_json=""
-rc=0
-if command -v gtimeout >/dev/null 2>&1; then
-  patterns_json=$(gtimeout 8 node "$HELPER" "$prompt" 2>"$stderr_file"); rc=$?
-elif command -v timeout >/dev/null 2>&1; then
-  patterns_json=$(timeout 8 node "$HELPER" "$prompt" 2>"$stderr_file"); rc=$?
-else
-  patterns_json=$(perl -e 'alarm 8; exec @ARGV' -- node "$HELPER" "$prompt" 2>"$stderr_file"); rc=$?
-fi
-rm -f "$stderr_file" 2>/dev/null
-
-# v0.4.1 — helper exit code taxonomy (SDK team contract).
-#   2 = TokenExpiredError, 3 = AceApiError 5xx, 4 = network/timeout, 5 = unknown.
-if [ "$rc" = "2" ]; then
-  # Caveman: write marker for the extension's watcher → showWarningMessage.
-  echo "auth_expired" > "$ace_dir/auth-status.txt"
-  warn_msg=$(echo "ACE: session expired. Run /ace-login. Pattern injection paused until you re-authenticate." | jq -Rs .)
-  cat <<EOF
-{"additional_context":$warn_msg}
-EOF
-  # Caveman: do NOT touch flag — let next tool call retry once user re-logs in.
-  exit 0
-fi
-
-# Network/server/unknown (rc 3/4/5 or any non-0): silently fail-open, no flag.
-if [ "$rc" != "0" ] || [ -z "$patterns_json" ] || [ "$patterns_json" = "{}" ]; then
-  echo '{}'
-  exit 0
-fi
-
-# Parse similar_patterns array. Helper emits SearchResponseWithMetadata JSON.
-patterns_text=$(echo "$patterns_json" | jq -r '
-  (.similar_patterns // []) |
-  map("- [" + (.section // "?") + "/" + (.domain // "?") + "] " + ((.content // "?") | .[0:200])) |
-  .[]
-' 2>/dev/null)
-[ -z "$patterns_text" ] && echo '{}' && exit 0
-
-context_msg="📚 ACE patterns retrieved for: $prompt
-
-$patterns_text
-
-(Patterns auto-fetched by ACE extension. Do NOT call ace_search unless you need fresh patterns mid-task.)"
-context_json=$(echo "$context_msg" | jq -Rs .)
-
-cat <<EOF
-{"additional_context":$context_json}
-EOF
-
-# v0.4.0 plan §5.3 — flag-after-success. Old code touched the flag before the
-# helper ran, so a transient failure would suppress retries. Only mark when the
-# additional_context payload was actually emitted.
-touch "$flag_file"
-`;
-	if (forceUpdate || !fs.existsSync(postToolUsePath)) {
-		writeFileAtomic(postToolUsePath, postToolUseScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_post_tool_use.sh`);
-	}
-
-	// Post-Tool Use Failure Tracking
-	const postToolUseFailurePath = path.join(scriptsDir, 'ace_post_tool_use_failure.sh');
-	const postToolUseFailureScript = `#!/bin/bash
-# ACE Post-Tool Use Failure Hook - Tracks tool failures
-# Input: tool_type, tool_name, error_type, error_message
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-tool_type=$(echo "$input" | jq -r '.tool_type // "unknown"')
-tool_name=$(echo "$input" | jq -r '.tool_name // "unknown"')
-error_type=$(echo "$input" | jq -r '.error_type // "unknown"')
-error_message=$(echo "$input" | jq -r '.error_message // ""' | head -c 500)
-
-echo "{\\"event\\": \\"tool_failure\\", \\"tool_type\\": \\"$tool_type\\", \\"tool_name\\": \\"$tool_name\\", \\"error_type\\": \\"$error_type\\", \\"error_message\\": \\"$error_message\\", \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/mcp_trajectory.jsonl"
-
-echo '{}'
-`;
-	if (forceUpdate || !fs.existsSync(postToolUseFailurePath)) {
-		writeFileAtomic(postToolUseFailurePath, postToolUseFailureScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_post_tool_use_failure.sh`);
-	}
-
-	// Before Shell Execution Gate
-	const beforeShellPath = path.join(scriptsDir, 'ace_before_shell.sh');
-	const beforeShellScript = `#!/bin/bash
-# ACE Before Shell Hook - Gates shell command execution
-# Input: command
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-command=$(echo "$input" | jq -r '.command // ""')
-
-echo "{\\"event\\": \\"before_shell\\", \\"command\\": \\"$command\\", \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/shell_trajectory.jsonl"
-
-echo '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeShellPath)) {
-		writeFileAtomic(beforeShellPath, beforeShellScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_shell.sh`);
-	}
-
-	// Before MCP Execution Gate
-	const beforeMcpPath = path.join(scriptsDir, 'ace_before_mcp.sh');
-	const beforeMcpScript = `#!/bin/bash
-# ACE Before MCP Hook - Gates MCP tool execution
-# Input: tool_name, tool_input
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-tool_name=$(echo "$input" | jq -r '.tool_name // "unknown"')
-tool_input=$(echo "$input" | jq -r '.tool_input // "{}"' | head -c 500)
-
-echo "{\\"event\\": \\"before_mcp\\", \\"tool_name\\": \\"$tool_name\\", \\"tool_input\\": \\"$tool_input\\", \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/mcp_trajectory.jsonl"
-
-echo '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeMcpPath)) {
-		writeFileAtomic(beforeMcpPath, beforeMcpScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_mcp.sh`);
-	}
-
-	// Before Read File Gate (minimal - fires frequently)
-	const beforeReadFilePath = path.join(scriptsDir, 'ace_before_read_file.sh');
-	const beforeReadFileScript = `#!/bin/bash
-# ACE Before Read File Hook - Minimal gate (fires frequently)
-echo '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeReadFilePath)) {
-		writeFileAtomic(beforeReadFilePath, beforeReadFileScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_read_file.sh`);
-	}
-
-	// Before Submit Prompt - Pattern context injection
-	const beforeSubmitPromptPath = path.join(scriptsDir, 'ace_before_submit_prompt.sh');
-	const beforeSubmitPromptScript = `#!/bin/bash
-# ACE Before Submit Prompt Hook - Injects pattern context + logs injection for task helpfulness
-# Input: prompt_text
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-if [ -f "$ace_dir/pattern_cache.json" ]; then
-  pattern_count=$(jq -r '.patternCount // 0' "$ace_dir/pattern_cache.json" 2>/dev/null || echo "0")
-  if [ "$pattern_count" -gt 0 ] 2>/dev/null; then
-    domains=$(jq -r '.domains // [] | join(", ")' "$ace_dir/pattern_cache.json" 2>/dev/null || echo "")
-    avg_conf=$(jq -r '.avgConfidence // 0' "$ace_dir/pattern_cache.json" 2>/dev/null || echo "0")
-    # Log injection event for task helpfulness tracking
-    echo "{\\"event\\": \\"search\\", \\"patterns_injected\\": $pattern_count, \\"domains\\": [\\"$(echo "$domains" | sed 's/, /\\", \\"/g')\\"], \\"avg_confidence\\": $avg_conf, \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/ace-relevance.jsonl"
-    echo '{"continue": true}'
-  else
-    echo '{"continue": true}'
-  fi
-else
-  echo '{"continue": true}'
-fi
-`;
-	// Always update to get relevance logging
-	writeFileAtomic(beforeSubmitPromptPath, beforeSubmitPromptScript, { mode: 0o755 });
-	console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_submit_prompt.sh`);
-
-	// After Agent Thought - Thinking capture
-	const afterAgentThoughtPath = path.join(scriptsDir, 'ace_after_agent_thought.sh');
-	const afterAgentThoughtScript = `#!/bin/bash
-# ACE After Agent Thought Hook - Captures agent thinking
-# Input: text, duration_ms
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-text=$(echo "$input" | jq -r '.text // ""' | head -c 300)
-duration_ms=$(echo "$input" | jq -r '.duration_ms // 0')
-
-echo "{\\"event\\": \\"agent_thought\\", \\"text\\": \\"$text\\", \\"duration_ms\\": $duration_ms, \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/response_trajectory.jsonl"
-
-echo '{}'
-`;
-	if (forceUpdate || !fs.existsSync(afterAgentThoughtPath)) {
-		writeFileAtomic(afterAgentThoughtPath, afterAgentThoughtScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_after_agent_thought.sh`);
-	}
-
-	// Before Tab File Read (minimal - fires very frequently)
-	const beforeTabFileReadPath = path.join(scriptsDir, 'ace_before_tab_file_read.sh');
-	const beforeTabFileReadScript = `#!/bin/bash
-# ACE Before Tab File Read Hook - Minimal gate (fires very frequently)
-echo '{"permission":"allow"}'
-`;
-	if (forceUpdate || !fs.existsSync(beforeTabFileReadPath)) {
-		writeFileAtomic(beforeTabFileReadPath, beforeTabFileReadScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_before_tab_file_read.sh`);
-	}
-
-	// After Tab File Edit - Edit tracking
-	const afterTabFileEditPath = path.join(scriptsDir, 'ace_after_tab_file_edit.sh');
-	const afterTabFileEditScript = `#!/bin/bash
-# ACE After Tab File Edit Hook - Tracks tab edits
-# Input: file_path
-
-input=$(cat)
-ace_dir=".cursor/ace"
-mkdir -p "$ace_dir"
-
-file_path=$(echo "$input" | jq -r '.file_path // ""')
-
-echo "{\\"event\\": \\"tab_edit\\", \\"file_path\\": \\"$file_path\\", \\"timestamp\\": \\"$(date -Iseconds)\\"}" >> "$ace_dir/edit_trajectory.jsonl"
-`;
-	if (forceUpdate || !fs.existsSync(afterTabFileEditPath)) {
-		writeFileAtomic(afterTabFileEditPath, afterTabFileEditScript, { mode: 0o755 });
-		console.log(`[ACE] ${forceUpdate ? 'Updated' : 'Created'} ace_after_tab_file_edit.sh`);
-	}
 }
 
 /**
@@ -3055,198 +2075,343 @@ export { initializeWorkspace };
 // alongside the function definition (v0.5.0-dev.22 Task A).
 
 /**
- * Manual search command - redirects to MCP tool
+ * Manual search command - live QuickPick over searchPatterns
  */
 async function runSearchCommand(): Promise<void> {
-	vscode.window.showInformationMessage(
-		'ACE search is handled automatically via MCP. ' +
-		'In Cursor chat, the AI calls ace_search before tasks to retrieve relevant patterns.'
-	);
+	await showSearchPatternsQuickPick();
 }
 
 /**
- * Manual bootstrap command
+ * Manual bootstrap command - local collection + resumable upload
  */
 async function runBootstrapCommand(): Promise<void> {
-	const aceConfig = getAceConfig();
-	if (!aceConfig) {
-		vscode.window.showWarningMessage('ACE not configured. Run ACE: Configure Connection first.');
-		return;
-	}
-
-	const mode = await vscode.window.showQuickPick(
-		['hybrid (recommended)', 'docs-only', 'git-history', 'local-files'],
-		{ placeHolder: 'Select bootstrap mode' }
-	);
-
-	if (!mode) return;
-
-	vscode.window.showInformationMessage(`ACE bootstrap started in ${mode} mode. This may take a minute...`);
-
-	// The actual bootstrap is handled by the MCP server
-	// This is just a UI trigger - user should use MCP tool directly in chat
-	vscode.window.showInformationMessage(
-		'For best results, use the ace_bootstrap MCP tool directly in Cursor chat: ' +
-		'"Please call ace_bootstrap to initialize patterns from this codebase"'
-	);
+	await runBootstrap(aceOutput);
 }
 
 /**
- * Manual learn command
+ * Manual learn command - builds + sends a real execution trace
  */
 async function runLearnCommand(): Promise<void> {
-	const aceConfig = getAceConfig();
-	if (!aceConfig) {
-		vscode.window.showWarningMessage('ACE not configured. Run ACE: Configure Connection first.');
-		return;
-	}
-
-	const task = await vscode.window.showInputBox({
-		prompt: 'What task did you complete?',
-		ignoreFocusOut: true
-	});
-
-	if (!task) return;
-
-	const outcome = await vscode.window.showQuickPick(['Success', 'Failure'], {
-		placeHolder: 'Was the task successful?'
-	});
-
-	if (!outcome) return;
-
-	const lessons = await vscode.window.showInputBox({
-		prompt: 'What were the key lessons learned?',
-		ignoreFocusOut: true
-	});
-
-	// The actual learning is handled by the MCP server
-	// This is just a UI trigger - user should use MCP tool directly in chat
-	vscode.window.showInformationMessage(
-		'For best results, use the ace_learn MCP tool directly in Cursor chat. ' +
-		'The AI automatically captures learning after substantial tasks.'
-	);
+	await runCaptureLearning(extensionContext.extensionUri);
 }
 
 /**
- * Diagnostic command - checks why ACE search might not be triggering
- * For multi-root workspaces, checks the selected folder
+ * Run every ACE: Diagnose check for a folder.
+ * Each problem finding carries a Fix action (see runDiagnosticFix).
  */
-async function runDiagnosticCommand(): Promise<void> {
-	const diagnostics: string[] = [];
-	const issues: string[] = [];
-	const fixes: string[] = [];
-
-	// Get target folder for diagnostics
-	const targetFolder = await getTargetFolder('Select folder to diagnose');
+async function collectDiagnosticFindings(targetFolder?: vscode.WorkspaceFolder): Promise<DiagnosticFinding[]> {
+	const findings: DiagnosticFinding[] = [];
+	const isWindows = process.platform === 'win32';
 
-	// 1. Check Cursor MCP API availability
+	// 1. Cursor MCP API availability
 	const cursorApi = getCursorApi();
-	if (!cursorApi?.mcp?.registerServer) {
-		issues.push('❌ Cursor MCP API not available');
-		diagnostics.push('• Cursor MCP API: NOT AVAILABLE');
-		diagnostics.push('  → This extension requires Cursor (not VS Code)');
-		diagnostics.push('  → Make sure you\'re running Cursor, not VS Code');
-		fixes.push('Switch to Cursor IDE (this extension requires Cursor\'s native MCP API)');
-	} else {
-		diagnostics.push('✅ Cursor MCP API: Available');
-	}
+	findings.push(cursorApi?.mcp?.registerServer
+		? { id: 'mcp-api', status: 'ok', title: 'Cursor MCP API available', details: [] }
+		: {
+			id: 'mcp-api', status: 'error', title: 'Cursor MCP API not available',
+			details: ['This extension requires Cursor (not VS Code) for native MCP registration.']
+		});
 
-	// 2. Check configuration
+	// 2. Configuration
 	const aceConfig = getAceConfig(targetFolder);
 	if (!aceConfig) {
-		issues.push('❌ ACE not configured');
-		diagnostics.push('• Configuration: MISSING');
-		diagnostics.push('  → No server URL, API token, or project ID found');
-		fixes.push('Run "ACE: Configure Connection" to set up your ACE credentials');
+		findings.push({
+			id: 'config', status: 'error', title: 'ACE not configured',
+			details: ['No server URL or project ID found.'],
+			fix: { id: 'configure', label: 'Open ACE: Configure Connection' }
+		});
 	} else {
-		diagnostics.push('✅ Configuration: Found');
-		if (!aceConfig.serverUrl) {
-			issues.push('⚠️ Server URL missing');
-			diagnostics.push('  → Server URL: Missing');
-		} else {
-			diagnostics.push(`  → Server URL: ${aceConfig.serverUrl}`);
-		}
-		if (!aceConfig.projectId) {
-			issues.push('⚠️ Project ID missing');
-			diagnostics.push('  → Project ID: Missing');
-			fixes.push('Set your project ID in ACE configuration');
-		} else {
-			diagnostics.push(`  → Project ID: ${aceConfig.projectId}`);
-		}
+		const missing = [!aceConfig.serverUrl && 'server URL', !aceConfig.projectId && 'project ID'].filter(Boolean);
+		findings.push({
+			id: 'config',
+			status: missing.length > 0 ? 'warn' : 'ok',
+			title: missing.length > 0 ? `Configuration incomplete (missing ${missing.join(', ')})` : 'Configuration found',
+			details: [
+				`Server URL: ${aceConfig.serverUrl || 'missing'}`,
+				`Project ID: ${aceConfig.projectId || 'missing'}`,
+				`Org ID: ${aceConfig.orgId || 'default'}`
+			],
+			fix: missing.length > 0 ? { id: 'configure', label: 'Open ACE: Configure Connection' } : undefined
+		});
 	}
 
-	// 3. Check rules file
-	if (targetFolder) {
-		const rulesPath = getDiagnosticRulesPath(targetFolder.uri.fsPath);
-		if (fs.existsSync(rulesPath)) {
-			diagnostics.push('✅ Cursor Rules: Found');
-			const rulesContent = fs.readFileSync(rulesPath, 'utf-8');
-			if (rulesContent.includes('ace_search')) {
-				diagnostics.push('  → Rules mention ace_search');
-			} else {
-				issues.push('⚠️ Rules file missing ace_search reference');
-			}
+	// 3. Token expiry
+	const expiry = getTokenExpiration();
+	const hardCap = getHardCapInfo();
+	if (!isAuthenticated() || !expiry) {
+		findings.push({
+			id: 'token', status: 'error', title: 'Not logged in',
+			details: ['No valid ACE token on this device.'],
+			fix: { id: 'login', label: 'Login' }
+		});
+	} else {
+		const refreshExpired = expiry.refreshExpires ? new Date(expiry.refreshExpires).getTime() <= Date.now() : false;
+		const details = [
+			expiry.accessExpires ? `Access token expires: ${new Date(expiry.accessExpires).toLocaleString()}` : '',
+			expiry.refreshExpires ? `Refresh token expires: ${new Date(expiry.refreshExpires).toLocaleString()}` : '',
+			hardCap ? `Session hard cap (7d): ${hardCap.isExpired ? 'expired' : `${hardCap.daysRemaining}d ${hardCap.hoursRemaining % 24}h remaining`}` : ''
+		].filter(Boolean);
+		if (refreshExpired || hardCap?.isExpired) {
+			findings.push({ id: 'token', status: 'error', title: 'Session expired', details, fix: { id: 'login', label: 'Login again' } });
+		} else if (hardCap?.isApproaching) {
+			findings.push({ id: 'token', status: 'warn', title: 'Session expiring soon', details, fix: { id: 'login', label: 'Re-login now' } });
 		} else {
-			issues.push('⚠️ Cursor rules file not found');
-			diagnostics.push('• Cursor Rules: NOT FOUND');
-			fixes.push('Run "ACE: Initialize Workspace" to create rules file');
+			findings.push({ id: 'token', status: 'ok', title: 'Logged in', details });
 		}
 	}
 
-	// 4. Check hooks
-	if (targetFolder) {
-		const hooksPath = path.join(targetFolder.uri.fsPath, '.cursor', 'hooks.json');
-		if (fs.existsSync(hooksPath)) {
-			diagnostics.push('✅ Cursor Hooks: Found');
+	if (!targetFolder) {
+		return findings;
+	}
+	const wsRoot = targetFolder.uri.fsPath;
+	const aceDir = path.join(wsRoot, '.cursor', 'ace');
+
+	// 4. Rules file
+	const rulesPath = getDiagnosticRulesPath(wsRoot);
+	if (!fs.existsSync(rulesPath)) {
+		findings.push({
+			id: 'rules', status: 'warn', title: 'Cursor rules file not found',
+			details: [`Expected ${path.relative(wsRoot, rulesPath)}`],
+			fix: { id: 'initializeWorkspace', label: 'Re-initialize workspace' }
+		});
+	} else if (!fs.readFileSync(rulesPath, 'utf-8').includes('ace_search')) {
+		findings.push({
+			id: 'rules', status: 'warn', title: 'Rules file missing ace_search reference',
+			details: [path.relative(wsRoot, rulesPath)],
+			fix: { id: 'initializeWorkspace', label: 'Re-initialize workspace' }
+		});
+	} else {
+		findings.push({ id: 'rules', status: 'ok', title: 'Cursor rules found', details: [path.relative(wsRoot, rulesPath)] });
+	}
+
+	// 5. hooks.json drift against the expected config
+	const hooksPath = path.join(wsRoot, '.cursor', 'hooks.json');
+	let actual: unknown;
+	if (!fs.existsSync(hooksPath)) {
+		findings.push({
+			id: 'hooks', status: 'error', title: 'hooks.json not found',
+			details: ['Pattern injection and learning hooks are not installed.'],
+			fix: { id: 'regenerateHooks', label: 'Regenerate hooks' }
+		});
+	} else {
+		try {
+			actual = JSON.parse(fs.readFileSync(hooksPath, 'utf-8'));
+		} catch {
+			actual = undefined;
+		}
+		if (actual === undefined) {
+			findings.push({
+				id: 'hooks', status: 'error', title: 'hooks.json is not valid JSON',
+				details: [hooksPath],
+				fix: { id: 'regenerateHooks', label: 'Regenerate hooks' }
+			});
 		} else {
-			diagnostics.push('⚠️ Cursor hooks not found (optional)');
+			const drift = diffHooksConfig(buildAceHooksConfig(isWindows), actual);
+			const drifted = drift.missing.length + drift.changed.length + drift.unexpected.length;
+			findings.push({
+				id: 'hooks',
+				status: drifted > 0 ? 'warn' : 'ok',
+				title: drifted > 0 ? `hooks.json drift (${drifted} ACE entr${drifted === 1 ? 'y' : 'ies'})` : 'hooks.json matches expected config',
+				details: [
+					...drift.missing.map(d => `Missing: ${d}`),
+					...drift.changed.map(d => `Changed: ${d}`),
+					...drift.unexpected.map(d => `Unexpected: ${d}`)
+				],
+				fix: drifted > 0 ? { id: 'regenerateHooks', label: 'Regenerate hooks' } : undefined
+			});
 		}
 	}
 
-	// 5. Check @ace-sdk/mcp package (note: npx will download if needed)
-	diagnostics.push('ℹ️ @ace-sdk/mcp: Will be downloaded by npx if needed');
-	diagnostics.push('  → MCP server uses: npx @ace-sdk/mcp');
-
-	// Display results
-	const message = [
-		'=== ACE Diagnostic Report ===',
-		'',
-		...diagnostics,
-		'',
-		issues.length > 0 ? 'ISSUES FOUND:' : '✅ No critical issues found',
-		...issues,
-		'',
-		fixes.length > 0 ? 'RECOMMENDED FIXES:' : '',
-		...fixes,
-		'',
-		'NOTE: Even if everything is configured, the AI decides when to call MCP tools.',
-		'Try explicitly asking: "Please call ace_search to retrieve patterns for my task"',
-		'',
-		'For automatic triggering, ensure:',
-		'1. MCP server is registered (requires Cursor, not VS Code)',
-		'2. Configuration is complete (API token, project ID)',
-		'3. Rules file exists (.cursor/rules/ace-patterns.mdc)',
-		'4. The AI recognizes the task as requiring patterns'
-	].join('\n');
-
-	const outputChannel = vscode.window.createOutputChannel('ACE Diagnostic');
-	outputChannel.appendLine(message);
-	outputChannel.show();
-
-	// Also show a summary
-	if (issues.length > 0) {
-		vscode.window.showWarningMessage(
-			`ACE Diagnostic: Found ${issues.length} issue(s). Check output panel for details.`,
-			'View Details'
-		).then(selection => {
-			if (selection === 'View Details') {
-				outputChannel.show();
+	// 6. hooks.json runs this install's dispatcher, and it and its helpers exist
+	if (extensionContext) {
+		const problems = findHookFileProblems(extensionContext.extensionPath, actual);
+		const stale = problems.some(p => p.reason === 'outside-extension');
+		findings.push(problems.length > 0
+			? {
+				id: 'helper-paths', status: 'error',
+				title: `Hooks point at missing or stale files (${problems.length})`,
+				details: problems.map(p => p.reason === 'missing'
+					? `${p.file}: file missing (reinstall the extension)`
+					: `${p.file}: not this extension version`),
+				fix: stale ? { id: 'regenerateHooks', label: 'Regenerate hooks' } : undefined
 			}
+			: {
+				id: 'helper-paths', status: 'ok', title: 'Hooks run this extension\'s dispatcher and helpers',
+				details: [path.join(extensionContext.extensionPath, 'dist', 'hooks', 'ace_hook.js')]
+			});
+	}
+
+	// 7. node for the hook dispatcher (baked into hooks.json; on PATH on Windows)
+	const nodeBin = findHookNode(os.homedir(), isWindows);
+	findings.push(nodeBin
+		? { id: 'node', status: 'ok', title: 'node found for hooks', details: [nodeBin] }
+		: {
+			id: 'node', status: 'error', title: 'node not found for hooks',
+			details: ['Every hook runs ace_hook.js with node; pattern injection and learning are off until it is installed.'],
+			fix: { id: 'installNode', label: 'Install Node.js' }
+		});
+
+	// 8. MCP STATUS.md state
+	const statusPath = getMcpStatusPath(wsRoot, os.homedir());
+	if (!fs.existsSync(statusPath)) {
+		findings.push({
+			id: 'mcp-status', status: 'info', title: 'MCP STATUS.md not found',
+			details: ['Cursor has not reported MCP server state for this project yet.']
 		});
 	} else {
-		vscode.window.showInformationMessage(
-			'ACE Diagnostic: No critical issues found. Check output panel for full report.'
-		);
+		const status = fs.readFileSync(statusPath, 'utf-8');
+		findings.push(/errored|error/i.test(status)
+			? {
+				id: 'mcp-status', status: 'error', title: 'MCP server in error state',
+				details: status.split('\n').filter(l => /error/i.test(l)).slice(0, 5).map(l => l.trim()),
+				fix: { id: 'registerMcp', label: 'Re-register MCP server' }
+			}
+			: { id: 'mcp-status', status: 'ok', title: 'MCP server status OK', details: [statusPath] });
+	}
+
+	// 9. Recent learn-helper failures from the Stop hook
+	const stopLog = path.join(aceDir, 'ace-stop-debug.log');
+	if (fs.existsSync(stopLog)) {
+		const { runs, failures } = parseHelperDoneResults(fs.readFileSync(stopLog, 'utf-8'));
+		const tokenExpired = failures.some(f => f.rc === 2);
+		findings.push(failures.length > 0
+			? {
+				id: 'learn-helper', status: 'warn',
+				title: `Learn helper failed ${failures.length}/${runs} recent run(s)`,
+				details: failures.slice(-5).map(f => `rc=${f.rc} (${describeHelperExitCode(f.rc)}): ${f.line}`),
+				fix: tokenExpired ? { id: 'login', label: 'Login' } : { id: 'openStopLog', label: 'Open ace-stop-debug.log' }
+			}
+			: { id: 'learn-helper', status: 'ok', title: runs > 0 ? `Learn helper OK (${runs} recent run(s))` : 'Learn helper has not run yet', details: [] });
+	}
+
+	return findings;
+}
+
+/**
+ * Apply a diagnostic Fix action
+ */
+async function runDiagnosticFix(fixId: DiagnosticFixId, folder?: vscode.WorkspaceFolder): Promise<void> {
+	switch (fixId) {
+		case 'regenerateHooks':
+			await createCursorHooks(folder, true);
+			vscode.window.showInformationMessage('ACE: hooks regenerated.');
+			break;
+		case 'registerMcp':
+			await registerMcpServer(extensionContext);
+			break;
+		case 'login':
+			await vscode.commands.executeCommand('ace.login');
+			break;
+		case 'configure':
+			await vscode.commands.executeCommand('ace.configure');
+			break;
+		case 'initializeWorkspace':
+			if (folder) {
+				await initializeWorkspaceForFolder(folder, getExtensionVersion(extensionContext), true);
+				vscode.window.showInformationMessage('ACE: workspace re-initialized.');
+			}
+			break;
+		case 'installNode':
+			await vscode.env.openExternal(vscode.Uri.parse('https://nodejs.org/en/download'));
+			break;
+		case 'openStopLog':
+			if (folder) {
+				const doc = await vscode.workspace.openTextDocument(path.join(folder.uri.fsPath, '.cursor', 'ace', 'ace-stop-debug.log'));
+				await vscode.window.showTextDocument(doc);
+			}
+			break;
+	}
+}
+
+let diagnosticOutput: vscode.OutputChannel | undefined;
+
+/**
+ * Diagnostic command - checks why ACE search/learn might not be working,
+ * offers one-click fixes and a Markdown report export.
+ * For multi-root workspaces, checks the selected folder
+ */
+async function runDiagnosticCommand(): Promise<void> {
+	const targetFolder = await getTargetFolder('Select folder to diagnose');
+	const findings = await vscode.window.withProgress({
+		location: vscode.ProgressLocation.Window,
+		title: 'ACE: diagnosing...'
+	}, () => collectDiagnosticFindings(targetFolder));
+
+	const report = formatDiagnosticReportMarkdown(findings, {
+		generatedAt: new Date().toISOString(),
+		extensionVersion: extensionContext ? getExtensionVersion(extensionContext) : 'unknown',
+		workspace: targetFolder?.uri.fsPath ?? 'none',
+		platform: `${process.platform}/${process.arch}`
+	});
+
+	if (!diagnosticOutput) {
+		diagnosticOutput = vscode.window.createOutputChannel('ACE Diagnostic');
+		extensionContext?.subscriptions.push(diagnosticOutput);
+	}
+	diagnosticOutput.clear();
+	diagnosticOutput.appendLine(report);
+
+	const problems = findings.filter(f => f.status === 'warn' || f.status === 'error');
+	type DiagnosticItem = vscode.QuickPickItem & { finding?: DiagnosticFinding; action?: 'export' | 'output' | 'rerun' };
+	const icon = (f: DiagnosticFinding) => f.status === 'error' ? '$(error)' : f.status === 'warn' ? '$(warning)' : f.status === 'ok' ? '$(pass)' : '$(info)';
+	const items: DiagnosticItem[] = [
+		{ label: problems.length > 0 ? `${problems.length} issue(s) found` : 'No issues found', kind: vscode.QuickPickItemKind.Separator },
+		...problems.map(f => ({
+			label: `${icon(f)} ${f.title}`,
+			description: f.fix ? `Fix: ${f.fix.label}` : undefined,
+			detail: f.details.slice(0, 2).join(' · ') || undefined,
+			finding: f
+		})),
+		{ label: 'Passing checks', kind: vscode.QuickPickItemKind.Separator },
+		...findings.filter(f => !problems.includes(f)).map(f => ({ label: `${icon(f)} ${f.title}`, finding: f })),
+		{ label: '', kind: vscode.QuickPickItemKind.Separator },
+		{ label: '$(markdown) Export report as Markdown', action: 'export' },
+		{ label: '$(output) Show full report', action: 'output' },
+		{ label: '$(refresh) Run again', action: 'rerun' }
+	];
+
+	const selected = await vscode.window.showQuickPick(items, {
+		title: 'ACE Diagnose',
+		placeHolder: problems.length > 0 ? 'Select an issue to apply its fix' : 'All checks passed'
+	});
+	if (!selected) return;
+
+	if (selected.action === 'export') {
+		const defaultUri = targetFolder
+			? vscode.Uri.file(path.join(targetFolder.uri.fsPath, '.cursor', 'ace', 'diagnostic-report.md'))
+			: undefined;
+		const uri = await vscode.window.showSaveDialog({ defaultUri, filters: { Markdown: ['md'] } });
+		if (uri) {
+			fs.mkdirSync(path.dirname(uri.fsPath), { recursive: true });
+			writeFileAtomic(uri.fsPath, report);
+			const doc = await vscode.workspace.openTextDocument(uri);
+			await vscode.window.showTextDocument(doc);
+		}
+		return;
+	}
+	if (selected.action === 'output') {
+		diagnosticOutput.show();
+		return;
+	}
+	if (selected.action === 'rerun') {
+		return runDiagnosticCommand();
+	}
+
+	const fix = selected.finding?.fix;
+	if (!fix) {
+		diagnosticOutput.show();
+		return;
+	}
+	try {
+		await runDiagnosticFix(fix.id, targetFolder);
+		aceOutput?.appendLine(`[${new Date().toLocaleTimeString()}] Diagnose fix applied: ${fix.label}`);
+	} catch (error) {
+		vscode.window.showErrorMessage(`ACE: fix "${fix.label}" failed: ${error instanceof Error ? error.message : String(error)}`);
+		return;
+	}
+	const again = await vscode.window.showInformationMessage(`ACE: ${fix.label} — done.`, 'Run Diagnose Again');
+	if (again === 'Run Diagnose Again') {
+		return runDiagnosticCommand();
 	}
 }
 
@@ -0,0 +1,52 @@
+/**
+ * ACE hook dispatcher — bundled to <extension>/dist/hooks/ace_hook.js.
+ *
+ * hooks.json points every Cursor hook event at this one script:
+ *
+ *   "<node>" "<extension>/dist/hooks/ace_hook.js" <event>
+ *
+ * It reads the hook payload from stdin, runs the event's handler (see
+ * handlers.ts) from the workspace Cursor runs hooks in, and prints the
+ * handler's JSON. It lives in the trusted extension install dir, so nothing
+ * in the workspace decides what runs, and it always exits 0 — a failing
+ * hook fails open instead of blocking the agent.
+ */
+
+import * as path from 'path';
+import { getSearchDaemonSocketPath } from '../ace/searchDaemon';
+import { createHookContext } from './hookContext';
+import { runHook } from './handlers';
+import { isHookEvent } from './payload';
+
+function readStdin(): Promise<string> {
+	return new Promise(resolve => {
+		let data = '';
+		process.stdin.setEncoding('utf-8');
+		process.stdin.on('data', chunk => { data += chunk; });
+		process.stdin.on('end', () => resolve(data));
+		process.stdin.on('error', () => resolve(data));
+	});
+}
+
+/** The line to print, or '' for fire-and-forget events. */
+async function main(): Promise<string> {
+	const event = process.argv[2] || '';
+	const input = await readStdin();
+	if (!isHookEvent(event)) {
+		process.stderr.write(`[ACE] Unknown hook event: ${event}\n`);
+		return '{}\n';
+	}
+	// dist/hooks/ace_hook.js → extension root.
+	const extensionDir = path.resolve(__dirname, '..', '..');
+	const ctx = createHookContext(process.cwd(), extensionDir, getSearchDaemonSocketPath());
+	const output = await runHook(event, input, ctx);
+	return output === undefined ? '' : JSON.stringify(output) + '\n';
+}
+
+// Exit once stdout is flushed (pipes are asynchronous on Windows).
+const exit = (text: string) => process.stdout.write(text, () => process.exit(0));
+
+main().then(exit, error => {
+	process.stderr.write(`[ACE] Hook dispatcher failed: ${error instanceof Error ? error.message : String(error)}\n`);
+	exit('');
+});
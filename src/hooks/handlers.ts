@@ -0,0 +1,728 @@
+/**
+ * One handler per Cursor hook event, run by the ace_hook.js dispatcher.
+ *
+ * These replace the per-event bash and PowerShell scripts the extension used
+ * to write into .cursor/scripts. Behavior is the same on every OS; files are
+ * written under <workspace>/.cursor/ace exactly where the scripts wrote them,
+ * so the learn helper, Task History and the trajectory watcher read them
+ * unchanged.
+ *
+ * A handler returns the JSON Cursor expects on stdout, or undefined for
+ * fire-and-forget events. Every failure path fails open: a hook must never
+ * block the agent because ACE is misconfigured or offline.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadDomainRules, matchDomain, matchServerDomain, toDomainPath } from '../ace/domainRules';
+import { unwrapAceSearchResult } from '../ace/manualTrace';
+import { type InjectionRecord, recordInjection, toInjectedPatternRefs } from '../ace/patternAttribution';
+import { readPinnedPatterns } from '../ace/pinnedPatterns';
+import type { HookContext } from './hookContext';
+import {
+	type HookEvent,
+	type HookPayload,
+	asObject,
+	numberField,
+	parseHookPayload,
+	readLastUserPrompt,
+	stringify,
+	textField,
+	truncate,
+} from './payload';
+
+export type HookOutput = Record<string, unknown> | undefined;
+export type HookHandler = (payload: HookPayload, ctx: HookContext) => Promise<HookOutput>;
+
+const ALLOW: HookOutput = { permission: 'allow' };
+
+const TRAJECTORY_FILES = {
+	mcp: 'mcp_trajectory.jsonl',
+	shell: 'shell_trajectory.jsonl',
+	edits: 'edit_trajectory.jsonl',
+	responses: 'response_trajectory.jsonl',
+} as const;
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function appendJsonl(file: string, entry: unknown): void {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.appendFileSync(file, JSON.stringify(entry) + '\n');
+}
+
+function appendLine(file: string, line: string): void {
+	try {
+		fs.appendFileSync(file, line + '\n');
+	} catch {
+		// Debug breadcrumbs are best effort.
+	}
+}
+
+function readJsonFile(file: string): Record<string, unknown> {
+	try {
+		return asObject(JSON.parse(fs.readFileSync(file, 'utf-8')));
+	} catch {
+		return {};
+	}
+}
+
+function countLines(file: string, containing?: string): number {
+	try {
+		const lines = fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean);
+		return containing ? lines.filter(l => l.includes(containing)).length : lines.length;
+	} catch {
+		return 0;
+	}
+}
+
+function touch(file: string): void {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.closeSync(fs.openSync(file, 'a'));
+}
+
+function taskDir(ctx: HookContext, conversationId: string): string {
+	return path.join(ctx.aceDir, 'tasks', conversationId);
+}
+
+/**
+ * .cursor/ace/tasks/<conv>/mcp_trajectory.jsonl, or the top-level file when
+ * the payload has no conversation id (older Cursor versions).
+ */
+function mcpTrajectoryFile(ctx: HookContext, conversationId: string): string {
+	return conversationId
+		? path.join(taskDir(ctx, conversationId), TRAJECTORY_FILES.mcp)
+		: path.join(ctx.aceDir, TRAJECTORY_FILES.mcp);
+}
+
+function trajectoryCounts(ctx: HookContext): Record<keyof typeof TRAJECTORY_FILES, number> {
+	return {
+		mcp: countLines(path.join(ctx.aceDir, TRAJECTORY_FILES.mcp)),
+		shell: countLines(path.join(ctx.aceDir, TRAJECTORY_FILES.shell)),
+		edits: countLines(path.join(ctx.aceDir, TRAJECTORY_FILES.edits)),
+		responses: countLines(path.join(ctx.aceDir, TRAJECTORY_FILES.responses)),
+	};
+}
+
+/** Privacy gate: prompts only leave the machine when the user opted in. */
+function sharesRawPrompts(ctx: HookContext): boolean {
+	return readJsonFile(path.join(ctx.aceDir, 'runtime-settings.json')).shareRawPromptsForRetrievalAnalysis === true;
+}
+
+/**
+ * tasks/<conv>/injections.jsonl entry for the MCP proxy's attribution tools.
+ * Best effort: a failed write must not cost the agent its patterns.
+ */
+function noteInjection(ctx: HookContext, conversationId: string, record: Omit<InjectionRecord, 'timestamp' | 'patterns'>, patterns: unknown): void {
+	if (!conversationId) return;
+	try {
+		recordInjection(taskDir(ctx, conversationId), {
+			timestamp: ctx.now().toISOString(),
+			...record,
+			patterns: toInjectedPatternRefs(patterns),
+		});
+	} catch {
+		// Attribution tools just see less.
+	}
+}
+
+function logRelevance(ctx: HookContext, event: string): void {
+	appendJsonl(path.join(ctx.aceDir, 'ace-relevance.jsonl'), { event, timestamp: ctx.now().toISOString() });
+}
+
+type SearchResponse = { similar_patterns: Array<Record<string, unknown>> } & Record<string, unknown>;
+
+/** The helper's stdout as a search response with at least one pattern. */
+function parseSearchResponse(stdout: string): SearchResponse | undefined {
+	const response = asObject(stdout.trim());
+	const patterns = response.similar_patterns;
+	if (!Array.isArray(patterns) || patterns.length === 0) return undefined;
+	return response as SearchResponse;
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/** `ace_search` rewrite used when the agent calls it without a query or asks for the playbook. */
+function rewriteToSearch(payload: HookPayload): HookOutput {
+	const query = readLastUserPrompt(payload.transcriptPath) || 'continue current task';
+	const call = { name: 'ace_search', arguments: { query } };
+	// updated_input is the documented field; some hook surfaces read tool_input.
+	return { permission: 'allow', updated_input: call, tool_input: call };
+}
+
+// ============================================================================
+// Session lifecycle
+// ============================================================================
+
+/** Reset the trajectory files and point the agent at ace_search. */
+export async function handleSessionStart(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	fs.mkdirSync(ctx.aceDir, { recursive: true });
+	for (const name of [...Object.values(TRAJECTORY_FILES), 'ace-relevance.jsonl']) {
+		fs.writeFileSync(path.join(ctx.aceDir, name), '');
+	}
+	fs.rmSync(path.join(ctx.aceDir, 'ace-review-result.json'), { force: true });
+
+	const sessionId = textField(payload.raw, 'session_id');
+	fs.writeFileSync(path.join(ctx.aceDir, 'current_session.json'), JSON.stringify({
+		session_id: sessionId,
+		started_at: ctx.now().toISOString(),
+		is_background: payload.raw.is_background_agent === true,
+	}));
+
+	// Written by the extension's preloadPatterns.
+	const cache = readJsonFile(path.join(ctx.aceDir, 'pattern_cache.json'));
+	const patternCount = numberField(cache, 'patternCount');
+	const domains = Array.isArray(cache.domains) ? cache.domains.map(String).join(', ') : '';
+	const context = patternCount > 0
+		? `[ACE Pattern Learning] This project has ${patternCount} patterns across domains: ${domains}. Use ace_search MCP tool to retrieve relevant patterns before starting work.`
+		: '[ACE Pattern Learning] ACE is configured. Use ace_search MCP tool to find patterns relevant to your task.';
+	return { env: { ACE_SESSION_ID: sessionId }, additional_context: context };
+}
+
+/** Log session analytics with the trajectory counts. */
+export async function handleSessionEnd(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(path.join(ctx.aceDir, 'session_log.jsonl'), {
+		session_id: textField(payload.raw, 'session_id'),
+		reason: textField(payload.raw, 'reason', 'unknown'),
+		duration_ms: numberField(payload.raw, 'duration_ms'),
+		trajectory: trajectoryCounts(ctx),
+		ended_at: ctx.now().toISOString(),
+	});
+	return undefined;
+}
+
+/** Snapshot the trajectory before Cursor compacts the context. */
+export async function handlePreCompact(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	const usage = numberField(payload.raw, 'context_usage_percent');
+	const trajectory = trajectoryCounts(ctx);
+	appendJsonl(path.join(ctx.aceDir, 'compaction_log.jsonl'), {
+		trigger: textField(payload.raw, 'trigger', 'auto'),
+		context_usage_percent: usage,
+		context_tokens: numberField(payload.raw, 'context_tokens'),
+		message_count: numberField(payload.raw, 'message_count'),
+		messages_to_compact: numberField(payload.raw, 'messages_to_compact'),
+		trajectory,
+		timestamp: ctx.now().toISOString(),
+	});
+	return {
+		user_message: `Context compacting (${usage}% used). AI-Trail preserved: MCP:${trajectory.mcp} Shell:${trajectory.shell} Edits:${trajectory.edits} Responses:${trajectory.responses}`,
+	};
+}
+
+export async function handleSubagentStart(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(path.join(ctx.aceDir, TRAJECTORY_FILES.mcp), {
+		event: 'subagent_start',
+		type: textField(payload.raw, 'subagent_type', 'unknown'),
+		model: textField(payload.raw, 'model', 'unknown'),
+		prompt_preview: truncate(textField(payload.raw, 'prompt'), 200),
+		timestamp: ctx.now().toISOString(),
+	});
+	return ALLOW;
+}
+
+export async function handleSubagentStop(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	const type = textField(payload.raw, 'subagent_type', 'unknown');
+	const status = textField(payload.raw, 'status', 'unknown');
+	const duration = numberField(payload.raw, 'duration');
+	const transcript = textField(payload.raw, 'agent_transcript_path');
+	const timestamp = ctx.now().toISOString();
+	appendJsonl(path.join(ctx.aceDir, TRAJECTORY_FILES.mcp), {
+		event: 'subagent_stop', type, status, duration_ms: duration, has_transcript: !!transcript, timestamp,
+	});
+	if (transcript) {
+		appendJsonl(path.join(ctx.aceDir, 'subagent_transcripts.jsonl'), {
+			subagent_type: type, transcript_path: transcript, status, duration_ms: duration, saved_at: timestamp,
+		});
+	}
+	return undefined;
+}
+
+// ============================================================================
+// MCP tracking and the Stop hook
+// ============================================================================
+
+/**
+ * Record every MCP call (the only place ace_search results land — the
+ * transcript has the call but not the result), mark ace_search done for the
+ * generation and note its patterns as an injection, and pick up the agent's
+ * TIME_SAVED self-report from ace_learn.
+ */
+export async function handleAfterMcpExecution(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(mcpTrajectoryFile(ctx, payload.conversationId), payload.raw);
+
+	const toolName = payload.toolName;
+	if (toolName === 'ace_search') {
+		touch(path.join(taskDir(ctx, payload.conversationId || 'unknown'), `${payload.generationId || 'unknown'}.search-done`));
+		const query = asObject(payload.toolInput).query;
+		noteInjection(ctx, payload.conversationId, {
+			source: 'ace_search',
+			generation_id: payload.generationId,
+			query: typeof query === 'string' ? query : '',
+		}, unwrapAceSearchResult(payload.raw.result_json).results);
+	}
+
+	// Cursor bug 150043: the agent sometimes calls MCP tools without arguments.
+	if ((toolName === 'ace_search' || toolName === 'ace_learn') && hasEmptyArguments(payload.toolInput)) {
+		appendJsonl(path.join(ctx.aceDir, 'ace-relevance.jsonl'), {
+			event: 'schema_violation_detected',
+			tool: toolName,
+			reason: 'empty_arguments_likely_cursor_callmcptool_bug_150043',
+			timestamp: ctx.now().toISOString(),
+		});
+	}
+
+	if (/ace_learn/i.test(toolName)) {
+		const output = asObject(payload.toolInput).output;
+		const review = typeof output === 'string' ? parseTimeSaved(output) : undefined;
+		if (review) {
+			fs.writeFileSync(path.join(ctx.aceDir, 'ace-review-result.json'), JSON.stringify({
+				...review,
+				timestamp: ctx.now().toISOString(),
+			}));
+		}
+	}
+	return undefined;
+}
+
+function hasEmptyArguments(toolInput: unknown): boolean {
+	if (toolInput === undefined || toolInput === null) return true;
+	if (typeof toolInput === 'string' && ['', '{}', 'null'].includes(toolInput.trim())) return true;
+	const args = asObject(toolInput);
+	if (typeof toolInput === 'string' && Object.keys(args).length === 0) return false; // not a JSON object
+	return Object.values(args).every(v => v === null || v === '');
+}
+
+/**
+ * `TIME_SAVED: 15m | reason` on the first line of ace_learn's output, mapped
+ * to a helpfulness percentage: 0m=0%, 1-4m=15%, 5-14m=30%, 15-29m=60%, 30m+=80%.
+ */
+export function parseTimeSaved(output: string): { helpful_pct: number; time_saved: string; reason: string } | undefined {
+	const firstLine = output.split('\n')[0];
+	if (!firstLine.includes('TIME_SAVED:')) return undefined;
+	const timeSaved = firstLine.replace(/TIME_SAVED:\s*/, '').replace(/\s*\|.*$/, '').trim();
+	const reason = firstLine.includes('|') ? truncate(firstLine.replace(/^[^|]*\|\s*/, ''), 200) : '';
+	const minutes = Number(timeSaved.match(/\d+/)?.[0] ?? 0);
+	const helpfulPct = minutes >= 30 ? 80 : minutes >= 15 ? 60 : minutes >= 5 ? 30 : minutes > 0 ? 15 : 0;
+	return { helpful_pct: helpfulPct, time_saved: timeSaved, reason };
+}
+
+/**
+ * Stop hook — hand the finished task to ace_learn_helper.js (server-side
+ * learn). Every exit writes a labelled line to ace-stop-debug.log, which
+ * ACE: Diagnose and Task History parse.
+ */
+export async function handleStop(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	fs.mkdirSync(ctx.aceDir, { recursive: true });
+	const debugLog = path.join(ctx.aceDir, 'ace-stop-debug.log');
+	const status = textField(payload.raw, 'status');
+	const loopCount = textField(payload.raw, 'loop_count', '0');
+	const convId = payload.conversationId;
+	const fields = `status=${status} conv=${convId} loop=${loopCount}`;
+	const ts = () => ctx.now().toISOString();
+
+	appendLine(debugLog, `${ts()} STOP_FIRED ${fields}`);
+	const skip = (reason: string): HookOutput => {
+		appendLine(debugLog, `${ts()} STOP_SKIP reason=${reason} ${fields}`);
+		return {};
+	};
+
+	// Only completed, top-of-stack stops.
+	if (status !== 'completed') return skip('status_not_completed');
+	if (loopCount !== '0' && loopCount !== '') return skip('loop_count_nonzero');
+	if (!convId) return skip('no_conv_id');
+
+	// Remember the transcript next to the task so Task History can rebuild the
+	// timeline later (Cursor only hands the path to hooks).
+	const dir = taskDir(ctx, convId);
+	if (payload.transcriptPath && fs.existsSync(dir)) {
+		try {
+			fs.writeFileSync(path.join(dir, 'transcript_path'), payload.transcriptPath);
+		} catch {
+			// Task History falls back to the trajectory alone.
+		}
+	}
+
+	// Skip tasks with no recorded work. MCP tools that write files don't fire
+	// afterFileEdit, so MCP and shell activity count too.
+	const marker = `"conversation_id":"${convId}"`;
+	let workCount = countLines(path.join(dir, TRAJECTORY_FILES.mcp));
+	for (const name of [TRAJECTORY_FILES.edits, TRAJECTORY_FILES.mcp, TRAJECTORY_FILES.shell]) {
+		workCount += countLines(path.join(ctx.aceDir, name), marker);
+	}
+	if (workCount < 1) return skip('no_work_count_zero');
+
+	if (!fs.existsSync(ctx.learnHelperPath)) {
+		appendLine(debugLog, `${ts()} STOP_SKIP reason=helper_missing path=${ctx.learnHelperPath}`);
+		return {};
+	}
+
+	const perConv = path.join(dir, TRAJECTORY_FILES.mcp);
+	const jsonl = fs.existsSync(perConv) ? perConv : path.join(ctx.aceDir, TRAJECTORY_FILES.mcp);
+	appendLine(debugLog, `${ts()} helper_start node=${process.execPath} helper=${ctx.learnHelperPath} jsonl=${jsonl}`);
+	const rc = ctx.learn([convId, jsonl, payload.transcriptPath], debugLog);
+	appendLine(debugLog, `${ts()} helper_done rc=${rc}`);
+	return {};
+}
+
+// ============================================================================
+// Pattern injection
+// ============================================================================
+
+/**
+ * Pre-tool-use gate. Rewrites ace_get_playbook and argument-less ace_search
+ * calls into a real ace_search, lets ace_learn through as a fallback for a
+ * failed Stop hook, and on the first other tool of each generation denies it
+ * once with the patterns for the user's prompt (plus last task's ROI) as the
+ * agent message — the agent reads them and retries the tool.
+ */
+export async function handlePreToolUse(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	const toolName = payload.toolName || 'unknown';
+	const convId = payload.conversationId;
+	const genId = payload.generationId;
+	appendJsonl(mcpTrajectoryFile(ctx, convId), {
+		event: 'pre_tool_use', tool_name: toolName, conv_id: convId, gen_id: genId, timestamp: ctx.now().toISOString(),
+	});
+
+	if (toolName === 'MCP:ace_search') {
+		// Cursor bug 150043 drops `arguments`; the server then rejects the call.
+		const query = asObject(payload.toolInput).query;
+		if (typeof query === 'string' && query) return ALLOW;
+		logRelevance(ctx, 'rewrote_empty_ace_search');
+		return rewriteToSearch(payload);
+	}
+	if (toolName === 'MCP:ace_get_playbook' || toolName === 'ace_get_playbook') {
+		logRelevance(ctx, 'rewrote_get_playbook_to_search');
+		return rewriteToSearch(payload);
+	}
+	if (toolName === 'MCP:ace_learn' || toolName === 'ace_learn') {
+		logRelevance(ctx, 'allowed_ace_learn_fallback');
+		return ALLOW;
+	}
+	if (toolName.startsWith('MCP:ace_')) return ALLOW;
+
+	if (!convId || !genId) return ALLOW;
+	const flag = path.join(taskDir(ctx, convId), `${genId}.patterns-injected`);
+	if (fs.existsSync(flag)) return ALLOW;
+	if (!sharesRawPrompts(ctx)) return ALLOW;
+
+	// Mark first: a slow or failing search must not gate every tool call.
+	touch(flag);
+
+	const roi = consumeReviewResult(ctx);
+	const prompt = readLastUserPrompt(payload.transcriptPath);
+	if (!prompt) return ALLOW;
+
+	const { stdout } = await ctx.search(prompt);
+	const injected = withPinnedPatterns(ctx, parseSearchResponse(stdout), activeDomain(payload, ctx, convId));
+	if (!injected) return ALLOW;
+
+	noteInjection(ctx, convId, { source: 'pre_tool_use', generation_id: genId, query: prompt }, injected.similar_patterns);
+	const patterns = `<ace-patterns agent-type="main">${JSON.stringify(injected)}</ace-patterns>`;
+	return {
+		permission: 'deny',
+		user_message: '📚 ACE patterns retrieved',
+		agent_message: roi ? `${roi}\n${patterns}` : patterns,
+	};
+}
+
+/**
+ * `<ace-roi/>` from the previous task's learn result, or ''. The file is
+ * renamed to -consumed either way so it is injected at most once.
+ */
+function consumeReviewResult(ctx: HookContext): string {
+	const file = path.join(ctx.aceDir, 'ace-review-result.json');
+	if (!fs.existsSync(file)) return '';
+	const review = readJsonFile(file);
+	try {
+		fs.renameSync(file, path.join(ctx.aceDir, 'ace-review-result-consumed.json'));
+	} catch {
+		// Another hook consumed it first.
+	}
+	const minutes = review.time_saved_min;
+	if (minutes === undefined || minutes === null || minutes === 0 || minutes === '0' || minutes === '') return '';
+	return `<ace-roi prev-task-saved-min="${escapeXml(String(minutes))}" reason="${escapeXml(textField(review, 'reason'))}"/>`;
+}
+
+/**
+ * Pins (ACE: Pin Pattern) whose domain appears in the results or is the
+ * active domain go first, flagged `pinned: true`; search hits with the same
+ * id are dropped. Pins for the active domain are injected even when the
+ * search found nothing.
+ */
+function withPinnedPatterns(ctx: HookContext, response: SearchResponse | undefined, active: string): SearchResponse | undefined {
+	const allPins = readPinnedPatterns(ctx.workspaceRoot);
+	const domains = new Set(response?.similar_patterns.map(p => p?.domain));
+	const activePinDomain = matchServerDomain(active, Array.from(new Set(allPins.map(pin => pin.domain))));
+	if (activePinDomain) domains.add(activePinDomain);
+	const pins = allPins
+		.filter(pin => domains.has(pin.domain))
+		.map(pin => ({ ...pin, pinned: true }));
+	if (pins.length === 0) return response;
+	const pinIds = new Set(pins.map(pin => pin.id));
+	return {
+		...response,
+		similar_patterns: [...pins, ...(response?.similar_patterns ?? []).filter(p => !pinIds.has(p?.id as string))],
+	};
+}
+
+/**
+ * The domain the agent is working in: the gated tool's file, else the last
+ * one the domain-shift hook recorded for this conversation. '' when unknown.
+ */
+function activeDomain(payload: HookPayload, ctx: HookContext, convId: string): string {
+	if (payload.filePath) {
+		return matchDomain(toDomainPath(ctx.workspaceRoot, payload.filePath), loadDomainRules(ctx.aceDir)).domain;
+	}
+	const dir = taskDir(ctx, convId);
+	let latest = { domain: '', mtime: 0 };
+	try {
+		for (const name of fs.readdirSync(dir)) {
+			if (!name.endsWith('.last-domain')) continue;
+			const file = path.join(dir, name);
+			const mtime = fs.statSync(file).mtimeMs;
+			if (mtime >= latest.mtime) latest = { domain: fs.readFileSync(file, 'utf-8').trim(), mtime };
+		}
+	} catch {
+		// No task folder yet.
+	}
+	return latest.domain;
+}
+
+/**
+ * Post-tool-use: record the call and, when pre-tool-use injected nothing,
+ * add the patterns for the prompt as additional_context. The generation's
+ * flag is set only after patterns were actually injected, so a transient
+ * failure retries on the next tool.
+ */
+export async function handlePostToolUse(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	const toolName = payload.toolName || 'unknown';
+	const convId = payload.conversationId;
+	const genId = payload.generationId;
+	appendJsonl(mcpTrajectoryFile(ctx, convId), {
+		event: 'post_tool_use',
+		tool_type: payload.toolType || 'unknown',
+		tool_name: toolName,
+		tool_input: truncate(stringify(payload.toolInput ?? '{}'), 500),
+		tool_output: truncate(stringify(payload.toolOutput ?? ''), 500),
+		duration: numberField(payload.raw, 'duration'),
+		timestamp: ctx.now().toISOString(),
+	});
+
+	if (!convId || !genId) return {};
+	const flag = path.join(taskDir(ctx, convId), `${genId}.patterns-injected`);
+	if (fs.existsSync(flag)) return {};
+	if (!sharesRawPrompts(ctx)) return {};
+
+	// The agent already searched — don't inject twice.
+	if (toolName === 'MCP:ace_search' || toolName === 'ace_search') {
+		touch(flag);
+		return {};
+	}
+
+	const prompt = readLastUserPrompt(payload.transcriptPath);
+	if (!prompt) return {};
+
+	const { rc, stdout } = await ctx.search(prompt);
+	if (rc === 2) {
+		// The extension watches this file and asks the user to log in again.
+		fs.writeFileSync(path.join(ctx.aceDir, 'auth-status.txt'), 'auth_expired\n');
+		return { additional_context: 'ACE: session expired. Run /ace-login. Pattern injection paused until you re-authenticate.' };
+	}
+	// rc 3/4 may still carry matches from the local pattern mirror.
+	if (rc !== 0 && rc !== 3 && rc !== 4) return {};
+	const response = parseSearchResponse(stdout);
+	if (!response) return {};
+
+	noteInjection(ctx, convId, { source: 'post_tool_use', generation_id: genId, query: prompt }, response.similar_patterns);
+	const lines = response.similar_patterns.map(p =>
+		`- [${textField(asObject(p), 'section', '?')}/${textField(asObject(p), 'domain', '?')}] ${truncate(textField(asObject(p), 'content', '?'), 200)}`
+	);
+	touch(flag);
+	return {
+		additional_context: `📚 ACE patterns retrieved for: ${prompt}\n\n${lines.join('\n')}\n\n(Patterns auto-fetched by ACE extension. Do NOT call ace_search unless you need fresh patterns mid-task.)`,
+	};
+}
+
+const DOMAIN_SHIFT_TOOLS = new Set(['Read', 'Edit', 'Write', 'MultiEdit', 'edit', 'read', 'write']);
+
+/**
+ * Domain shift: when the agent moves to a file in another domain than the
+ * last one this generation, inject fresh patterns for it as
+ * `<ace-patterns-domain-shift domain="…">`. Domains come from the
+ * workspace's domains.json rules (see domainRules.ts), mapped onto the
+ * closest real server domain from pattern_cache.json, which then narrows the
+ * search as allowed_domains. afterFileEdit payloads carry no tool name, so an
+ * empty one counts as an edit.
+ */
+export async function handleDomainShift(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	if (payload.toolName && !DOMAIN_SHIFT_TOOLS.has(payload.toolName)) return {};
+	const convId = payload.conversationId;
+	const genId = payload.generationId;
+	if (!payload.filePath || !convId || !genId) return {};
+	if (!sharesRawPrompts(ctx)) return {};
+
+	const domain = matchDomain(toDomainPath(ctx.workspaceRoot, payload.filePath), loadDomainRules(ctx.aceDir)).domain;
+	const marker = path.join(taskDir(ctx, convId), `${genId}.last-domain`);
+	let lastDomain = '';
+	try {
+		lastDomain = fs.readFileSync(marker, 'utf-8').trim();
+	} catch {
+		// First file of this generation.
+	}
+	if (domain === lastDomain) return {};
+	// Update before the search: one injection per domain change, even if it fails.
+	fs.mkdirSync(path.dirname(marker), { recursive: true });
+	fs.writeFileSync(marker, domain + '\n');
+
+	// Server domains, written by the extension's preloadPatterns.
+	const cache = readJsonFile(path.join(ctx.aceDir, 'pattern_cache.json'));
+	const serverDomains = Array.isArray(cache.domains) ? cache.domains.map(String) : [];
+	const serverDomain = matchServerDomain(domain, serverDomains);
+
+	const query = `${serverDomain ?? domain} ${path.basename(payload.filePath).replace(/\.[^.]*$/, '')}`;
+	const { stdout } = await ctx.search(query, serverDomain ? [serverDomain] : undefined);
+	const response = parseSearchResponse(stdout);
+	if (!response) return {};
+	noteInjection(ctx, convId, {
+		source: 'domain_shift', generation_id: genId, query, domain, ...(serverDomain ? { server_domain: serverDomain } : {}),
+	}, response.similar_patterns);
+	return {
+		additional_context: `<ace-patterns-domain-shift domain="${escapeXml(serverDomain ?? domain)}">${JSON.stringify(response)}</ace-patterns-domain-shift>`,
+	};
+}
+
+// ============================================================================
+// Trackers and gates
+// ============================================================================
+
+export async function handlePostToolUseFailure(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(path.join(ctx.aceDir, TRAJECTORY_FILES.mcp), {
+		event: 'tool_failure',
+		tool_type: payload.toolType || 'unknown',
+		tool_name: payload.toolName || 'unknown',
+		error_type: textField(payload.raw, 'error_type', 'unknown'),
+		error_message: truncate(textField(payload.raw, 'error_message'), 500),
+		timestamp: ctx.now().toISOString(),
+	});
+	return {};
+}
+
+export async function handleBeforeShellExecution(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(path.join(ctx.aceDir, TRAJECTORY_FILES.shell), {
+		event: 'before_shell', command: textField(payload.raw, 'command'), timestamp: ctx.now().toISOString(),
+	});
+	return ALLOW;
+}
+
+export async function handleBeforeMcpExecution(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(path.join(ctx.aceDir, TRAJECTORY_FILES.mcp), {
+		event: 'before_mcp',
+		tool_name: payload.toolName || 'unknown',
+		tool_input: truncate(stringify(payload.toolInput ?? '{}'), 500),
+		timestamp: ctx.now().toISOString(),
+	});
+	return ALLOW;
+}
+
+/** Log the cached pattern stats for each prompt (task helpfulness tracking). */
+export async function handleBeforeSubmitPrompt(_payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	const cache = readJsonFile(path.join(ctx.aceDir, 'pattern_cache.json'));
+	const patternCount = numberField(cache, 'patternCount');
+	if (patternCount > 0) {
+		appendJsonl(path.join(ctx.aceDir, 'ace-relevance.jsonl'), {
+			event: 'search',
+			patterns_injected: patternCount,
+			domains: Array.isArray(cache.domains) ? cache.domains.map(String) : [],
+			avg_confidence: numberField(cache, 'avgConfidence'),
+			timestamp: ctx.now().toISOString(),
+		});
+	}
+	return { continue: true };
+}
+
+export async function handleAfterAgentThought(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(path.join(ctx.aceDir, TRAJECTORY_FILES.responses), {
+		event: 'agent_thought',
+		text: truncate(textField(payload.raw, 'text'), 300),
+		duration_ms: numberField(payload.raw, 'duration_ms'),
+		timestamp: ctx.now().toISOString(),
+	});
+	return {};
+}
+
+export async function handleAfterTabFileEdit(payload: HookPayload, ctx: HookContext): Promise<HookOutput> {
+	appendJsonl(path.join(ctx.aceDir, TRAJECTORY_FILES.edits), {
+		event: 'tab_edit', file_path: payload.filePath, timestamp: ctx.now().toISOString(),
+	});
+	return undefined;
+}
+
+/** beforeReadFile / beforeTabFileRead fire on every read — allow and move on. */
+async function allowAll(): Promise<HookOutput> {
+	return ALLOW;
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+export const HOOK_HANDLERS: Record<HookEvent, HookHandler> = {
+	sessionStart: handleSessionStart,
+	sessionEnd: handleSessionEnd,
+	afterMCPExecution: handleAfterMcpExecution,
+	afterFileEdit: handleDomainShift,
+	stop: handleStop,
+	preCompact: handlePreCompact,
+	subagentStart: handleSubagentStart,
+	subagentStop: handleSubagentStop,
+	preToolUse: handlePreToolUse,
+	postToolUse: handlePostToolUse,
+	postToolUseFailure: handlePostToolUseFailure,
+	beforeShellExecution: handleBeforeShellExecution,
+	beforeMCPExecution: handleBeforeMcpExecution,
+	beforeReadFile: allowAll,
+	beforeSubmitPrompt: handleBeforeSubmitPrompt,
+	afterAgentThought: handleAfterAgentThought,
+	beforeTabFileRead: allowAll,
+	afterTabFileEdit: handleAfterTabFileEdit,
+};
+
+/** What to print when a handler throws: never block the agent on an ACE bug. */
+export function failOpenOutput(event: HookEvent): HookOutput {
+	switch (event) {
+		case 'preToolUse':
+		case 'subagentStart':
+		case 'beforeShellExecution':
+		case 'beforeMCPExecution':
+		case 'beforeReadFile':
+		case 'beforeTabFileRead':
+			return ALLOW;
+		case 'beforeSubmitPrompt':
+			return { continue: true };
+		case 'sessionEnd':
+		case 'subagentStop':
+		case 'afterMCPExecution':
+		case 'afterTabFileEdit':
+			return undefined;
+		default:
+			return {};
+	}
+}
+
+/** Parse `input`, run the event's handler, and fail open on any error. */
+export async function runHook(event: HookEvent, input: string, ctx: HookContext): Promise<HookOutput> {
+	try {
+		return await HOOK_HANDLERS[event](parseHookPayload(input), ctx);
+	} catch (error) {
+		process.stderr.write(`[ACE] ${event} hook failed: ${error instanceof Error ? error.message : String(error)}\n`);
+		return failOpenOutput(event);
+	}
+}
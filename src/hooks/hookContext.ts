@@ -0,0 +1,98 @@
+/**
+ * Everything a hook handler needs from the outside world: where the
+ * workspace and the trusted helpers live, the clock, and how to search and
+ * learn. ace_hook.js builds the real one; tests pass a fake so handlers run
+ * without a daemon, a helper or a network.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { searchViaDaemon } from '../ace/searchDaemon';
+
+/** What ace_search_helper.js would print, with its exit code. */
+export type SearchResult = { rc: number; stdout: string };
+
+/** Exit code when a helper is missing or could not be started. */
+export const HELPER_UNAVAILABLE_RC = 99;
+/** Exit code when a helper ran past its budget (as `timeout` reports it). */
+export const HELPER_TIMEOUT_RC = 124;
+
+const SEARCH_TIMEOUT_MS = 8000;
+const LEARN_TIMEOUT_MS = 30000;
+
+export interface HookContext {
+	/** Workspace root — Cursor runs hooks from it. */
+	workspaceRoot: string;
+	/** <workspace>/.cursor/ace */
+	aceDir: string;
+	/** <extension>/scripts/ace_search_helper.js (trusted install dir). */
+	searchHelperPath: string;
+	/** <extension>/scripts/ace_learn_helper.js (trusted install dir). */
+	learnHelperPath: string;
+	now(): Date;
+	/**
+	 * Pattern search: the warm daemon first, else the search helper.
+	 * `allowedDomains` narrows it to those server domains.
+	 */
+	search(query: string, allowedDomains?: string[]): Promise<SearchResult>;
+	/** Run the learn helper with `args`, appending its stderr to `stderrLog`. */
+	learn(args: string[], stderrLog: string): number;
+}
+
+/**
+ * @param workspaceRoot  hook cwd
+ * @param extensionDir   trusted extension install dir (ace_hook.js lives in its dist/hooks)
+ * @param socketPath     search daemon socket / named pipe
+ */
+export function createHookContext(workspaceRoot: string, extensionDir: string, socketPath: string): HookContext {
+	const searchHelperPath = path.join(extensionDir, 'scripts', 'ace_search_helper.js');
+	const learnHelperPath = path.join(extensionDir, 'scripts', 'ace_learn_helper.js');
+	return {
+		workspaceRoot,
+		aceDir: path.join(workspaceRoot, '.cursor', 'ace'),
+		searchHelperPath,
+		learnHelperPath,
+		now: () => new Date(),
+		async search(query, allowedDomains = []) {
+			const warm = await searchViaDaemon(socketPath, query, workspaceRoot, SEARCH_TIMEOUT_MS, allowedDomains);
+			if (warm) return warm;
+			if (!fs.existsSync(searchHelperPath)) return { rc: HELPER_UNAVAILABLE_RC, stdout: '' };
+			const domainArg = allowedDomains.length > 0 ? [allowedDomains.join(',')] : [];
+			const res = spawnSync(process.execPath, [searchHelperPath, query, ...domainArg], {
+				cwd: workspaceRoot,
+				encoding: 'utf-8',
+				timeout: SEARCH_TIMEOUT_MS,
+				stdio: ['ignore', 'pipe', 'ignore'],
+				windowsHide: true,
+			});
+			return { rc: exitCode(res), stdout: res.stdout || '' };
+		},
+		learn(args, stderrLog) {
+			let fd: number | undefined;
+			try {
+				fd = fs.openSync(stderrLog, 'a');
+			} catch {
+				// No log — the helper still runs, its stderr is dropped.
+			}
+			try {
+				const res = spawnSync(process.execPath, [learnHelperPath, ...args], {
+					cwd: workspaceRoot,
+					timeout: LEARN_TIMEOUT_MS,
+					stdio: ['ignore', 'ignore', fd ?? 'ignore'],
+					windowsHide: true,
+				});
+				return exitCode(res);
+			} finally {
+				if (fd !== undefined) fs.closeSync(fd);
+			}
+		},
+	};
+}
+
+function exitCode(res: ReturnType<typeof spawnSync>): number {
+	if (res.error && (res.error as NodeJS.ErrnoException).code === 'ETIMEDOUT') return HELPER_TIMEOUT_RC;
+	if (res.error) return HELPER_UNAVAILABLE_RC;
+	if (res.signal) return HELPER_TIMEOUT_RC;
+	return res.status ?? HELPER_UNAVAILABLE_RC;
+}
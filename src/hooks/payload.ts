@@ -0,0 +1,159 @@
+/**
+ * Hook payload parsing for the ace_hook.js dispatcher.
+ *
+ * Cursor pipes one JSON object to every hook on stdin. Field names differ a
+ * little between events and Cursor versions (conversation_id vs conv_id,
+ * tool_input as an object or a JSON string), so the common fields are
+ * normalized once here and the handlers read the rest from `raw` through the
+ * typed accessors below.
+ *
+ * fs-only (no vscode, no SDK) so it can be unit-tested.
+ */
+
+import * as fs from 'fs';
+
+/** Every Cursor hook event ACE registers in hooks.json. */
+export const HOOK_EVENTS = [
+	'sessionStart',
+	'sessionEnd',
+	'afterMCPExecution',
+	'afterFileEdit',
+	'stop',
+	'preCompact',
+	'subagentStart',
+	'subagentStop',
+	'preToolUse',
+	'postToolUse',
+	'postToolUseFailure',
+	'beforeShellExecution',
+	'beforeMCPExecution',
+	'beforeReadFile',
+	'beforeSubmitPrompt',
+	'afterAgentThought',
+	'beforeTabFileRead',
+	'afterTabFileEdit',
+] as const;
+
+export type HookEvent = typeof HOOK_EVENTS[number];
+
+export function isHookEvent(value: string): value is HookEvent {
+	return (HOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export interface HookPayload {
+	/** conversation_id (or the older conv_id); '' when missing or "null". */
+	conversationId: string;
+	generationId: string;
+	transcriptPath: string;
+	toolName: string;
+	toolType: string;
+	/** tool_input as sent — an object, a JSON string, or undefined. */
+	toolInput: unknown;
+	toolOutput: unknown;
+	/** tool_input.file_path, else the top-level file_path. */
+	filePath: string;
+	/** The whole parsed payload, for event-specific fields. */
+	raw: Record<string, unknown>;
+}
+
+/** Parse a hook's stdin. Invalid or non-object JSON yields an empty payload. */
+export function parseHookPayload(input: string): HookPayload {
+	let raw: Record<string, unknown> = {};
+	try {
+		const parsed = JSON.parse(input);
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+			raw = parsed;
+		}
+	} catch {
+		// Malformed input — every handler fails open on an empty payload.
+	}
+	const toolInput = raw.tool_input;
+	return {
+		conversationId: idField(raw.conversation_id) || idField(raw.conv_id),
+		generationId: idField(raw.generation_id),
+		transcriptPath: textField(raw, 'transcript_path'),
+		toolName: textField(raw, 'tool_name'),
+		toolType: textField(raw, 'tool_type'),
+		toolInput,
+		toolOutput: raw.tool_output,
+		filePath: textField(asObject(toolInput), 'file_path') || textField(raw, 'file_path'),
+		raw,
+	};
+}
+
+function idField(value: unknown): string {
+	if (typeof value !== 'string' || value === 'null') return '';
+	return value;
+}
+
+/** `value` as a plain object; JSON strings are parsed. */
+export function asObject(value: unknown): Record<string, unknown> {
+	if (typeof value === 'string') {
+		try {
+			value = JSON.parse(value);
+		} catch {
+			return {};
+		}
+	}
+	return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/** String field, or `fallback` when missing, null or not a string/number. */
+export function textField(obj: Record<string, unknown>, key: string, fallback = ''): string {
+	const value = obj[key];
+	if (typeof value === 'string') return value;
+	if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+	return fallback;
+}
+
+/** Numeric field, or `fallback` when missing or not a finite number. */
+export function numberField(obj: Record<string, unknown>, key: string, fallback = 0): number {
+	const value = typeof obj[key] === 'string' ? Number(obj[key]) : obj[key];
+	return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/** `value` as text: strings as-is, anything else JSON-encoded. */
+export function stringify(value: unknown): string {
+	if (typeof value === 'string') return value;
+	if (value === undefined) return '';
+	return JSON.stringify(value) ?? '';
+}
+
+/** First `max` characters (code points, so emoji and CJK are never split). */
+export function truncate(text: string, max: number): string {
+	const chars = Array.from(text);
+	return chars.length > max ? chars.slice(0, max).join('') : text;
+}
+
+/**
+ * Text of the last user message in a Cursor transcript JSONL, truncated to
+ * `max` characters. Array content keeps only its text parts. '' when the
+ * transcript is missing or has no user message.
+ */
+export function readLastUserPrompt(transcriptPath: string, max = 500): string {
+	if (!transcriptPath) return '';
+	let lines: string[];
+	try {
+		lines = fs.readFileSync(transcriptPath, 'utf-8').split('\n');
+	} catch {
+		return '';
+	}
+	const last = lines.filter(l => l.includes('"role":"user"')).pop();
+	if (!last) return '';
+	try {
+		const entry = JSON.parse(last);
+		const content = entry?.message?.content;
+		let text = '';
+		if (Array.isArray(content)) {
+			text = content
+				.filter((part: any) => part && part.type === 'text' && typeof part.text === 'string')
+				.map((part: any) => part.text)
+				.join(' ');
+		} else if (typeof entry?.content === 'string') {
+			text = entry.content;
+		}
+		return truncate(text, max);
+	} catch {
+		return '';
+	}
+}
@@ -15,12 +15,68 @@
  *  - Fix A: AI sometimes omits `agent_type` arg in ace_search calls. We
  *    intercept stdin line-by-line and inject `agent_type='cursor'` (or
  *    ACE_CLIENT_ID env var) when missing — preserves AI's value if set.
+ *    The same pass redacts secrets from ace_search / ace_learn arguments
+ *    (see src/ace/redaction.ts).
  *  - Fix B2: Cursor's stdio MCP transport hangs/returns empty when a single
  *    JSON-RPC response > ~8 KB on macOS (kernel pipe buffer exhaustion). We
  *    truncate `ace_search` responses to the top MAX_SEARCH_RESULTS patterns,
  *    preserving original count for AI awareness.
+ *  - Full results as MCP resources: a truncated search's complete result set
+ *    stays in proxy memory (LRU, MAX_CACHED_SEARCHES) and is served as
+ *    `ace://search/<session_id>` and `ace://search/<session_id>/page/<n>`
+ *    (pages packed to the inline byte budget). The proxy advertises the
+ *    `resources` capability and answers resources/list, resources/templates/list
+ *    and resources/read for those URIs itself; anything else goes to the child.
+ *  - Local tools (LOCAL_MCP_TOOLS): ace_task_status, ace_report_pattern_use and
+ *    ace_explain_injection are appended to tools/list and answered by the
+ *    proxy from .cursor/ace/tasks/ (see src/ace/patternAttribution.ts), so the
+ *    agent reports which patterns it applied as structured data rather than
+ *    TIME_SAVED text. Hidden tools (proxy.json) can hide these too.
+ *  - Supervised, pinned child: the proxy runs @ace-sdk/mcp at ACE_MCP_VERSION,
+ *    from a bundled or npx-cached copy when one exists (no network), else
+ *    `npx -y @ace-sdk/mcp@<version>`. A crashed child restarts with backoff
+ *    (CHILD_RESTART) and gets the client's initialize replayed; requests it
+ *    never answered get a JSON-RPC error instead of hanging. Supervision
+ *    events go to .cursor/ace/mcp-proxy.log, which the extension tails into
+ *    the ACE Activity channel.
+ *  - Request/response matching: every request forwarded to the child is
+ *    remembered by id with its method (and tool name), and each response is
+ *    handled by what was actually requested — no guessing from its shape.
+ *    JSON-RPC batches are handled per message in both directions,
+ *    notifications pass through untracked (notifications/cancelled drops the
+ *    late answer), and a request the child doesn't answer within
+ *    requestTimeoutMs gets a REQUEST_TIMEOUT_CODE error.
+ *  - HTTP transport (ace.mcpTransport = "http"): the extension runs this
+ *    script itself behind a localhost Streamable-HTTP endpoint
+ *    (src/mcp/httpTransport.ts) and registers that URL with Cursor. With
+ *    PROXY_TRANSPORT_ENV=http there is no stdio pipe to Cursor, so Fix B2's
+ *    packing is skipped and ace_search results go out whole.
+ *
+ * Per-workspace settings: the constants below are only defaults. The proxy
+ * reads .cursor/ace/proxy.json at startup (under WORKSPACE_ROOT_ENV, else its
+ * working directory), falling back to ACE_PROXY_* env
+ * vars (passed through registerMcpServer), then to the defaults:
+ *
+ *   {
+ *     "hiddenTools": ["ace_get_playbook"],        ACE_PROXY_HIDDEN_TOOLS (comma list)
+ *     "maxInlinePatternBytes": 20000,             ACE_PROXY_MAX_INLINE_BYTES
+ *     "agentType": "cursor",                      ACE_PROXY_AGENT_TYPE, then ACE_CLIENT_ID
+ *     "instructionsFile": ".cursor/ace/mcp.md",   ACE_PROXY_INSTRUCTIONS_FILE
+ *     "stripPatternFields": ["metadata"],         ACE_PROXY_STRIP_FIELDS (comma list)
+ *     "requestTimeoutMs": 120000                  ACE_PROXY_REQUEST_TIMEOUT_MS
+ *   }
+ *
+ * The byte budget guards the ~8 KB macOS pipe limit; Linux and Windows users
+ * can raise it for larger inline results. The instructions file (relative to
+ * the workspace) replaces MCP_SERVER_INSTRUCTIONS. Stripped fields are dropped
+ * from the inline patterns only; the full-results resources keep them.
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import { getPatternAttributionJs } from '../ace/patternAttribution';
+import { getRedactionEngineJs } from '../ace/redaction';
+
 /**
  * Tool names hidden from the AI's view. The proxy strips them from any
  * `tools/list` response coming from the child MCP server.
@@ -58,6 +114,38 @@ export const MAX_SEARCH_RESULTS = 50;
  */
 export const MAX_INLINE_PATTERN_BYTES = 5000;
 
+/**
+ * How many truncated searches the proxy keeps for `ace://search/...` resource
+ * reads. Least recently used go first.
+ */
+export const MAX_CACHED_SEARCHES = 20;
+
+export const SEARCH_RESOURCE_PREFIX = 'ace://search/';
+
+/**
+ * How long the child gets to answer a request before the proxy answers it
+ * with a REQUEST_TIMEOUT_CODE error (ace_learn waits on server analysis, so
+ * keep this generous). proxy.json `requestTimeoutMs` overrides it.
+ */
+export const REQUEST_TIMEOUT_MS = 120_000;
+
+/** JSON-RPC error code for a request the child never answered (MCP's RequestTimeout). */
+export const REQUEST_TIMEOUT_CODE = -32001;
+
+/**
+ * Set to `http` when the extension runs the proxy behind its localhost HTTP
+ * endpoint (src/mcp/httpTransport.ts). There is no stdio pipe to Cursor
+ * then, so ace_search results are returned whole instead of packed.
+ */
+export const PROXY_TRANSPORT_ENV = 'ACE_PROXY_TRANSPORT';
+
+/**
+ * Workspace root the extension registers the proxy for. Cursor does not
+ * promise to start stdio MCP servers in the workspace, so the proxy finds
+ * .cursor/ace/ from this and only falls back to its working directory.
+ */
+export const WORKSPACE_ROOT_ENV = 'ACE_WORKSPACE_ROOT';
+
 /**
  * Pure helper — given a list of pattern objects, return a prefix that fits
  * under `maxChars` of stringified JSON. The size estimate uses
@@ -82,6 +170,22 @@ export function packPatternsUntilSize<T>(patterns: T[], maxChars: number): T[] {
 	return packed;
 }
 
+/**
+ * Splits patterns into consecutive packPatternsUntilSize pages — what
+ * `ace://search/<session_id>/page/<n>` serves (1-based). Never returns an
+ * empty page.
+ */
+export function paginatePatterns<T>(patterns: T[], maxChars: number): T[][] {
+	const pages: T[][] = [];
+	let rest = Array.isArray(patterns) ? patterns : [];
+	while (rest.length > 0) {
+		const page = packPatternsUntilSize(rest, maxChars);
+		pages.push(page);
+		rest = rest.slice(page.length);
+	}
+	return pages;
+}
+
 /**
  * v0.5.0-dev.16 — Server-level MCP `instructions` injected into the proxy's
  * `initialize` response. The MCP spec allows servers to send a top-level
@@ -104,30 +208,378 @@ Do NOT read AGENTS.md, INSTRUCTIONS.md, RULE files, or any project rule document
 Workflow:
 1. User prompt arrives → call ace_search(query="<user's prompt>")
 2. Apply returned patterns to your work
-3. Proceed with normal tools (Shell, ApplyPatch, ReadFile, etc.)`;
+3. Proceed with normal tools (Shell, ApplyPatch, ReadFile, etc.)
+4. When the task is done, call ace_report_pattern_use with the ids of the patterns you applied`;
+
+/** MCP tool definition as listed in `tools/list`. */
+export type McpToolDefinition = {
+	name: string;
+	description: string;
+	inputSchema: Record<string, unknown>;
+};
+
+const CONVERSATION_ID_PROPERTY = {
+	type: 'string',
+	description: 'Cursor conversation id. Defaults to the most recently active ACE task.',
+};
+
+/** Tools the proxy answers itself from .cursor/ace/tasks/ — never sent to the child. */
+export const LOCAL_MCP_TOOLS: McpToolDefinition[] = [
+	{
+		name: 'ace_task_status',
+		description: 'Patterns ACE has injected in this conversation so far: id, domain, section, which hook injected each and how often, plus your last pattern-use report. Local, no server call.',
+		inputSchema: { type: 'object', properties: { conversation_id: CONVERSATION_ID_PROPERTY } },
+	},
+	{
+		name: 'ace_report_pattern_use',
+		description: 'Report which injected ACE patterns you actually applied in this task (by pattern id), and optionally which you saw but did not use, minutes saved and a one-line note. Call once when the task is done; the report is attached to the task\'s learning trace.',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				applied: { type: 'array', items: { type: 'string' }, description: 'Ids of patterns you applied. Empty if none helped.' },
+				not_applied: { type: 'array', items: { type: 'string' }, description: 'Ids of injected patterns you judged irrelevant.' },
+				time_saved_min: { type: 'number', description: 'Estimated minutes the applied patterns saved.' },
+				note: { type: 'string', description: 'One line on how the patterns helped or why they did not.' },
+				conversation_id: CONVERSATION_ID_PROPERTY,
+			},
+			required: ['applied'],
+		},
+	},
+	{
+		name: 'ace_explain_injection',
+		description: 'Why ACE injected the patterns it did in this conversation: the query, the domain the search was narrowed to, similarity scores and team pins behind each injection. Pass pattern_id to explain one pattern.',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				pattern_id: { type: 'string', description: 'Only injections that included this pattern.' },
+				conversation_id: CONVERSATION_ID_PROPERTY,
+			},
+		},
+	},
+];
+
+export type ProxyConfig = {
+	hiddenTools: string[];
+	maxInlinePatternBytes: number;
+	/** agent_type injected into ace_search calls that omit it. */
+	agentType: string;
+	/** MCP `instructions` sent in the initialize response. */
+	instructions: string;
+	/** Pattern fields removed from inline ace_search results before packing. */
+	stripPatternFields: string[];
+	requestTimeoutMs: number;
+};
+
+/** Env vars the proxy reads when proxy.json doesn't set a key. */
+export const PROXY_ENV_VARS = [
+	'ACE_PROXY_HIDDEN_TOOLS',
+	'ACE_PROXY_MAX_INLINE_BYTES',
+	'ACE_PROXY_AGENT_TYPE',
+	'ACE_PROXY_INSTRUCTIONS_FILE',
+	'ACE_PROXY_STRIP_FIELDS',
+	'ACE_PROXY_REQUEST_TIMEOUT_MS',
+] as const;
+
+export function getProxyConfigPath(aceDir: string): string {
+	return path.join(aceDir, 'proxy.json');
+}
+
+/** A string list from a JSON array or a comma-separated env var ('' = empty list). */
+function stringList(value: unknown): string[] | undefined {
+	if (Array.isArray(value)) return value.filter(v => typeof v === 'string' && v).map(String);
+	if (typeof value === 'string') return value.split(',').map(v => v.trim()).filter(Boolean);
+	return undefined;
+}
+
+function positiveInt(value: unknown): number | undefined {
+	const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+	return Number.isFinite(n) && n >= 1 ? Math.floor(n) : undefined;
+}
+
+function nonEmpty(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * proxy.json, then ACE_PROXY_* env vars, then the built-in defaults — per
+ * key. A missing, unreadable or empty instructions file keeps the default
+ * instructions.
+ */
+export function loadProxyConfig(aceDir: string, env: NodeJS.ProcessEnv = process.env): ProxyConfig {
+	let file: Record<string, unknown> = {};
+	try {
+		const parsed = JSON.parse(fs.readFileSync(getProxyConfigPath(aceDir), 'utf-8'));
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) file = parsed;
+	} catch {
+		// No file (or unreadable) — env vars and defaults only.
+	}
+	let instructions = MCP_SERVER_INSTRUCTIONS;
+	const instructionsFile = nonEmpty(file.instructionsFile) ?? nonEmpty(env.ACE_PROXY_INSTRUCTIONS_FILE);
+	if (instructionsFile) {
+		try {
+			const text = fs.readFileSync(path.resolve(aceDir, '..', '..', instructionsFile), 'utf-8').trim();
+			if (text) instructions = text;
+		} catch {
+			// Keep the default instructions.
+		}
+	}
+	return {
+		hiddenTools: stringList(file.hiddenTools) ?? stringList(env.ACE_PROXY_HIDDEN_TOOLS) ?? [...HIDDEN_MCP_TOOLS],
+		maxInlinePatternBytes: positiveInt(file.maxInlinePatternBytes) ?? positiveInt(env.ACE_PROXY_MAX_INLINE_BYTES) ?? MAX_INLINE_PATTERN_BYTES,
+		agentType: nonEmpty(file.agentType) ?? nonEmpty(env.ACE_PROXY_AGENT_TYPE) ?? nonEmpty(env.ACE_CLIENT_ID) ?? 'cursor',
+		instructions,
+		stripPatternFields: stringList(file.stripPatternFields) ?? stringList(env.ACE_PROXY_STRIP_FIELDS) ?? [],
+		requestTimeoutMs: positiveInt(file.requestTimeoutMs) ?? positiveInt(env.ACE_PROXY_REQUEST_TIMEOUT_MS) ?? REQUEST_TIMEOUT_MS,
+	};
+}
+
+/**
+ * loadProxyConfig as a JS snippet for the baked proxy. Defines
+ * aceLoadProxyConfig(aceDir, env). Expects `fs` and `path` in scope.
+ */
+export function getProxyConfigJs(): string {
+	return `// --- ACE proxy config (generated from src/mcp/ace-mcp-proxy.ts) ---
+const ACE_PROXY_DEFAULT_HIDDEN = ${JSON.stringify(HIDDEN_MCP_TOOLS)};
+const ACE_PROXY_DEFAULT_MAX_INLINE_BYTES = ${MAX_INLINE_PATTERN_BYTES};
+const ACE_PROXY_DEFAULT_INSTRUCTIONS = ${JSON.stringify(MCP_SERVER_INSTRUCTIONS)};
+const ACE_PROXY_DEFAULT_REQUEST_TIMEOUT_MS = ${REQUEST_TIMEOUT_MS};
+
+function aceProxyList(value) {
+  if (Array.isArray(value)) return value.filter((v) => typeof v === 'string' && v).map(String);
+  if (typeof value === 'string') return value.split(',').map((v) => v.trim()).filter(Boolean);
+  return undefined;
+}
+
+function aceProxyPositiveInt(value) {
+  const n = typeof value === 'number' ? value : (typeof value === 'string' && value.trim() ? Number(value) : NaN);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : undefined;
+}
+
+function aceProxyNonEmpty(value) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function aceProxyFirst() {
+  for (const v of arguments) if (v !== undefined) return v;
+  return undefined;
+}
+
+function aceLoadProxyConfig(aceDir, env) {
+  let file = {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(aceDir, 'proxy.json'), 'utf-8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) file = parsed;
+  } catch (_) {}
+  let instructions = ACE_PROXY_DEFAULT_INSTRUCTIONS;
+  const instructionsFile = aceProxyFirst(aceProxyNonEmpty(file.instructionsFile), aceProxyNonEmpty(env.ACE_PROXY_INSTRUCTIONS_FILE));
+  if (instructionsFile) {
+    try {
+      const text = fs.readFileSync(path.resolve(aceDir, '..', '..', instructionsFile), 'utf-8').trim();
+      if (text) instructions = text;
+    } catch (_) {}
+  }
+  return {
+    hiddenTools: aceProxyFirst(aceProxyList(file.hiddenTools), aceProxyList(env.ACE_PROXY_HIDDEN_TOOLS), ACE_PROXY_DEFAULT_HIDDEN.slice()),
+    maxInlinePatternBytes: aceProxyFirst(aceProxyPositiveInt(file.maxInlinePatternBytes), aceProxyPositiveInt(env.ACE_PROXY_MAX_INLINE_BYTES), ACE_PROXY_DEFAULT_MAX_INLINE_BYTES),
+    agentType: aceProxyFirst(aceProxyNonEmpty(file.agentType), aceProxyNonEmpty(env.ACE_PROXY_AGENT_TYPE), aceProxyNonEmpty(env.ACE_CLIENT_ID), 'cursor'),
+    instructions,
+    stripPatternFields: aceProxyFirst(aceProxyList(file.stripPatternFields), aceProxyList(env.ACE_PROXY_STRIP_FIELDS), []),
+    requestTimeoutMs: aceProxyFirst(aceProxyPositiveInt(file.requestTimeoutMs), aceProxyPositiveInt(env.ACE_PROXY_REQUEST_TIMEOUT_MS), ACE_PROXY_DEFAULT_REQUEST_TIMEOUT_MS),
+  };
+}
+// --- end proxy config ---`;
+}
+
+/**
+ * The @ace-sdk/mcp release this extension is tested against. The proxy runs
+ * this version only: from a bundled copy, the npx cache, or `npx -y` pinned.
+ */
+export const ACE_MCP_PACKAGE = '@ace-sdk/mcp';
+export const ACE_MCP_VERSION = '2.19.3';
+
+/**
+ * Child supervision: a crashed server restarts after baseDelayMs, doubling
+ * per consecutive crash up to maxDelayMs. A child that ran for stableAfterMs
+ * resets the count; after maxConsecutive crashes in a row the proxy gives up
+ * and exits with the child's status.
+ */
+export const CHILD_RESTART = {
+	baseDelayMs: 500,
+	maxDelayMs: 30_000,
+	maxConsecutive: 5,
+	stableAfterMs: 60_000,
+} as const;
+
+/** JSON-RPC error for requests the child died (or was restarting) on. */
+export const CHILD_UNAVAILABLE_CODE = -32603;
+
+/** Supervision log in .cursor/ace/ (JSON lines), shown in ACE Activity. */
+export const PROXY_LOG_FILE = 'mcp-proxy.log';
+export const MAX_PROXY_LOG_BYTES = 256 * 1024;
+
+export type ProxyLogEntry = {
+	timestamp: string;
+	event: 'start' | 'restart' | 'inflight' | 'timeout' | 'give_up' | 'exit';
+	message: string;
+};
+
+export type McpServerLocation = {
+	/** Script run with the proxy's own node. */
+	entry: string;
+	source: 'bundled' | 'npx cache';
+};
+
+/** Delay before restart number `attempt` (1-based). */
+export function restartDelayMs(attempt: number): number {
+	return Math.min(CHILD_RESTART.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)), CHILD_RESTART.maxDelayMs);
+}
+
+/** The package's server script: its `bin` (the only one, or `ace-mcp`), else `main`. */
+function mcpServerEntry(packageDir: string, pkg: Record<string, any>): string | undefined {
+	let rel: unknown = pkg.bin;
+	if (rel && typeof rel === 'object') {
+		const bins = rel as Record<string, unknown>;
+		rel = bins['ace-mcp'] ?? Object.values(bins)[0];
+	}
+	if (typeof rel !== 'string' || !rel) rel = pkg.main;
+	if (typeof rel !== 'string' || !rel) return undefined;
+	const entry = path.resolve(packageDir, rel);
+	return fs.existsSync(entry) ? entry : undefined;
+}
+
+/** npm's cache dir: npm_config_cache, else npm's per-platform default. */
+function npmCacheDir(env: NodeJS.ProcessEnv): string {
+	if (env.npm_config_cache) return env.npm_config_cache;
+	if (process.platform === 'win32') return path.join(env.LOCALAPPDATA || '', 'npm-cache');
+	return path.join(env.HOME || '', '.npm');
+}
+
+/**
+ * A local @ace-sdk/mcp at ACE_MCP_VERSION: first a node_modules copy up the
+ * tree from the proxy (the extension's bundled one), then any npx cache
+ * entry. Other versions are ignored; undefined means `npx -y` pinned.
+ */
+export function findMcpServer(proxyDir: string, env: NodeJS.ProcessEnv = process.env): McpServerLocation | undefined {
+	const candidates: Array<{ dir: string; source: McpServerLocation['source'] }> = [];
+	for (let dir = path.resolve(proxyDir); ; dir = path.dirname(dir)) {
+		candidates.push({ dir: path.join(dir, 'node_modules', ACE_MCP_PACKAGE), source: 'bundled' });
+		if (path.dirname(dir) === dir) break;
+	}
+	const npxDir = path.join(npmCacheDir(env), '_npx');
+	let cached: string[] = [];
+	try { cached = fs.readdirSync(npxDir).sort(); } catch { /* no npx cache */ }
+	for (const hash of cached) {
+		candidates.push({ dir: path.join(npxDir, hash, 'node_modules', ACE_MCP_PACKAGE), source: 'npx cache' });
+	}
+	for (const { dir, source } of candidates) {
+		try {
+			const pkg = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+			if (pkg?.version !== ACE_MCP_VERSION) continue;
+			const entry = mcpServerEntry(dir, pkg);
+			if (entry) return { entry, source };
+		} catch {
+			// Not installed here.
+		}
+	}
+	return undefined;
+}
+
+/** One ACE Activity line for a mcp-proxy.log line; undefined if unreadable. */
+export function formatProxyLogLine(line: string): string | undefined {
+	try {
+		const entry = JSON.parse(line) as ProxyLogEntry;
+		if (typeof entry?.message !== 'string') return undefined;
+		const time = new Date(entry.timestamp);
+		const stamp = Number.isNaN(time.getTime()) ? '' : `[${time.toLocaleTimeString()}] `;
+		return `${stamp}MCP proxy: ${entry.message}`;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * findMcpServer and restartDelayMs as a JS snippet for the baked proxy.
+ * Defines aceFindMcpServer(proxyDir, env) and aceRestartDelayMs(attempt).
+ * Expects `fs` and `path` in scope.
+ */
+export function getSupervisorJs(): string {
+	return `// --- ACE child supervision (generated from src/mcp/ace-mcp-proxy.ts) ---
+const ACE_MCP_PACKAGE = ${JSON.stringify(ACE_MCP_PACKAGE)};
+const ACE_MCP_VERSION = ${JSON.stringify(ACE_MCP_VERSION)};
+const ACE_CHILD_RESTART = ${JSON.stringify(CHILD_RESTART)};
+
+function aceRestartDelayMs(attempt) {
+  return Math.min(ACE_CHILD_RESTART.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)), ACE_CHILD_RESTART.maxDelayMs);
+}
+
+function aceMcpServerEntry(packageDir, pkg) {
+  let rel = pkg.bin;
+  if (rel && typeof rel === 'object') {
+    rel = rel['ace-mcp'] !== undefined ? rel['ace-mcp'] : Object.values(rel)[0];
+  }
+  if (typeof rel !== 'string' || !rel) rel = pkg.main;
+  if (typeof rel !== 'string' || !rel) return undefined;
+  const entry = path.resolve(packageDir, rel);
+  return fs.existsSync(entry) ? entry : undefined;
+}
+
+function aceNpmCacheDir(env) {
+  if (env.npm_config_cache) return env.npm_config_cache;
+  if (process.platform === 'win32') return path.join(env.LOCALAPPDATA || '', 'npm-cache');
+  return path.join(env.HOME || '', '.npm');
+}
+
+function aceFindMcpServer(proxyDir, env) {
+  const candidates = [];
+  for (let dir = path.resolve(proxyDir); ; dir = path.dirname(dir)) {
+    candidates.push({ dir: path.join(dir, 'node_modules', ACE_MCP_PACKAGE), source: 'bundled' });
+    if (path.dirname(dir) === dir) break;
+  }
+  const npxDir = path.join(aceNpmCacheDir(env), '_npx');
+  let cached = [];
+  try { cached = fs.readdirSync(npxDir).sort(); } catch (_) {}
+  for (const hash of cached) {
+    candidates.push({ dir: path.join(npxDir, hash, 'node_modules', ACE_MCP_PACKAGE), source: 'npx cache' });
+  }
+  for (const c of candidates) {
+    try {
+      const pkg = JSON.parse(fs.readFileSync(path.join(c.dir, 'package.json'), 'utf-8'));
+      if (!pkg || pkg.version !== ACE_MCP_VERSION) continue;
+      const entry = aceMcpServerEntry(c.dir, pkg);
+      if (entry) return { entry, source: c.source };
+    } catch (_) {}
+  }
+  return undefined;
+}
+// --- end child supervision ---`;
+}
 
 /**
  * Returns the Node script that proxies the @ace-sdk/mcp server. Filters
  * hidden tools from `tools/list` responses; everything else passthrough.
  */
 export function getAceMcpProxyContent(): string {
-	const hidden = JSON.stringify(HIDDEN_MCP_TOOLS);
-	const instructions = JSON.stringify(MCP_SERVER_INSTRUCTIONS);
 	return `#!/usr/bin/env node
 // ACE MCP Proxy (v0.5.0) — filters hidden tools from tools/list responses,
 // injects server-level instructions into initialize response, mutates
 // ace_search args + truncates ace_search responses.
 // Spawned by Cursor's MCP API instead of npx @ace-sdk/mcp directly.
-// Stdin intercepted line-by-line for JSON-RPC mutation (agent_type injection);
+// Stdin intercepted line-by-line for JSON-RPC mutation (agent_type injection,
+// secret redaction of ace_search / ace_learn arguments);
 // stderr passthrough; stdout intercepted line-by-line for JSON-RPC filtering
-// (initialize.instructions inject + tools/list strip + ace_search truncation).
+// (initialize.instructions inject + tools/list strip + ace_search truncation),
+// each response matched by id to the request it answers.
 //
 // v0.5.0-dev.19 Task B/D: ace_search responses are now SIZE-PACKED (smart
 // packing up to ~7 KB of inline JSON, hard cap MAX_SEARCH_RESULTS=50) AND
-// the FULL result set is mirrored to disk at .cursor/ace/searches/<sid>.json
-// so the AI can Read the complete pattern library if the inline truncation
-// drops a relevant pattern. The inline payload carries \`full_results_path\`
-// + \`full_results_note\` to point the AI at the on-disk file.
+// the FULL result set is kept in memory and served as the MCP resources
+// ace://search/<sid> and ace://search/<sid>/page/<n>, so the AI can read the
+// complete pattern library if the inline truncation drops a relevant
+// pattern. The inline payload carries \`full_results_uri\` +
+// \`full_results_note\` to point the AI at them. Nothing is written to disk.
+//
+// The child is supervised: pinned version, restarted with backoff on a crash,
+// unanswered requests failed with a JSON-RPC error (see .cursor/ace/${PROXY_LOG_FILE}).
 
 'use strict';
 
@@ -135,16 +587,41 @@ const childProc = require('child_process');
 const fs = require('fs');
 const path = require('path');
 
+${getRedactionEngineJs()}
+
+${getProxyConfigJs()}
+
+${getPatternAttributionJs()}
+
+${getSupervisorJs()}
+
+// The workspace's .cursor/ace, wherever Cursor started us.
+const ACE_DIR = path.join(process.env.${WORKSPACE_ROOT_ENV} || process.cwd(), '.cursor', 'ace');
+
+// Per-workspace settings: .cursor/ace/proxy.json, then ACE_PROXY_* env vars.
+const PROXY_CONFIG = aceLoadProxyConfig(ACE_DIR, process.env);
+
 // Caveman: tools we hide from the AI. AI no see, AI no call.
-const HIDDEN = new Set(${hidden});
+const HIDDEN = new Set(PROXY_CONFIG.hiddenTools);
 
 // Cursor stdio MCP transport breaks at ~8 KB (macOS pipe buffer). We trim
 // ace_search responses with smart packing (size budget) to stay under the limit.
 const MAX_SEARCH_RESULTS = ${MAX_SEARCH_RESULTS};
-const MAX_INLINE_PATTERN_BYTES = ${MAX_INLINE_PATTERN_BYTES};
+const MAX_INLINE_PATTERN_BYTES = PROXY_CONFIG.maxInlinePatternBytes;
+// Behind the extension's HTTP endpoint there is no pipe to overflow.
+const HTTP_TRANSPORT = process.env.${PROXY_TRANSPORT_ENV} === 'http';
+const STRIP_FIELDS = PROXY_CONFIG.stripPatternFields;
+
+// Inline copy of a pattern without the STRIP_FIELDS keys.
+function stripPatternFields(pattern) {
+  if (!pattern || typeof pattern !== 'object' || Array.isArray(pattern)) return pattern;
+  const out = {};
+  for (const key of Object.keys(pattern)) if (!STRIP_FIELDS.includes(key)) out[key] = pattern[key];
+  return out;
+}
 
-// v0.5.0-dev.19 Task D — smart packing helper. Pure function so disk write
-// failures don't corrupt the result. Mirrors the TS export of the same name.
+// v0.5.0-dev.19 Task D — smart packing helper. Pure function. Mirrors the
+// TS export of the same name.
 function packPatternsUntilSize(patterns, maxChars) {
   if (!Array.isArray(patterns) || patterns.length === 0) return [];
   const packed = [];
@@ -161,30 +638,358 @@ function packPatternsUntilSize(patterns, maxChars) {
   return packed;
 }
 
+// Mirrors the TS export of the same name.
+function paginatePatterns(patterns, maxChars) {
+  const pages = [];
+  let rest = Array.isArray(patterns) ? patterns : [];
+  while (rest.length > 0) {
+    const page = packPatternsUntilSize(rest, maxChars);
+    pages.push(page);
+    rest = rest.slice(page.length);
+  }
+  return pages;
+}
+
+// Full results of truncated searches, served as ace://search/... resources.
+// Map insertion order doubles as LRU order (oldest first).
+const SEARCH_RESOURCE_PREFIX = ${JSON.stringify(SEARCH_RESOURCE_PREFIX)};
+const MAX_CACHED_SEARCHES = ${MAX_CACHED_SEARCHES};
+const searchResults = new Map();
+
+function rememberSearch(sid, inner) {
+  searchResults.delete(sid);
+  searchResults.set(sid, { inner, pages: paginatePatterns(inner.results, MAX_INLINE_PATTERN_BYTES) });
+  while (searchResults.size > MAX_CACHED_SEARCHES) {
+    searchResults.delete(searchResults.keys().next().value);
+  }
+}
+
+// Whether the child advertised resources itself (from its initialize
+// response). Then resources/list and resources/templates/list go to the
+// child too and ours are appended to its answer.
+let childHasResources = false;
+
+function searchResourceList() {
+  return Array.from(searchResults.entries()).reverse().map(([sid, entry]) => ({
+    uri: SEARCH_RESOURCE_PREFIX + sid,
+    name: 'ace_search: ' + entry.inner.query,
+    description: entry.inner.results.length + ' patterns in ' + entry.pages.length + ' page(s): '
+      + SEARCH_RESOURCE_PREFIX + sid + '/page/1 .. /page/' + entry.pages.length,
+    mimeType: 'application/json',
+  }));
+}
+
+function searchResourceTemplates() {
+  return [
+    { uriTemplate: SEARCH_RESOURCE_PREFIX + '{session_id}', name: 'ace_search full results', mimeType: 'application/json' },
+    { uriTemplate: SEARCH_RESOURCE_PREFIX + '{session_id}/page/{n}', name: 'ace_search results page', mimeType: 'application/json' },
+  ];
+}
+
+// resources/read result for an ace://search/ URI, or a JSON-RPC error.
+function readSearchResource(uri) {
+  const m = /^ace:\\/\\/search\\/([^/]+)(?:\\/page\\/(\\d+))?$/.exec(uri);
+  const entry = m && searchResults.get(m[1]);
+  if (!entry) return { error: { code: -32002, message: 'Resource not found: ' + uri } };
+  searchResults.delete(m[1]);
+  searchResults.set(m[1], entry);
+  let body = entry.inner;
+  if (m[2] !== undefined) {
+    const page = Number(m[2]);
+    if (page < 1 || page > entry.pages.length) {
+      return { error: { code: -32002, message: 'Resource not found: ' + uri + ' (' + entry.pages.length + ' pages)' } };
+    }
+    body = { query: entry.inner.query, session_id: m[1], page, pages: entry.pages.length, results: entry.pages[page - 1] };
+  }
+  return { result: { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(body, null, 2) }] } };
+}
+
+// Tools the proxy answers itself (src/ace/patternAttribution.ts); proxy.json
+// hiddenTools can hide them like any other.
+const LOCAL_TOOLS = ${JSON.stringify(LOCAL_MCP_TOOLS)}.filter((t) => !HIDDEN.has(t.name));
+
+function callLocalTool(name, args) {
+  const conversationId = typeof args.conversation_id === 'string' && args.conversation_id ? args.conversation_id : undefined;
+  let result;
+  try {
+    if (name === 'ace_task_status') result = aceTaskStatus(ACE_DIR, conversationId);
+    else if (name === 'ace_explain_injection') result = aceExplainInjection(ACE_DIR, conversationId, typeof args.pattern_id === 'string' && args.pattern_id ? args.pattern_id : undefined);
+    else result = aceReportPatternUse(ACE_DIR, args, new Date().toISOString());
+  } catch (err) {
+    result = { error: String(err && err.message || err) };
+  }
+  return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], isError: !!result.error };
+}
+
+// A JSON-RPC request (has a method and an id) — not a notification or response.
+function isRequest(msg) {
+  return !!msg && typeof msg === 'object' && !Array.isArray(msg)
+    && typeof msg.method === 'string' && msg.id !== undefined && msg.id !== null;
+}
+
+/**
+ * Answers the resource requests and local tool calls the proxy owns. Returns
+ * the response message, or null to forward the request to the child.
+ */
+function handleLocalRequest(msg) {
+  if (!isRequest(msg)) return null;
+  let reply;
+  if (msg.method === 'resources/list' || msg.method === 'resources/templates/list') {
+    const key = msg.method === 'resources/list' ? 'resources' : 'resourceTemplates';
+    // The child lists its own; ours are appended to its answer.
+    if (childHasResources) return null;
+    reply = { result: { [key]: key === 'resources' ? searchResourceList() : searchResourceTemplates() } };
+  } else if (msg.method === 'resources/read' && msg.params && typeof msg.params.uri === 'string'
+      && msg.params.uri.indexOf(SEARCH_RESOURCE_PREFIX) === 0) {
+    reply = readSearchResource(msg.params.uri);
+  } else if (msg.method === 'tools/call' && msg.params && LOCAL_TOOLS.some((t) => t.name === msg.params.name)) {
+    const args = (msg.params.arguments && typeof msg.params.arguments === 'object') ? msg.params.arguments : {};
+    reply = { result: callLocalTool(msg.params.name, args) };
+  } else {
+    return null;
+  }
+  return Object.assign({ jsonrpc: '2.0', id: msg.id }, reply);
+}
+
 // v0.5.0-dev.16 — server-level MCP instructions, injected into the
 // initialize response. Workaround for Cursor 3.0.16+ alwaysApply rule bug.
-const MCP_INSTRUCTIONS = ${instructions};
+const MCP_INSTRUCTIONS = PROXY_CONFIG.instructions;
 
-// Spawn the real MCP server. ACE_* env vars come from Cursor MCP registration.
-const child = childProc.spawn('npx', ['-y', '@ace-sdk/mcp'], {
-  stdio: ['pipe', 'pipe', 'pipe'],
-  env: process.env,
-});
+// --- Child supervision ---
+// The server runs at the pinned ACE_MCP_VERSION: a bundled or npx-cached copy
+// on this node when there is one (no network), else \`npx -y\` pinned. A crash
+// restarts it with backoff (the client's initialize is replayed, its response
+// swallowed); requests the dead child owed, and any sent while it restarts,
+// get a JSON-RPC error. Events go to .cursor/ace/${PROXY_LOG_FILE} for the
+// extension's ACE Activity channel.
+const PROXY_LOG = path.join(ACE_DIR, ${JSON.stringify(PROXY_LOG_FILE)});
+const MAX_PROXY_LOG_BYTES = ${MAX_PROXY_LOG_BYTES};
+const CHILD_UNAVAILABLE_CODE = ${CHILD_UNAVAILABLE_CODE};
+const REQUEST_TIMEOUT_CODE = ${REQUEST_TIMEOUT_CODE};
+const REQUEST_TIMEOUT_MS = PROXY_CONFIG.requestTimeoutMs;
 
-// Bail loud if child can't start.
-child.on('error', (err) => {
-  process.stderr.write('[ace-mcp-proxy] child spawn error: ' + (err && err.message || err) + '\\n');
-  process.exit(1);
-});
+let child = null;
+let childStartedAt = 0;
+let crashes = 0;
+let restartTimer = null;
+let stdinEnded = false;
+// Requests forwarded to the current child and not yet answered:
+// id → { method, tool, timer }. Responses are handled by what was requested.
+const inFlight = new Map();
+// Ids the client already got an answer for (timed out, cancelled); the
+// child's late response is dropped.
+const abandoned = new Set();
+let initializeRequest = null;
+let initializedLine = '';
+let replayId = null;
+let replays = 0;
 
-child.on('exit', (code, signal) => {
-  // Forward exit code so Cursor sees the same status as the unwrapped server.
-  if (signal) {
-    process.kill(process.pid, signal);
-  } else {
-    process.exit(code == null ? 0 : code);
+function logSupervision(event, message) {
+  process.stderr.write('[ace-mcp-proxy] ' + message + '\\n');
+  try {
+    if (!fs.existsSync(path.dirname(PROXY_LOG))) return;
+    try {
+      if (fs.statSync(PROXY_LOG).size > MAX_PROXY_LOG_BYTES) fs.renameSync(PROXY_LOG, PROXY_LOG + '.1');
+    } catch (_) { /* no log yet */ }
+    fs.appendFileSync(PROXY_LOG, JSON.stringify({ timestamp: new Date().toISOString(), event, message }) + '\\n');
+  } catch (_) { /* logging must never break the pipe */ }
+}
+
+function unavailableReply(id, why) {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: { code: CHILD_UNAVAILABLE_CODE, message: 'ACE MCP server ' + why + '; retry the request.' },
+  };
+}
+
+function describeRequest(request) {
+  return request.tool ? request.method + ' ' + request.tool : request.method;
+}
+
+// Remembers a request the child now owes an answer, with its timeout.
+function trackRequest(msg) {
+  const tool = msg.method === 'tools/call' && msg.params && typeof msg.params.name === 'string' ? msg.params.name : undefined;
+  const previous = inFlight.get(msg.id);
+  if (previous) clearTimeout(previous.timer);
+  abandoned.delete(msg.id);
+  const timer = setTimeout(() => timeOutRequest(msg.id), REQUEST_TIMEOUT_MS);
+  inFlight.set(msg.id, { method: msg.method, tool, timer });
+}
+
+// The request is answered (or given up on): stop its timer.
+function settleRequest(id) {
+  const request = inFlight.get(id);
+  if (!request) return undefined;
+  inFlight.delete(id);
+  clearTimeout(request.timer);
+  return request;
+}
+
+function timeOutRequest(id) {
+  const request = settleRequest(id);
+  if (!request) return;
+  abandoned.add(id);
+  const limit = REQUEST_TIMEOUT_MS >= 1000 ? Math.round(REQUEST_TIMEOUT_MS / 1000) + 's' : REQUEST_TIMEOUT_MS + 'ms';
+  const what = describeRequest(request) + ' within ' + limit;
+  logSupervision('timeout', 'server did not answer ' + what);
+  process.stdout.write(JSON.stringify({
+    jsonrpc: '2.0',
+    id,
+    error: { code: REQUEST_TIMEOUT_CODE, message: 'ACE MCP server did not answer ' + what + '.' },
+  }) + '\\n');
+}
+
+function startChild() {
+  // ACE_* env vars come from Cursor MCP registration.
+  const options = { stdio: ['pipe', 'pipe', 'pipe'], env: process.env };
+  const server = aceFindMcpServer(__dirname, process.env);
+  const proc = server
+    ? childProc.spawn(process.execPath, [server.entry], options)
+    : childProc.spawn('npx', ['-y', ACE_MCP_PACKAGE + '@' + ACE_MCP_VERSION], options);
+  child = proc;
+  childStartedAt = Date.now();
+  logSupervision('start', 'started ' + ACE_MCP_PACKAGE + '@' + ACE_MCP_VERSION + ' from '
+    + (server ? server.source : 'npx') + (proc.pid ? ' (pid ' + proc.pid + ')' : ''));
+
+  let gone = false;
+  const onGone = (code, signal, err) => {
+    if (gone) return;
+    gone = true;
+    childGone(proc, code, signal, err);
+  };
+  proc.on('error', (err) => onGone(null, null, err));
+  proc.on('close', (code, signal) => onGone(code, signal, null));
+  // EPIPE when the child dies mid-write — 'close' handles the fallout.
+  proc.stdin.on('error', () => {});
+
+  // Child stderr → process stderr (passthrough — server logs).
+  proc.stderr.pipe(process.stderr, { end: false });
+
+  // Child stdout → filtered → process stdout. JSON-RPC is line-delimited per
+  // the MCP stdio transport; we buffer until newline, parse, filter, re-emit.
+  let buf = '';
+  proc.stdout.on('data', (chunk) => {
+    buf += chunk.toString('utf8');
+    let nl;
+    while ((nl = buf.indexOf('\\n')) !== -1) {
+      const line = buf.slice(0, nl);
+      buf = buf.slice(nl + 1);
+      const out = filterLine(line);
+      if (out !== null) process.stdout.write(out + '\\n');
+    }
+  });
+  proc.stdout.on('end', () => {
+    // Flush any trailing partial line as-is.
+    if (buf.length > 0) {
+      const out = filterLine(buf);
+      if (out !== null) process.stdout.write(out);
+      buf = '';
+    }
+  });
+
+  // A restarted child needs the session the client already opened.
+  if (initializeRequest) {
+    replayId = 'ace-proxy-replay-' + (++replays);
+    proc.stdin.write(JSON.stringify(Object.assign({}, initializeRequest, { id: replayId })) + '\\n');
+  }
+}
+
+function childGone(proc, code, signal, err) {
+  if (child !== proc) return;
+  child = null;
+  replayId = null;
+  const why = err ? 'failed to start (' + (err.message || err) + ')'
+    : signal ? 'was killed by ' + signal : 'exited with code ' + code;
+  abandoned.clear();
+  if (inFlight.size > 0) {
+    const lost = Array.from(inFlight.keys());
+    for (const id of lost) {
+      settleRequest(id);
+      process.stdout.write(JSON.stringify(unavailableReply(id, why + ' before answering')) + '\\n');
+    }
+    logSupervision('inflight', 'answered ' + lost.length + ' in-flight request(s) with an error');
+  }
+
+  // Cursor closed stdin, or the server shut down on its own: we are done.
+  // Forward the status so Cursor sees the same as the unwrapped server.
+  const clean = !err && !signal && code === 0;
+  if (stdinEnded || clean) {
+    if (!clean) logSupervision('exit', 'server ' + why + '; proxy exiting');
+    exitLikeChild(code, signal, err);
+    return;
   }
-});
+
+  if (Date.now() - childStartedAt >= ACE_CHILD_RESTART.stableAfterMs) crashes = 0;
+  crashes++;
+  if (crashes > ACE_CHILD_RESTART.maxConsecutive) {
+    logSupervision('give_up', 'server ' + why + ' — ' + ACE_CHILD_RESTART.maxConsecutive
+      + ' restarts in a row failed; proxy exiting');
+    exitLikeChild(code, signal, err);
+    return;
+  }
+  const delay = aceRestartDelayMs(crashes);
+  logSupervision('restart', 'server ' + why + ' after ' + Math.round((Date.now() - childStartedAt) / 1000)
+    + 's; restarting in ' + delay + 'ms (attempt ' + crashes + '/' + ACE_CHILD_RESTART.maxConsecutive + ')');
+  restartTimer = setTimeout(() => {
+    restartTimer = null;
+    if (!stdinEnded) startChild();
+  }, delay);
+}
+
+function exitLikeChild(code, signal, err) {
+  if (signal) process.kill(process.pid, signal);
+  else process.exit(err ? 1 : (code == null ? 0 : code));
+}
+
+/**
+ * One client line: a message or a JSON-RPC batch of them. Requests the proxy
+ * owns are answered here; the rest are mutated (Fix A, redaction), tracked
+ * and sent to the child — or, while the child is down, answered with an
+ * error. A batch is answered as a batch.
+ */
+function handleClientLine(line, eol) {
+  const out = mutateRequestLine(line);
+  let parsed;
+  try { parsed = JSON.parse(out); } catch (_) { parsed = undefined; }
+  const batch = Array.isArray(parsed) && parsed.length > 0;
+  const messages = parsed === undefined ? [] : batch ? parsed : [parsed];
+  const replies = [];
+  const forward = [];
+  for (const msg of messages) {
+    const reply = handleLocalRequest(msg);
+    if (reply) {
+      replies.push(reply);
+    } else if (!child) {
+      if (isRequest(msg)) replies.push(unavailableReply(msg.id, 'is restarting'));
+    } else {
+      noteClientMessage(msg);
+      forward.push(msg);
+    }
+  }
+  if (child) {
+    // Unparseable lines go as sent; the child answers the parse error.
+    if (forward.length === messages.length) child.stdin.write(out + eol);
+    else if (forward.length > 0) child.stdin.write(JSON.stringify(batch ? forward : forward[0]) + eol);
+  }
+  if (replies.length > 0) process.stdout.write(JSON.stringify(batch ? replies : replies[0]) + '\\n');
+}
+
+// Bookkeeping for a message on its way to the child.
+function noteClientMessage(msg) {
+  if (isRequest(msg)) {
+    if (msg.method === 'initialize') initializeRequest = msg;
+    trackRequest(msg);
+  } else if (msg && typeof msg === 'object' && msg.method === 'notifications/initialized') {
+    initializedLine = JSON.stringify(msg);
+  } else if (msg && typeof msg === 'object' && msg.method === 'notifications/cancelled'
+      && msg.params && msg.params.requestId !== undefined) {
+    // The client stopped waiting; whatever the child still sends is dropped.
+    if (settleRequest(msg.params.requestId)) abandoned.add(msg.params.requestId);
+  }
+}
+
+startChild();
 
 // Stdin → child — line-buffered so we can mutate JSON-RPC requests
 // (Fix A: inject agent_type into ace_search calls when AI omits it).
@@ -195,150 +1000,213 @@ process.stdin.on('data', (chunk) => {
   while ((nl = stdinBuf.indexOf('\\n')) !== -1) {
     const line = stdinBuf.slice(0, nl);
     stdinBuf = stdinBuf.slice(nl + 1);
-    child.stdin.write(mutateRequestLine(line) + '\\n');
+    handleClientLine(line, '\\n');
   }
 });
 process.stdin.on('end', () => {
   if (stdinBuf.length > 0) {
-    child.stdin.write(mutateRequestLine(stdinBuf));
+    handleClientLine(stdinBuf, '');
     stdinBuf = '';
   }
-  try { child.stdin.end(); } catch (_) { /* noop */ }
-});
-
-// Child stderr → process stderr (passthrough — server logs).
-child.stderr.pipe(process.stderr);
-
-// Child stdout → filtered → process stdout. JSON-RPC is line-delimited per the
-// MCP stdio transport; we buffer until newline, parse, filter, re-emit.
-let buf = '';
-child.stdout.on('data', (chunk) => {
-  buf += chunk.toString('utf8');
-  let nl;
-  while ((nl = buf.indexOf('\\n')) !== -1) {
-    const line = buf.slice(0, nl);
-    buf = buf.slice(nl + 1);
-    process.stdout.write(filterLine(line) + '\\n');
-  }
-});
-child.stdout.on('end', () => {
-  // Flush any trailing partial line as-is.
-  if (buf.length > 0) {
-    process.stdout.write(filterLine(buf));
-    buf = '';
+  stdinEnded = true;
+  if (child) {
+    try { child.stdin.end(); } catch (_) { /* noop */ }
+  } else {
+    if (restartTimer) clearTimeout(restartTimer);
+    process.exit(0);
   }
 });
 
 /**
  * Fix A: intercept stdin JSON-RPC requests. If it's a tools/call for
- * ace_search and agent_type is missing/empty, inject ACE_CLIENT_ID (or
- * 'cursor'). Any parse failure → passthrough. Never break the pipe.
+ * ace_search and agent_type is missing/empty, inject the configured agent
+ * type (proxy.json agentType, ACE_PROXY_AGENT_TYPE, ACE_CLIENT_ID or 'cursor'). ace_search and ace_learn arguments are also run through the
+ * redaction engine (.cursor/ace/redaction.json re-read per call). Batches
+ * are mutated per request. Any parse failure → passthrough. Never break the pipe.
  */
 function mutateRequestLine(line) {
   if (!line || !line.trim()) return line;
-  let msg;
-  try { msg = JSON.parse(line); } catch (_) { return line; }
-  if (!msg || typeof msg !== 'object') return line;
-  if (msg.method !== 'tools/call') return line;
-  if (!msg.params || typeof msg.params !== 'object') return line;
-  if (msg.params.name !== 'ace_search') return line;
-
-  const args = (msg.params.arguments && typeof msg.params.arguments === 'object')
+  let parsed;
+  try { parsed = JSON.parse(line); } catch (_) { return line; }
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  let changed = false;
+  for (const msg of messages) {
+    if (mutateRequest(msg)) changed = true;
+  }
+  if (!changed) return line;
+  try { return JSON.stringify(parsed); } catch (_) { return line; }
+}
+
+// Mutates one request in place; true when it changed.
+function mutateRequest(msg) {
+  if (!msg || typeof msg !== 'object') return false;
+  if (msg.method !== 'tools/call') return false;
+  if (!msg.params || typeof msg.params !== 'object') return false;
+  if (msg.params.name !== 'ace_search' && msg.params.name !== 'ace_learn') return false;
+
+  let args = (msg.params.arguments && typeof msg.params.arguments === 'object')
     ? msg.params.arguments
     : {};
-  if (!args.agent_type || typeof args.agent_type !== 'string' || args.agent_type.trim() === '') {
-    args.agent_type = process.env.ACE_CLIENT_ID || 'cursor';
-    msg.params.arguments = args;
-    try { return JSON.stringify(msg); } catch (_) { return line; }
+  let changed = false;
+  try {
+    const stats = {};
+    const redacted = aceRedactValue(args, aceLoadRedactors(ACE_DIR), stats);
+    if (Object.keys(stats).length > 0) {
+      args = redacted;
+      changed = true;
+    }
+  } catch (_) { /* redaction must never break the pipe */ }
+  if (msg.params.name === 'ace_search'
+      && (!args.agent_type || typeof args.agent_type !== 'string' || args.agent_type.trim() === '')) {
+    args.agent_type = PROXY_CONFIG.agentType;
+    changed = true;
   }
-  return line;
+  if (changed) msg.params.arguments = args;
+  return changed;
 }
 
 /**
- * Parse a single JSON-RPC line. If it's a tools/list response, strip hidden
- * tools. If it's an ace_search response, truncate results to top-N. Otherwise
- * return the line unchanged. Failure to parse → passthrough.
+ * Parse a JSON-RPC line from the child — one message or a batch — and
+ * handle each response by the request it answers (see inFlight). Returns
+ * the line to emit (unchanged unless something was rewritten), or null when
+ * every message in it was dropped. Failure to parse → passthrough.
  */
 function filterLine(line) {
   if (!line || !line.trim()) return line;
-  let msg;
-  try { msg = JSON.parse(line); } catch (_) { return line; }
-  if (!msg || typeof msg !== 'object') return line;
-
-  // v0.5.0-dev.16 — initialize response shape:
-  //   { jsonrpc, id, result: { protocolVersion, serverInfo: {name,version}, ... } }
-  // Inject server-level \`instructions\` field. Overwrites any existing one.
-  if (msg.result
-      && typeof msg.result.protocolVersion === 'string'
-      && msg.result.serverInfo
-      && typeof msg.result.serverInfo === 'object'
-      && typeof msg.result.serverInfo.name === 'string') {
-    msg.result.instructions = MCP_INSTRUCTIONS;
-    try { return JSON.stringify(msg); } catch (_) { return line; }
+  let parsed;
+  try { parsed = JSON.parse(line); } catch (_) { return line; }
+  if (Array.isArray(parsed)) {
+    const kept = [];
+    let changed = false;
+    for (const msg of parsed) {
+      const outcome = filterMessage(msg);
+      if (outcome === null) changed = true;
+      else {
+        if (outcome) changed = true;
+        kept.push(msg);
+      }
+    }
+    if (!changed) return line;
+    return kept.length > 0 ? JSON.stringify(kept) : null;
   }
+  const outcome = filterMessage(parsed);
+  if (outcome === null) return null;
+  if (!outcome) return line;
+  try { return JSON.stringify(parsed); } catch (_) { return line; }
+}
 
-  // tools/list response shape: { jsonrpc, id, result: { tools: [...] } }
-  // We don't see the request here (it's in stdin). Heuristic: any response
-  // with result.tools array gets filtered. Belt + suspenders.
-  if (msg.result && Array.isArray(msg.result.tools)) {
-    msg.result.tools = msg.result.tools.filter((t) => {
-      return !(t && typeof t.name === 'string' && HIDDEN.has(t.name));
-    });
-    return JSON.stringify(msg);
+/**
+ * One message from the child. Notifications and the child's own requests
+ * pass through; a response is matched to its request by id and rewritten by
+ * that request's method. Returns true when the message was rewritten in
+ * place, false to pass it through, null to drop it.
+ */
+function filterMessage(msg) {
+  if (!msg || typeof msg !== 'object' || Array.isArray(msg)) return false;
+  if (msg.id === undefined || msg.method !== undefined) return false;
+
+  // The restarted child's answer to the replayed initialize: the client has
+  // its session already.
+  if (replayId !== null && msg.id === replayId) {
+    replayId = null;
+    injectInstructions(msg);
+    if (initializedLine && child) child.stdin.write(initializedLine + '\\n');
+    return null;
+  }
+  if (abandoned.delete(msg.id)) return null;
+  const request = settleRequest(msg.id);
+  if (!request) return false;
+
+  if (request.method === 'initialize') return injectInstructions(msg);
+  if (request.method === 'tools/list') return filterToolsList(msg);
+  if (request.method === 'resources/list' || request.method === 'resources/templates/list') {
+    return appendSearchResources(msg, request.method === 'resources/list' ? 'resources' : 'resourceTemplates');
   }
+  if (request.method === 'tools/call' && request.tool === 'ace_search') return packSearchResult(msg);
+  return false;
+}
 
-  // v0.5.0-dev.19 Task B/D: smart-packing + full-results-on-disk for
-  // ace_search responses. Avoids Cursor's 8 KB stdio pipe limit while
-  // preserving access to the entire pattern library on disk.
-  // Shape: { jsonrpc, id, result: { content: [{type:'text', text: <inner JSON>}] } }
-  // Inner JSON shape (ace_search): { query, threshold, results, count, session_id, ... }
+// v0.5.0-dev.16 — initialize response shape:
+//   { jsonrpc, id, result: { protocolVersion, serverInfo: {name,version}, capabilities } }
+// Inject server-level \`instructions\` field. Overwrites any existing one.
+// Also advertise \`resources\` for the ace://search/ full results.
+function injectInstructions(msg) {
+  if (!msg.result
+      || typeof msg.result.protocolVersion !== 'string'
+      || !msg.result.serverInfo
+      || typeof msg.result.serverInfo !== 'object'
+      || typeof msg.result.serverInfo.name !== 'string') return false;
+  msg.result.instructions = MCP_INSTRUCTIONS;
+  const caps = (msg.result.capabilities && typeof msg.result.capabilities === 'object') ? msg.result.capabilities : {};
+  childHasResources = !!caps.resources;
+  msg.result.capabilities = Object.assign({}, caps, { resources: caps.resources || {} });
+  return true;
+}
+
+// tools/list response shape: { jsonrpc, id, result: { tools: [...], nextCursor? } }
+// Strip hidden tools; the local tools go on the last page.
+function filterToolsList(msg) {
+  if (!msg.result || !Array.isArray(msg.result.tools)) return false;
+  msg.result.tools = msg.result.tools.filter((t) => {
+    return !(t && typeof t.name === 'string' && (HIDDEN.has(t.name) || LOCAL_TOOLS.some((l) => l.name === t.name)));
+  });
+  if (!msg.result.nextCursor) msg.result.tools = msg.result.tools.concat(LOCAL_TOOLS);
+  return true;
+}
+
+// The child's answer to a resources/list or resources/templates/list we
+// forwarded — append ours (or answer alone if the child failed).
+function appendSearchResources(msg, key) {
+  const ours = key === 'resources' ? searchResourceList() : searchResourceTemplates();
+  const theirs = (msg.result && Array.isArray(msg.result[key])) ? msg.result[key] : [];
+  msg.result = Object.assign({}, msg.result, { [key]: theirs.concat(ours) });
+  delete msg.error;
+  return true;
+}
+
+// v0.5.0-dev.19 Task B/D: smart-packing + full-results resources for
+// ace_search responses. Avoids Cursor's 8 KB stdio pipe limit while
+// preserving access to the entire pattern library.
+// Shape: { jsonrpc, id, result: { content: [{type:'text', text: <inner JSON>}] } }
+// Inner JSON shape (ace_search): { query, threshold, results, count, session_id, ... }
+function packSearchResult(msg) {
   try {
-    if (msg.result && Array.isArray(msg.result.content) && msg.result.content[0]
-        && typeof msg.result.content[0].text === 'string') {
-      const innerText = msg.result.content[0].text;
-      let inner;
-      try { inner = JSON.parse(innerText); } catch (_) { return line; }
-      if (inner && typeof inner === 'object'
-          && Array.isArray(inner.results)
-          && typeof inner.query === 'string') {
-        const originalCount = (typeof inner.count === 'number') ? inner.count : inner.results.length;
-        // Smart-pack patterns to fit under the byte budget.
-        const packed = packPatternsUntilSize(inner.results, MAX_INLINE_PATTERN_BYTES);
-        if (packed.length >= inner.results.length) {
-          // Already small enough — nothing to do.
-          return line;
-        }
-        // Persist the FULL inner JSON to disk so the AI can Read all patterns
-        // when inline truncation drops something relevant. Failure is
-        // non-fatal — we still emit the truncated inline response.
-        const sid = (typeof inner.session_id === 'string' && inner.session_id) ? inner.session_id : ('search-' + Date.now());
-        const safeSid = String(sid).replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, 200);
-        const fullPath = path.join('.cursor', 'ace', 'searches', safeSid + '.json');
-        let writtenPath = '';
-        try {
-          fs.mkdirSync(path.dirname(fullPath), { recursive: true });
-          fs.writeFileSync(fullPath, JSON.stringify(inner, null, 2));
-          writtenPath = fullPath;
-        } catch (writeErr) {
-          // Defensive: read-only fs / permission issues — passthrough with
-          // truncation but no full_results_path. AI still gets inline patterns.
-          process.stderr.write('[ace-mcp-proxy] full-results write failed: ' + (writeErr && writeErr.message || writeErr) + '\\n');
-        }
-        inner.original_count = originalCount;
-        inner.truncated_to = packed.length;
-        inner.results = packed;
-        if (writtenPath) {
-          inner.full_results_path = writtenPath;
-          inner.full_results_note = 'FULL RESULTS: Showing top ' + packed.length + ' of ' + originalCount + ' patterns inline. The complete result set is at ' + writtenPath + '. If patterns inline don\\'t fully address the task, Read the full file for the complete pattern library.';
-        }
-        // Preserve inner.count as-is — AI knows there were more.
-        msg.result.content[0].text = JSON.stringify(inner, null, 2);
-        return JSON.stringify(msg);
-      }
+    if (!msg.result || !Array.isArray(msg.result.content) || !msg.result.content[0]
+        || typeof msg.result.content[0].text !== 'string') return false;
+    const innerText = msg.result.content[0].text;
+    let inner;
+    try { inner = JSON.parse(innerText); } catch (_) { return false; }
+    if (!inner || typeof inner !== 'object' || !Array.isArray(inner.results) || typeof inner.query !== 'string') return false;
+    const originalCount = (typeof inner.count === 'number') ? inner.count : inner.results.length;
+    // Drop the configured fields, then smart-pack to fit the byte budget.
+    const slim = STRIP_FIELDS.length > 0 ? inner.results.map(stripPatternFields) : inner.results;
+    const packed = HTTP_TRANSPORT ? slim : packPatternsUntilSize(slim, MAX_INLINE_PATTERN_BYTES);
+    if (packed.length >= inner.results.length) {
+      // Already small enough — nothing to do (beyond stripping fields).
+      if (slim === inner.results) return false;
+      inner.results = slim;
+      msg.result.content[0].text = JSON.stringify(inner, null, 2);
+      return true;
     }
-  } catch (_) { /* fall through to passthrough */ }
-
-  return line;
+    // Keep the FULL inner JSON (all fields) in memory so the AI can read
+    // every pattern as an MCP resource when inline truncation drops
+    // something relevant.
+    const sid = (typeof inner.session_id === 'string' && inner.session_id) ? inner.session_id : ('search-' + Date.now());
+    const safeSid = String(sid).replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, 200);
+    rememberSearch(safeSid, JSON.parse(innerText));
+    const uri = SEARCH_RESOURCE_PREFIX + safeSid;
+    const pageCount = searchResults.get(safeSid).pages.length;
+    inner.original_count = originalCount;
+    inner.truncated_to = packed.length;
+    inner.results = packed;
+    inner.full_results_uri = uri;
+    inner.full_results_note = 'FULL RESULTS: Showing top ' + packed.length + ' of ' + originalCount + ' patterns inline. The complete result set is the MCP resource ' + uri + ', in ' + pageCount + ' page(s): ' + uri + '/page/1 through ' + uri + '/page/' + pageCount + '. If patterns inline don\\'t fully address the task, read those resources for the complete pattern library.';
+    // Preserve inner.count as-is — AI knows there were more.
+    msg.result.content[0].text = JSON.stringify(inner, null, 2);
+    return true;
+  } catch (_) {
+    return false; // passthrough
+  }
 }
 `;
 }
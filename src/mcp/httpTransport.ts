@@ -0,0 +1,353 @@
+/**
+ * Local HTTP transport for the ACE MCP proxy.
+ *
+ * Cursor's stdio MCP transport stalls on responses above ~8 KB on macOS,
+ * which is the only reason the proxy packs ace_search results (Fix B2 in
+ * ace-mcp-proxy.ts). With `ace.mcpTransport` set to "http" the extension
+ * serves the proxy itself as a Streamable-HTTP MCP endpoint instead:
+ *
+ *   http://127.0.0.1:<random port>/mcp   Authorization: Bearer <random token>
+ *
+ * and registers that URL with Cursor. Each session (one `initialize`) runs
+ * its own `ace_mcp_proxy.js` with PROXY_TRANSPORT_ENV=http, so results come
+ * back whole; the proxy still does everything else (tool filtering, local
+ * tools, supervision, request timeouts).
+ *
+ *   POST   JSON-RPC message or batch → application/json with the responses,
+ *          or 202 when it carried only notifications/responses
+ *   GET    text/event-stream of what the proxy sends unprompted
+ *          (notifications, server requests)
+ *   DELETE ends the session
+ *
+ * Sessions are named by the Mcp-Session-Id header from the initialize
+ * response; once the proxy exits its id answers 404 so the client
+ * re-initializes. Only loopback is bound and every request needs the token.
+ *
+ * No vscode — the extension wires it up in registerMcpServer().
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { spawn, type ChildProcess } from 'child_process';
+import type { AddressInfo } from 'net';
+import { CHILD_UNAVAILABLE_CODE, PROXY_TRANSPORT_ENV } from './ace-mcp-proxy';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+export const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+/** Largest POST body accepted (413 above it). */
+export const MAX_MCP_HTTP_BODY_BYTES = 4 * 1024 * 1024;
+
+/** How the extension starts one proxy per session. */
+export type McpProxyCommand = {
+	command: string;
+	args: string[];
+	env: Record<string, string>;
+	/** Workspace root — the proxy reads .cursor/ace relative to it. */
+	cwd?: string;
+};
+
+export type McpHttpEndpoint = {
+	url: string;
+	/** Headers Cursor must send: the bearer token. */
+	headers: Record<string, string>;
+};
+
+type JsonRpcMessage = Record<string, unknown>;
+type JsonRpcRequest = JsonRpcMessage & { method: string };
+
+/** One POST waiting for the proxy to answer its requests. */
+type Exchange = {
+	res: http.ServerResponse;
+	batch: boolean;
+	waiting: Set<string>;
+	replies: JsonRpcMessage[];
+};
+
+type Session = {
+	id: string;
+	proxy: ChildProcess;
+	/** Request id (JSON-encoded, so 1 and "1" differ) → its exchange. */
+	pending: Map<string, Exchange>;
+	streams: Set<http.ServerResponse>;
+	stdoutBuf: string;
+};
+
+function isRequest(msg: unknown): msg is JsonRpcRequest {
+	return !!msg && typeof msg === 'object' && !Array.isArray(msg)
+		&& typeof (msg as JsonRpcMessage).method === 'string'
+		&& (msg as JsonRpcMessage).id !== undefined && (msg as JsonRpcMessage).id !== null;
+}
+
+function isResponse(msg: unknown): msg is JsonRpcMessage {
+	return !!msg && typeof msg === 'object' && !Array.isArray(msg)
+		&& (msg as JsonRpcMessage).method === undefined && (msg as JsonRpcMessage).id !== undefined
+		&& ('result' in (msg as JsonRpcMessage) || 'error' in (msg as JsonRpcMessage));
+}
+
+const idKey = (id: unknown) => JSON.stringify(id);
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+	res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+	res.end(JSON.stringify(body));
+}
+
+/** A JSON-RPC error body with no id, for requests rejected before parsing. */
+function sendRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+	sendJson(res, status, { jsonrpc: '2.0', id: null, error: { code, message } });
+}
+
+export class McpHttpServer {
+	private _server: http.Server | undefined;
+	private _session: Session | undefined;
+	private readonly _token = crypto.randomBytes(32).toString('hex');
+
+	/**
+	 * @param _proxy  how to start ace_mcp_proxy.js for a new session
+	 * @param _log    one-line activity messages (ACE Activity channel)
+	 */
+	constructor(
+		private readonly _proxy: McpProxyCommand,
+		private readonly _log: (message: string) => void = () => {}
+	) {}
+
+	/** Listen on a random loopback port; resolves to what Cursor should connect to. */
+	start(): Promise<McpHttpEndpoint> {
+		const server = http.createServer((req, res) => this._handle(req, res));
+		this._server = server;
+		return new Promise((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(0, '127.0.0.1', () => {
+				server.off('error', reject);
+				const { port } = server.address() as AddressInfo;
+				resolve({
+					url: `http://127.0.0.1:${port}${MCP_HTTP_PATH}`,
+					headers: { Authorization: `Bearer ${this._token}` },
+				});
+			});
+		});
+	}
+
+	dispose(): void {
+		this._endSession();
+		this._server?.close();
+		this._server?.closeAllConnections();
+		this._server = undefined;
+	}
+
+	private _authorized(req: http.IncomingMessage): boolean {
+		const given = Buffer.from(String(req.headers.authorization ?? ''));
+		const expected = Buffer.from(`Bearer ${this._token}`);
+		return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+	}
+
+	private _handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+		if (!this._authorized(req)) {
+			sendRpcError(res, 401, -32000, 'Unauthorized');
+			return;
+		}
+		if (new URL(req.url ?? '/', 'http://127.0.0.1').pathname !== MCP_HTTP_PATH) {
+			sendRpcError(res, 404, -32601, 'Not found');
+			return;
+		}
+		if (req.method === 'POST') {
+			this._readBody(req, res, body => this._post(req, res, body));
+		} else if (req.method === 'GET' || req.method === 'DELETE') {
+			const session = this._sessionFor(req, res);
+			if (!session) return;
+			if (req.method === 'GET') {
+				this._openStream(session, res);
+			} else {
+				this._endSession();
+				res.writeHead(200).end();
+			}
+		} else {
+			res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+		}
+	}
+
+	private _readBody(req: http.IncomingMessage, res: http.ServerResponse, then: (body: string) => void): void {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			if (size <= MAX_MCP_HTTP_BODY_BYTES) chunks.push(chunk);
+		});
+		req.on('end', () => {
+			if (size > MAX_MCP_HTTP_BODY_BYTES) {
+				sendRpcError(res, 413, -32600, `Request body over ${MAX_MCP_HTTP_BODY_BYTES} bytes`);
+			} else {
+				then(Buffer.concat(chunks).toString('utf-8'));
+			}
+		});
+	}
+
+	/** The current session if the request names it: 400 without the header, 404 for a stale id. */
+	private _sessionFor(req: http.IncomingMessage, res: http.ServerResponse): Session | undefined {
+		const id = req.headers[MCP_SESSION_HEADER.toLowerCase()];
+		if (typeof id !== 'string' || !id) {
+			sendRpcError(res, 400, -32000, `Missing ${MCP_SESSION_HEADER} header; send initialize first`);
+			return undefined;
+		}
+		if (!this._session || this._session.id !== id) {
+			sendRpcError(res, 404, -32001, 'Session not found; send initialize again');
+			return undefined;
+		}
+		return this._session;
+	}
+
+	private _post(req: http.IncomingMessage, res: http.ServerResponse, body: string): void {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(body);
+		} catch {
+			sendRpcError(res, 400, -32700, 'Parse error');
+			return;
+		}
+		const batch = Array.isArray(parsed);
+		const messages = (batch ? parsed : [parsed]) as unknown[];
+		if (messages.length === 0 || messages.some(m => !m || typeof m !== 'object' || Array.isArray(m))) {
+			sendRpcError(res, 400, -32600, 'Invalid Request');
+			return;
+		}
+
+		let session: Session | undefined;
+		if (messages.some(m => isRequest(m) && m.method === 'initialize')) {
+			// A new session replaces the old one — Cursor reconnects this way.
+			this._endSession();
+			session = this._startSession();
+		} else {
+			session = this._sessionFor(req, res);
+		}
+		if (!session) return;
+
+		const requests = messages.filter(isRequest);
+		if (requests.length > 0) {
+			const exchange: Exchange = { res, batch, waiting: new Set(), replies: [] };
+			for (const msg of requests) {
+				exchange.waiting.add(idKey(msg.id));
+				session.pending.set(idKey(msg.id), exchange);
+			}
+			res.on('close', () => this._abandon(session!, exchange));
+		}
+		session.proxy.stdin?.write(JSON.stringify(parsed) + '\n');
+		if (requests.length === 0) {
+			res.writeHead(202, { [MCP_SESSION_HEADER]: session.id }).end();
+		}
+	}
+
+	private _startSession(): Session {
+		const { command, args, env, cwd } = this._proxy;
+		const proxy = spawn(command, args, {
+			cwd,
+			env: { ...process.env, ...env, [PROXY_TRANSPORT_ENV]: 'http' },
+			stdio: ['pipe', 'pipe', 'pipe'],
+			windowsHide: true,
+		});
+		const session: Session = { id: crypto.randomUUID(), proxy, pending: new Map(), streams: new Set(), stdoutBuf: '' };
+		this._session = session;
+		// A write racing the proxy's exit fails with EPIPE; 'exit' retires the session.
+		proxy.stdin?.on('error', () => {});
+		proxy.stdout?.on('data', (chunk: Buffer) => {
+			session.stdoutBuf += chunk.toString('utf-8');
+			let nl: number;
+			while ((nl = session.stdoutBuf.indexOf('\n')) !== -1) {
+				const line = session.stdoutBuf.slice(0, nl).trim();
+				session.stdoutBuf = session.stdoutBuf.slice(nl + 1);
+				if (line) this._fromProxy(session, line);
+			}
+		});
+		proxy.stderr?.on('data', (chunk: Buffer) => {
+			for (const line of chunk.toString('utf-8').split('\n')) {
+				if (line.trim()) this._log(`MCP proxy: ${line.trim()}`);
+			}
+		});
+		let gone = false;
+		const onGone = (why: string) => {
+			if (gone) return;
+			gone = true;
+			this._proxyGone(session, why);
+		};
+		proxy.on('error', error => onGone(`failed to start: ${error.message}`));
+		proxy.on('exit', (code, signal) => onGone(signal ? `exited (${signal})` : `exited with code ${code}`));
+		this._log('MCP HTTP session started');
+		return session;
+	}
+
+	/** Route each message of a proxy output line to the POST it answers, or to the GET streams. */
+	private _fromProxy(session: Session, line: string): void {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(line);
+		} catch {
+			return;
+		}
+		for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+			const exchange = isResponse(msg) ? session.pending.get(idKey(msg.id)) : undefined;
+			if (exchange) {
+				session.pending.delete(idKey(msg.id));
+				exchange.waiting.delete(idKey(msg.id));
+				exchange.replies.push(msg);
+				if (exchange.waiting.size === 0) this._reply(session, exchange);
+			} else if (!isResponse(msg)) {
+				for (const stream of session.streams) stream.write(`event: message\ndata: ${JSON.stringify(msg)}\n\n`);
+			}
+		}
+	}
+
+	private _reply(session: Session, exchange: Exchange): void {
+		if (exchange.res.writableEnded) return;
+		sendJson(exchange.res, 200, exchange.batch ? exchange.replies : exchange.replies[0], { [MCP_SESSION_HEADER]: session.id });
+	}
+
+	/** The client hung up before every answer came: cancel what's left so late answers are dropped. */
+	private _abandon(session: Session, exchange: Exchange): void {
+		if (exchange.waiting.size === 0 || session.proxy.exitCode !== null) return;
+		for (const key of exchange.waiting) {
+			session.pending.delete(key);
+			const cancel = { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: JSON.parse(key), reason: 'HTTP request closed' } };
+			session.proxy.stdin?.write(JSON.stringify(cancel) + '\n');
+		}
+		exchange.waiting.clear();
+	}
+
+	private _openStream(session: Session, res: http.ServerResponse): void {
+		res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', [MCP_SESSION_HEADER]: session.id });
+		res.flushHeaders();
+		session.streams.add(res);
+		res.on('close', () => session.streams.delete(res));
+	}
+
+	/** Answer whatever the proxy never did, and forget the session so its id gets 404. */
+	private _proxyGone(session: Session, why: string): void {
+		if (this._session === session) this._session = undefined;
+		for (const [key, exchange] of session.pending) {
+			exchange.waiting.delete(key);
+			exchange.replies.push({
+				jsonrpc: '2.0',
+				id: JSON.parse(key),
+				error: { code: CHILD_UNAVAILABLE_CODE, message: `ACE MCP proxy ${why} before answering; retry the request.` },
+			});
+			if (exchange.waiting.size === 0) this._reply(session, exchange);
+		}
+		session.pending.clear();
+		for (const stream of session.streams) stream.end();
+		session.streams.clear();
+		this._log(`MCP HTTP session ended: proxy ${why}`);
+	}
+
+	private _endSession(): void {
+		const session = this._session;
+		if (!session) return;
+		this._session = undefined;
+		const { proxy } = session;
+		if (proxy.exitCode === null && proxy.signalCode === null) {
+			// Closing stdin is the proxy's shutdown signal; kill in case it hangs.
+			proxy.stdin?.end();
+			setTimeout(() => {
+				if (proxy.exitCode === null && proxy.signalCode === null) proxy.kill();
+			}, 2000).unref();
+		}
+	}
+}
@@ -42,10 +42,11 @@ describe('getAgentsMdContent — content shape', () => {
 		expect(md).not.toContain('ace_list_domains');
 	});
 
-	it('points the AI at .cursor/ace/searches/<session_id>.json full results path', () => {
+	it('points the AI at the ace://search/<session_id> full results resource', () => {
 		const md = getAgentsMdContent();
-		expect(md).toContain('.cursor/ace/searches');
-		expect(md).toContain('session_id');
+		expect(md).toContain('ace://search/<session_id>');
+		expect(md).toContain('/page/<n>');
+		expect(md).not.toContain('.cursor/ace/searches');
 	});
 
 	it('directs AI to call ace_search FIRST', () => {
@@ -0,0 +1,166 @@
+/**
+ * Tests for the local bootstrap collectors + checkpoint (src/ace/bootstrap.ts).
+ *
+ * Uses tmpdir workspaces; the git-history test builds a throwaway repo and
+ * auto-skips when git isn't on PATH.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import {
+	collectDocs,
+	collectSourceFiles,
+	collectGitCommits,
+	planBootstrap,
+	itemToSeedTrace,
+	readBootstrapState,
+	writeBootstrapState,
+	newBootstrapState,
+	isResumable,
+	remainingItems,
+	getBootstrapStatePath,
+} from '../../ace/bootstrap';
+
+function hasGit(): boolean {
+	try {
+		execFileSync('git', ['--version'], { stdio: 'ignore' });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function write(root: string, rel: string, content: string): void {
+	const p = path.join(root, rel);
+	fs.mkdirSync(path.dirname(p), { recursive: true });
+	fs.writeFileSync(p, content);
+}
+
+describe('bootstrap collectors', () => {
+	let tmp: string;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-bootstrap-')); });
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	it('collectDocs picks root docs first, then docs/**.md', async () => {
+		write(tmp, 'docs/guide.md', '# Guide');
+		write(tmp, 'README.md', '# Readme');
+		write(tmp, 'notes.md', 'not a project doc');
+		write(tmp, 'src/README.md', 'nested readme is not a root doc');
+		expect((await collectDocs(tmp)).map(i => i.id)).toEqual(['doc:README.md', 'doc:docs/guide.md']);
+	});
+
+	it('collectSourceFiles skips generated dirs and respects the byte budget', async () => {
+		write(tmp, 'src/a.ts', 'a'.repeat(100));
+		write(tmp, 'src/deep/b.ts', 'b'.repeat(100));
+		write(tmp, 'node_modules/x/index.js', 'nope');
+		write(tmp, 'dist/out.js', 'nope');
+		write(tmp, 'src/types.d.ts', 'declare const x: 1;');
+		expect((await collectSourceFiles(tmp)).map(i => i.title)).toEqual(['src/a.ts', 'src/deep/b.ts']);
+		expect((await collectSourceFiles(tmp, 150)).map(i => i.title)).toEqual(['src/a.ts']);
+	});
+
+	it('skips a file over the remaining budget but keeps smaller ones after it', async () => {
+		write(tmp, 'a.ts', 'a'.repeat(100));
+		write(tmp, 'b.ts', 'b'.repeat(100));
+		write(tmp, 'c.ts', 'c'.repeat(30));
+		expect((await collectSourceFiles(tmp, 150)).map(i => i.title)).toEqual(['a.ts', 'c.ts']);
+	});
+
+	it('stops collecting once aborted', async () => {
+		write(tmp, 'README.md', 'r');
+		write(tmp, 'src/a.ts', 'a');
+		const abort = new AbortController();
+		abort.abort();
+		expect(await planBootstrap(tmp, 'hybrid', { signal: abort.signal })).toEqual([]);
+	});
+
+	it('truncates large items to the trace output cap', async () => {
+		write(tmp, 'README.md', 'x'.repeat(10_000));
+		expect((await collectDocs(tmp))[0].content.length).toBe(4001);
+	});
+
+	it('collectGitCommits returns [] outside a repo', async () => {
+		expect(await collectGitCommits(tmp)).toEqual([]);
+	});
+
+	it.skipIf(!hasGit())('collectGitCommits reads subject, body and touched files', async () => {
+		const env = { ...process.env, GIT_AUTHOR_NAME: 't', GIT_AUTHOR_EMAIL: 't@t', GIT_COMMITTER_NAME: 't', GIT_COMMITTER_EMAIL: 't@t' };
+		execFileSync('git', ['init', '-q'], { cwd: tmp, env });
+		write(tmp, 'src/auth.ts', 'export {}');
+		execFileSync('git', ['add', '.'], { cwd: tmp, env });
+		execFileSync('git', ['commit', '-q', '-m', 'Add auth module', '-m', 'Why: tokens'], { cwd: tmp, env });
+		const commits = await collectGitCommits(tmp);
+		expect(commits).toHaveLength(1);
+		expect(commits[0].id).toMatch(/^commit:[0-9a-f]{40}$/);
+		expect(commits[0].title).toBe('Add auth module');
+		expect(commits[0].content).toContain('Why: tokens');
+		expect(commits[0].content).toContain('Files: src/auth.ts');
+	});
+
+	it('planBootstrap docs-only ignores source files', async () => {
+		write(tmp, 'README.md', 'r');
+		write(tmp, 'src/a.ts', 'a');
+		expect((await planBootstrap(tmp, 'docs-only')).map(i => i.kind)).toEqual(['doc']);
+		expect((await planBootstrap(tmp, 'hybrid')).map(i => i.kind)).toEqual(['doc', 'source']);
+	});
+});
+
+describe('itemToSeedTrace', () => {
+	it('produces a learn-helper-shaped trace', () => {
+		const now = new Date('2026-01-01T00:00:00Z');
+		const trace = itemToSeedTrace(
+			{ id: 'doc:README.md', kind: 'doc', title: 'README.md', content: '# Hi' },
+			'run1',
+			{ branch: 'main', hash: 'abc', isRepo: true },
+			now,
+		);
+		expect(trace.task).toBe('Bootstrap from project documentation: README.md');
+		expect(trace.session_id).toBe('bootstrap-run1');
+		expect(trace.agent_type).toBe('cursor');
+		expect(trace.result).toEqual({ success: true, output: '# Hi', summary: 'README.md' });
+		expect(trace.trajectory[0]).toMatchObject({ action: 'read_file', args: { path: 'README.md' } });
+		expect(trace.git).toEqual({ branch: 'main', commit_hash: 'abc', isRepo: true });
+	});
+});
+
+describe('bootstrap checkpoint', () => {
+	let tmp: string;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-bootstrap-state-')); });
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	it('round-trips through .cursor/ace/bootstrap-state.json', () => {
+		const state = newBootstrapState('hybrid', 3);
+		state.completed_ids.push('doc:README.md');
+		writeBootstrapState(tmp, state);
+		expect(fs.existsSync(getBootstrapStatePath(tmp))).toBe(true);
+		expect(readBootstrapState(tmp)).toEqual(state);
+	});
+
+	it('returns null for missing or malformed state', () => {
+		expect(readBootstrapState(tmp)).toBeNull();
+		write(tmp, '.cursor/ace/bootstrap-state.json', '{"version":2}');
+		expect(readBootstrapState(tmp)).toBeNull();
+	});
+
+	it('is resumable only for the same mode and while incomplete', () => {
+		const state = newBootstrapState('docs-only', 2);
+		state.completed_ids.push('a');
+		expect(isResumable(state, 'docs-only')).toBe(true);
+		expect(isResumable(state, 'hybrid')).toBe(false);
+		expect(isResumable({ ...state, completed_at: 'x' }, 'docs-only')).toBe(false);
+		expect(isResumable(null, 'docs-only')).toBe(false);
+	});
+
+	it('remainingItems skips checkpointed ids', () => {
+		const state = newBootstrapState('docs-only', 2);
+		state.completed_ids.push('doc:a');
+		const items = [
+			{ id: 'doc:a', kind: 'doc' as const, title: 'a', content: '' },
+			{ id: 'doc:b', kind: 'doc' as const, title: 'b', content: '' },
+		];
+		expect(remainingItems(items, state).map(i => i.id)).toEqual(['doc:b']);
+	});
+});
@@ -2,10 +2,28 @@
  * Unit test for getDiagnosticRulesPath — returns the canonical path
  * to ace-patterns rule file using the folder-based RULE.mdc layout
  * (Cursor 2.2+), not the legacy ace-patterns.mdc single-file format.
+ *
+ * Also covers the pure checks behind ACE: Diagnose (hook files, hooks.json
+ * drift, STATUS.md path, helper_done parsing, Markdown report).
  */
 
-import { describe, it, expect } from 'vitest';
-import { getDiagnosticRulesPath } from '../../ace/diagnosticHelpers';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+	getDiagnosticRulesPath,
+	extractDispatcherPath,
+	findHookFileProblems,
+	findOnPath,
+	findHookNode,
+	buildHookCommand,
+	diffHooksConfig,
+	getMcpStatusPath,
+	parseHelperDoneResults,
+	describeHelperExitCode,
+	formatDiagnosticReportMarkdown,
+} from '../../ace/diagnosticHelpers';
 
 describe('getDiagnosticRulesPath', () => {
 	it('returns folder-based RULE.mdc path for given workspace root', () => {
@@ -34,3 +52,165 @@ describe('getDiagnosticRulesPath', () => {
 		expect(result.startsWith('/some/ws')).toBe(true);
 	});
 });
+
+// ---------------------------------------------------------------------------
+// ACE: Diagnose self-healing checks
+// ---------------------------------------------------------------------------
+
+describe('extractDispatcherPath', () => {
+	it('reads the dispatcher path from plain and quoted hooks.json commands', () => {
+		expect(extractDispatcherPath('/usr/bin/node /ext/v2/dist/hooks/ace_hook.js stop')).toBe('/ext/v2/dist/hooks/ace_hook.js');
+		expect(extractDispatcherPath('node "C:\\Users\\me\\My Ext\\dist\\hooks\\ace_hook.js" stop')).toBe('C:\\Users\\me\\My Ext\\dist\\hooks\\ace_hook.js');
+		expect(extractDispatcherPath('.cursor/scripts/ace_stop_hook.sh')).toBeUndefined();
+	});
+});
+
+describe('findHookFileProblems / findOnPath', () => {
+	let tmp: string;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-diag-')); });
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	const install = (ext: string, files = ['dist/hooks/ace_hook.js', 'scripts/ace_search_helper.js', 'scripts/ace_learn_helper.js']) => {
+		for (const f of files) {
+			fs.mkdirSync(path.dirname(path.join(ext, f)), { recursive: true });
+			fs.writeFileSync(path.join(ext, f), '');
+		}
+	};
+	const hooksFor = (dispatcher: string) => ({
+		hooks: {
+			stop: [{ command: `node ${dispatcher} stop`, loop_limit: null }],
+			preToolUse: [{ command: `node ${dispatcher} preToolUse` }, { command: 'node tools/lint.js' }],
+		},
+	});
+
+	it('is clean when hooks.json runs this install and its files exist', () => {
+		const ext = path.join(tmp, 'ext-v2');
+		install(ext);
+		expect(findHookFileProblems(ext, hooksFor(path.join(ext, 'dist', 'hooks', 'ace_hook.js')))).toEqual([]);
+	});
+
+	it('flags a dispatcher from another install once, and missing dispatcher or helpers', () => {
+		const ext = path.join(tmp, 'ext-v2');
+		install(ext, ['dist/hooks/ace_hook.js', 'scripts/ace_search_helper.js']);
+		const old = path.join(tmp, 'ext-v1', 'dist', 'hooks', 'ace_hook.js');
+		expect(findHookFileProblems(ext, hooksFor(old))).toEqual([
+			{ file: old, reason: 'outside-extension' },
+			{ file: path.join(ext, 'scripts', 'ace_learn_helper.js'), reason: 'missing' },
+		]);
+		fs.rmSync(path.join(ext, 'dist'), { recursive: true });
+		expect(findHookFileProblems(ext, undefined).map(p => p.file)).toEqual([
+			path.join(ext, 'dist', 'hooks', 'ace_hook.js'),
+			path.join(ext, 'scripts', 'ace_learn_helper.js'),
+		]);
+	});
+
+	it.skipIf(process.platform === 'win32')('findOnPath only returns executables', () => {
+		fs.writeFileSync(path.join(tmp, 'jq'), '', { mode: 0o644 });
+		expect(findOnPath('jq', [tmp])).toBeNull();
+		fs.chmodSync(path.join(tmp, 'jq'), 0o755);
+		expect(findOnPath('jq', [path.join(tmp, 'missing'), tmp])).toBe(path.join(tmp, 'jq'));
+	});
+
+	it.skipIf(process.platform === 'win32')('findHookNode looks for node.exe on the user PATH on Windows', () => {
+		const bin = path.join(tmp, 'bin');
+		fs.mkdirSync(bin);
+		expect(findHookNode(tmp, true, bin)).toBeNull();
+		fs.writeFileSync(path.join(bin, 'node.exe'), '', { mode: 0o755 });
+		expect(findHookNode(tmp, true, [path.join(tmp, 'missing'), bin].join(path.delimiter))).toBe(path.join(bin, 'node.exe'));
+	});
+});
+
+describe('buildHookCommand', () => {
+	it('runs the dispatcher with the resolved node on macOS/Linux, quoting paths with spaces', () => {
+		expect(buildHookCommand('stop', '/ext/dist/hooks/ace_hook.js', '/opt/homebrew/bin/node', false))
+			.toBe('/opt/homebrew/bin/node /ext/dist/hooks/ace_hook.js stop');
+		expect(buildHookCommand('preToolUse', '/Users/Jane Doe/ext/dist/hooks/ace_hook.js', null, false))
+			.toBe('node "/Users/Jane Doe/ext/dist/hooks/ace_hook.js" preToolUse');
+	});
+
+	it('uses a bare node on Windows so the line runs under cmd.exe and PowerShell alike', () => {
+		const dispatcher = 'C:\\Users\\Jane Doe\\.cursor\\extensions\\ace\\dist\\hooks\\ace_hook.js';
+		expect(buildHookCommand('afterFileEdit', dispatcher, 'C:\\Program Files\\nodejs\\node.exe', true))
+			.toBe(`node "${dispatcher}" afterFileEdit`);
+	});
+});
+
+describe('diffHooksConfig', () => {
+	const expected = {
+		hooks: {
+			stop: [{ command: '.cursor/scripts/ace_stop_hook.sh', loop_limit: null }],
+			afterMCPExecution: [{ command: '.cursor/scripts/ace_track_mcp.sh' }],
+		},
+	};
+
+	it('reports no drift for an exact match plus foreign hooks', () => {
+		const actual = {
+			version: 1,
+			hooks: {
+				stop: [{ command: '.cursor/scripts/ace_stop_hook.sh', loop_limit: null }, { command: './my-own-hook.sh' }],
+				afterMCPExecution: [{ command: '.cursor/scripts/ace_track_mcp.sh' }],
+			},
+		};
+		expect(diffHooksConfig(expected, actual)).toEqual({ missing: [], changed: [], unexpected: [] });
+	});
+
+	it('reports missing, changed and unexpected ACE entries', () => {
+		const actual = {
+			hooks: {
+				stop: [{ command: '.cursor/scripts/ace_stop_hook.sh', loop_limit: 5 }],
+				afterShellExecution: [{ command: '.cursor/scripts/ace_track_shell.sh' }],
+			},
+		};
+		expect(diffHooksConfig(expected, actual)).toEqual({
+			missing: ['afterMCPExecution: .cursor/scripts/ace_track_mcp.sh'],
+			changed: ['stop: .cursor/scripts/ace_stop_hook.sh'],
+			unexpected: ['afterShellExecution: .cursor/scripts/ace_track_shell.sh'],
+		});
+	});
+
+	it('treats garbage as everything missing', () => {
+		expect(diffHooksConfig(expected, null).missing).toHaveLength(2);
+	});
+});
+
+describe('getMcpStatusPath', () => {
+	it('derives the Cursor project hash from the workspace root', () => {
+		expect(getMcpStatusPath('/Users/me/proj', '/home')).toBe(path.join(
+			'/home', '.cursor', 'projects', 'Users-me-proj', 'mcps',
+			'user-ce-dot-net.cursor-ace-extension-extension-ace-pattern-learning', 'STATUS.md'
+		));
+	});
+});
+
+describe('parseHelperDoneResults', () => {
+	it('keeps only non-zero rc within the recent window', () => {
+		const log = [
+			'2026-01-01T00:00:00 helper_done rc=4',
+			'2026-01-01T00:01:00 STOP_FIRED status=completed',
+			'2026-01-01T00:02:00 helper_done rc=0',
+			'2026-01-01T00:03:00 helper_done rc=2',
+		].join('\n');
+		expect(parseHelperDoneResults(log).runs).toBe(3);
+		expect(parseHelperDoneResults(log).failures.map(f => f.rc)).toEqual([4, 2]);
+		expect(parseHelperDoneResults(log, 2).failures.map(f => f.rc)).toEqual([2]);
+	});
+
+	it('describes exit codes', () => {
+		expect(describeHelperExitCode(2)).toBe('token expired');
+		expect(describeHelperExitCode(3)).toMatch(/5xx/);
+	});
+});
+
+describe('formatDiagnosticReportMarkdown', () => {
+	it('renders summary table, details and fixes', () => {
+		const md = formatDiagnosticReportMarkdown([
+			{ id: 'node', status: 'warn', title: 'node not found for hooks', details: ['hooks fail open'], fix: { id: 'installNode', label: 'Install Node.js' } },
+			{ id: 'node', status: 'ok', title: 'node found on hook PATH', details: ['/usr/bin/node'] },
+		], { generatedAt: 'now', extensionVersion: '0.5.2', workspace: '/ws', platform: 'linux/x64' });
+		expect(md).toContain('# ACE Diagnostic Report');
+		expect(md).toContain('**1 issue(s) found.**');
+		expect(md).toContain('| ⚠️ | node not found for hooks | Install Node.js |');
+		expect(md).toContain('- **Fix:** Install Node.js');
+		expect(md).toContain('- /usr/bin/node');
+	});
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for the shared domain taxonomy (src/ace/domainRules.ts): the default
+ * heuristics, globs, .cursor/ace/domains.json loading, mapping local domains
+ * onto server domains, and the domain-shift hook using both.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	DEFAULT_DOMAIN_RULE_SET,
+	getDomainsConfigPath,
+	globToRegExp,
+	loadDomainRules,
+	matchDomain,
+	matchServerDomain,
+	toDomainPath,
+} from '../../ace/domainRules';
+import { readInjections } from '../../ace/patternAttribution';
+import { inferDomain } from '../../ace/v05Helpers';
+import { handleDomainShift } from '../../hooks/handlers';
+import { parseHookPayload } from '../../hooks/payload';
+import type { HookContext } from '../../hooks/hookContext';
+
+describe('matchDomain — defaults', () => {
+	it('maps files the way inferDomain always has', () => {
+		const cases: Record<string, string> = {
+			'Dockerfile': 'devops-infrastructure',
+			'.github/workflows/ci.yml': 'devops-infrastructure',
+			'src/Auth/Login.test.ts': 'testing-strategies',
+			'db/migrations/001.sql': 'database-migrations',
+			'src/components/Button.tsx': 'react-components',
+			'src/auth/jwt.ts': 'auth-development',
+			'src/controllers/orders.ts': 'api-development',
+			'packages/foo/bar.ts': 'packages',
+			'README.md': 'general',
+		};
+		for (const [file, domain] of Object.entries(cases)) {
+			expect(matchDomain(file).domain, file).toBe(domain);
+			expect(inferDomain(file), file).toBe(domain);
+		}
+	});
+
+	it('reports the rule that matched, or none for the fallback', () => {
+		expect(matchDomain('src/api/users.ts').rule).toMatchObject({ domain: 'api-development', origin: 'default' });
+		expect(matchDomain('lib/util.ts').rule).toBeUndefined();
+	});
+
+	it('accepts Windows separators and workspace-relative conversion', () => {
+		expect(matchDomain('src\\auth\\jwt.ts').domain).toBe('auth-development');
+		const root = path.join(os.tmpdir(), 'ws');
+		expect(toDomainPath(root, path.join(root, 'src', 'a.ts'))).toBe('src/a.ts');
+		expect(toDomainPath(root, 'src/a.ts')).toBe('src/a.ts');
+	});
+});
+
+describe('globToRegExp', () => {
+	it('keeps * within a segment and lets ** span directories', () => {
+		expect(globToRegExp('services/*/index.ts').test('services/billing/index.ts')).toBe(true);
+		expect(globToRegExp('services/*/index.ts').test('services/billing/v2/index.ts')).toBe(false);
+		expect(globToRegExp('services/**/index.ts').test('services/index.ts')).toBe(true);
+		expect(globToRegExp('services/**').test('services/billing/v2/index.ts')).toBe(true);
+	});
+
+	it('matches slash-less globs against the file name in any directory', () => {
+		expect(globToRegExp('*.proto').test('api/v1/user.proto')).toBe(true);
+		expect(globToRegExp('*.proto').test('user.proto.bak')).toBe(false);
+	});
+
+	it('supports {a,b} alternatives and escapes regex characters', () => {
+		const re = globToRegExp('**/*.{graphql,gql}');
+		expect(re.test('schema/user.gql')).toBe(true);
+		expect(re.test('schema/user.gqlx')).toBe(false);
+		expect(globToRegExp('a+b.ts').test('a+b.ts')).toBe(true);
+	});
+});
+
+describe('loadDomainRules', () => {
+	let aceDir: string;
+	beforeEach(() => { aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-domains-')); });
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	const writeConfig = (config: unknown) => fs.writeFileSync(getDomainsConfigPath(aceDir), JSON.stringify(config));
+
+	it('returns the defaults when domains.json is missing', () => {
+		expect(loadDomainRules(aceDir)).toBe(DEFAULT_DOMAIN_RULE_SET);
+	});
+
+	it('tries domains.json rules before the defaults', () => {
+		writeConfig({
+			rules: [
+				{ glob: 'services/billing/**', domain: 'billing' },
+				{ regex: '\\.proto$', domain: 'api-development' },
+			],
+		});
+		const ruleSet = loadDomainRules(aceDir);
+		expect(matchDomain('services/billing/auth/token.ts', ruleSet)).toMatchObject({ domain: 'billing', rule: { origin: 'domains.json' } });
+		expect(matchDomain('proto/user.proto', ruleSet).domain).toBe('api-development');
+		expect(matchDomain('src/auth/jwt.ts', ruleSet).domain).toBe('auth-development');
+		expect(ruleSet.errors).toEqual([]);
+	});
+
+	it('honours disableDefaults and fallback', () => {
+		writeConfig({ rules: [{ glob: '*.tf', domain: 'terraform' }], disableDefaults: true, fallback: 'general' });
+		const ruleSet = loadDomainRules(aceDir);
+		expect(matchDomain('infra/main.tf', ruleSet).domain).toBe('terraform');
+		expect(matchDomain('src/auth/jwt.ts', ruleSet).domain).toBe('general');
+	});
+
+	it('skips invalid rules and reports why', () => {
+		writeConfig({
+			rules: [
+				{ glob: '*.ts' },
+				{ domain: 'x' },
+				{ domain: 'x', glob: '*.ts', regex: 'ts$' },
+				{ domain: 'x', regex: '(' },
+				{ domain: 'ok', glob: 'ok/**' },
+			],
+		});
+		const ruleSet = loadDomainRules(aceDir);
+		expect(ruleSet.rules.filter(r => r.origin === 'domains.json').map(r => r.domain)).toEqual(['ok']);
+		expect(ruleSet.errors).toHaveLength(4);
+		expect(ruleSet.errors[0]).toContain('rules[0]');
+	});
+
+	it('falls back to the defaults on invalid JSON and says so', () => {
+		fs.writeFileSync(getDomainsConfigPath(aceDir), '{ not json');
+		const ruleSet = loadDomainRules(aceDir);
+		expect(ruleSet.rules).toEqual(DEFAULT_DOMAIN_RULE_SET.rules);
+		expect(ruleSet.errors[0]).toMatch(/^domains\.json: /);
+	});
+});
+
+describe('matchServerDomain', () => {
+	const server = [
+		'typescript-development-practices',
+		'mcp-cli-testing-and-api-resilience',
+		'react-component-architecture',
+		'authentication-and-session-management',
+	];
+
+	it('picks the server domain sharing the most meaningful tokens', () => {
+		expect(matchServerDomain('testing-strategies', server)).toBe('mcp-cli-testing-and-api-resilience');
+		expect(matchServerDomain('react-components', server)).toBe('react-component-architecture');
+		expect(matchServerDomain('auth-development', server)).toBe('authentication-and-session-management');
+	});
+
+	it('prefers an exact name and ignores generic words like "development"', () => {
+		expect(matchServerDomain('Billing', ['billing', 'billing-and-invoices'])).toBe('billing');
+		expect(matchServerDomain('devops-infrastructure', server)).toBeUndefined();
+		expect(matchServerDomain('general', server)).toBeUndefined();
+		expect(matchServerDomain('api-development', [])).toBeUndefined();
+	});
+
+	it('favours a focused domain over a sprawling one with the same overlap', () => {
+		expect(matchServerDomain('api-development', ['mcp-cli-testing-and-api-resilience', 'rest-api-design'])).toBe('rest-api-design');
+	});
+});
+
+describe('domain-shift hook uses domains.json', () => {
+	let root: string;
+	let ctx: HookContext;
+	let searches: Array<{ query: string; allowedDomains?: string[] }>;
+	beforeEach(() => {
+		searches = [];
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-domain-hook-'));
+		const aceDir = path.join(root, '.cursor', 'ace');
+		fs.mkdirSync(aceDir, { recursive: true });
+		fs.writeFileSync(path.join(aceDir, 'runtime-settings.json'), JSON.stringify({ shareRawPromptsForRetrievalAnalysis: true }));
+		fs.writeFileSync(getDomainsConfigPath(aceDir), JSON.stringify({ rules: [{ glob: 'services/billing/**', domain: 'billing' }] }));
+		ctx = {
+			workspaceRoot: root,
+			aceDir,
+			searchHelperPath: '',
+			learnHelperPath: '',
+			now: () => new Date(),
+			search: async (query, allowedDomains) => {
+				searches.push({ query, allowedDomains });
+				return { rc: 0, stdout: JSON.stringify({ similar_patterns: [{ id: 'p1', content: query }] }) };
+			},
+			learn: () => 0,
+		};
+	});
+	afterEach(() => { fs.rmSync(root, { recursive: true, force: true }); });
+
+	it('injects patterns under the workspace-configured domain', async () => {
+		const file = path.join(root, 'services', 'billing', 'invoice.ts');
+		const payload = parseHookPayload(JSON.stringify({ conversation_id: 'c1', generation_id: 'g1', tool_name: 'Read', tool_input: { file_path: file } }));
+		const out = await handleDomainShift(payload, ctx) as Record<string, string>;
+		expect(out.additional_context).toContain('domain="billing"');
+		// No pattern_cache.json yet — nothing to narrow to.
+		expect(searches).toEqual([{ query: 'billing invoice', allowedDomains: undefined }]);
+	});
+
+	it('narrows the search to the closest server domain from pattern_cache.json', async () => {
+		fs.writeFileSync(path.join(ctx.aceDir, 'pattern_cache.json'), JSON.stringify({
+			patternCount: 9, domains: ['typescript-development-practices', 'billing-and-invoicing'],
+		}));
+		const file = path.join(root, 'services', 'billing', 'invoice.ts');
+		const payload = parseHookPayload(JSON.stringify({ conversation_id: 'c1', generation_id: 'g1', tool_name: 'Read', tool_input: { file_path: file } }));
+		const out = await handleDomainShift(payload, ctx) as Record<string, string>;
+		expect(searches).toEqual([{ query: 'billing-and-invoicing invoice', allowedDomains: ['billing-and-invoicing'] }]);
+		expect(out.additional_context).toContain('domain="billing-and-invoicing"');
+		const [injection] = readInjections(path.join(ctx.aceDir, 'tasks', 'c1'));
+		expect(injection).toMatchObject({
+			source: 'domain_shift', query: 'billing-and-invoicing invoice', domain: 'billing', server_domain: 'billing-and-invoicing', patterns: [{ id: 'p1' }],
+		});
+	});
+});
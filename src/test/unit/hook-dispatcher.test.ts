@@ -0,0 +1,202 @@
+/**
+ * Tests for the Node hook dispatcher (src/hooks): payload parsing, the
+ * lifecycle/tracker handlers, fail-open behaviour, and one end-to-end run of
+ * the bundled ace_hook.js the way hooks.json invokes it.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { buildSync } from 'esbuild';
+import { HOOK_EVENTS, parseHookPayload, readLastUserPrompt, truncate } from '../../hooks/payload';
+import { HOOK_HANDLERS, failOpenOutput, runHook } from '../../hooks/handlers';
+import type { HookContext } from '../../hooks/hookContext';
+
+describe('parseHookPayload', () => {
+	it('reads the common fields', () => {
+		const p = parseHookPayload(JSON.stringify({
+			conversation_id: 'c1',
+			generation_id: 'g1',
+			transcript_path: '/t.jsonl',
+			tool_name: 'Read',
+			tool_type: 'native',
+			tool_input: '{"file_path":"/ws/src/a.ts"}',
+		}));
+		expect(p).toMatchObject({
+			conversationId: 'c1', generationId: 'g1', transcriptPath: '/t.jsonl', toolName: 'Read', toolType: 'native', filePath: '/ws/src/a.ts',
+		});
+	});
+
+	it('falls back to conv_id and the top-level file_path, and drops "null" ids', () => {
+		const p = parseHookPayload(JSON.stringify({ conv_id: 'old', generation_id: 'null', file_path: '/ws/b.ts' }));
+		expect(p.conversationId).toBe('old');
+		expect(p.generationId).toBe('');
+		expect(p.filePath).toBe('/ws/b.ts');
+	});
+
+	it('yields an empty payload for malformed or non-object input', () => {
+		for (const input of ['', 'not json', '[1,2]', 'null', '"text"']) {
+			expect(parseHookPayload(input)).toMatchObject({ conversationId: '', toolName: '', filePath: '', raw: {} });
+		}
+	});
+});
+
+describe('readLastUserPrompt / truncate', () => {
+	let tmp: string;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-prompt-')); });
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	it('returns the text parts of the last user message', () => {
+		const transcript = path.join(tmp, 't.jsonl');
+		fs.writeFileSync(transcript, [
+			JSON.stringify({ role: 'user', message: { content: [{ type: 'text', text: 'first' }] } }),
+			JSON.stringify({ role: 'assistant', message: { content: [{ type: 'text', text: 'reply' }] } }),
+			JSON.stringify({ role: 'user', message: { content: [{ type: 'text', text: 'fix' }, { type: 'image' }, { type: 'text', text: 'login' }] } }),
+		].join('\n') + '\n');
+		expect(readLastUserPrompt(transcript)).toBe('fix login');
+	});
+
+	it('returns "" for a missing transcript', () => {
+		expect(readLastUserPrompt(path.join(tmp, 'missing.jsonl'))).toBe('');
+		expect(readLastUserPrompt('')).toBe('');
+	});
+
+	it('never splits a code point', () => {
+		expect(truncate('a😀b', 2)).toBe('a😀');
+	});
+});
+
+describe('hook handlers', () => {
+	let tmp: string;
+	let ctx: HookContext;
+	beforeEach(() => {
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-handlers-'));
+		ctx = {
+			workspaceRoot: tmp,
+			aceDir: path.join(tmp, '.cursor', 'ace'),
+			searchHelperPath: path.join(tmp, 'ext', 'scripts', 'ace_search_helper.js'),
+			learnHelperPath: path.join(tmp, 'ext', 'scripts', 'ace_learn_helper.js'),
+			now: () => new Date('2026-01-01T00:00:00Z'),
+			search: async () => ({ rc: 0, stdout: '{}' }),
+			learn: () => 0,
+		};
+	});
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	const readJsonl = (name: string) => fs.readFileSync(path.join(ctx.aceDir, name), 'utf-8').trim().split('\n').map(l => JSON.parse(l));
+
+	it('has a handler for every event hooks.json registers', () => {
+		expect(Object.keys(HOOK_HANDLERS).sort()).toEqual([...HOOK_EVENTS].sort());
+	});
+
+	it('sessionStart resets the trajectory and mentions the cached patterns', async () => {
+		fs.mkdirSync(ctx.aceDir, { recursive: true });
+		fs.writeFileSync(path.join(ctx.aceDir, 'mcp_trajectory.jsonl'), '{"stale":true}\n');
+		fs.writeFileSync(path.join(ctx.aceDir, 'pattern_cache.json'), JSON.stringify({ patternCount: 12, domains: ['auth', 'api'] }));
+		const out = await runHook('sessionStart', JSON.stringify({ session_id: 's1' }), ctx) as Record<string, any>;
+		expect(out.env).toEqual({ ACE_SESSION_ID: 's1' });
+		expect(out.additional_context).toContain('12 patterns across domains: auth, api');
+		expect(fs.readFileSync(path.join(ctx.aceDir, 'mcp_trajectory.jsonl'), 'utf-8')).toBe('');
+		expect(JSON.parse(fs.readFileSync(path.join(ctx.aceDir, 'current_session.json'), 'utf-8'))).toMatchObject({ session_id: 's1' });
+	});
+
+	it('sessionEnd logs the trajectory counts and prints nothing', async () => {
+		fs.mkdirSync(ctx.aceDir, { recursive: true });
+		fs.writeFileSync(path.join(ctx.aceDir, 'mcp_trajectory.jsonl'), '{}\n{}\n');
+		expect(await runHook('sessionEnd', JSON.stringify({ session_id: 's1', reason: 'user_closed' }), ctx)).toBeUndefined();
+		expect(readJsonl('session_log.jsonl')[0]).toMatchObject({ session_id: 's1', reason: 'user_closed', trajectory: { mcp: 2 } });
+	});
+
+	it('subagentStop records the subagent transcript path', async () => {
+		await runHook('subagentStop', JSON.stringify({ subagent_type: 'explore', status: 'completed', agent_transcript_path: '/t/sub.jsonl' }), ctx);
+		expect(readJsonl('subagent_transcripts.jsonl')[0]).toMatchObject({ subagent_type: 'explore', transcript_path: '/t/sub.jsonl' });
+	});
+
+	it('beforeShellExecution logs the command and allows it', async () => {
+		expect(await runHook('beforeShellExecution', JSON.stringify({ command: 'npm test' }), ctx)).toEqual({ permission: 'allow' });
+		expect(readJsonl('shell_trajectory.jsonl')[0]).toMatchObject({ event: 'before_shell', command: 'npm test' });
+	});
+
+	it('beforeSubmitPrompt continues and logs cached pattern stats', async () => {
+		fs.mkdirSync(ctx.aceDir, { recursive: true });
+		fs.writeFileSync(path.join(ctx.aceDir, 'pattern_cache.json'), JSON.stringify({ patternCount: 3, domains: ['auth'], avgConfidence: 0.7 }));
+		expect(await runHook('beforeSubmitPrompt', '{}', ctx)).toEqual({ continue: true });
+		expect(readJsonl('ace-relevance.jsonl')[0]).toMatchObject({ event: 'search', patterns_injected: 3, avg_confidence: 0.7 });
+	});
+
+	it('fails open when a handler throws', async () => {
+		// A file where the .cursor dir should be makes every write throw.
+		fs.writeFileSync(path.join(tmp, '.cursor'), '');
+		const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+		try {
+			expect(await runHook('beforeShellExecution', '{"command":"ls"}', ctx)).toEqual({ permission: 'allow' });
+			expect(await runHook('sessionStart', '{}', ctx)).toEqual({});
+			expect(stderr).toHaveBeenCalledWith(expect.stringContaining('[ACE] sessionStart hook failed'));
+		} finally {
+			stderr.mockRestore();
+		}
+	});
+
+	it('fail-open output keeps gates open and prompts flowing', () => {
+		expect(failOpenOutput('preToolUse')).toEqual({ permission: 'allow' });
+		expect(failOpenOutput('beforeReadFile')).toEqual({ permission: 'allow' });
+		expect(failOpenOutput('beforeSubmitPrompt')).toEqual({ continue: true });
+		expect(failOpenOutput('afterMCPExecution')).toBeUndefined();
+		expect(failOpenOutput('stop')).toEqual({});
+	});
+});
+
+describe('ace_hook.js (bundled)', () => {
+	let tmp: string;
+	let dispatcher: string;
+	beforeAll(() => {
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-dispatcher-'));
+		// Same layout as the installed extension: <ext>/dist/hooks/ace_hook.js.
+		dispatcher = path.join(tmp, 'ext', 'dist', 'hooks', 'ace_hook.js');
+		buildSync({
+			entryPoints: [path.resolve(__dirname, '../../hooks/aceHook.ts')],
+			outfile: dispatcher,
+			bundle: true,
+			format: 'cjs',
+			platform: 'node',
+			target: 'node18',
+			logLevel: 'silent',
+		});
+	});
+	afterAll(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	const run = (event: string, input: string) => {
+		const ws = fs.mkdtempSync(path.join(tmp, 'ws-'));
+		const res = spawnSync(process.execPath, [dispatcher, event], {
+			input,
+			cwd: ws,
+			encoding: 'utf-8',
+			// No daemon socket under this HOME — searches fall through to the helper.
+			env: { ...process.env, HOME: tmp, USERPROFILE: tmp },
+			timeout: 15000,
+		});
+		return { ws, status: res.status, stdout: res.stdout };
+	};
+
+	it('prints the handler output for the event and exits 0', () => {
+		const res = run('beforeMCPExecution', JSON.stringify({ tool_name: 'ace_search', tool_input: '{"query":"jwt"}' }));
+		expect(res.status).toBe(0);
+		expect(JSON.parse(res.stdout)).toEqual({ permission: 'allow' });
+		expect(fs.existsSync(path.join(res.ws, '.cursor', 'ace', 'mcp_trajectory.jsonl'))).toBe(true);
+	});
+
+	it('prints nothing for fire-and-forget events', () => {
+		const res = run('afterMCPExecution', JSON.stringify({ tool_name: 'Read', conversation_id: 'c1' }));
+		expect(res.status).toBe(0);
+		expect(res.stdout).toBe('');
+		expect(fs.existsSync(path.join(res.ws, '.cursor', 'ace', 'tasks', 'c1', 'mcp_trajectory.jsonl'))).toBe(true);
+	});
+
+	it('prints {} for an unknown event', () => {
+		const res = run('afterSomethingNew', '{}');
+		expect(res.status).toBe(0);
+		expect(res.stdout).toBe('{}\n');
+	});
+});
@@ -1,17 +1,32 @@
 /**
- * Unit tests for rule content getters in src/ace/hookScripts.ts.
+ * Unit tests for rule content getters in src/ace/hookScripts.ts and the
+ * gate behavior of the hook dispatcher (src/hooks/handlers.ts).
  * Covers: ace-patterns trigger phrasing + alwaysApply collapse on
  * the two secondary rules.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import {
 	getAcePatternsRuleContent,
 	getDomainSearchRuleContent,
-	getMcpTrackScriptContent,
-	getPreToolUseScriptContent,
-	getPreToolUsePsScriptContent,
 } from '../../ace/hookScripts';
+import { runHook } from '../../hooks/handlers';
+import type { HookContext } from '../../hooks/hookContext';
+import type { HookEvent } from '../../hooks/payload';
+
+/** Hook context rooted at `cwd` whose search finds nothing. */
+const makeCtx = (cwd: string): HookContext => ({
+	workspaceRoot: cwd,
+	aceDir: path.join(cwd, '.cursor', 'ace'),
+	searchHelperPath: path.join(cwd, 'ext', 'scripts', 'ace_search_helper.js'),
+	learnHelperPath: path.join(cwd, 'ext', 'scripts', 'ace_learn_helper.js'),
+	now: () => new Date(),
+	search: async () => ({ rc: 0, stdout: '{}' }),
+	learn: () => 0,
+});
 
 describe('ace-patterns RULE.mdc content', () => {
 	// v0.5.0-dev.19 Task F — Cursor 3.0.16+ silently ignores alwaysApply: true
@@ -109,160 +124,94 @@ describe('rule getters return non-empty strings', () => {
 // ===========================================================================
 // v0.5.0-dev.19 Task A — per-conversation trajectory rotation
 // ===========================================================================
-describe('ace_track_mcp.sh — Task A per-conversation trajectory rotation', () => {
-	const writeScript = async (content: string) => {
-		const fsMod = await import('node:fs');
-		const osMod = await import('node:os');
-		const pathMod = await import('node:path');
-		const tmp = pathMod.join(osMod.tmpdir(), `ace-mcptrack-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`);
-		fsMod.writeFileSync(tmp, content, { mode: 0o755 });
-		return { tmp, fsMod, osMod, pathMod };
-	};
+describe('afterMCPExecution — Task A per-conversation trajectory rotation', () => {
+	let cwd: string;
+	beforeEach(() => { cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'mcptrack-cwd-')); });
+	afterEach(() => { fs.rmSync(cwd, { recursive: true, force: true }); });
 
-	it('source mentions tasks/<conv_id>/mcp_trajectory.jsonl path', () => {
-		const script = getMcpTrackScriptContent();
-		expect(script).toContain('tasks/$conv_id_for_traj');
-		// The script materializes the per-conv path through $per_conv_dir.
-		expect(script).toMatch(/per_conv_dir="\$ace_dir\/tasks\/\$conv_id_for_traj"/);
-		expect(script).toMatch(/per_conv_dir\/mcp_trajectory\.jsonl/);
-	});
+	const track = (payload: Record<string, unknown>) => runHook('afterMCPExecution', JSON.stringify(payload), makeCtx(cwd));
 
-	it('source still falls back to top-level path when conv_id is missing', () => {
-		const script = getMcpTrackScriptContent();
-		// Top-level fallback path is still written for backwards compat.
-		expect(script).toMatch(/echo "\$input" >> "\$ace_dir\/mcp_trajectory\.jsonl"/);
+	it('writes to per-conv subdir when conversation_id present', async () => {
+		expect(await track({ tool_name: 'Bash', tool_input: '{"command":"ls"}', conversation_id: 'conv-A1' })).toBeUndefined();
+		const perConvPath = path.join(cwd, '.cursor', 'ace', 'tasks', 'conv-A1', 'mcp_trajectory.jsonl');
+		expect(fs.existsSync(perConvPath), `expected per-conv jsonl at ${perConvPath}`).toBe(true);
+		expect(fs.readFileSync(perConvPath, 'utf-8')).toMatch(/conv-A1/);
+		// Top-level should NOT be written when conv_id present.
+		expect(fs.existsSync(path.join(cwd, '.cursor', 'ace', 'mcp_trajectory.jsonl'))).toBe(false);
 	});
 
-	it('runtime — writes to per-conv subdir when conversation_id present', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const { tmp, fsMod, osMod, pathMod } = await writeScript(getMcpTrackScriptContent());
-		const cwd = fsMod.mkdtempSync(pathMod.join(osMod.tmpdir(), 'mcptrack-cwd-'));
-		try {
-			execFileSync('bash', [tmp], {
-				input: JSON.stringify({
-					tool_name: 'Bash',
-					tool_input: '{"command":"ls"}',
-					conversation_id: 'conv-A1',
-				}),
-				encoding: 'utf-8',
-				cwd,
-			});
-			const perConvPath = pathMod.join(cwd, '.cursor', 'ace', 'tasks', 'conv-A1', 'mcp_trajectory.jsonl');
-			expect(fsMod.existsSync(perConvPath), `expected per-conv jsonl at ${perConvPath}`).toBe(true);
-			const content = fsMod.readFileSync(perConvPath, 'utf-8');
-			expect(content).toMatch(/conv-A1/);
-			// Top-level should NOT be written when conv_id present.
-			const topLevel = pathMod.join(cwd, '.cursor', 'ace', 'mcp_trajectory.jsonl');
-			expect(fsMod.existsSync(topLevel)).toBe(false);
-		} finally {
-			fsMod.unlinkSync(tmp);
-			fsMod.rmSync(cwd, { recursive: true, force: true });
-		}
+	it('falls back to top-level when conversation_id missing', async () => {
+		await track({ tool_name: 'Bash', tool_input: '{"command":"ls"}' });
+		expect(fs.existsSync(path.join(cwd, '.cursor', 'ace', 'mcp_trajectory.jsonl'))).toBe(true);
 	});
 
-	it('runtime — falls back to top-level when conversation_id missing', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const { tmp, fsMod, osMod, pathMod } = await writeScript(getMcpTrackScriptContent());
-		const cwd = fsMod.mkdtempSync(pathMod.join(osMod.tmpdir(), 'mcptrack-fallback-'));
-		try {
-			execFileSync('bash', [tmp], {
-				input: JSON.stringify({
-					tool_name: 'Bash',
-					tool_input: '{"command":"ls"}',
-					// no conversation_id
-				}),
-				encoding: 'utf-8',
-				cwd,
-			});
-			const topLevel = pathMod.join(cwd, '.cursor', 'ace', 'mcp_trajectory.jsonl');
-			expect(fsMod.existsSync(topLevel)).toBe(true);
-		} finally {
-			fsMod.unlinkSync(tmp);
-			fsMod.rmSync(cwd, { recursive: true, force: true });
-		}
+	it('accepts the older conv_id field', async () => {
+		await track({ tool_name: 'Read', conv_id: 'conv-old' });
+		expect(fs.existsSync(path.join(cwd, '.cursor', 'ace', 'tasks', 'conv-old', 'mcp_trajectory.jsonl'))).toBe(true);
 	});
 
-	it('runtime — multiple conv_ids produce isolated jsonl files', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const { tmp, fsMod, osMod, pathMod } = await writeScript(getMcpTrackScriptContent());
-		const cwd = fsMod.mkdtempSync(pathMod.join(osMod.tmpdir(), 'mcptrack-multi-'));
-		try {
-			for (const conv of ['conv-X', 'conv-Y', 'conv-X']) {
-				execFileSync('bash', [tmp], {
-					input: JSON.stringify({
-						tool_name: 'Read',
-						tool_input: '{}',
-						conversation_id: conv,
-					}),
-					encoding: 'utf-8',
-					cwd,
-				});
-			}
-			const xPath = pathMod.join(cwd, '.cursor', 'ace', 'tasks', 'conv-X', 'mcp_trajectory.jsonl');
-			const yPath = pathMod.join(cwd, '.cursor', 'ace', 'tasks', 'conv-Y', 'mcp_trajectory.jsonl');
-			expect(fsMod.existsSync(xPath)).toBe(true);
-			expect(fsMod.existsSync(yPath)).toBe(true);
-			expect(fsMod.readFileSync(xPath, 'utf-8').split('\n').filter(Boolean).length).toBe(2);
-			expect(fsMod.readFileSync(yPath, 'utf-8').split('\n').filter(Boolean).length).toBe(1);
-		} finally {
-			fsMod.unlinkSync(tmp);
-			fsMod.rmSync(cwd, { recursive: true, force: true });
+	it('multiple conv_ids produce isolated jsonl files', async () => {
+		for (const conv of ['conv-X', 'conv-Y', 'conv-X']) {
+			await track({ tool_name: 'Read', tool_input: '{}', conversation_id: conv });
 		}
+		const xPath = path.join(cwd, '.cursor', 'ace', 'tasks', 'conv-X', 'mcp_trajectory.jsonl');
+		const yPath = path.join(cwd, '.cursor', 'ace', 'tasks', 'conv-Y', 'mcp_trajectory.jsonl');
+		expect(fs.readFileSync(xPath, 'utf-8').split('\n').filter(Boolean).length).toBe(2);
+		expect(fs.readFileSync(yPath, 'utf-8').split('\n').filter(Boolean).length).toBe(1);
 	});
 });
 
-describe('ace_track_mcp.sh content', () => {
-	it('writes search-done flag when tool_name is ace_search', () => {
-		const script = getMcpTrackScriptContent();
-		// The script must check for ace_search BARE name (afterMCPExecution
-		// delivers tool_name without MCP: prefix per real log evidence).
-		expect(script).toMatch(/\$tool_name.*=.*"?ace_search"?/);
-		expect(script).toContain('search-done');
-	});
+describe('afterMCPExecution — search-done flag and ace_learn review', () => {
+	let cwd: string;
+	beforeEach(() => { cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'mcptrack-flag-')); });
+	afterEach(() => { fs.rmSync(cwd, { recursive: true, force: true }); });
 
-	it('uses bare tool_name (no MCP: prefix) for the comparison', () => {
-		const script = getMcpTrackScriptContent();
-		// Negative assertion: must NOT use MCP:ace_search for matching here
-		expect(script).not.toContain('MCP:ace_search');
-	});
+	const track = (payload: Record<string, unknown>) => runHook('afterMCPExecution', JSON.stringify(payload), makeCtx(cwd));
+	const flag = path.join('.cursor', 'ace', 'tasks', 'c1', 'g1.search-done');
 
-	it('creates the per-generation flag directory before touching the flag', () => {
-		const script = getMcpTrackScriptContent();
-		expect(script).toContain('mkdir -p');
-		expect(script).toContain('tasks');
+	it('writes the search-done flag when tool_name is the bare ace_search', async () => {
+		// afterMCPExecution delivers tool_name without the MCP: prefix.
+		await track({ tool_name: 'ace_search', tool_input: { query: 'jwt' }, conversation_id: 'c1', generation_id: 'g1' });
+		expect(fs.existsSync(path.join(cwd, flag))).toBe(true);
 	});
 
-	it('uses conversation_id and generation_id from input', () => {
-		const script = getMcpTrackScriptContent();
-		expect(script).toContain('conversation_id');
-		expect(script).toContain('generation_id');
+	it('does not treat the MCP:-prefixed name as ace_search', async () => {
+		await track({ tool_name: 'MCP:ace_search', tool_input: { query: 'jwt' }, conversation_id: 'c1', generation_id: 'g1' });
+		expect(fs.existsSync(path.join(cwd, flag))).toBe(false);
 	});
 
-	it('preserves the existing ace_learn detection (does not regress)', () => {
-		const script = getMcpTrackScriptContent();
-		expect(script).toContain('ace_learn');
+	it('turns the TIME_SAVED line of ace_learn output into ace-review-result.json', async () => {
+		await track({
+			tool_name: 'ace_learn',
+			tool_input: JSON.stringify({ output: 'TIME_SAVED: 20m | reused "retry" pattern\nmore' }),
+			conversation_id: 'c1',
+		});
+		const review = JSON.parse(fs.readFileSync(path.join(cwd, '.cursor', 'ace', 'ace-review-result.json'), 'utf-8'));
+		expect(review).toMatchObject({ helpful_pct: 60, time_saved: '20m', reason: 'reused "retry" pattern' });
 	});
 });
 
-// v0.3.1+ retired the preToolUse "search-first" gate (deny + agent_message).
-// v0.4.0 retired the helper.js subprocess that replaced it. Pattern injection
-// now lives in postToolUse via additional_context (covered by
-// src/test/unit/v04-security-cli.test.ts). The two getters below survive only
-// to write a fail-open allow stub for any orphan workspace still wired to the
-// retired hook path.
-describe('ace_pre_tool_use.sh content (v0.4.0 fail-open stub)', () => {
-	it('emits canonical {"permission":"allow"} (no decision: format)', () => {
-		const script = getPreToolUseScriptContent();
-		expect(script).toContain('"permission":"allow"');
-		expect(script).not.toContain('"decision":"allow"');
+// The preToolUse gate emits Cursor's canonical {"permission":...} schema.
+describe('preToolUse output schema', () => {
+	let cwd: string;
+	beforeEach(() => { cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-gate-schema-')); });
+	afterEach(() => { fs.rmSync(cwd, { recursive: true, force: true }); });
+
+	it('allows a non-ACE tool when patterns cannot be injected', async () => {
+		const out = await runHook('preToolUse', '{"tool_name":"Grep","conversation_id":"c1","generation_id":"g1"}', makeCtx(cwd));
+		expect(out).toEqual({ permission: 'allow' });
 	});
-});
 
-describe('ace_pre_tool_use.ps1 content (v0.4.0 fail-open stub)', () => {
-	it('emits canonical permission format', () => {
-		const ps = getPreToolUsePsScriptContent();
-		expect(ps).toContain('permission');
-		expect(ps).toContain('allow');
+	it('allows MCP:ace_search when it has a query', async () => {
+		const out = await runHook('preToolUse', JSON.stringify({ tool_name: 'MCP:ace_search', tool_input: { query: 'jwt' } }), makeCtx(cwd));
+		expect(out).toEqual({ permission: 'allow' });
+	});
+
+	it('fails open on malformed input for every gating event', async () => {
+		const gates: HookEvent[] = ['preToolUse', 'beforeShellExecution', 'beforeMCPExecution', 'beforeReadFile', 'beforeTabFileRead', 'subagentStart'];
+		for (const event of gates) {
+			expect(await runHook(event, 'not json', makeCtx(cwd)), event).toEqual({ permission: 'allow' });
+		}
 	});
 });
 
@@ -308,127 +257,61 @@ describe('rule call examples — named args only (MCP spec compliance)', () => {
 	});
 });
 
-// v0.4.0: gate agent_message tests retired with the gate. Named-args guidance
-// now lives in the rules (covered by 'rule call examples — named args only').
-
-describe('pre_tool_use script — bash syntax + runtime regression guards', () => {
-	// v0.2.76 shipped a broken script (line 39 unmatched single-quote inside an
-	// echo of a JSON string with embedded apostrophe). Fix uses a single-quoted
-	// heredoc instead of escape-laden echo. These tests guard against ever
-	// shipping a syntactically broken hook script again — they invoke bash -n
-	// and run the script with mock input via execFileSync (no shell pipe).
-	const writeScript = async (content: string) => {
-		const fs = await import('node:fs');
-		const os = await import('node:os');
-		const path = await import('node:path');
-		const tmp = path.join(os.tmpdir(), `ace-gate-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`);
-		fs.writeFileSync(tmp, content, { mode: 0o755 });
-		return { tmp, fs };
-	};
+describe('hook dispatcher — Cursor canonical permission schema (no Claude-Code "decision" key)', () => {
+	const readSources = () => ['../../extension.ts', '../../hooks/handlers.ts']
+		.map(rel => fs.readFileSync(path.resolve(__dirname, rel), 'utf-8'))
+		.join('\n');
 
-	it('bash -n parses the gate script with no syntax errors', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const script = getPreToolUseScriptContent();
-		const { tmp, fs } = await writeScript(script);
-		try {
-			// bash -n: parse only, no execute. Throws on syntax error.
-			execFileSync('bash', ['-n', tmp], { stdio: 'pipe' });
-		} finally {
-			fs.unlinkSync(tmp);
-		}
+	it('never emits {"decision":"allow"} (Claude Code legacy format)', () => {
+		// Catches both JSON literals and object-literal keys.
+		const matches = readSources().match(/["']?decision["']?\s*:\s*["']allow["']/g);
+		expect(matches, `found ${matches?.length} legacy decision-format strings`).toBeNull();
 	});
 
-	it('emits canonical {"permission":"allow"} for any tool input (v0.4.0 fail-open stub)', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const script = getPreToolUseScriptContent();
-		const { tmp, fs } = await writeScript(script);
-		try {
-			const out = execFileSync('bash', [tmp], {
-				input: '{"tool_name":"Grep","conversation_id":"c1","generation_id":"g1"}',
-				encoding: 'utf-8',
-			});
-			const parsed = JSON.parse(out.trim());
-			expect(parsed.permission).toBe('allow');
-		} finally {
-			fs.unlinkSync(tmp);
-		}
+	it('never emits {"decision":"deny"}', () => {
+		expect(readSources().match(/["']?decision["']?\s*:\s*["']deny["']/g)).toBeNull();
 	});
 
-	it('emits valid JSON on the allow path (MCP:ace_search)', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const script = getPreToolUseScriptContent();
-		const { tmp, fs } = await writeScript(script);
-		try {
-			const out = execFileSync('bash', [tmp], {
-				input: '{"tool_name":"MCP:ace_search","conversation_id":"c1","generation_id":"g1"}',
-				encoding: 'utf-8',
-			});
-			const parsed = JSON.parse(out.trim());
-			expect(parsed.permission).toBe('allow');
-		} finally {
-			fs.unlinkSync(tmp);
-		}
+	it('blocking hooks use the canonical permission key', () => {
+		const handlers = fs.readFileSync(path.resolve(__dirname, '../../hooks/handlers.ts'), 'utf-8');
+		expect(handlers).toMatch(/permission: 'allow'/);
+		expect(handlers).toMatch(/permission: 'deny'/);
 	});
 });
 
-describe('hook scripts — Cursor canonical permission schema (no Claude-Code "decision" key)', () => {
-	const readExt = async () => {
-		const fs = await import('node:fs');
-		const path = await import('node:path');
-		return fs.readFileSync(path.resolve(__dirname, '../../extension.ts'), 'utf-8');
+// v0.5.0-dev.13 — Cursor 150043 / CallMcpTool bug mitigation moved entirely
+// out of the rule layer (which is now minimal). The schema_violation_detected
+// log lives in the afterMCPExecution handler — covered below.
+describe('Cursor CallMcpTool bug mitigation (hook-level)', () => {
+	let cwd: string;
+	beforeEach(() => { cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-150043-')); });
+	afterEach(() => { fs.rmSync(cwd, { recursive: true, force: true }); });
+
+	const violations = () => {
+		const file = path.join(cwd, '.cursor', 'ace', 'ace-relevance.jsonl');
+		return fs.existsSync(file)
+			? fs.readFileSync(file, 'utf-8').trim().split('\n').map(l => JSON.parse(l)).filter(e => e.event === 'schema_violation_detected')
+			: [];
 	};
 
-	it('no hook script in extension.ts emits {"decision":"allow"} (Claude Code legacy format)', async () => {
-		const src = await readExt();
-		// Pattern: literal "decision":"allow" or "decision": "allow" anywhere.
-		// This catches both bash echo single-quoted and JS-template escaped variants.
-		const matches = src.match(/"decision"\s*:\s*"allow"/g);
-		expect(matches, `found ${matches?.length} legacy decision-format strings`).toBeNull();
-	});
-
-	it('no hook script in extension.ts emits {"decision":"deny"}', async () => {
-		const src = await readExt();
-		expect(src.match(/"decision"\s*:\s*"deny"/g)).toBeNull();
-	});
-
-	it('blocking hooks use {"permission":"allow"} canonical format', async () => {
-		const src = await readExt();
-		// At least 5 occurrences (the 5 blocking bash hooks) plus their PS1 twins
-		const matches = src.match(/"permission"\s*:\s*"allow"/g);
-		expect(matches?.length ?? 0, 'expected ≥5 permission:"allow" sites in extension.ts').toBeGreaterThanOrEqual(5);
+	it('logs empty-args ace_search / ace_learn calls', async () => {
+		for (const toolInput of [undefined, '', '{}', 'null', {}, { query: '' }, { query: null, allowed_domains: '' }]) {
+			await runHook('afterMCPExecution', JSON.stringify({ tool_name: 'ace_search', tool_input: toolInput }), makeCtx(cwd));
+		}
+		await runHook('afterMCPExecution', JSON.stringify({ tool_name: 'ace_learn', tool_input: '{}' }), makeCtx(cwd));
+		const logged = violations();
+		expect(logged).toHaveLength(8);
+		expect(logged[7]).toMatchObject({ tool: 'ace_learn', reason: 'empty_arguments_likely_cursor_callmcptool_bug_150043' });
 	});
-});
 
-// v0.5.0-dev.13 — Cursor 150043 / CallMcpTool bug mitigation moved entirely
-// out of the rule layer (which is now minimal). The schema_violation_detected
-// log path still lives in ace_track_mcp.sh — covered below.
-describe('Cursor CallMcpTool bug mitigation (script-level)', () => {
-	it('ace_track_mcp.sh detects empty-args ace_search/ace_learn', () => {
-		const script = getMcpTrackScriptContent();
-		expect(script).toContain('schema_violation_detected');
-		expect(script).toContain('ace_learn');
-		// must check for empty/null tool_input
-		expect(script).toMatch(/tool_input.*empty|is_empty/);
+	it('ignores calls that carry arguments', async () => {
+		await runHook('afterMCPExecution', JSON.stringify({ tool_name: 'ace_search', tool_input: '{"query":"jwt"}' }), makeCtx(cwd));
+		expect(violations()).toHaveLength(0);
 	});
 });
 
 describe('gate enforcement — search-only allow-list (v0.2.80)', () => {
-	const writeScript = async (content: string) => {
-		const fs = await import('node:fs');
-		const os = await import('node:os');
-		const path = await import('node:path');
-		const tmp = path.join(os.tmpdir(), `ace-gate-v80-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`);
-		fs.writeFileSync(tmp, content, { mode: 0o755 });
-		return { tmp, fs };
-	};
-
 	const runGate = async (toolName: string, withFlag = false) => {
-		const { execFileSync } = await import('node:child_process');
-		const fs = await import('node:fs');
-		const os = await import('node:os');
-		const path = await import('node:path');
-		const script = getPreToolUseScriptContent();
-		const { tmp, fs: fsMod } = await writeScript(script);
 		const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-gate-cwd-'));
 		try {
 			if (withFlag) {
@@ -436,20 +319,15 @@ describe('gate enforcement — search-only allow-list (v0.2.80)', () => {
 				fs.mkdirSync(flagDir, { recursive: true });
 				fs.writeFileSync(path.join(flagDir, 'g1.search-done'), '');
 			}
-			const out = execFileSync('bash', [tmp], {
-				input: JSON.stringify({ tool_name: toolName, conversation_id: 'c1', generation_id: 'g1' }),
-				encoding: 'utf-8',
-				cwd,
-			});
-			return JSON.parse(out.trim());
+			const input = JSON.stringify({ tool_name: toolName, tool_input: { query: 'q' }, conversation_id: 'c1', generation_id: 'g1' });
+			return (await runHook('preToolUse', input, makeCtx(cwd))) as Record<string, any>;
 		} finally {
-			fsMod.unlinkSync(tmp);
 			fs.rmSync(cwd, { recursive: true, force: true });
 		}
 	};
 
 	// v0.5.0-dev.4: ace_get_playbook + ace_learn are now SPECIAL-CASED in the
-	// preToolUse gate (silent rewrite + silent deny respectively). All other
+	// preToolUse gate (silent rewrite + allow-with-log respectively). All other
 	// ace_* tools still pass through unconditionally.
 	it('ALLOWS most ace_* MCP tools unconditionally', async () => {
 		for (const t of [
@@ -474,13 +352,13 @@ describe('gate enforcement — search-only allow-list (v0.2.80)', () => {
 		expect(r.permission).toBe('allow');
 		expect(r.updated_input).toBeDefined();
 		expect(r.updated_input.name).toBe('ace_search');
-		expect(r.updated_input.arguments.query).toBeDefined();
+		expect(r.updated_input.arguments.query).toBe('continue current task');
 	});
 
 	it('ALLOWS MCP:ace_learn as fallback (v0.5.0-dev.10+ — Stop hook may fail on Cursor stripped PATH)', async () => {
 		const r = await runGate('MCP:ace_learn', false);
 		// Was deny in earlier dev builds. Now allow so AI can fall back when
-		// the extension Stop hook can't run the helper (e.g. PATH missing node).
+		// the extension Stop hook can't run the helper.
 		expect(r.permission).toBe('allow');
 		// No agent_message — AI calls ace_learn at its own discretion.
 		expect(r.agent_message).toBeUndefined();
@@ -0,0 +1,112 @@
+/**
+ * Tests for the manual ExecutionTrace builder behind `ACE: Capture Learning`.
+ *
+ * The trace must match the learn helper's shape (v05Helpers.ts) so the
+ * server treats manual and Stop-hook learnings the same way.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	buildManualTrace,
+	listTaskConversations,
+	unwrapAceSearchResult,
+	extractLearnedPatterns,
+} from '../../ace/manualTrace';
+
+const git = { branch: 'main', hash: 'abc1234', isRepo: true };
+const now = new Date('2026-01-02T03:04:05.000Z');
+
+function mcpWrap(inner: any): string {
+	return JSON.stringify({ content: [{ type: 'text', text: JSON.stringify(inner) }], isError: false });
+}
+
+describe('buildManualTrace', () => {
+	it('answers-only trace has no trajectory and a manual session id', () => {
+		const trace = buildManualTrace({
+			task: 'Fix login', success: true, lessons: 'Check token expiry first',
+			conversationId: '', trajectoryLines: [], git, now,
+		});
+		expect(trace.trajectory).toEqual([]);
+		expect(trace.session_id).toBe(`manual-${now.getTime()}`);
+		expect(trace.agent_type).toBe('cursor');
+		expect(trace.result).toEqual({
+			success: true,
+			output: 'Success. Lessons learned: Check token expiry first',
+			summary: 'Check token expiry first',
+		});
+		expect(trace.git).toEqual({ branch: 'main', commit_hash: 'abc1234', isRepo: true });
+		expect(trace.timestamp).toBe(now.toISOString());
+	});
+
+	it('builds trajectory from the matching conversation only, skipping before_mcp markers', () => {
+		const lines = [
+			JSON.stringify({ conversation_id: 'conv-1', event: 'before_mcp', tool_name: 'ace_search' }),
+			JSON.stringify({ conversation_id: 'conv-1', tool_name: 'ace_search', tool_input: '{"query":"auth"}', result_json: mcpWrap({ results: [{ id: 'p1', content: 'x'.repeat(600) }], session_id: 'srv-9' }) }),
+			JSON.stringify({ conversation_id: 'other', tool_name: 'ace_search', tool_input: '{}' }),
+			'not json',
+			JSON.stringify({ conversation_id: 'conv-1', tool_name: 'filesystem/read', tool_input: { path: 'a.ts' }, tool_output: 'ok' }),
+		];
+		const trace = buildManualTrace({
+			task: 'T', success: false, lessons: '', conversationId: 'conv-1', trajectoryLines: lines, git, now,
+		});
+		expect(trace.trajectory.map(s => s.action)).toEqual(['ace_search', 'filesystem/read']);
+		expect(trace.trajectory[0].args).toEqual({ query: 'auth' });
+		expect(trace.trajectory[1]).toMatchObject({ step: 2, args: { path: 'a.ts' }, result: 'ok' });
+		expect(trace.session_id).toBe('srv-9');
+		expect(trace.agent_id).toBe('cursor-conv-1');
+		expect(trace.playbook_used).toEqual(['p1']);
+		expect((trace.received_patterns[0].content as string).length).toBe(501);
+		expect(trace.result.output).toBe('Failure');
+	});
+
+	it('falls back to conversation id as session_id when no ace_search ran', () => {
+		const trace = buildManualTrace({
+			task: 'T', success: true, lessons: 'l', conversationId: 'abcdef123456',
+			trajectoryLines: [JSON.stringify({ conversation_id: 'abcdef123456', tool_name: 'x' })], git, now,
+		});
+		expect(trace.session_id).toBe('abcdef123456');
+		expect(trace.agent_id).toBe('cursor-abcdef12');
+	});
+});
+
+describe('unwrapAceSearchResult', () => {
+	it('handles direct and MCP-wrapped shapes', () => {
+		expect(unwrapAceSearchResult({ similar_patterns: [{ id: 'a' }], session_id: 's' })).toEqual({ results: [{ id: 'a' }], sessionId: 's' });
+		expect(unwrapAceSearchResult(mcpWrap({ results: [{ id: 'b' }] })).results).toEqual([{ id: 'b' }]);
+		expect(unwrapAceSearchResult('garbage')).toEqual({ results: [], sessionId: '' });
+	});
+});
+
+describe('extractLearnedPatterns', () => {
+	it('collects known pattern arrays with labels', () => {
+		const groups = extractLearnedPatterns({ stored: true, new_patterns: [{ content: 'a' }], updated_patterns: [{ content: 'b' }], delta: [] });
+		expect(groups.map(g => g.label)).toEqual(['New patterns', 'Updated patterns']);
+	});
+
+	it('returns [] for non-objects', () => {
+		expect(extractLearnedPatterns(null)).toEqual([]);
+	});
+});
+
+describe('listTaskConversations', () => {
+	let tmp: string;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-manual-trace-')); });
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	it('returns [] when tasks/ is missing', () => {
+		expect(listTaskConversations(tmp)).toEqual([]);
+	});
+
+	it('lists only conversations with a trajectory, newest first', () => {
+		for (const id of ['old', 'new', 'empty']) {
+			fs.mkdirSync(path.join(tmp, 'tasks', id), { recursive: true });
+		}
+		fs.writeFileSync(path.join(tmp, 'tasks', 'old', 'mcp_trajectory.jsonl'), '');
+		fs.writeFileSync(path.join(tmp, 'tasks', 'new', 'mcp_trajectory.jsonl'), '');
+		fs.utimesSync(path.join(tmp, 'tasks', 'old', 'mcp_trajectory.jsonl'), 1000, 1000);
+		expect(listTaskConversations(tmp).map(c => c.id)).toEqual(['new', 'old']);
+	});
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for the local Streamable-HTTP transport (src/mcp/httpTransport.ts):
+ * auth, sessions, batches and the GET stream against a fake proxy, then the
+ * real baked ace_mcp_proxy.js returning ace_search results whole.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CHILD_UNAVAILABLE_CODE, getAceMcpProxyContent } from '../../mcp/ace-mcp-proxy';
+import {
+	MCP_HTTP_PATH,
+	MCP_SESSION_HEADER,
+	McpHttpServer,
+	type McpHttpEndpoint,
+} from '../../mcp/httpTransport';
+
+// Answers every request on its own line with the method and the transport
+// env var it was started with. "slow" answers after 300 ms, "die" complains
+// on stderr and exits.
+const FAKE_PROXY = `
+const out = (m) => process.stdout.write(JSON.stringify(m) + '\\n');
+function handle(m) {
+  if (m.method === 'notifications/initialized') return out({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+  if (m.id === undefined) return;
+  if (m.method === 'die') { process.stderr.write('dying\\n'); process.exit(3); }
+  if (m.method === 'slow') return setTimeout(() => out({ jsonrpc: '2.0', id: m.id, result: { late: true } }), 300);
+  out({ jsonrpc: '2.0', id: m.id, result: { method: m.method, transport: process.env.ACE_PROXY_TRANSPORT } });
+}
+let buf = '';
+process.stdin.on('data', (c) => {
+  buf += c;
+  let nl;
+  while ((nl = buf.indexOf('\\n')) !== -1) {
+    const parsed = JSON.parse(buf.slice(0, nl));
+    buf = buf.slice(nl + 1);
+    for (const m of Array.isArray(parsed) ? parsed : [parsed]) handle(m);
+  }
+});
+process.stdin.on('end', () => process.exit(0));
+`;
+
+/** A JSON-RPC response as the endpoint returns it. */
+interface RpcReply {
+	jsonrpc: '2.0';
+	id: string | number;
+	result?: Record<string, any>;
+	error?: { code: number; message: string };
+}
+
+const initialize = { jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {} } };
+
+function post(endpoint: McpHttpEndpoint, body: unknown, session?: string | null, headers = endpoint.headers) {
+	return fetch(endpoint.url, {
+		method: 'POST',
+		headers: {
+			...headers,
+			'Content-Type': 'application/json',
+			Accept: 'application/json, text/event-stream',
+			...(session ? { [MCP_SESSION_HEADER]: session } : {}),
+		},
+		body: typeof body === 'string' ? body : JSON.stringify(body),
+	});
+}
+
+describe('McpHttpServer', () => {
+	let tmp: string;
+	let server: McpHttpServer;
+	let endpoint: McpHttpEndpoint;
+	let logs: string[];
+	beforeEach(async () => {
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-http-'));
+		fs.writeFileSync(path.join(tmp, 'proxy.js'), FAKE_PROXY);
+		logs = [];
+		server = new McpHttpServer({ command: process.execPath, args: [path.join(tmp, 'proxy.js')], env: {}, cwd: tmp }, m => logs.push(m));
+		endpoint = await server.start();
+	});
+	afterEach(() => {
+		server.dispose();
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	const start = async () => {
+		const res = await post(endpoint, initialize);
+		expect(res.status).toBe(200);
+		return res.headers.get(MCP_SESSION_HEADER)!;
+	};
+
+	it('listens on loopback and requires the bearer token', async () => {
+		expect(endpoint.url).toMatch(new RegExp(`^http://127\\.0\\.0\\.1:\\d+${MCP_HTTP_PATH}$`));
+		expect(endpoint.headers.Authorization).toMatch(/^Bearer [0-9a-f]{64}$/);
+		expect((await post(endpoint, initialize, null, {})).status).toBe(401);
+		expect((await post(endpoint, initialize, null, { Authorization: 'Bearer nope' })).status).toBe(401);
+		expect((await fetch(endpoint.url.replace(MCP_HTTP_PATH, '/other'), { headers: endpoint.headers })).status).toBe(404);
+		expect((await fetch(endpoint.url, { method: 'PUT', headers: endpoint.headers })).status).toBe(405);
+	});
+
+	it('starts a proxy per session and answers requests with JSON', async () => {
+		const res = await post(endpoint, initialize);
+		const session = res.headers.get(MCP_SESSION_HEADER);
+		expect(session).toBeTruthy();
+		expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 0, result: { method: 'initialize', transport: 'http' } });
+
+		expect((await post(endpoint, { jsonrpc: '2.0', method: 'notifications/initialized' }, session)).status).toBe(202);
+		const list = await post(endpoint, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, session);
+		expect(((await list.json()) as RpcReply).result?.method).toBe('tools/list');
+
+		expect((await post(endpoint, { jsonrpc: '2.0', id: 2, method: 'tools/list' })).status).toBe(400);
+		expect((await post(endpoint, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, 'stale')).status).toBe(404);
+		expect((await post(endpoint, '{ nope', session)).status).toBe(400);
+		expect(logs).toEqual(['MCP HTTP session started']);
+	});
+
+	it('answers a batch once every request in it is answered', async () => {
+		const session = await start();
+		const res = await post(endpoint, [
+			{ jsonrpc: '2.0', id: 'a', method: 'slow' },
+			{ jsonrpc: '2.0', method: 'notifications/progress' },
+			{ jsonrpc: '2.0', id: 1, method: 'tools/list' },
+			{ jsonrpc: '2.0', id: '1', method: 'resources/list' },
+		], session);
+		const replies = (await res.json()) as RpcReply[];
+		expect(replies.map(r => r.id)).toEqual([1, '1', 'a']);
+		expect(replies[2].result).toEqual({ late: true });
+	});
+
+	it('streams what the proxy sends unprompted to GET listeners', async () => {
+		const session = await start();
+		const stream = await fetch(endpoint.url, { headers: { ...endpoint.headers, Accept: 'text/event-stream', [MCP_SESSION_HEADER]: session } });
+		expect(stream.headers.get('content-type')).toBe('text/event-stream');
+		await post(endpoint, { jsonrpc: '2.0', method: 'notifications/initialized' }, session);
+		const reader = stream.body!.getReader();
+		const { value } = await reader.read();
+		expect(new TextDecoder().decode(value)).toBe('event: message\ndata: {"jsonrpc":"2.0","method":"notifications/tools/list_changed"}\n\n');
+		await reader.cancel();
+	});
+
+	it('fails pending requests when the proxy exits and retires its session', async () => {
+		const session = await start();
+		const res = await post(endpoint, [{ jsonrpc: '2.0', id: 5, method: 'slow' }, { jsonrpc: '2.0', id: 6, method: 'die' }], session);
+		const replies = (await res.json()) as RpcReply[];
+		expect(replies.map(r => r.error?.code)).toEqual([CHILD_UNAVAILABLE_CODE, CHILD_UNAVAILABLE_CODE]);
+		expect(replies[0].error?.message).toBe('ACE MCP proxy exited with code 3 before answering; retry the request.');
+		expect((await post(endpoint, { jsonrpc: '2.0', id: 7, method: 'tools/list' }, session)).status).toBe(404);
+		expect(logs).toContain('MCP HTTP session ended: proxy exited with code 3');
+		await vi.waitFor(() => expect(logs).toContain('MCP proxy: dying'));
+		// Re-initializing starts a fresh proxy.
+		expect(await start()).not.toBe(session);
+	});
+
+	it('ends the session on DELETE', async () => {
+		const session = await start();
+		const res = await fetch(endpoint.url, { method: 'DELETE', headers: { ...endpoint.headers, [MCP_SESSION_HEADER]: session } });
+		expect(res.status).toBe(200);
+		expect((await post(endpoint, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, session)).status).toBe(404);
+	});
+});
+
+describe('McpHttpServer — baked proxy', () => {
+	let tmp: string;
+	let server: McpHttpServer | undefined;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-http-proxy-')); });
+	afterEach(() => {
+		server?.dispose();
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	it('returns ace_search results whole, with no packing', async () => {
+		const results = Array.from({ length: 60 }, (_, i) => ({ id: `pat-${i}`, content: 'x'.repeat(400) }));
+		const searchText = JSON.stringify({ query: 'jwt', results, count: 60, session_id: 'sess-1' });
+		const binDir = path.join(tmp, 'bin');
+		fs.mkdirSync(binDir);
+		fs.writeFileSync(path.join(binDir, 'npx'), `#!/usr/bin/env node
+const out = (m) => process.stdout.write(JSON.stringify(m) + '\\n');
+let buf = '';
+process.stdin.on('data', (c) => {
+  buf += c;
+  let nl;
+  while ((nl = buf.indexOf('\\n')) !== -1) {
+    const m = JSON.parse(buf.slice(0, nl));
+    buf = buf.slice(nl + 1);
+    if (m.method === 'initialize') out({ jsonrpc: '2.0', id: m.id, result: { protocolVersion: '2025-03-26', serverInfo: { name: 'fake' }, capabilities: {} } });
+    if (m.method === 'tools/call') out({ jsonrpc: '2.0', id: m.id, result: { content: [{ type: 'text', text: ${JSON.stringify(searchText)} }] } });
+  }
+});
+process.stdin.on('end', () => process.exit(0));
+`, { mode: 0o755 });
+		const proxyPath = path.join(tmp, 'ace_mcp_proxy.js');
+		fs.writeFileSync(proxyPath, getAceMcpProxyContent());
+		server = new McpHttpServer({
+			command: process.execPath,
+			args: [proxyPath],
+			env: { PATH: `${binDir}${path.delimiter}${process.env.PATH || ''}`, npm_config_cache: path.join(tmp, 'cache') },
+			cwd: tmp,
+		});
+		const endpoint = await server.start();
+
+		const init = await post(endpoint, initialize);
+		const session = init.headers.get(MCP_SESSION_HEADER);
+		expect(((await init.json()) as RpcReply).result?.serverInfo).toEqual({ name: 'fake' });
+		const res = await post(endpoint, { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'ace_search', arguments: { query: 'jwt' } } }, session);
+		const inner = JSON.parse(((await res.json()) as RpcReply).result?.content[0].text);
+		expect(inner.results).toHaveLength(60);
+		expect(inner.truncated_to).toBeUndefined();
+		expect(inner.full_results_uri).toBeUndefined();
+	});
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for the offline learn outbox (src/ace/outbox.ts).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	getOutboxDir,
+	listOutbox,
+	retryDelayMs,
+	isDue,
+	recordRetryFailure,
+	completeOutboxItem,
+	classifyRetryError,
+	parkOutboxItem,
+	getParkedOutboxDir,
+	withOutboxLine,
+	OUTBOX_MAX_DELAY_MS,
+	type OutboxEntry,
+} from '../../ace/outbox';
+import { parseLearnStatuses } from '../../ace/taskHistory';
+
+const entry = (conv: string, failedAt: string, extra: Partial<OutboxEntry> = {}): OutboxEntry => ({
+	conv_id: conv,
+	error_class: 'network',
+	error: 'ECONNREFUSED',
+	failed_at: failedAt,
+	attempts: 0,
+	next_attempt_at: failedAt,
+	trace: { task: 't', trajectory: [] },
+	...extra,
+});
+
+describe('outbox files', () => {
+	let aceDir: string;
+	beforeEach(() => {
+		aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-outbox-'));
+		fs.mkdirSync(getOutboxDir(aceDir), { recursive: true });
+	});
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	const write = (name: string, content: unknown) =>
+		fs.writeFileSync(path.join(getOutboxDir(aceDir), name), typeof content === 'string' ? content : JSON.stringify(content));
+
+	it('lists valid entries oldest first and skips junk and temp files', () => {
+		write('b.json', entry('b', '2026-03-02T00:00:00Z'));
+		write('a.json', entry('a', '2026-03-01T00:00:00Z'));
+		write('broken.json', '{');
+		write('notrace.json', { conv_id: 'x' });
+		write('c.json.tmp', entry('c', '2026-03-01T00:00:00Z'));
+		expect(listOutbox(aceDir).map(i => i.entry.conv_id)).toEqual(['a', 'b']);
+		expect(listOutbox(path.join(aceDir, 'missing'))).toEqual([]);
+	});
+
+	it('backs off exponentially after each failed retry', () => {
+		write('a.json', entry('a', '2026-03-01T00:00:00Z'));
+		const [item] = listOutbox(aceDir);
+		const now = new Date('2026-03-01T01:00:00Z');
+		expect(isDue(item.entry, now)).toBe(true);
+
+		const first = recordRetryFailure(item, 'still offline', now);
+		expect(first.attempts).toBe(1);
+		expect(first.next_attempt_at).toBe('2026-03-01T01:01:00.000Z');
+		expect(isDue(first, now)).toBe(false);
+
+		const [again] = listOutbox(aceDir);
+		expect(again.entry.error).toBe('still offline');
+		expect(recordRetryFailure(again, 'x', now).next_attempt_at).toBe('2026-03-01T01:02:00.000Z');
+	});
+
+	it('caps the backoff', () => {
+		expect(retryDelayMs(0)).toBe(60_000);
+		expect(retryDelayMs(3)).toBe(480_000);
+		expect(retryDelayMs(30)).toBe(OUTBOX_MAX_DELAY_MS);
+	});
+
+	it('removes a sent entry and logs OUTBOX_SENT for Task History', () => {
+		write('a.json', entry('conv-a', '2026-03-01T00:00:00Z', { attempts: 2 }));
+		const [item] = listOutbox(aceDir);
+		completeOutboxItem(aceDir, item, new Date('2026-03-01T02:00:00Z'));
+		expect(listOutbox(aceDir)).toEqual([]);
+		const log = fs.readFileSync(path.join(aceDir, 'ace-stop-debug.log'), 'utf-8');
+		expect(log).toBe('2026-03-01T02:00:00.000Z OUTBOX_SENT conv=conv-a attempts=3\n');
+		expect(parseLearnStatuses(log).get('conv-a')).toMatchObject({ state: 'stored', detail: 'sent from outbox' });
+	});
+
+	it('parks an entry it gives up on in outbox/failed and logs OUTBOX_PARKED', () => {
+		write('a.json', entry('conv-a', '2026-03-01T00:00:00Z', { attempts: 4 }));
+		const [item] = listOutbox(aceDir);
+		parkOutboxItem(aceDir, item, 'rejected', 'Server error (422): bad trace', new Date('2026-03-01T02:00:00Z'));
+		expect(listOutbox(aceDir)).toEqual([]);
+		const parked = JSON.parse(fs.readFileSync(path.join(getParkedOutboxDir(aceDir), 'a.json'), 'utf-8'));
+		expect(parked).toMatchObject({ conv_id: 'conv-a', attempts: 4, error: 'Server error (422): bad trace', parked_reason: 'rejected' });
+		const log = fs.readFileSync(path.join(aceDir, 'ace-stop-debug.log'), 'utf-8');
+		expect(log).toBe('2026-03-01T02:00:00.000Z OUTBOX_PARKED conv=conv-a reason=rejected\n');
+		expect(parseLearnStatuses(log).get('conv-a')).toMatchObject({ state: 'failed', detail: 'outbox gave up (rejected)' });
+	});
+});
+
+describe('classifyRetryError', () => {
+	it('reads the status, then the SDK message, then network error names', () => {
+		expect(classifyRetryError(Object.assign(new Error('boom'), { status: 503 }))).toBe('api_5xx');
+		expect(classifyRetryError(Object.assign(new Error('boom'), { status: 400 }))).toBe('rejected');
+		expect(classifyRetryError(new Error('Server error (502): upstream'))).toBe('api_5xx');
+		expect(classifyRetryError(new Error('Server error (413): too large'))).toBe('rejected');
+		expect(classifyRetryError(new Error('fetch failed: ECONNREFUSED'))).toBe('network');
+		expect(classifyRetryError('something odd')).toBe('other');
+	});
+});
+
+describe('withOutboxLine', () => {
+	it('appends, replaces and removes the outbox line', () => {
+		const one = withOutboxLine('Click to view ACE playbook status', 1);
+		expect(one).toBe('Click to view ACE playbook status\n\nOutbox: 1 learning trace waiting to upload');
+		expect(withOutboxLine(one, 3)).toBe('Click to view ACE playbook status\n\nOutbox: 3 learning traces waiting to upload');
+		expect(withOutboxLine(one, 0)).toBe('Click to view ACE playbook status');
+	});
+});
+
+describe('Task History for queued uploads', () => {
+	it('marks a failed upload as queued for retry', () => {
+		const log = [
+			'2026-03-01T10:00:00+00:00 STOP_FIRED status=completed conv=c1 loop=0',
+			'2026-03-01T10:00:01+00:00 helper_start node=n helper=h jsonl=j',
+			'2026-03-01T10:00:02.000Z helper outbox_saved class=network path=/x/outbox/c1.json',
+			'2026-03-01T10:00:02.000Z helper exit_4 network',
+			'2026-03-01T10:00:02+00:00 helper_done rc=4',
+		].join('\n');
+		expect(parseLearnStatuses(log).get('c1')).toMatchObject({ state: 'failed', detail: 'network / 4xx — queued for retry' });
+	});
+});
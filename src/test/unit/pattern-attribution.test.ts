@@ -0,0 +1,198 @@
+/**
+ * Tests for pattern attribution (src/ace/patternAttribution.ts): the hooks'
+ * injections.jsonl records, the MCP proxy's local tools (ace_task_status,
+ * ace_explain_injection, ace_report_pattern_use) and the baked JS twin.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	INJECTIONS_FILE,
+	PATTERN_USE_FILE,
+	type InjectionRecord,
+	explainInjection,
+	getPatternAttributionJs,
+	readInjections,
+	readPatternUse,
+	recordInjection,
+	reportPatternUse,
+	resolveTaskDir,
+	taskStatus,
+	toInjectedPatternRefs,
+} from '../../ace/patternAttribution';
+import { handleAfterMcpExecution, handlePostToolUse } from '../../hooks/handlers';
+import { parseHookPayload } from '../../hooks/payload';
+import type { HookContext } from '../../hooks/hookContext';
+
+const loadJs = () => new Function('fs', 'path',
+	`${getPatternAttributionJs()}\nreturn { aceResolveTaskDir, aceTaskStatus, aceExplainInjection, aceReportPatternUse, acePatternUse };`)(fs, path);
+
+const injection = (overrides: Partial<InjectionRecord> = {}): InjectionRecord => ({
+	timestamp: '2026-01-01T00:00:00.000Z',
+	source: 'pre_tool_use',
+	generation_id: 'g1',
+	query: 'fix login',
+	patterns: [{ id: 'p1', domain: 'auth', section: 'strategies', similarity: 0.82 }],
+	...overrides,
+});
+
+describe('toInjectedPatternRefs', () => {
+	it('keeps id, domain, section, scores and pins; drops entries without an id', () => {
+		expect(toInjectedPatternRefs([
+			{ id: 'p1', domain: 'auth', section: 's', similarity: 0.8, confidence: '0.9', content: 'long text', pinned: true },
+			{ pattern_id: 7 },
+			{ content: 'no id' },
+			null,
+		])).toEqual([
+			{ id: 'p1', domain: 'auth', section: 's', similarity: 0.8, confidence: 0.9, pinned: true },
+			{ id: '7', domain: 'general', section: 'general' },
+		]);
+		expect(toInjectedPatternRefs(undefined)).toEqual([]);
+	});
+});
+
+describe('task attribution', () => {
+	let aceDir: string;
+	const task = (id: string) => path.join(aceDir, 'tasks', id);
+	beforeEach(() => { aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-attribution-')); });
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	it('records injections, skipping empty ones and truncating long queries', () => {
+		recordInjection(task('c1'), injection({ query: 'q'.repeat(500) }));
+		recordInjection(task('c1'), injection({ patterns: [] }));
+		const records = readInjections(task('c1'));
+		expect(records).toHaveLength(1);
+		expect(records[0].query).toHaveLength(200);
+	});
+
+	it('resolves a named task or the most recently active one', () => {
+		recordInjection(task('old'), injection());
+		recordInjection(task('new'), injection());
+		fs.mkdirSync(task('_legacy'));
+		const past = new Date(Date.now() - 60_000);
+		for (const p of [task('old'), path.join(task('old'), INJECTIONS_FILE)]) fs.utimesSync(p, past, past);
+		expect(resolveTaskDir(aceDir)).toBe(task('new'));
+		expect(resolveTaskDir(aceDir, 'old')).toBe(task('old'));
+		expect(resolveTaskDir(aceDir, 'missing')).toBeUndefined();
+		expect(resolveTaskDir(aceDir, '../tasks/old')).toBeUndefined();
+		expect(resolveTaskDir(path.join(aceDir, 'nowhere'))).toBeUndefined();
+	});
+
+	it('ace_task_status aggregates patterns across injections', () => {
+		recordInjection(task('c1'), injection());
+		recordInjection(task('c1'), injection({
+			source: 'domain_shift', domain: 'auth-development', server_domain: 'authentication',
+			patterns: [{ id: 'p1', domain: 'auth', section: 'strategies' }, { id: 'p2', domain: 'auth', section: 'pitfalls', pinned: true }],
+		}));
+		const status = taskStatus(aceDir);
+		expect(status).toEqual({
+			conversation_id: 'c1',
+			injections: 2,
+			patterns: [
+				{ id: 'p1', domain: 'auth', section: 'strategies', similarity: 0.82, injected_by: ['pre_tool_use', 'domain_shift'], times: 2 },
+				{ id: 'p2', domain: 'auth', section: 'pitfalls', pinned: true, injected_by: ['domain_shift'], times: 1 },
+			],
+			last_report: null,
+		});
+		expect(taskStatus(aceDir, 'nope')).toEqual({ error: 'No ACE task for conversation nope.' });
+	});
+
+	it('ace_explain_injection gives a reason per injection and filters by pattern', () => {
+		recordInjection(task('c1'), injection());
+		recordInjection(task('c1'), injection({
+			source: 'domain_shift', domain: 'billing', server_domain: 'billing-and-invoicing', query: 'billing-and-invoicing invoice',
+			patterns: [{ id: 'p9', domain: 'billing-and-invoicing', section: 's' }],
+		}));
+		const all = explainInjection(aceDir) as any;
+		expect(all.injections.map((i: any) => i.source)).toEqual(['pre_tool_use', 'domain_shift']);
+		expect(all.injections[0].generation_id).toBeUndefined();
+		expect(all.injections[0].reason).toMatch(/user's prompt/);
+		const one = explainInjection(aceDir, undefined, 'p9') as any;
+		expect(one.injections).toHaveLength(1);
+		expect(one.injections[0].reason).toContain('narrowed to the server domain "billing-and-invoicing"');
+		expect(explainInjection(aceDir, undefined, 'zzz')).toEqual({ error: 'Pattern zzz was not injected in this task.' });
+	});
+
+	it('ace_report_pattern_use appends a report and flags ids never injected', () => {
+		recordInjection(task('c1'), injection());
+		const now = new Date('2026-02-01T00:00:00Z');
+		const out = reportPatternUse(aceDir, { applied: ['p1', 'p1', 'typo'], not_applied: ['p1', 'p3'], time_saved_min: '12.4', note: '  used p1  ' }, now);
+		expect(out).toEqual({
+			conversation_id: 'c1',
+			report: {
+				timestamp: now.toISOString(), applied: ['p1', 'typo'], not_applied: ['p3'], unknown_ids: ['typo', 'p3'], time_saved_min: 12, note: 'used p1',
+			},
+		});
+		expect(readPatternUse(task('c1'))).toEqual([(out as any).report]);
+		expect((taskStatus(aceDir) as any).last_report).toEqual((out as any).report);
+		expect(reportPatternUse(aceDir, { applied: 'p1' })).toMatchObject({ error: expect.stringContaining('"applied"') });
+	});
+
+	it('the baked JS twin agrees with the TS implementation', () => {
+		const js = loadJs();
+		recordInjection(task('c1'), injection());
+		recordInjection(task('c1'), injection({ source: 'domain_shift', domain: 'api-development' }));
+		recordInjection(task('c1'), injection({ source: 'ace_search', patterns: [{ id: 'p4', domain: 'd', section: 's' }] }));
+		fs.appendFileSync(path.join(task('c1'), INJECTIONS_FILE), '{ partial\n');
+		expect(js.aceResolveTaskDir(aceDir)).toBe(resolveTaskDir(aceDir));
+		expect(js.aceTaskStatus(aceDir)).toEqual(taskStatus(aceDir));
+		expect(js.aceTaskStatus(aceDir, 'nope')).toEqual(taskStatus(aceDir, 'nope'));
+		expect(js.aceExplainInjection(aceDir)).toEqual(explainInjection(aceDir));
+		expect(js.aceExplainInjection(aceDir, 'c1', 'p4')).toEqual(explainInjection(aceDir, 'c1', 'p4'));
+		expect(js.aceExplainInjection(aceDir, undefined, 'zzz')).toEqual(explainInjection(aceDir, undefined, 'zzz'));
+
+		const args = { applied: ['p1', 7], not_applied: ['p4', 'x'], time_saved_min: 5, note: 'n' };
+		const iso = '2026-02-01T00:00:00.000Z';
+		expect(js.aceReportPatternUse(aceDir, args, iso)).toEqual(reportPatternUse(aceDir, args, new Date(iso)));
+		expect(js.aceReportPatternUse(aceDir, {}, iso)).toEqual(reportPatternUse(aceDir, {}));
+		const reports = readPatternUse(task('c1'));
+		expect(reports).toHaveLength(2);
+		expect(js.acePatternUse(task('c1'))).toEqual(reports[1]);
+		expect(fs.readFileSync(path.join(task('c1'), PATTERN_USE_FILE), 'utf-8').split('\n').filter(Boolean)).toHaveLength(2);
+	});
+});
+
+describe('hooks record injections', () => {
+	let root: string;
+	let ctx: HookContext;
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-attribution-hooks-'));
+		ctx = {
+			workspaceRoot: root,
+			aceDir: path.join(root, '.cursor', 'ace'),
+			searchHelperPath: '',
+			learnHelperPath: '',
+			now: () => new Date('2026-01-01T00:00:00Z'),
+			search: async () => ({ rc: 0, stdout: JSON.stringify({ similar_patterns: [{ id: 'p1', domain: 'auth', section: 's', content: 'c', similarity: 0.7 }] }) }),
+			learn: () => 0,
+		};
+		fs.mkdirSync(ctx.aceDir, { recursive: true });
+		fs.writeFileSync(path.join(ctx.aceDir, 'runtime-settings.json'), JSON.stringify({ shareRawPromptsForRetrievalAnalysis: true }));
+	});
+	afterEach(() => { fs.rmSync(root, { recursive: true, force: true }); });
+
+	it('post-tool-use records what it added', async () => {
+		const transcript = path.join(root, 't.jsonl');
+		fs.writeFileSync(transcript, JSON.stringify({ role: 'user', message: { content: [{ type: 'text', text: 'fix login' }] } }) + '\n');
+		await handlePostToolUse(parseHookPayload(JSON.stringify({
+			conversation_id: 'c1', generation_id: 'g1', tool_name: 'Read', transcript_path: transcript,
+		})), ctx);
+		expect(readInjections(path.join(ctx.aceDir, 'tasks', 'c1'))).toEqual([{
+			timestamp: '2026-01-01T00:00:00.000Z', source: 'post_tool_use', generation_id: 'g1', query: 'fix login',
+			patterns: [{ id: 'p1', domain: 'auth', section: 's', similarity: 0.7 }],
+		}]);
+	});
+
+	it('afterMCPExecution records the agent\'s own ace_search results', async () => {
+		const inner = { query: 'jwt', results: [{ id: 'p2', domain: 'auth', section: 's', content: 'c' }] };
+		await handleAfterMcpExecution(parseHookPayload(JSON.stringify({
+			conversation_id: 'c1', generation_id: 'g2', tool_name: 'ace_search', tool_input: '{"query":"jwt"}',
+			result_json: JSON.stringify({ content: [{ type: 'text', text: JSON.stringify(inner) }] }),
+		})), ctx);
+		expect(readInjections(path.join(ctx.aceDir, 'tasks', 'c1'))).toMatchObject([
+			{ source: 'ace_search', generation_id: 'g2', query: 'jwt', patterns: [{ id: 'p2' }] },
+		]);
+	});
+});
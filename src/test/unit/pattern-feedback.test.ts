@@ -0,0 +1,96 @@
+/**
+ * Tests for the local 👍/👎 feedback log and injected-pattern extraction
+ * (src/ace/patternFeedback.ts).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	buildFeedbackEntry,
+	appendFeedbackEntry,
+	readFeedbackLog,
+	latestRatings,
+	getFeedbackLogPath,
+	injectedPatternsFromTrajectory,
+} from '../../ace/patternFeedback';
+import type { PatternHit } from '../../ace/patternSearch';
+
+const hit: PatternHit = {
+	id: 'p1',
+	content: '  Rotate refresh tokens on every use.  ',
+	section: 'strategies_and_hard_rules',
+	domain: 'auth-development',
+	confidence: 0.9,
+	helpful: 2,
+	harmful: 0,
+};
+
+describe('feedback log', () => {
+	let tmp: string;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-feedback-')); });
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	it('builds an unsent entry with a trimmed preview', () => {
+		const entry = buildFeedbackEntry(hit, 'helpful', 'search', new Date('2026-02-01T00:00:00Z'));
+		expect(entry).toEqual({
+			timestamp: '2026-02-01T00:00:00.000Z',
+			pattern_id: 'p1',
+			rating: 'helpful',
+			source: 'search',
+			domain: 'auth-development',
+			section: 'strategies_and_hard_rules',
+			content_preview: 'Rotate refresh tokens on every use.',
+			sent: false,
+		});
+	});
+
+	it('appends JSONL under .cursor/ace and reads it back', () => {
+		appendFeedbackEntry(tmp, { ...buildFeedbackEntry(hit, 'helpful', 'status'), sent: true });
+		appendFeedbackEntry(tmp, { ...buildFeedbackEntry(hit, 'harmful', 'injected'), error: 'HTTP 503' });
+		expect(getFeedbackLogPath(tmp)).toBe(path.join(tmp, '.cursor', 'ace', 'feedback.jsonl'));
+		const entries = readFeedbackLog(tmp);
+		expect(entries.map(e => [e.rating, e.source, e.sent, e.error])).toEqual([
+			['helpful', 'status', true, undefined],
+			['harmful', 'injected', false, 'HTTP 503'],
+		]);
+	});
+
+	it('skips malformed lines and returns [] when missing', () => {
+		expect(readFeedbackLog(tmp)).toEqual([]);
+		fs.mkdirSync(path.join(tmp, '.cursor', 'ace'), { recursive: true });
+		fs.writeFileSync(getFeedbackLogPath(tmp), '{"pattern_id":"a","rating":"helpful"}\n{broken\n{"pattern_id":"b","rating":"meh"}\n');
+		expect(readFeedbackLog(tmp).map(e => e.pattern_id)).toEqual(['a']);
+	});
+
+	it('latestRatings keeps the most recent rating per pattern', () => {
+		const ratings = latestRatings([
+			buildFeedbackEntry(hit, 'helpful', 'search'),
+			buildFeedbackEntry({ ...hit, id: 'p2' }, 'helpful', 'search'),
+			buildFeedbackEntry(hit, 'harmful', 'explorer'),
+		]);
+		expect(ratings.get('p1')).toBe('harmful');
+		expect(ratings.get('p2')).toBe('helpful');
+	});
+});
+
+describe('injectedPatternsFromTrajectory', () => {
+	const wrap = (inner: unknown) => JSON.stringify({ content: [{ type: 'text', text: JSON.stringify(inner) }], isError: false });
+
+	it('collects ace_search results across calls, de-duplicated by id', () => {
+		const lines = [
+			JSON.stringify({ event: 'before_mcp', tool_name: 'ace_search' }),
+			JSON.stringify({ event: 'afterMCPExecution', tool_name: 'ace_search', result_json: wrap({ results: [{ id: 'a', content: 'A' }, { id: 'b', content: 'B' }] }) }),
+			JSON.stringify({ event: 'afterMCPExecution', tool_name: 'MCP:ace/ace_search', result_json: wrap({ similar_patterns: [{ id: 'b', content: 'B' }, { id: 'c', content: 'C' }] }) }),
+			JSON.stringify({ event: 'afterMCPExecution', tool_name: 'ace_learn', result_json: wrap({ results: [{ id: 'x', content: 'X' }] }) }),
+			'not json',
+			'',
+		];
+		expect(injectedPatternsFromTrajectory(lines).map(h => h.id)).toEqual(['a', 'b', 'c']);
+	});
+
+	it('returns [] when no search produced results', () => {
+		expect(injectedPatternsFromTrajectory([JSON.stringify({ tool_name: 'ace_search', result_json: wrap({ results: [] }) })])).toEqual([]);
+	});
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for the local SQLite pattern mirror (src/ace/patternMirror.ts) and the
+ * search helper's offline fallback.
+ *
+ * The SQLite-backed cases need the better-sqlite3 native binary and are
+ * skipped where it isn't built.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+	toFtsQuery,
+	nextHighWater,
+	readMirrorState,
+	writeMirrorState,
+	getMirrorStatePath,
+	formatMirrorAge,
+	getMirrorSearchJs,
+	isMirrorAvailable,
+	openMirror,
+	upsertPatterns,
+	countMirrored,
+	searchMirror,
+	clearMirror,
+	pruneMirror,
+	isFullResyncDue,
+	type MirrorState,
+} from '../../ace/patternMirror';
+import { getSearchHelperContent } from '../../ace/hookScripts';
+import type { PatternHit } from '../../ace/patternSearch';
+
+const hit = (id: string, content: string, updatedAt?: string, extra: Partial<PatternHit> = {}): PatternHit => ({
+	id,
+	content,
+	section: 'strategies_and_hard_rules',
+	domain: 'auth',
+	confidence: 0.8,
+	helpful: 1,
+	harmful: 0,
+	updatedAt,
+	...extra,
+});
+
+describe('toFtsQuery', () => {
+	it('quotes and ORs distinct words so FTS syntax in prompts is inert', () => {
+		expect(toFtsQuery('JWT refresh, jwt "rotation" OR NEAR(x)')).toBe('"jwt" OR "refresh" OR "rotation" OR "or" OR "near"');
+	});
+
+	it('drops one-letter words and returns empty for punctuation-only text', () => {
+		expect(toFtsQuery('a b cd')).toBe('"cd"');
+		expect(toFtsQuery('?! -- ()')).toBe('');
+	});
+
+	it('caps the number of terms', () => {
+		const words = Array.from({ length: 30 }, (_, i) => `w${i}`).join(' ');
+		expect(toFtsQuery(words).split(' OR ')).toHaveLength(16);
+	});
+
+	it('matches the JS twin baked into the search helper', () => {
+		const js = new Function('fs', 'path', 'require',
+			`${getMirrorSearchJs()}\nreturn aceToFtsQuery;`)(fs, path, require) as (q: string) => string;
+		for (const q of ['JWT refresh, jwt "rotation"', 'café naïve über', '?!', 'x'.repeat(3)]) {
+			expect(js(q)).toBe(toFtsQuery(q));
+		}
+	});
+});
+
+describe('nextHighWater', () => {
+	it('keeps the latest updated_at and ignores patterns without one', () => {
+		const hits = [hit('a', 'x', '2026-01-02T00:00:00Z'), hit('b', 'y'), hit('c', 'z', '2026-03-01T00:00:00Z')];
+		expect(nextHighWater(hits)).toBe('2026-03-01T00:00:00Z');
+		expect(nextHighWater(hits, '2026-05-01T00:00:00Z')).toBe('2026-05-01T00:00:00Z');
+		expect(nextHighWater([], undefined)).toBeUndefined();
+	});
+});
+
+describe('mirror state.json', () => {
+	let aceDir: string;
+	beforeEach(() => { aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mirror-state-')); });
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	it('round-trips and rejects files without lastSyncedAt', () => {
+		expect(readMirrorState(aceDir)).toBeNull();
+		const state: MirrorState = { lastSyncedAt: '2026-10-19T10:00:00.000Z', highWater: '2026-10-18T00:00:00Z', count: 12, projectId: 'p1' };
+		writeMirrorState(aceDir, state);
+		expect(readMirrorState(aceDir)).toEqual(state);
+		fs.writeFileSync(getMirrorStatePath(aceDir), JSON.stringify({ count: 3 }));
+		expect(readMirrorState(aceDir)).toBeNull();
+	});
+
+	it('asks for a full pass once a day', () => {
+		const now = new Date('2026-10-19T12:00:00Z');
+		const state: MirrorState = { lastSyncedAt: '2026-10-19T11:30:00Z', count: 1 };
+		expect(isFullResyncDue(null, now)).toBe(true);
+		expect(isFullResyncDue(state, now)).toBe(true);
+		expect(isFullResyncDue({ ...state, lastFullSyncAt: '2026-10-19T00:00:00Z' }, now)).toBe(false);
+		expect(isFullResyncDue({ ...state, lastFullSyncAt: '2026-10-18T12:00:00Z' }, now)).toBe(true);
+	});
+
+	it('formats the age for the Status panel', () => {
+		const now = new Date('2026-10-19T12:00:00Z');
+		const at = (iso: string, count = 1): MirrorState => ({ lastSyncedAt: iso, count });
+		expect(formatMirrorAge(null, now)).toBe('never synced');
+		expect(formatMirrorAge(at('2026-10-19T11:59:40Z'), now)).toBe('synced just now · 1 pattern');
+		expect(formatMirrorAge(at('2026-10-19T11:55:00Z', 312), now)).toBe('synced 5 min ago · 312 patterns');
+		expect(formatMirrorAge(at('2026-10-19T09:00:00Z'), now)).toBe('synced 3 h ago · 1 pattern');
+		expect(formatMirrorAge(at('2026-10-15T12:00:00Z'), now)).toBe('synced 4 days ago · 1 pattern');
+	});
+});
+
+/** Search helper + stub SDK whose searchPatterns fails like an unreachable server. */
+function writeSearchHelperWithFailingStub(): { tmpDir: string; helperPath: string } {
+	const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-search-mirror-'));
+	fs.mkdirSync(path.join(tmpDir, '.cursor', 'ace'), { recursive: true });
+	const stubDir = path.join(tmpDir, 'node_modules', '@ace-sdk', 'core');
+	fs.mkdirSync(stubDir, { recursive: true });
+	fs.writeFileSync(path.join(stubDir, 'index.js'), `
+class AceApiError extends Error { constructor(m, status){ super(m); this.name='AceApiError'; this.status=status; } }
+function isTokenExpiredError(){ return false; }
+async function loadConfig(){ return { token:'t', orgId:'o' }; }
+class AceClient { async searchPatterns(){ throw new Error('connect ECONNREFUSED 127.0.0.1:443'); } }
+module.exports = { loadConfig, AceClient, AceApiError, isTokenExpiredError };
+`);
+	fs.writeFileSync(path.join(stubDir, 'package.json'), JSON.stringify({ name: '@ace-sdk/core', version: '0.0.0-stub', main: 'index.js' }));
+	const helperPath = path.join(tmpDir, 'ace_search_helper.js');
+	fs.writeFileSync(helperPath, getSearchHelperContent(), { mode: 0o755 });
+	return { tmpDir, helperPath };
+}
+
+function runSearchHelper(tmpDir: string, helperPath: string, query: string) {
+	return spawnSync('node', [helperPath, query], {
+		cwd: tmpDir,
+		encoding: 'utf-8',
+		// better-sqlite3 resolves from the repo's node_modules.
+		env: { ...process.env, NODE_PATH: path.resolve(__dirname, '../../../node_modules') },
+		timeout: 10000,
+	});
+}
+
+describe('search helper offline fallback', () => {
+	it('keeps rc 4 with empty stdout when there is no mirror', () => {
+		const { tmpDir, helperPath } = writeSearchHelperWithFailingStub();
+		try {
+			const r = runSearchHelper(tmpDir, helperPath, 'jwt refresh');
+			expect(r.status).toBe(4);
+			expect(r.stdout).toBe('');
+		} finally {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		}
+	});
+
+	it.skipIf(!isMirrorAvailable())('answers from the local mirror on rc 4', () => {
+		const { tmpDir, helperPath } = writeSearchHelperWithFailingStub();
+		try {
+			const db = openMirror(path.join(tmpDir, '.cursor', 'ace'))!;
+			upsertPatterns(db, [hit('p1', 'Rotate JWT refresh tokens on every use'), hit('p2', 'Prefer pnpm workspaces', undefined, { domain: 'build' })]);
+			db.close();
+			const r = runSearchHelper(tmpDir, helperPath, 'how do I rotate refresh tokens?');
+			expect(r.status).toBe(4);
+			const out = JSON.parse(r.stdout);
+			expect(out.source).toBe('local_mirror');
+			expect(out.similar_patterns.map((p: { id: string }) => p.id)).toEqual(['p1']);
+		} finally {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe.skipIf(!isMirrorAvailable())('SQLite mirror', () => {
+	let aceDir: string;
+	beforeEach(() => { aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mirror-db-')); });
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	it('upserts only newer rows and ranks full-text matches', () => {
+		const db = openMirror(aceDir)!;
+		expect(upsertPatterns(db, [
+			hit('a', 'Use httpOnly cookies for session tokens', '2026-01-01T00:00:00Z'),
+			hit('b', 'Cache search results per query', '2026-01-01T00:00:00Z'),
+		])).toBe(2);
+		// Same timestamp → skipped; newer → replaced.
+		expect(upsertPatterns(db, [
+			hit('a', 'stale copy', '2026-01-01T00:00:00Z'),
+			hit('b', 'Cache search results per project and query', '2026-02-01T00:00:00Z'),
+		])).toBe(1);
+		expect(countMirrored(db)).toBe(2);
+		db.close();
+
+		expect(searchMirror(aceDir, 'session cookies', 5).map(h => h.id)).toEqual(['a']);
+		const cached = searchMirror(aceDir, 'project cache', 5);
+		expect(cached.map(h => h.id)).toEqual(['b']);
+		expect(cached[0].updatedAt).toBe('2026-02-01T00:00:00Z');
+	});
+
+	it('clears every row for a full rebuild', () => {
+		const db = openMirror(aceDir)!;
+		upsertPatterns(db, [hit('a', 'anything at all')]);
+		clearMirror(db);
+		expect(countMirrored(db)).toBe(0);
+		db.close();
+		expect(searchMirror(aceDir, 'anything', 5)).toEqual([]);
+	});
+	it('prunes rows a full pass no longer lists', () => {
+		const db = openMirror(aceDir)!;
+		upsertPatterns(db, [hit('a', 'kept pattern'), hit('b', 'deleted on the server'), hit('c', 'also kept')]);
+		expect(pruneMirror(db, new Set(['a', 'c']))).toBe(1);
+		expect(pruneMirror(db, new Set(['a', 'c']))).toBe(0);
+		expect(countMirrored(db)).toBe(2);
+		db.close();
+		expect(searchMirror(aceDir, 'deleted server', 5)).toEqual([]);
+	});
+});
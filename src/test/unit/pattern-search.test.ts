@@ -0,0 +1,170 @@
+/**
+ * Tests for the pure helpers behind `ACE: Search Patterns` and the Pattern
+ * Explorer tree view.
+ *
+ * The QuickPick in src/commands/search.ts needs vscode + a live AceClient;
+ * the normalise/group/format logic lives in src/ace/patternSearch.ts so it
+ * can be covered here without either.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	normalizeSearchResults,
+	groupPatterns,
+	formatPatternLabel,
+	formatPatternStats,
+	formatPatternMarkdown,
+	sectionLabel,
+	parsePatternPage,
+	groupBySection,
+	formatRelativeTime,
+	parseDomainCounts,
+	patternChangePreview,
+} from '../../ace/patternSearch';
+
+describe('normalizeSearchResults', () => {
+	it('reads similar_patterns from SearchResponseWithMetadata', () => {
+		const hits = normalizeSearchResults({
+			similar_patterns: [
+				{ id: 'p1', content: 'Use refresh rotation', section: 'strategies_and_hard_rules', domain: 'auth-development', confidence: 0.9, helpful: 4, harmful: 1 },
+			],
+		});
+		expect(hits).toHaveLength(1);
+		expect(hits[0]).toMatchObject({ id: 'p1', domain: 'auth-development', confidence: 0.9, helpful: 4, harmful: 1 });
+	});
+
+	it('falls back to results[] and bare arrays', () => {
+		expect(normalizeSearchResults({ results: [{ content: 'a' }] })).toHaveLength(1);
+		expect(normalizeSearchResults([{ content: 'b' }])).toHaveLength(1);
+	});
+
+	it('drops entries without content and defaults missing fields', () => {
+		const hits = normalizeSearchResults({ similar_patterns: [{ id: 'x' }, null, { content: 'keep me' }] });
+		expect(hits).toHaveLength(1);
+		expect(hits[0]).toMatchObject({ section: 'general', domain: 'general', confidence: 0, helpful: 0, harmful: 0 });
+		expect(hits[0].id).toBe('result-2');
+	});
+
+	it('returns [] for garbage input', () => {
+		expect(normalizeSearchResults(undefined)).toEqual([]);
+		expect(normalizeSearchResults('nope')).toEqual([]);
+		expect(normalizeSearchResults({})).toEqual([]);
+	});
+});
+
+describe('groupPatterns', () => {
+	it('groups by section + domain, preserving rank order of first hit', () => {
+		const hits = normalizeSearchResults([
+			{ id: '1', content: 'a', section: 'apis_to_use', domain: 'api-development' },
+			{ id: '2', content: 'b', section: 'strategies_and_hard_rules', domain: 'auth-development' },
+			{ id: '3', content: 'c', section: 'apis_to_use', domain: 'api-development' },
+		]);
+		const groups = groupPatterns(hits);
+		expect(groups.map(g => g.key)).toEqual(['apis_to_use/api-development', 'strategies_and_hard_rules/auth-development']);
+		expect(groups[0].patterns.map(p => p.id)).toEqual(['1', '3']);
+		expect(groups[0].label).toBe('APIs to Use · api development');
+	});
+});
+
+describe('formatting', () => {
+	const [hit] = normalizeSearchResults([
+		{ id: 'p9', content: 'First line\nsecond line', section: 'useful_code_snippets', domain: 'testing', confidence: 0.756, helpful: 3, harmful: 0 },
+	]);
+
+	it('label uses the first line and truncates long content', () => {
+		expect(formatPatternLabel(hit)).toBe('First line');
+		expect(formatPatternLabel({ ...hit, content: 'x'.repeat(200) }, 10)).toBe('xxxxxxxxx…');
+	});
+
+	it('stats show rounded confidence and helpful/harmful counts', () => {
+		expect(formatPatternStats(hit)).toBe('76% · 👍 3 · 👎 0');
+	});
+
+	it('markdown includes section heading, content and id', () => {
+		const md = formatPatternMarkdown(hit);
+		expect(md).toContain('### Useful Code Snippets (testing)');
+		expect(md).toContain('First line\nsecond line');
+		expect(md).toContain('`p9`');
+	});
+
+	it('unknown sections render with spaces', () => {
+		expect(sectionLabel('custom_section')).toBe('custom section');
+	});
+});
+
+describe('Pattern Explorer helpers', () => {
+	const p = (id: string, section: string) => ({ id, content: id, section, domain: 'd' });
+
+	it('parsePatternPage honours has_more, next_offset and total', () => {
+		expect(parsePatternPage({ patterns: [p('a', 's')], has_more: true }, 0, 50).hasMore).toBe(true);
+		expect(parsePatternPage({ patterns: [p('a', 's')], next_offset: null }, 0, 1).hasMore).toBe(false);
+		const page = parsePatternPage({ patterns: [p('a', 's'), p('b', 's')], total: 3 }, 0, 50);
+		expect(page).toMatchObject({ total: 3, hasMore: true });
+		expect(page.patterns.map(h => h.id)).toEqual(['a', 'b']);
+		expect(parsePatternPage({ patterns: [p('c', 's')], total: 3 }, 2, 50).hasMore).toBe(false);
+	});
+
+	it('parsePatternPage falls back to "full page means more"', () => {
+		expect(parsePatternPage([p('a', 's'), p('b', 's')], 0, 2).hasMore).toBe(true);
+		expect(parsePatternPage([p('a', 's')], 0, 2).hasMore).toBe(false);
+		expect(parsePatternPage(null, 0, 2)).toEqual({ patterns: [], total: undefined, hasMore: false });
+	});
+
+	it('reads updated_at into updatedAt', () => {
+		const [hit] = normalizeSearchResults([{ ...p('a', 's'), updated_at: '2026-01-01T00:00:00Z' }]);
+		expect(hit.updatedAt).toBe('2026-01-01T00:00:00Z');
+	});
+
+	it('groupBySection puts known sections in playbook order, unknown last', () => {
+		const hits = normalizeSearchResults([
+			p('1', 'zeta_notes'),
+			p('2', 'apis_to_use'),
+			p('3', 'strategies_and_hard_rules'),
+			p('4', 'apis_to_use'),
+			p('5', 'alpha_notes'),
+		]);
+		const groups = groupBySection(hits);
+		expect(groups.map(g => g.section)).toEqual(['strategies_and_hard_rules', 'apis_to_use', 'alpha_notes', 'zeta_notes']);
+		expect(groups[1]).toMatchObject({ label: 'APIs to Use' });
+		expect(groups[1].patterns.map(h => h.id)).toEqual(['2', '4']);
+	});
+
+	it('formatRelativeTime buckets by unit and tolerates bad input', () => {
+		const now = Date.parse('2026-03-10T12:00:00Z');
+		expect(formatRelativeTime('2026-03-10T11:59:30Z', now)).toBe('just now');
+		expect(formatRelativeTime('2026-03-10T11:55:00Z', now)).toBe('5m ago');
+		expect(formatRelativeTime('2026-03-10T09:00:00Z', now)).toBe('3h ago');
+		expect(formatRelativeTime('2026-03-07T12:00:00Z', now)).toBe('3d ago');
+		expect(formatRelativeTime('2025-01-01T00:00:00Z', now)).toBe('2025-01-01');
+		expect(formatRelativeTime(undefined, now)).toBe('');
+		expect(formatRelativeTime('not a date', now)).toBe('');
+	});
+
+	it('parseDomainCounts sorts largest first and tolerates object values', () => {
+		expect(parseDomainCounts({ testing: 3, 'auth-development': 10, misc: { count: 5 } })).toEqual([
+			{ domain: 'auth-development', count: 10 },
+			{ domain: 'misc', count: 5 },
+			{ domain: 'testing', count: 3 },
+		]);
+		expect(parseDomainCounts(undefined)).toEqual([]);
+	});
+});
+
+describe('patternChangePreview', () => {
+	const hit = normalizeSearchResults([{ id: 'p1', content: 'Old text', section: 'apis_to_use', domain: 'auth' }])[0];
+
+	it('edit previews the new content and section', () => {
+		const { before, after } = patternChangePreview(hit, { kind: 'edit', content: 'New text', section: 'troubleshooting_and_pitfalls' });
+		expect(before).toContain('### APIs to Use (auth)');
+		expect(before).toContain('Old text');
+		expect(after).toContain('### Troubleshooting & Pitfalls (auth)');
+		expect(after).toContain('New text');
+	});
+
+	it('deprecate appends a status line; delete diffs against empty', () => {
+		const dep = patternChangePreview(hit, { kind: 'deprecate' });
+		expect(dep.after.startsWith(dep.before)).toBe(true);
+		expect(dep.after).toContain('- status: deprecated');
+		expect(patternChangePreview(hit, { kind: 'delete' }).after).toBe('');
+	});
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for review-before-upload traces (src/ace/pendingTrace.ts).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	getPendingTracePath,
+	listPendingTraces,
+	readPendingTraceOriginal,
+	PENDING_TRACE_ORIGINAL_FILE,
+	parsePendingTrace,
+	removePendingTrace,
+	recordReviewOutcome,
+	diffLines,
+} from '../../ace/pendingTrace';
+import { parseLearnStatuses } from '../../ace/taskHistory';
+
+describe('pending trace files', () => {
+	let aceDir: string;
+	beforeEach(() => { aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-pending-')); });
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	const park = (convId: string, mtime: Date) => {
+		const p = getPendingTracePath(aceDir, convId);
+		fs.mkdirSync(path.dirname(p), { recursive: true });
+		fs.writeFileSync(p, JSON.stringify({ task: 't', trajectory: [] }));
+		fs.utimesSync(p, mtime, mtime);
+	};
+
+	it('lists parked traces newest first and skips tasks without one', () => {
+		park('old', new Date('2026-01-01T00:00:00Z'));
+		park('new', new Date('2026-02-01T00:00:00Z'));
+		fs.mkdirSync(path.join(aceDir, 'tasks', 'none'), { recursive: true });
+		expect(listPendingTraces(aceDir).map(p => p.convId)).toEqual(['new', 'old']);
+		expect(listPendingTraces(path.join(aceDir, 'missing'))).toEqual([]);
+	});
+
+	it('reads the helper\'s untouched copy and removes it with the trace', () => {
+		park('c1', new Date());
+		expect(readPendingTraceOriginal(aceDir, 'c1')).toBeUndefined();
+		const orig = path.join(aceDir, 'tasks', 'c1', PENDING_TRACE_ORIGINAL_FILE);
+		fs.writeFileSync(orig, '{"task":"t","trajectory":[]}');
+		expect(readPendingTraceOriginal(aceDir, 'c1')).toBe('{"task":"t","trajectory":[]}');
+		expect(listPendingTraces(aceDir).map(p => p.convId)).toEqual(['c1']);
+		removePendingTrace(aceDir, 'c1');
+		expect(fs.existsSync(orig)).toBe(false);
+	});
+
+	it('removes a trace and logs the review outcome for Task History', () => {
+		park('c1', new Date());
+		expect(removePendingTrace(aceDir, 'c1')).toBe(true);
+		expect(removePendingTrace(aceDir, 'c1')).toBe(false);
+		recordReviewOutcome(aceDir, 'c1', 'sent', new Date('2026-03-01T00:00:00Z'));
+		recordReviewOutcome(aceDir, 'c2', 'discarded');
+		const log = fs.readFileSync(path.join(aceDir, 'ace-stop-debug.log'), 'utf-8');
+		expect(log).toContain('2026-03-01T00:00:00.000Z REVIEW_SENT conv=c1');
+		const statuses = parseLearnStatuses(log);
+		expect(statuses.get('c1')).toMatchObject({ state: 'stored', detail: 'sent after review' });
+		expect(statuses.get('c2')).toMatchObject({ state: 'skipped', detail: 'discarded in review' });
+	});
+});
+
+describe('parsePendingTrace', () => {
+	it('accepts a trace with a task and trajectory', () => {
+		expect(parsePendingTrace('{"task":"fix","trajectory":[]}').trace).toMatchObject({
+			task: 'fix',
+			trajectory: [],
+			result: { success: true, output: '', summary: '' },
+			agent_type: 'cursor',
+			playbook_used: [],
+			received_patterns: [],
+		});
+	});
+
+	it('keeps edited fields and fills in dropped step fields', () => {
+		const { trace } = parsePendingTrace(JSON.stringify({
+			task: 'fix',
+			trajectory: [{ action: 'Edit', result: { ok: true }, start_ms: 5 }],
+			result: { success: false, output: 'no' },
+			session_id: 'sess-1',
+			pattern_use: { applied: ['p1'] },
+		}));
+		expect(trace?.trajectory[0]).toMatchObject({ step: 1, action: 'Edit', args: {}, result: '{"ok":true}', start_ms: 5 });
+		expect(trace?.result).toEqual({ success: false, output: 'no', summary: '' });
+		expect(trace).toMatchObject({ session_id: 'sess-1', agent_id: 'cursor-sess-1', pattern_use: { applied: ['p1'] } });
+	});
+
+	it('rejects broken edits with a reason', () => {
+		expect(parsePendingTrace('{"task":').error).toMatch(/^Invalid JSON/);
+		expect(parsePendingTrace('[]').error).toBe('Trace must be a JSON object');
+		expect(parsePendingTrace('{"task":"  ","trajectory":[]}').error).toBe('Trace is missing "task"');
+		expect(parsePendingTrace('{"task":"t"}').error).toBe('Trace is missing the "trajectory" array');
+		expect(parsePendingTrace('{"task":"t","trajectory":[1]}').error).toBe('Trajectory step 1 must be an object');
+		expect(parsePendingTrace('{"task":"t","trajectory":[],"result":"ok"}').error).toBe('"result" must be an object');
+		expect(parsePendingTrace('{"task":"t","trajectory":[],"playbook_used":"p1"}').error).toBe('"playbook_used" must be an array');
+	});
+});
+
+describe('diffLines', () => {
+	it('marks removed and added lines around unchanged context', () => {
+		expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+			{ kind: ' ', text: 'a' },
+			{ kind: '-', text: 'b' },
+			{ kind: '+', text: 'B' },
+			{ kind: ' ', text: 'c' },
+			{ kind: '+', text: 'd' },
+		]);
+	});
+
+	it('reports no changes for identical text', () => {
+		expect(diffLines('x\ny', 'x\ny').every(l => l.kind === ' ')).toBe(true);
+	});
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for pinned patterns (src/ace/pinnedPatterns.ts) and their merge into
+ * the <ace-patterns> payload built by the preToolUse hook handler.
+ *
+ * The hook test runs the handler against a fake search.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	readPinnedPatterns,
+	pinPattern,
+	unpinPattern,
+	isPinned,
+	getWorkspaceSettingsPath,
+} from '../../ace/pinnedPatterns';
+import { handlePreToolUse } from '../../hooks/handlers';
+import type { HookContext } from '../../hooks/hookContext';
+import { parseHookPayload } from '../../hooks/payload';
+import type { PatternHit } from '../../ace/patternSearch';
+
+const hit = (id: string, domain: string): PatternHit => ({
+	id,
+	content: `Pattern ${id}`,
+	section: 'strategies_and_hard_rules',
+	domain,
+	confidence: 0.8,
+	helpful: 0,
+	harmful: 0,
+});
+
+describe('pinned patterns in settings.json', () => {
+	let tmp: string;
+	beforeEach(() => { tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-pins-')); });
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	it('pins and unpins while keeping the other settings keys', () => {
+		fs.mkdirSync(path.dirname(getWorkspaceSettingsPath(tmp)), { recursive: true });
+		fs.writeFileSync(getWorkspaceSettingsPath(tmp), JSON.stringify({ env: { ACE_PROJECT_ID: 'prj' } }));
+
+		pinPattern(tmp, hit('a', 'auth'), new Date('2026-01-01T00:00:00Z'));
+		pinPattern(tmp, hit('b', 'testing'));
+		expect(isPinned(tmp, 'a')).toBe(true);
+		expect(readPinnedPatterns(tmp)[0]).toEqual({
+			id: 'a',
+			content: 'Pattern a',
+			section: 'strategies_and_hard_rules',
+			domain: 'auth',
+			confidence: 0.8,
+			pinned_at: '2026-01-01T00:00:00.000Z',
+		});
+
+		expect(unpinPattern(tmp, 'a')).toBe(true);
+		expect(unpinPattern(tmp, 'a')).toBe(false);
+		const settings = JSON.parse(fs.readFileSync(getWorkspaceSettingsPath(tmp), 'utf-8'));
+		expect(settings.env).toEqual({ ACE_PROJECT_ID: 'prj' });
+		expect(settings.pinnedPatterns.map((p: { id: string }) => p.id)).toEqual(['b']);
+	});
+
+	it('re-pinning replaces the stored copy instead of duplicating it', () => {
+		pinPattern(tmp, hit('a', 'auth'));
+		pinPattern(tmp, { ...hit('a', 'auth'), content: 'Edited' });
+		expect(readPinnedPatterns(tmp).map(p => p.content)).toEqual(['Edited']);
+	});
+
+	it('ignores missing files and malformed entries', () => {
+		expect(readPinnedPatterns(tmp)).toEqual([]);
+		fs.mkdirSync(path.dirname(getWorkspaceSettingsPath(tmp)), { recursive: true });
+		fs.writeFileSync(getWorkspaceSettingsPath(tmp), JSON.stringify({ pinnedPatterns: [{ id: 1 }, null, { id: 'ok', content: 'c', domain: 'd' }] }));
+		expect(readPinnedPatterns(tmp).map(p => p.id)).toEqual(['ok']);
+	});
+});
+
+describe('preToolUse pinned merge', () => {
+	let tmp: string;
+	let ctx: HookContext;
+	beforeEach(() => {
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-pins-hook-'));
+		const aceDir = path.join(tmp, '.cursor', 'ace');
+		fs.mkdirSync(aceDir, { recursive: true });
+		fs.writeFileSync(path.join(aceDir, 'runtime-settings.json'), JSON.stringify({ shareRawPromptsForRetrievalAnalysis: true }));
+		const searchResponse = {
+			similar_patterns: [
+				{ id: 'hit-1', content: 'Search hit', section: 'apis_to_use', domain: 'auth' },
+				{ id: 'pin-auth', content: 'Stale copy from search', section: 'apis_to_use', domain: 'auth' },
+			],
+		};
+		ctx = {
+			workspaceRoot: tmp,
+			aceDir,
+			searchHelperPath: path.join(tmp, 'ext', 'scripts', 'ace_search_helper.js'),
+			learnHelperPath: path.join(tmp, 'ext', 'scripts', 'ace_learn_helper.js'),
+			now: () => new Date(),
+			search: async () => ({ rc: 0, stdout: JSON.stringify(searchResponse) }),
+			learn: () => 0,
+		};
+		fs.writeFileSync(path.join(tmp, 'transcript.jsonl'), JSON.stringify({ role: 'user', message: { content: [{ type: 'text', text: 'fix the login flow' }] } }) + '\n');
+		pinPattern(tmp, hit('pin-auth', 'auth'));
+		pinPattern(tmp, hit('pin-billing', 'billing'));
+	});
+	afterEach(() => { fs.rmSync(tmp, { recursive: true, force: true }); });
+
+	it('puts pins for the result domains first and drops their duplicates', async () => {
+		const out = await handlePreToolUse(parseHookPayload(JSON.stringify({
+			tool_name: 'Read',
+			conversation_id: 'c1',
+			generation_id: 'g1',
+			transcript_path: path.join(tmp, 'transcript.jsonl'),
+		})), ctx) as { permission: string; agent_message: string };
+		expect(out.permission).toBe('deny');
+		const payload = JSON.parse(out.agent_message.match(/<ace-patterns[^>]*>([\s\S]*)<\/ace-patterns>/)![1]);
+		expect(payload.similar_patterns.map((p: { id: string }) => p.id)).toEqual(['pin-auth', 'hit-1']);
+		expect(payload.similar_patterns[0]).toMatchObject({ pinned: true, content: 'Pattern pin-auth' });
+	});
+
+	const readFile = (filePath: string) => parseHookPayload(JSON.stringify({
+		tool_name: 'Read',
+		tool_input: { file_path: filePath },
+		conversation_id: 'c1',
+		generation_id: 'g1',
+		transcript_path: path.join(tmp, 'transcript.jsonl'),
+	}));
+
+	it('injects pins for the active domain when the search finds nothing', async () => {
+		ctx.search = async () => ({ rc: 0, stdout: JSON.stringify({ similar_patterns: [] }) });
+		const out = await handlePreToolUse(readFile(path.join(tmp, 'billing', 'invoice.ts')), ctx) as { permission: string; agent_message: string };
+		expect(out.permission).toBe('deny');
+		const payload = JSON.parse(out.agent_message.match(/<ace-patterns[^>]*>([\s\S]*)<\/ace-patterns>/)![1]);
+		expect(payload.similar_patterns.map((p: { id: string }) => p.id)).toEqual(['pin-billing']);
+	});
+
+	it('falls back to the domain-shift marker and allows the tool when no pin matches', async () => {
+		ctx.search = async () => ({ rc: 0, stdout: '' });
+		const taskDir = path.join(tmp, '.cursor', 'ace', 'tasks', 'c1');
+		fs.mkdirSync(taskDir, { recursive: true });
+		fs.writeFileSync(path.join(taskDir, 'g0.last-domain'), 'auth\n');
+		const out = await handlePreToolUse(parseHookPayload(JSON.stringify({
+			tool_name: 'Shell',
+			conversation_id: 'c1',
+			generation_id: 'g1',
+			transcript_path: path.join(tmp, 'transcript.jsonl'),
+		})), ctx) as { agent_message: string };
+		expect(out.agent_message).toContain('"id":"pin-auth"');
+
+		expect(await handlePreToolUse({ ...readFile(path.join(tmp, 'docs', 'readme.md')), generationId: 'g2' }, ctx)).toEqual({ permission: 'allow' });
+	});
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for the shared on-disk search cache (src/ace/searchCache.ts) and its
+ * use by ace_search_helper.js.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+	normalizeSearchQuery,
+	searchCacheKey,
+	readSearchCacheTtlMs,
+	readSearchCache,
+	writeSearchCache,
+	getSearchCacheDir,
+	readSearchCacheStats,
+	recordSearchCacheLookup,
+	formatSearchCacheStats,
+	getSearchCacheJs,
+	DEFAULT_SEARCH_CACHE_TTL_SECONDS,
+} from '../../ace/searchCache';
+import { getSearchHelperContent } from '../../ace/hookScripts';
+
+type CacheJs = {
+	aceSearchCacheKey: (q: string, threshold: number, topK: number, projectId?: string, allowedDomains?: string[]) => string;
+	aceSearchCacheTtlMs: (aceDir: string) => number;
+	aceReadSearchCache: (aceDir: string, key: string, ttlMs: number) => unknown;
+	aceWriteSearchCache: (aceDir: string, key: string, response: unknown, ttlMs: number) => void;
+	aceCountSearchCache: (aceDir: string, hit: boolean) => void;
+};
+
+const loadJs = () => new Function('fs', 'path', 'require',
+	`${getSearchCacheJs()}\nreturn { aceSearchCacheKey, aceSearchCacheTtlMs, aceReadSearchCache, aceWriteSearchCache, aceCountSearchCache };`
+)(fs, path, require) as CacheJs;
+
+describe('searchCacheKey', () => {
+	it('ignores case and whitespace but not threshold, top_k or project', () => {
+		const base = { query: 'JWT  refresh\n tokens ', threshold: 0.85, topK: 5, projectId: 'p1' };
+		expect(normalizeSearchQuery(base.query)).toBe('jwt refresh tokens');
+		expect(searchCacheKey(base)).toBe(searchCacheKey({ ...base, query: 'jwt refresh tokens' }));
+		expect(searchCacheKey(base)).toMatch(/^[0-9a-f]{64}$/);
+		expect(searchCacheKey({ ...base, threshold: 0.7 })).not.toBe(searchCacheKey(base));
+		expect(searchCacheKey({ ...base, topK: 10 })).not.toBe(searchCacheKey(base));
+		expect(searchCacheKey({ ...base, projectId: 'p2' })).not.toBe(searchCacheKey(base));
+	});
+
+	it('keys on the allowed_domains filter regardless of its order', () => {
+		const base = { query: 'jwt', threshold: 0.85, topK: 5, projectId: 'p1' };
+		expect(searchCacheKey({ ...base, allowedDomains: [] })).toBe(searchCacheKey(base));
+		expect(searchCacheKey({ ...base, allowedDomains: ['auth'] })).not.toBe(searchCacheKey(base));
+		expect(searchCacheKey({ ...base, allowedDomains: ['a', 'b'] })).toBe(searchCacheKey({ ...base, allowedDomains: ['b', 'a'] }));
+	});
+
+	it('matches the JS twin baked into the helper and daemon', () => {
+		const js = loadJs();
+		for (const [q, t, k, p] of [['JWT  refresh', 0.85, 5, 'p1'], ['café\tnaïve', 0.5, 3, undefined]] as const) {
+			expect(js.aceSearchCacheKey(q, t, k, p)).toBe(searchCacheKey({ query: q, threshold: t, topK: k, projectId: p }));
+		}
+		expect(js.aceSearchCacheKey('jwt', 0.85, 5, 'p1', ['b', 'a']))
+			.toBe(searchCacheKey({ query: 'jwt', threshold: 0.85, topK: 5, projectId: 'p1', allowedDomains: ['a', 'b'] }));
+	});
+});
+
+describe('search cache entries', () => {
+	let aceDir: string;
+	beforeEach(() => { aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-search-cache-')); });
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	it('reads the TTL from runtime-settings.json, defaulting when unset', () => {
+		expect(readSearchCacheTtlMs(aceDir)).toBe(DEFAULT_SEARCH_CACHE_TTL_SECONDS * 1000);
+		fs.writeFileSync(path.join(aceDir, 'runtime-settings.json'), JSON.stringify({ searchCacheTtlSeconds: 0 }));
+		expect(readSearchCacheTtlMs(aceDir)).toBe(0);
+		expect(loadJs().aceSearchCacheTtlMs(aceDir)).toBe(0);
+		fs.writeFileSync(path.join(aceDir, 'runtime-settings.json'), JSON.stringify({ searchCacheTtlSeconds: 60 }));
+		expect(readSearchCacheTtlMs(aceDir)).toBe(60000);
+	});
+
+	it('serves entries until they expire and prunes expired files on write', () => {
+		const now = Date.now();
+		writeSearchCache(aceDir, 'old', { similar_patterns: [] }, 60000, now - 120000);
+		const oldFile = path.join(getSearchCacheDir(aceDir), 'old.json');
+		fs.utimesSync(oldFile, (now - 120000) / 1000, (now - 120000) / 1000);
+
+		writeSearchCache(aceDir, 'new', { similar_patterns: [{ id: 'p1' }] }, 60000, now);
+		expect(readSearchCache(aceDir, 'new', 60000, now + 30000)).toEqual({ similar_patterns: [{ id: 'p1' }] });
+		expect(readSearchCache(aceDir, 'new', 60000, now + 90000)).toBeUndefined();
+		expect(fs.existsSync(oldFile)).toBe(false);
+	});
+
+	it('does nothing when the TTL is 0', () => {
+		writeSearchCache(aceDir, 'k', { similar_patterns: [] }, 0);
+		expect(fs.existsSync(getSearchCacheDir(aceDir))).toBe(false);
+		expect(readSearchCache(aceDir, 'k', 0)).toBeUndefined();
+	});
+
+	it('shares entries and counters with the JS twin', () => {
+		const js = loadJs();
+		js.aceWriteSearchCache(aceDir, 'k', { similar_patterns: [{ id: 'p1' }] }, 60000);
+		expect(readSearchCache(aceDir, 'k', 60000)).toEqual({ similar_patterns: [{ id: 'p1' }] });
+		writeSearchCache(aceDir, 'k2', { similar_patterns: [] }, 60000);
+		expect(js.aceReadSearchCache(aceDir, 'k2', 60000)).toEqual({ similar_patterns: [] });
+
+		js.aceCountSearchCache(aceDir, true);
+		recordSearchCacheLookup(aceDir, false);
+		js.aceCountSearchCache(aceDir, true);
+		const stats = readSearchCacheStats(aceDir);
+		expect(stats).toMatchObject({ hits: 2, misses: 1 });
+		expect(stats.since).toMatch(/^\d{4}-/);
+	});
+
+	it('formats the counters for the Status panel', () => {
+		expect(formatSearchCacheStats({ hits: 0, misses: 0 })).toBe('no lookups yet');
+		expect(formatSearchCacheStats({ hits: 1, misses: 1 })).toBe('1 hit · 1 miss (50% hit rate)');
+		expect(formatSearchCacheStats({ hits: 12, misses: 4 })).toBe('12 hits · 4 misses (75% hit rate)');
+	});
+});
+
+describe('search helper uses the cache', () => {
+	let tmpDir: string;
+	let helperPath: string;
+	let stubLog: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-search-cache-helper-'));
+		fs.mkdirSync(path.join(tmpDir, '.cursor', 'ace'), { recursive: true });
+		const stubDir = path.join(tmpDir, 'node_modules', '@ace-sdk', 'core');
+		fs.mkdirSync(stubDir, { recursive: true });
+		fs.writeFileSync(path.join(stubDir, 'index.js'), `
+const fs = require('fs');
+class AceApiError extends Error {}
+function isTokenExpiredError(){ return false; }
+async function loadConfig(){ return { token:'t', orgId:'o', projectId:'p1' }; }
+class AceClient {
+  async searchPatterns(req){
+    fs.appendFileSync(process.env.ACE_STUB_LOG, req.query + '\\n');
+    return { similar_patterns: [{ id: 'p1', content: 'pattern for ' + req.query }] };
+  }
+}
+module.exports = { loadConfig, AceClient, AceApiError, isTokenExpiredError };
+`);
+		fs.writeFileSync(path.join(stubDir, 'package.json'), JSON.stringify({ name: '@ace-sdk/core', version: '0.0.0-stub', main: 'index.js' }));
+		helperPath = path.join(tmpDir, 'ace_search_helper.js');
+		fs.writeFileSync(helperPath, getSearchHelperContent(), { mode: 0o755 });
+		stubLog = path.join(tmpDir, 'stub.log');
+	});
+	afterEach(() => { fs.rmSync(tmpDir, { recursive: true, force: true }); });
+
+	const run = (query: string) => spawnSync('node', [helperPath, query], {
+		cwd: tmpDir,
+		encoding: 'utf-8',
+		env: { ...process.env, ACE_STUB_LOG: stubLog },
+		timeout: 10000,
+	});
+	const serverCalls = () => fs.existsSync(stubLog) ? fs.readFileSync(stubLog, 'utf-8').trim().split('\n') : [];
+
+	it('answers a repeat of the same question from disk', () => {
+		const first = run('JWT refresh tokens');
+		const second = run('  jwt   refresh TOKENS');
+		expect(first.status).toBe(0);
+		expect(second.status).toBe(0);
+		expect(second.stdout).toBe(first.stdout);
+		expect(serverCalls()).toEqual(['JWT refresh tokens']);
+		expect(readSearchCacheStats(path.join(tmpDir, '.cursor', 'ace'))).toMatchObject({ hits: 1, misses: 1 });
+	});
+
+	it('always asks the server when the TTL is 0', () => {
+		fs.writeFileSync(path.join(tmpDir, '.cursor', 'ace', 'runtime-settings.json'), JSON.stringify({ searchCacheTtlSeconds: 0 }));
+		run('jwt refresh');
+		run('jwt refresh');
+		expect(serverCalls()).toHaveLength(2);
+		expect(readSearchCacheStats(path.join(tmpDir, '.cursor', 'ace'))).toMatchObject({ hits: 0, misses: 0 });
+	});
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for the Task History view's data layer (src/ace/taskHistory.ts):
+ * per-task summaries, learn outcomes from ace-stop-debug.log and the
+ * transcript + mcp_trajectory.jsonl timeline merge.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	parseLearnStatuses,
+	listTaskHistory,
+	buildTaskTimeline,
+	loadTaskTimeline,
+} from '../../ace/taskHistory';
+
+const wrap = (inner: unknown) => JSON.stringify({ content: [{ type: 'text', text: JSON.stringify(inner) }], isError: false });
+
+const mcp = (conv: string, tool: string, input: unknown, result: unknown) => JSON.stringify({
+	conversation_id: conv,
+	generation_id: 'g1',
+	tool_name: tool,
+	tool_input: JSON.stringify(input),
+	result_json: result,
+});
+
+const transcriptLine = (role: string, content: unknown[]) => JSON.stringify({ role, message: { content } });
+
+describe('parseLearnStatuses', () => {
+	it('attributes helper lines to the preceding STOP_FIRED conversation', () => {
+		const log = [
+			'2026-03-01T10:00:00+00:00 STOP_FIRED status=completed conv=c1 loop=0',
+			'2026-03-01T10:00:01+00:00 helper_start node=/usr/bin/node helper=h.js jsonl=/x',
+			'2026-03-01T10:00:02+00:00 helper exit_0 stored=true time_saved=3',
+			'2026-03-01T10:00:02+00:00 helper_done rc=0',
+			'2026-03-01T11:00:00+00:00 STOP_FIRED status=completed conv=c2 loop=0',
+			'2026-03-01T11:00:01+00:00 helper_start node=/usr/bin/node helper=h.js jsonl=/x',
+			'2026-03-01T11:00:02+00:00 helper_done rc=2',
+			'2026-03-01T12:00:00+00:00 STOP_FIRED status=aborted conv=c3 loop=0',
+			'2026-03-01T12:00:00+00:00 STOP_SKIP reason=status_not_completed status=aborted conv=c3 loop=0',
+			'2026-03-01T13:00:00+00:00 STOP_FIRED status=completed conv=c4 loop=0',
+			'2026-03-01T13:00:01+00:00 STOP_SKIP reason=helper_missing path=/missing.js',
+		].join('\n');
+		const statuses = parseLearnStatuses(log);
+		expect(statuses.get('c1')).toEqual({ state: 'stored', detail: 'trace stored', timestamp: '2026-03-01T10:00:02+00:00' });
+		expect(statuses.get('c2')).toMatchObject({ state: 'failed', detail: 'token expired' });
+		expect(statuses.get('c3')).toMatchObject({ state: 'skipped', detail: 'status_not_completed' });
+		expect(statuses.get('c4')).toMatchObject({ state: 'skipped', detail: 'helper_missing' });
+	});
+
+	it('keeps the latest outcome when a conversation stops twice', () => {
+		const log = [
+			'2026-03-01T10:00:00+00:00 STOP_FIRED status=completed conv=c1 loop=0',
+			'2026-03-01T10:00:00+00:00 STOP_SKIP reason=no_work_count_zero status=completed conv=c1 loop=0',
+			'2026-03-01T10:05:00+00:00 STOP_FIRED status=completed conv=c1 loop=0',
+			'2026-03-01T10:05:01+00:00 helper_start node=n helper=h jsonl=j',
+		].join('\n');
+		expect(parseLearnStatuses(log).get('c1')?.state).toBe('running');
+	});
+});
+
+describe('buildTaskTimeline', () => {
+	it('orders steps by the transcript and matches MCP results by tool and args', () => {
+		const trajectory = [
+			mcp('c1', 'ace_search', { query: 'auth', limit: 5 }, wrap({ results: [{ id: 'a' }] })),
+			mcp('c1', 'ace_search', { query: 'billing' }, 'second search'),
+			mcp('other', 'ace_search', { query: 'auth' }, 'wrong conversation'),
+		];
+		const transcript = [
+			transcriptLine('user', [{ type: 'text', text: 'Fix the login bug' }]),
+			transcriptLine('assistant', [
+				{ type: 'tool_use', name: 'ace_search', input: { query: 'billing' } },
+				{ type: 'tool_use', name: 'Shell', input: { command: 'npm test' } },
+				// Same args, different key order — still an exact fingerprint match.
+				{ type: 'tool_use', name: 'ace_search', input: { limit: 5, query: 'auth' } },
+			]),
+			transcriptLine('assistant', [{ type: 'text', text: 'Done.' }]),
+		];
+		const timeline = buildTaskTimeline('c1', trajectory, transcript);
+		expect(timeline.task).toBe('Fix the login bug');
+		expect(timeline.lastReply).toBe('Done.');
+		expect(timeline.steps.map(s => [s.action, s.source])).toEqual([
+			['ace_search', 'transcript'],
+			['Shell', 'transcript'],
+			['ace_search', 'transcript'],
+		]);
+		expect(timeline.steps[0].result).toBe('second search');
+		expect(timeline.steps[1].result).toBe('');
+		expect(timeline.steps[2].result).toContain('results');
+	});
+
+	it('falls back to the MCP trajectory without a transcript', () => {
+		const long = 'x'.repeat(2500);
+		const timeline = buildTaskTimeline('c1', [
+			JSON.stringify({ event: 'pre_tool_use', tool_name: 'Read', conv_id: 'c1' }),
+			mcp('c1', 'ace_learn', { task: 't' }, long),
+		], null);
+		expect(timeline.steps).toHaveLength(1);
+		expect(timeline.steps[0]).toMatchObject({ action: 'ace_learn', args: { task: 't' }, source: 'mcp' });
+		expect(timeline.steps[0].result).toHaveLength(2001);
+	});
+});
+
+describe('listTaskHistory', () => {
+	let aceDir: string;
+	beforeEach(() => { aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-history-')); });
+	afterEach(() => { fs.rmSync(aceDir, { recursive: true, force: true }); });
+
+	const writeTask = (id: string, files: Record<string, string>) => {
+		const dir = path.join(aceDir, 'tasks', id);
+		fs.mkdirSync(dir, { recursive: true });
+		for (const [name, content] of Object.entries(files)) {
+			fs.writeFileSync(path.join(dir, name), content);
+		}
+		return dir;
+	};
+
+	it('returns [] when there is no tasks folder', () => {
+		expect(listTaskHistory(aceDir)).toEqual([]);
+	});
+
+	it('summarises prompt, tool calls, patterns, domains and learn status', () => {
+		const transcript = path.join(aceDir, 'transcript.jsonl');
+		fs.writeFileSync(transcript, [
+			transcriptLine('user', [{ type: 'text', text: '  Add   rate limiting\nto the API ' }]),
+			transcriptLine('assistant', [{ type: 'tool_use', name: 'ace_search', input: { query: 'rate limiting' } }]),
+		].join('\n'));
+		const dir = writeTask('c1', {
+			'mcp_trajectory.jsonl': [
+				JSON.stringify({ event: 'pre_tool_use', tool_name: 'Read', conv_id: 'c1', gen_id: 'g1', timestamp: '2026-03-01T10:00:05Z' }),
+				JSON.stringify({ event: 'pre_tool_use', tool_name: 'Shell', conv_id: 'c1', gen_id: 'g1', timestamp: '2026-03-01T10:00:01Z' }),
+				mcp('c1', 'ace_search', { query: 'rate limiting' }, wrap({ results: [{ id: 'p1', content: 'A' }, { id: 'p2', content: 'B' }] })),
+			].join('\n'),
+			'transcript_path': transcript + '\n',
+			'g1.patterns-injected': '',
+			'g1.last-domain': 'api-development\n',
+			'g2.last-domain': 'api-development',
+		});
+		writeTask('c2', {
+			'mcp_trajectory.jsonl': mcp('c2', 'ace_search', { query: 'fallback prompt' }, 'r'),
+		});
+		const old = new Date('2020-01-01T00:00:00Z');
+		fs.utimesSync(dir, old, old);
+		fs.writeFileSync(path.join(aceDir, 'ace-stop-debug.log'), [
+			'2026-03-01T10:10:00+00:00 STOP_FIRED status=completed conv=c1 loop=0',
+			'2026-03-01T10:10:01+00:00 helper_done rc=0',
+		].join('\n'));
+
+		const tasks = listTaskHistory(aceDir);
+		expect(tasks.map(t => t.id)).toEqual(['c2', 'c1']);
+		const c1 = tasks[1];
+		expect(c1).toMatchObject({
+			startedAt: '2026-03-01T10:00:01Z',
+			firstPrompt: 'Add rate limiting to the API',
+			toolCalls: 2,
+			patternsInjected: 2,
+			injections: 1,
+			domains: ['api-development'],
+			transcriptPath: transcript,
+			learn: { state: 'stored' },
+		});
+		// No pre_tool_use events or transcript: count MCP results, use the search query.
+		expect(tasks[0]).toMatchObject({ firstPrompt: 'fallback prompt', toolCalls: 1, learn: undefined });
+
+		const timeline = loadTaskTimeline(c1);
+		expect(timeline.steps).toHaveLength(1);
+		expect(timeline.steps[0].result).toContain('p1');
+	});
+});
+
+describe('review before upload in Task History', () => {
+	it('shows a parked trace as pending until the review outcome is logged', () => {
+		const log = [
+			'2026-03-01T10:00:00+00:00 STOP_FIRED status=completed conv=c1 loop=0',
+			'2026-03-01T10:00:01+00:00 helper_start node=n helper=h jsonl=j',
+			'2026-03-01T10:00:02.000Z helper exit_0 pending_review path=/x/pending-trace.json',
+			'2026-03-01T10:00:02+00:00 helper_done rc=0',
+		];
+		expect(parseLearnStatuses(log.join('\n')).get('c1')).toMatchObject({ state: 'pending' });
+		log.push('2026-03-01T10:05:00.000Z REVIEW_SENT conv=c1');
+		expect(parseLearnStatuses(log.join('\n')).get('c1')).toMatchObject({ state: 'stored' });
+	});
+
+	it('treats an existing pending-trace.json as pending', () => {
+		const aceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-history-pending-'));
+		fs.mkdirSync(path.join(aceDir, 'tasks', 'c1'), { recursive: true });
+		fs.writeFileSync(path.join(aceDir, 'tasks', 'c1', 'pending-trace.json'), '{}');
+		expect(listTaskHistory(aceDir)[0].learn).toMatchObject({ state: 'pending' });
+		fs.rmSync(aceDir, { recursive: true, force: true });
+	});
+});
@@ -52,6 +52,8 @@ describe('trajectoryLineToUiUpdate — afterMCPExecution / result-bearing events
 		expect(u).not.toBeNull();
 		expect(u!.statusBarText).toBe('$(check) ACE: 5 patterns');
 		expect(u!.outputLine).toMatch(/ace_search → 5 patterns \(orig 12\)/);
+		expect(u!.searchCompleted).toBe(true);
+		expect(u!.learnStored).toBeUndefined();
 	});
 
 	it('ace_search result with results array (no count field) falls back to length', () => {
@@ -94,6 +96,7 @@ describe('trajectoryLineToUiUpdate — afterMCPExecution / result-bearing events
 		const u = trajectoryLineToUiUpdate(line);
 		expect(u!.statusBarText).toBe('$(check) ACE: trace stored');
 		expect(u!.outputLine).toMatch(/ace_learn → stored/);
+		expect(u!.learnStored).toBe(true);
 	});
 
 	it('ace_search isError:true → error icon + short message + ERROR log', () => {
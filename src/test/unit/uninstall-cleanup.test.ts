@@ -1,11 +1,29 @@
 /**
- * Unit tests for the surgical ace-hooks removal from a parsed hooks.json.
- * The helper preserves user customizations: only entries whose command
- * references an ace_* script are removed; empty hook arrays are dropped.
+ * Unit tests for the surgical ace-hooks removal from (and upsert into) a
+ * parsed hooks.json. Both helpers preserve user customizations: only entries
+ * whose command runs the hook dispatcher or a legacy ace_* script are
+ * touched; empty hook arrays are dropped.
  */
 
 import { describe, it, expect } from 'vitest';
-import { removeAceHooksFromHooksJson } from '../../ace/uninstallHelpers';
+import { isAceHookCommand, mergeAceHooksIntoHooksJson, removeAceHooksFromHooksJson } from '../../ace/uninstallHelpers';
+
+describe('isAceHookCommand', () => {
+	it('matches the dispatcher and legacy ace_* scripts on a path boundary', () => {
+		expect(isAceHookCommand('node "/ext/dist/hooks/ace_hook.js" stop')).toBe(true);
+		expect(isAceHookCommand('node C:\\ext\\dist\\hooks\\ace_hook.js stop')).toBe(true);
+		expect(isAceHookCommand('.cursor/scripts/ace_session_start.sh')).toBe(true);
+		expect(isAceHookCommand('powershell -File .cursor\\scripts\\ace_stop_hook.ps1')).toBe(true);
+		expect(isAceHookCommand('ace_x.sh')).toBe(true);
+	});
+
+	it('leaves foreign scripts that merely contain "ace_" alone', () => {
+		expect(isAceHookCommand('.cursor/scripts/trace_dump.sh')).toBe(false);
+		expect(isAceHookCommand('./workspace_ace_sync.sh')).toBe(false);
+		expect(isAceHookCommand('node tools/my_ace_hook.js')).toBe(false);
+		expect(isAceHookCommand('echo ace_mode')).toBe(false);
+	});
+});
 
 describe('removeAceHooksFromHooksJson', () => {
 	it('removes entries whose command references an ace_* script', () => {
@@ -15,12 +33,12 @@ describe('removeAceHooksFromHooksJson', () => {
 				sessionStart: [
 					{ command: '.cursor/scripts/ace_session_start.sh' },
 					{ command: 'user_session_start.sh' },
+					{ command: '.cursor/scripts/trace_dump.sh' },
 				],
 			},
 		};
 		const result = removeAceHooksFromHooksJson(input);
-		expect(result.hooks!.sessionStart).toHaveLength(1);
-		expect(result.hooks!.sessionStart[0].command).toBe('user_session_start.sh');
+		expect(result.hooks!.sessionStart.map(e => e.command)).toEqual(['user_session_start.sh', '.cursor/scripts/trace_dump.sh']);
 	});
 
 	it('deletes hook keys that become empty after filtering', () => {
@@ -100,3 +118,87 @@ describe('removeAceHooksFromHooksJson', () => {
 		expect(input).toEqual(snapshot);
 	});
 });
+
+describe('mergeAceHooksIntoHooksJson', () => {
+	const hook = (event: string) => ({ command: `node /ext/dist/hooks/ace_hook.js ${event}` });
+	const expected = {
+		version: 1,
+		hooks: {
+			sessionStart: [hook('sessionStart')],
+			stop: [{ ...hook('stop'), loop_limit: 3 }],
+		},
+	};
+
+	it('writes the expected config into a missing or invalid hooks.json', () => {
+		for (const input of [undefined, null, 'text', [1]]) {
+			const result = mergeAceHooksIntoHooksJson(input, expected);
+			expect(result.hooksJson).toEqual(expected);
+			expect(result.added).toHaveLength(2);
+			expect(result.removed).toEqual([]);
+			expect(result.foreignKept).toBe(0);
+		}
+	});
+
+	it('keeps foreign entries and their order, replacing ACE entries in place', () => {
+		const input = {
+			version: 1,
+			hooks: {
+				sessionStart: [
+					{ command: 'prettier-check.sh' },
+					{ command: '.cursor/scripts/ace_session_start.sh' },
+					{ command: 'audit-log.sh', timeout: 5 },
+				],
+			},
+		};
+		const result = mergeAceHooksIntoHooksJson(input, expected);
+		expect(result.hooksJson.hooks!.sessionStart).toEqual([
+			{ command: 'prettier-check.sh' },
+			hook('sessionStart'),
+			{ command: 'audit-log.sh', timeout: 5 },
+		]);
+		expect(result.hooksJson.hooks!.stop).toEqual(expected.hooks.stop);
+		expect(result.added).toEqual([
+			'sessionStart: node /ext/dist/hooks/ace_hook.js sessionStart',
+			'stop: node /ext/dist/hooks/ace_hook.js stop',
+		]);
+		expect(result.removed).toEqual(['sessionStart: .cursor/scripts/ace_session_start.sh']);
+		expect(result.foreignKept).toBe(2);
+	});
+
+	it('appends ACE entries after foreign ones when an event had none', () => {
+		const input = { hooks: { stop: [{ command: 'notify.sh' }] } };
+		const result = mergeAceHooksIntoHooksJson(input, expected);
+		expect(result.hooksJson.hooks!.stop).toEqual([{ command: 'notify.sh' }, ...expected.hooks.stop]);
+	});
+
+	it('drops ACE entries for events ACE no longer uses but keeps foreign ones', () => {
+		const input = {
+			hooks: {
+				afterShellExecution: [{ command: 'ace_after_shell.sh' }, { command: 'shell-audit.sh' }],
+				afterAgentResponse: [{ command: 'ace_after_response.sh' }],
+			},
+		};
+		const result = mergeAceHooksIntoHooksJson(input, expected);
+		expect(result.hooksJson.hooks!.afterShellExecution).toEqual([{ command: 'shell-audit.sh' }]);
+		expect(result.hooksJson.hooks!.afterAgentResponse).toBeUndefined();
+		expect(result.removed).toEqual(['afterShellExecution: ace_after_shell.sh', 'afterAgentResponse: ace_after_response.sh']);
+	});
+
+	it('reports no changes when the ACE entries are already current', () => {
+		const input = { version: 1, hooks: { ...expected.hooks, preToolUse: [{ command: 'lint.sh' }] } };
+		const result = mergeAceHooksIntoHooksJson(input, expected);
+		expect(result.hooksJson).toEqual(input);
+		expect(result.added).toEqual([]);
+		expect(result.removed).toEqual([]);
+		expect(result.foreignKept).toBe(1);
+	});
+
+	it('preserves the version field and unrelated keys, and does not mutate the input', () => {
+		const input = { version: 2, customKey: 'keep', hooks: { sessionStart: [{ command: 'ace_x.sh' }, { command: 'user.sh' }] } };
+		const snapshot = JSON.parse(JSON.stringify(input));
+		const result = mergeAceHooksIntoHooksJson(input, expected);
+		expect(result.hooksJson.version).toBe(2);
+		expect(result.hooksJson.customKey).toBe('keep');
+		expect(input).toEqual(snapshot);
+	});
+});
@@ -50,7 +50,7 @@ describe('Task D — cleanupOrphanScripts', () => {
 		// Listed by hand in the task spec — keep this canon test in sync.
 		// v0.5.1 — added PS1 parity entries for the Windows hook generators that
 		// emitted scripts for hooks unhooked back in dev.14.
-		expect(ORPHAN_SCRIPTS).toEqual([
+		expect(ORPHAN_SCRIPTS.slice(0, 7)).toEqual([
 			'ace_stop_hook.sh.bak',
 			'ace_track_edit.sh',
 			'ace_track_response.sh',
@@ -61,21 +61,29 @@ describe('Task D — cleanupOrphanScripts', () => {
 		]);
 	});
 
+	it('lists every per-event script the hook dispatcher replaced', () => {
+		for (const name of ['ace_track_mcp', 'ace_stop_hook', 'ace_domain_shift', 'ace_pre_tool_use', 'ace_post_tool_use', 'ace_after_tab_file_edit']) {
+			expect(ORPHAN_SCRIPTS).toContain(`${name}.sh`);
+			expect(ORPHAN_SCRIPTS).toContain(`${name}.ps1`);
+		}
+		expect(new Set(ORPHAN_SCRIPTS).size).toBe(ORPHAN_SCRIPTS.length);
+	});
+
 	it('removes orphan scripts when present', () => {
 		const dir = mkTmpDir('ace-orphan-');
 		try {
 			for (const name of ORPHAN_SCRIPTS) {
 				fs.writeFileSync(path.join(dir, name), '# orphan\n');
 			}
-			fs.writeFileSync(path.join(dir, 'ace_track_mcp.sh'), '# valid\n');
+			fs.writeFileSync(path.join(dir, 'my_hook.sh'), '# user-owned\n');
 
 			const removed = cleanupOrphanScripts(dir);
 			expect(removed.sort()).toEqual([...ORPHAN_SCRIPTS].sort());
 			for (const name of ORPHAN_SCRIPTS) {
 				expect(fs.existsSync(path.join(dir, name)), `${name} should be removed`).toBe(false);
 			}
-			// Valid script untouched
-			expect(fs.existsSync(path.join(dir, 'ace_track_mcp.sh'))).toBe(true);
+			// Foreign script untouched
+			expect(fs.existsSync(path.join(dir, 'my_hook.sh'))).toBe(true);
 		} finally {
 			rmTmp(dir);
 		}
@@ -89,10 +97,10 @@ describe('Task D — cleanupOrphanScripts', () => {
 	it('does not error when no orphans exist', () => {
 		const dir = mkTmpDir('ace-orphan-clean-');
 		try {
-			fs.writeFileSync(path.join(dir, 'ace_track_mcp.sh'), '# valid\n');
+			fs.writeFileSync(path.join(dir, 'my_hook.sh'), '# user-owned\n');
 			const removed = cleanupOrphanScripts(dir);
 			expect(removed).toEqual([]);
-			expect(fs.existsSync(path.join(dir, 'ace_track_mcp.sh'))).toBe(true);
+			expect(fs.existsSync(path.join(dir, 'my_hook.sh'))).toBe(true);
 		} finally {
 			rmTmp(dir);
 		}
@@ -344,70 +352,37 @@ describe('Task C — ensureWorkspaceFolders', () => {
 });
 
 // ---------------------------------------------------------------------------
-// Task A — per-conv path in pre_tool_use + post_tool_use scripts
+// Task A — per-conv path in the pre/post-tool-use hooks
 // ---------------------------------------------------------------------------
-describe('Task A — pre/post-tool-use scripts use per-conv mcp_trajectory path', () => {
-	it('pre_tool_use bash script writes to .cursor/ace/tasks/<conv>/mcp_trajectory.jsonl when conv_id present', async () => {
-		const { getPreToolUseScriptContent } = await import('../../ace/hookScripts');
-		const script = getPreToolUseScriptContent();
-		// v0.5.0-dev.24 — per-conv branch must materialize tasks/$conv_id path
-		// (renamed from sessions/$conv_id).
-		expect(script).toMatch(/tasks\/\$conv_id/);
-		expect(script).toMatch(/per_conv_dir.*tasks\/\$conv_id/);
-		expect(script).toMatch(/per_conv_dir\/mcp_trajectory\.jsonl/);
-		// Legacy sessions/ path MUST NOT be written by the new script.
-		expect(script).not.toMatch(/per_conv_dir="\$ace_dir\/sessions\/\$conv_id"/);
-	});
-
-	it('pre_tool_use bash script falls back to top-level when conv_id missing', async () => {
-		const { getPreToolUseScriptContent } = await import('../../ace/hookScripts');
-		const script = getPreToolUseScriptContent();
-		// Top-level fallback path must remain (legacy / first-turn)
-		expect(script).toMatch(/echo .* >> "\$ace_dir\/mcp_trajectory\.jsonl"/);
-	});
+describe('Task A — pre/post-tool-use hooks use per-conv mcp_trajectory path', () => {
+	const runPreToolUse = async (input: Record<string, unknown>) => {
+		const { runHook } = await import('../../hooks/handlers');
+		const { createHookContext } = await import('../../hooks/hookContext');
+		const cwd = mkTmpDir('ace-pre-cwd-');
+		await runHook('preToolUse', JSON.stringify(input), createHookContext(cwd, path.join(cwd, 'ext'), path.join(cwd, 'missing.sock')));
+		return cwd;
+	};
 
 	it('runtime: pre_tool_use writes to per-conv subdir when conversation_id present', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const { getPreToolUseScriptContent } = await import('../../ace/hookScripts');
-		const tmp = path.join(os.tmpdir(), `ace-pre-${Date.now()}.sh`);
-		fs.writeFileSync(tmp, getPreToolUseScriptContent(), { mode: 0o755 });
-		const cwd = mkTmpDir('ace-pre-cwd-');
+		const cwd = await runPreToolUse({ tool_name: 'Read', conversation_id: 'conv-PRE', generation_id: 'gen-1' });
 		try {
-			execFileSync('bash', [tmp], {
-				input: JSON.stringify({
-					tool_name: 'Read',
-					conversation_id: 'conv-PRE',
-					generation_id: 'gen-1',
-				}),
-				encoding: 'utf-8',
-				cwd,
-			});
+			// v0.5.0-dev.24 — tasks/<conv> (renamed from sessions/<conv>).
 			const perConv = path.join(cwd, '.cursor', 'ace', 'tasks', 'conv-PRE', 'mcp_trajectory.jsonl');
 			expect(fs.existsSync(perConv), `expected per-conv jsonl at ${perConv}`).toBe(true);
+			expect(fs.existsSync(path.join(cwd, '.cursor', 'ace', 'sessions'))).toBe(false);
 			const top = path.join(cwd, '.cursor', 'ace', 'mcp_trajectory.jsonl');
 			expect(fs.existsSync(top)).toBe(false);
 		} finally {
-			fs.unlinkSync(tmp);
 			rmTmp(cwd);
 		}
 	});
 
 	it('runtime: pre_tool_use falls back to top-level mcp_trajectory.jsonl when conv_id missing', async () => {
-		const { execFileSync } = await import('node:child_process');
-		const { getPreToolUseScriptContent } = await import('../../ace/hookScripts');
-		const tmp = path.join(os.tmpdir(), `ace-pre-fb-${Date.now()}.sh`);
-		fs.writeFileSync(tmp, getPreToolUseScriptContent(), { mode: 0o755 });
-		const cwd = mkTmpDir('ace-pre-fb-cwd-');
+		const cwd = await runPreToolUse({ tool_name: 'Read' });
 		try {
-			execFileSync('bash', [tmp], {
-				input: JSON.stringify({ tool_name: 'Read' }),
-				encoding: 'utf-8',
-				cwd,
-			});
 			const top = path.join(cwd, '.cursor', 'ace', 'mcp_trajectory.jsonl');
 			expect(fs.existsSync(top)).toBe(true);
 		} finally {
-			fs.unlinkSync(tmp);
 			rmTmp(cwd);
 		}
 	});
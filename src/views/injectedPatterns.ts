@@ -0,0 +1,109 @@
+/**
+ * ACE Injected Patterns - activity bar tree of what ace_search handed the AI
+ *
+ * Recent task conversations (.cursor/ace/tasks/<conv_id>/mcp_trajectory.jsonl)
+ * → the patterns their ace_search calls returned, with the user's latest
+ * 👍/👎 from feedback.jsonl and 📌 for pins. Refreshed by the trajectory
+ * watcher after each ace_search and after every rating or pin change.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCurrentFolder } from '../automation/workspaceMonitor';
+import { listTaskConversations } from '../ace/manualTrace';
+import { type PatternHit, formatPatternLabel, formatPatternMarkdown, formatRelativeTime } from '../ace/patternSearch';
+import { injectedPatternsFromTrajectory, readFeedbackLog, latestRatings, type FeedbackRating } from '../ace/patternFeedback';
+import { readPinnedPatterns } from '../ace/pinnedPatterns';
+
+const MAX_TASKS = 10;
+
+type InjectedNode =
+	| { kind: 'task'; id: string; mtimeMs: number; patterns: PatternHit[] }
+	| { kind: 'pattern'; pattern: PatternHit; rating?: FeedbackRating; source: 'injected' }
+	| { kind: 'message'; label: string };
+
+export class InjectedPatternsProvider implements vscode.TreeDataProvider<InjectedNode> {
+	private readonly _onDidChangeTreeData = new vscode.EventEmitter<InjectedNode | undefined>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+	private _ratings: Map<string, FeedbackRating> = new Map();
+	private _pinnedIds: Set<string> = new Set();
+
+	refresh(): void {
+		this._onDidChangeTreeData.fire(undefined);
+	}
+
+	getTreeItem(node: InjectedNode): vscode.TreeItem {
+		switch (node.kind) {
+			case 'task': {
+				const item = new vscode.TreeItem(`Task ${node.id.slice(0, 8)}`, vscode.TreeItemCollapsibleState.Collapsed);
+				item.id = node.id;
+				item.description = `${node.patterns.length} pattern${node.patterns.length === 1 ? '' : 's'} · ${formatRelativeTime(new Date(node.mtimeMs).toISOString())}`;
+				item.tooltip = node.id;
+				item.iconPath = new vscode.ThemeIcon('comment-discussion');
+				return item;
+			}
+			case 'pattern': {
+				const p = node.pattern;
+				const item = new vscode.TreeItem(formatPatternLabel(p, 80), vscode.TreeItemCollapsibleState.None);
+				const rated = node.rating === 'helpful' ? ' · rated 👍' : node.rating === 'harmful' ? ' · rated 👎' : '';
+				const pinned = this._pinnedIds.has(p.id);
+				item.description = `${pinned ? '📌 ' : ''}${p.domain}${rated}`;
+				item.tooltip = new vscode.MarkdownString(formatPatternMarkdown(p));
+				item.iconPath = new vscode.ThemeIcon(pinned ? 'pinned' : 'lightbulb');
+				item.contextValue = 'acePattern';
+				item.command = {
+					command: 'ace.patternExplorer.openPattern',
+					title: 'Open Pattern',
+					arguments: [p]
+				};
+				return item;
+			}
+			case 'message':
+				return new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+		}
+	}
+
+	getChildren(node?: InjectedNode): InjectedNode[] {
+		if (!node) {
+			return this._getTasks();
+		}
+		if (node.kind === 'task') {
+			return node.patterns.map(pattern => ({
+				kind: 'pattern' as const,
+				pattern,
+				rating: this._ratings.get(pattern.id),
+				source: 'injected' as const
+			}));
+		}
+		return [];
+	}
+
+	private _getTasks(): InjectedNode[] {
+		const folder = getCurrentFolder() ?? vscode.workspace.workspaceFolders?.[0];
+		if (!folder) {
+			return [{ kind: 'message', label: 'Open a workspace folder' }];
+		}
+		const wsRoot = folder.uri.fsPath;
+		this._ratings = latestRatings(readFeedbackLog(wsRoot));
+		this._pinnedIds = new Set(readPinnedPatterns(wsRoot).map(p => p.id));
+
+		const tasks: InjectedNode[] = [];
+		for (const conv of listTaskConversations(path.join(wsRoot, '.cursor', 'ace'))) {
+			let lines: string[] = [];
+			try {
+				lines = fs.readFileSync(conv.trajectoryPath, 'utf-8').split('\n');
+			} catch {
+				continue;
+			}
+			const patterns = injectedPatternsFromTrajectory(lines);
+			if (patterns.length === 0) continue;
+			tasks.push({ kind: 'task', id: conv.id, mtimeMs: conv.mtimeMs, patterns });
+			if (tasks.length >= MAX_TASKS) break;
+		}
+		return tasks.length > 0
+			? tasks
+			: [{ kind: 'message', label: 'No patterns injected yet' }];
+	}
+}
@@ -0,0 +1,192 @@
+/**
+ * ACE Pattern Explorer - activity bar tree of the whole playbook
+ *
+ * Domain → section → pattern. Domain counts come from AceClient.getStatus()
+ * (by_domain); a domain's patterns are fetched page by page when it is first
+ * expanded, with a "Load more…" node while the server reports more.
+ * Refreshed from the trajectory watcher after every ace_learn success.
+ */
+
+import * as vscode from 'vscode';
+import { getAceClient } from '../ace/client';
+import { fetchPatternPage } from '../ace/playbookApi';
+import { readPinnedPatterns } from '../ace/pinnedPatterns';
+import { getCurrentFolder } from '../automation/workspaceMonitor';
+import {
+	type PatternHit,
+	parseDomainCounts,
+	groupBySection,
+	formatPatternLabel,
+	formatRelativeTime,
+	formatPatternMarkdown
+} from '../ace/patternSearch';
+
+type ExplorerNode =
+	| { kind: 'domain'; domain: string; count: number }
+	| { kind: 'section'; domain: string; section: string; label: string; patterns: PatternHit[] }
+	| { kind: 'pattern'; pattern: PatternHit }
+	| { kind: 'more'; domain: string; loaded: number }
+	| { kind: 'message'; label: string; icon: string; command?: vscode.Command };
+
+type DomainCache = {
+	patterns: PatternHit[];
+	hasMore: boolean;
+	error?: string;
+};
+
+export class PatternExplorerProvider implements vscode.TreeDataProvider<ExplorerNode> {
+	private readonly _onDidChangeTreeData = new vscode.EventEmitter<ExplorerNode | undefined>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+	private _domains: Map<string, DomainCache> = new Map();
+	private _pinnedIds: Set<string> = new Set();
+
+	/** Drop every cached page and reload from the server. */
+	refresh(): void {
+		this._domains.clear();
+		this._onDidChangeTreeData.fire(undefined);
+	}
+
+	/** Re-read pins from settings.json and repaint without refetching. */
+	refreshPins(): void {
+		this._loadPins();
+		this._onDidChangeTreeData.fire(undefined);
+	}
+
+	private _loadPins(): void {
+		const folder = getCurrentFolder() ?? vscode.workspace.workspaceFolders?.[0];
+		this._pinnedIds = new Set(folder ? readPinnedPatterns(folder.uri.fsPath).map(p => p.id) : []);
+	}
+
+	/** Fetch the next page of a domain and append it. */
+	async loadMore(domain: string): Promise<void> {
+		const cache = this._domains.get(domain);
+		if (!cache) return;
+		await this._fetchInto(domain, cache);
+		this._onDidChangeTreeData.fire(undefined);
+	}
+
+	getTreeItem(node: ExplorerNode): vscode.TreeItem {
+		switch (node.kind) {
+			case 'domain': {
+				const item = new vscode.TreeItem(node.domain.replace(/-/g, ' '), vscode.TreeItemCollapsibleState.Collapsed);
+				item.description = `${node.count}`;
+				item.iconPath = new vscode.ThemeIcon('folder-library');
+				item.contextValue = 'aceDomain';
+				return item;
+			}
+			case 'section': {
+				const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Collapsed);
+				item.id = `${node.domain}/${node.section}`;
+				item.description = `${node.patterns.length}`;
+				item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+				return item;
+			}
+			case 'pattern': {
+				const p = node.pattern;
+				const item = new vscode.TreeItem(formatPatternLabel(p, 80), vscode.TreeItemCollapsibleState.None);
+				const updated = formatRelativeTime(p.updatedAt);
+				const pinned = this._pinnedIds.has(p.id);
+				item.description = `${pinned ? '📌 ' : ''}👍 ${p.helpful} 👎 ${p.harmful}${updated ? ` · ${updated}` : ''}`;
+				item.tooltip = new vscode.MarkdownString(formatPatternMarkdown(p));
+				item.iconPath = new vscode.ThemeIcon(pinned ? 'pinned' : 'lightbulb');
+				item.contextValue = 'acePattern';
+				item.command = {
+					command: 'ace.patternExplorer.openPattern',
+					title: 'Open Pattern',
+					arguments: [p]
+				};
+				return item;
+			}
+			case 'more': {
+				const item = new vscode.TreeItem('Load more…', vscode.TreeItemCollapsibleState.None);
+				item.description = `${node.loaded} loaded`;
+				item.iconPath = new vscode.ThemeIcon('ellipsis');
+				item.command = {
+					command: 'ace.patternExplorer.loadMore',
+					title: 'Load More Patterns',
+					arguments: [node.domain]
+				};
+				return item;
+			}
+			case 'message': {
+				const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+				item.iconPath = new vscode.ThemeIcon(node.icon);
+				item.command = node.command;
+				return item;
+			}
+		}
+	}
+
+	async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+		if (!node) {
+			return this._getDomains();
+		}
+		if (node.kind === 'domain') {
+			let cache = this._domains.get(node.domain);
+			if (!cache) {
+				cache = { patterns: [], hasMore: true };
+				this._domains.set(node.domain, cache);
+				await this._fetchInto(node.domain, cache);
+			}
+			if (cache.error && cache.patterns.length === 0) {
+				return [{ kind: 'message', label: `Failed to load: ${cache.error}`, icon: 'error' }];
+			}
+			const children: ExplorerNode[] = groupBySection(cache.patterns).map(g => ({
+				kind: 'section' as const,
+				domain: node.domain,
+				section: g.section,
+				label: g.label,
+				patterns: g.patterns
+			}));
+			if (cache.hasMore) {
+				children.push({ kind: 'more', domain: node.domain, loaded: cache.patterns.length });
+			}
+			return children;
+		}
+		if (node.kind === 'section') {
+			return node.patterns.map(pattern => ({ kind: 'pattern' as const, pattern }));
+		}
+		return [];
+	}
+
+	private async _getDomains(): Promise<ExplorerNode[]> {
+		this._loadPins();
+		const client = getAceClient();
+		if (!client) {
+			return [{
+				kind: 'message',
+				label: 'ACE not configured — click to configure',
+				icon: 'gear',
+				command: { command: 'ace.configure', title: 'Configure ACE' }
+			}];
+		}
+		try {
+			const status = await client.getStatus();
+			const domains = parseDomainCounts(status.by_domain);
+			if (domains.length === 0) {
+				return [{ kind: 'message', label: 'Playbook is empty', icon: 'info' }];
+			}
+			return domains.map(d => ({ kind: 'domain' as const, domain: d.domain, count: d.count }));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error('[ACE] Pattern Explorer: getStatus failed:', message);
+			return [{ kind: 'message', label: `Failed to load playbook: ${message}`, icon: 'error' }];
+		}
+	}
+
+	private async _fetchInto(domain: string, cache: DomainCache): Promise<void> {
+		try {
+			const page = await fetchPatternPage(domain, cache.patterns.length);
+			// Pages can overlap when the playbook changes between fetches.
+			const seen = new Set(cache.patterns.map(p => p.id));
+			cache.patterns.push(...page.patterns.filter(p => !seen.has(p.id)));
+			cache.hasMore = page.hasMore && page.patterns.length > 0;
+			cache.error = undefined;
+		} catch (error) {
+			cache.error = error instanceof Error ? error.message : String(error);
+			cache.hasMore = false;
+			console.error(`[ACE] Pattern Explorer: fetching ${domain} failed:`, cache.error);
+		}
+	}
+}
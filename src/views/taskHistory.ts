@@ -0,0 +1,76 @@
+/**
+ * ACE Task History - activity bar list of past tasks in .cursor/ace/tasks/
+ *
+ * One row per conversation: first prompt, date, tool-call count, patterns
+ * injected and the Stop hook's learn outcome from ace-stop-debug.log.
+ * Clicking a task opens its step timeline. Refreshed by the trajectory
+ * watcher after each ace_search and ace_learn.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getCurrentFolder } from '../automation/workspaceMonitor';
+import { listTaskHistory, type TaskSummary } from '../ace/taskHistory';
+import { formatRelativeTime } from '../ace/patternSearch';
+
+const MAX_TASKS = 100;
+
+type HistoryNode =
+	| { kind: 'task'; task: TaskSummary }
+	| { kind: 'message'; label: string };
+
+const LEARN_ICONS: Record<string, string> = {
+	stored: '✅',
+	skipped: '⏭️',
+	failed: '⚠️',
+	running: '⏳',
+	pending: '📝',
+};
+
+export class TaskHistoryProvider implements vscode.TreeDataProvider<HistoryNode> {
+	private readonly _onDidChangeTreeData = new vscode.EventEmitter<HistoryNode | undefined>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+	refresh(): void {
+		this._onDidChangeTreeData.fire(undefined);
+	}
+
+	getTreeItem(node: HistoryNode): vscode.TreeItem {
+		if (node.kind === 'message') {
+			return new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+		}
+		const t = node.task;
+		const label = t.firstPrompt || `Task ${t.id.slice(0, 8)}`;
+		const item = new vscode.TreeItem(label.length > 80 ? label.slice(0, 77) + '...' : label, vscode.TreeItemCollapsibleState.None);
+		item.id = t.id;
+		const learn = t.learn ? ` · ${LEARN_ICONS[t.learn.state]} ${t.learn.state}` : '';
+		item.description = `${formatRelativeTime(t.startedAt)} · ${t.toolCalls} tool${t.toolCalls === 1 ? '' : 's'} · ${t.patternsInjected} pattern${t.patternsInjected === 1 ? '' : 's'}${learn}`;
+		const tooltip = new vscode.MarkdownString();
+		tooltip.appendMarkdown(`**${t.firstPrompt ? 'Task' : 'Conversation'}** \`${t.id}\`\n\n`);
+		if (t.firstPrompt) tooltip.appendText(`${t.firstPrompt}\n\n`);
+		tooltip.appendMarkdown(`Started: ${new Date(t.startedAt).toLocaleString()}\n\n`);
+		if (t.domains.length > 0) tooltip.appendMarkdown(`Domains: ${t.domains.join(', ')}\n\n`);
+		if (t.learn) tooltip.appendMarkdown(`Learn: ${t.learn.state} — ${t.learn.detail}`);
+		item.tooltip = tooltip;
+		item.iconPath = new vscode.ThemeIcon('history');
+		item.contextValue = 'aceTask';
+		item.command = {
+			command: 'ace.taskHistory.openTask',
+			title: 'Open Task Timeline',
+			arguments: [t]
+		};
+		return item;
+	}
+
+	getChildren(node?: HistoryNode): HistoryNode[] {
+		if (node) return [];
+		const folder = getCurrentFolder() ?? vscode.workspace.workspaceFolders?.[0];
+		if (!folder) {
+			return [{ kind: 'message', label: 'Open a workspace folder' }];
+		}
+		const tasks = listTaskHistory(path.join(folder.uri.fsPath, '.cursor', 'ace'));
+		return tasks.length > 0
+			? tasks.slice(0, MAX_TASKS).map(task => ({ kind: 'task' as const, task }))
+			: [{ kind: 'message', label: 'No tasks recorded yet' }];
+	}
+}
@@ -0,0 +1,12 @@
+/**
+ * HTML helpers shared by the webview panels.
+ */
+
+/** Escape text for element content and double-quoted attributes. */
+export function escapeHtml(s: string): string {
+	return s
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
@@ -0,0 +1,147 @@
+/**
+ * ACE Learn Result Panel - Shows what the server learned from a manually
+ * captured trace (ACE: Capture Learning)
+ */
+
+import * as vscode from 'vscode';
+import { extractLearnedPatterns, type ManualTrace } from '../ace/manualTrace';
+import { escapeHtml } from './html';
+
+export class LearnResultPanel {
+	public static currentPanel: LearnResultPanel | undefined;
+	private readonly _panel: vscode.WebviewPanel;
+	private _disposables: vscode.Disposable[] = [];
+
+	private constructor(panel: vscode.WebviewPanel) {
+		this._panel = panel;
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+	}
+
+	public static show(extensionUri: vscode.Uri, trace: ManualTrace, response: unknown) {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (!LearnResultPanel.currentPanel) {
+			const panel = vscode.window.createWebviewPanel(
+				'aceLearnResult',
+				'ACE Learning Result',
+				column || vscode.ViewColumn.One,
+				{
+					enableScripts: false,
+					localResourceRoots: [extensionUri]
+				}
+			);
+			LearnResultPanel.currentPanel = new LearnResultPanel(panel);
+		} else {
+			LearnResultPanel.currentPanel._panel.reveal(column);
+		}
+
+		LearnResultPanel.currentPanel._panel.webview.html =
+			LearnResultPanel.currentPanel._getHtml(trace, response);
+	}
+
+	public dispose() {
+		LearnResultPanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	private _getHtml(trace: ManualTrace, response: unknown): string {
+		const cspSource = this._panel.webview.cspSource;
+		const r = (response && typeof response === 'object' ? response : {}) as Record<string, any>;
+		const stored = r.stored !== false;
+		const groups = extractLearnedPatterns(response);
+		const stats = r.learning_statistics && typeof r.learning_statistics === 'object'
+			? Object.entries(r.learning_statistics as Record<string, unknown>)
+			: [];
+
+		const groupsHtml = groups.length > 0
+			? groups.map(g => `
+				<h2>${escapeHtml(g.label)} (${g.patterns.length})</h2>
+				${g.patterns.map(p => `
+					<div class="pattern-item">
+						${escapeHtml(String(p.content ?? p.text ?? JSON.stringify(p)))}
+						<div class="pattern-meta">
+							<span class="pattern-badge">${escapeHtml(String(p.section ?? 'general').replace(/_/g, ' '))}</span>
+							${p.domain ? `<span>🏷️ ${escapeHtml(String(p.domain))}</span>` : ''}
+							${p.id ? `<span>${escapeHtml(String(p.id))}</span>` : ''}
+						</div>
+					</div>`).join('')}`).join('')
+			: '<p class="muted">The server accepted the trace but did not report pattern changes yet. Reflection can run asynchronously — check ACE: Show Status in a minute.</p>';
+
+		const statsHtml = stats.length > 0 ? `
+			<h2>Learning Statistics</h2>
+			<table>
+				${stats.map(([k, v]) => `<tr><td>${escapeHtml(k.replace(/_/g, ' '))}</td><td>${escapeHtml(typeof v === 'object' ? JSON.stringify(v) : String(v))}</td></tr>`).join('')}
+			</table>` : '';
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline' ${cspSource};">
+	<title>ACE Learning Result</title>
+	<style>
+		body {
+			font-family: var(--vscode-font-family);
+			padding: 20px;
+			color: var(--vscode-foreground);
+			background: var(--vscode-editor-background);
+		}
+		h1 { font-size: 22px; margin: 0 0 10px 0; }
+		h2 { font-size: 16px; margin-top: 25px; }
+		.status { font-weight: 600; }
+		.status.ok { color: var(--vscode-testing-iconPassed); }
+		.status.fail { color: var(--vscode-testing-iconFailed); }
+		.meta { color: var(--vscode-descriptionForeground); font-size: 13px; line-height: 1.7; }
+		.muted { color: var(--vscode-descriptionForeground); font-style: italic; }
+		.pattern-item {
+			padding: 12px 15px;
+			margin: 8px 0;
+			border: 1px solid var(--vscode-panel-border);
+			border-left: 3px solid var(--vscode-textLink-foreground);
+			border-radius: 4px;
+			font-size: 13px;
+			line-height: 1.5;
+			white-space: pre-wrap;
+		}
+		.pattern-meta {
+			display: flex;
+			gap: 12px;
+			margin-top: 8px;
+			font-size: 11px;
+			color: var(--vscode-descriptionForeground);
+		}
+		.pattern-badge {
+			padding: 2px 6px;
+			border-radius: 10px;
+			background: var(--vscode-badge-background);
+			color: var(--vscode-badge-foreground);
+		}
+		table { border-collapse: collapse; font-size: 13px; }
+		td { padding: 4px 12px 4px 0; }
+	</style>
+</head>
+<body>
+	<h1>ACE Learning Result</h1>
+	<div class="status ${stored ? 'ok' : 'fail'}">${stored ? '✅ Trace stored' : '⚠️ Server did not store the trace'}</div>
+	<div class="meta">
+		<div><strong>Task:</strong> ${escapeHtml(trace.task)}</div>
+		<div><strong>Outcome:</strong> ${trace.result.success ? 'Success' : 'Failure'}</div>
+		<div><strong>Session:</strong> ${escapeHtml(trace.session_id)}</div>
+		<div><strong>Trajectory steps:</strong> ${trace.trajectory.length} · <strong>Patterns received:</strong> ${trace.received_patterns.length}</div>
+		<div><strong>Git:</strong> ${escapeHtml(trace.git.branch)} @ ${escapeHtml(trace.git.commit_hash)}</div>
+	</div>
+	${statsHtml}
+	${groupsHtml}
+</body>
+</html>`;
+	}
+}
@@ -0,0 +1,112 @@
+/**
+ * ACE Pattern Detail Panel - Full view of a single playbook pattern, opened
+ * from the Pattern Explorer tree
+ */
+
+import * as vscode from 'vscode';
+import { sectionLabel, formatRelativeTime, type PatternHit } from '../ace/patternSearch';
+import { escapeHtml } from './html';
+
+export class PatternDetailPanel {
+	public static currentPanel: PatternDetailPanel | undefined;
+	private readonly _panel: vscode.WebviewPanel;
+	private _disposables: vscode.Disposable[] = [];
+
+	private constructor(panel: vscode.WebviewPanel) {
+		this._panel = panel;
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+	}
+
+	public static show(extensionUri: vscode.Uri, pattern: PatternHit) {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (!PatternDetailPanel.currentPanel) {
+			const panel = vscode.window.createWebviewPanel(
+				'acePatternDetail',
+				'ACE Pattern',
+				column || vscode.ViewColumn.One,
+				{
+					enableScripts: false,
+					localResourceRoots: [extensionUri]
+				}
+			);
+			PatternDetailPanel.currentPanel = new PatternDetailPanel(panel);
+		} else {
+			PatternDetailPanel.currentPanel._panel.reveal(column);
+		}
+
+		const current = PatternDetailPanel.currentPanel;
+		current._panel.title = `ACE Pattern · ${sectionLabel(pattern.section)}`;
+		current._panel.webview.html = current._getHtml(pattern);
+	}
+
+	public dispose() {
+		PatternDetailPanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	private _getHtml(pattern: PatternHit): string {
+		const cspSource = this._panel.webview.cspSource;
+		const updated = pattern.updatedAt
+			? `${escapeHtml(formatRelativeTime(pattern.updatedAt))} (${escapeHtml(pattern.updatedAt)})`
+			: 'unknown';
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline' ${cspSource};">
+	<title>ACE Pattern</title>
+	<style>
+		body {
+			font-family: var(--vscode-font-family);
+			padding: 20px;
+			color: var(--vscode-foreground);
+			background: var(--vscode-editor-background);
+		}
+		h1 { font-size: 20px; margin: 0 0 10px 0; }
+		.content {
+			padding: 12px 15px;
+			margin: 15px 0;
+			border: 1px solid var(--vscode-panel-border);
+			border-left: 3px solid var(--vscode-textLink-foreground);
+			border-radius: 4px;
+			font-size: 13px;
+			line-height: 1.5;
+			white-space: pre-wrap;
+		}
+		.pattern-badge {
+			padding: 2px 6px;
+			border-radius: 10px;
+			background: var(--vscode-badge-background);
+			color: var(--vscode-badge-foreground);
+			font-size: 11px;
+		}
+		table { border-collapse: collapse; font-size: 13px; }
+		td { padding: 4px 12px 4px 0; }
+		td:first-child { color: var(--vscode-descriptionForeground); }
+	</style>
+</head>
+<body>
+	<h1>${escapeHtml(sectionLabel(pattern.section))} <span class="pattern-badge">${escapeHtml(pattern.domain)}</span></h1>
+	<div class="content">${escapeHtml(pattern.content.trim())}</div>
+	<table>
+		<tr><td>Helpful</td><td>👍 ${pattern.helpful}</td></tr>
+		<tr><td>Harmful</td><td>👎 ${pattern.harmful}</td></tr>
+		<tr><td>Confidence</td><td>${Math.round(pattern.confidence * 100)}%</td></tr>
+		<tr><td>Last updated</td><td>${updated}</td></tr>
+		<tr><td>ID</td><td><code>${escapeHtml(pattern.id)}</code></td></tr>
+	</table>
+</body>
+</html>`;
+	}
+}
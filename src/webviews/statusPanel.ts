@@ -11,6 +11,10 @@ import { getValidToken, getHardCapInfo } from '../commands/login';
 import { loadConfig, loadUserAuth, getDefaultOrgId, getUsagePercentage, isNearLimit, isOverLimit } from '@ace-sdk/core';
 import type { UsageInfo, UsageMetric } from '@ace-sdk/core';
 import { getLastUsageInfo, getAceClient } from '../ace/client';
+import { normalizeSearchResults, type PatternHit } from '../ace/patternSearch';
+import { ratePattern } from '../commands/feedback';
+import { readMirrorState, formatMirrorAge, isMirrorAvailable } from '../ace/patternMirror';
+import { readSearchCacheStats, formatSearchCacheStats } from '../ace/searchCache';
 
 /**
  * Format a numeric count for display in the status panel.
@@ -29,6 +33,8 @@ export class StatusPanel {
 	public static currentPanel: StatusPanel | undefined;
 	private readonly _panel: vscode.WebviewPanel;
 	private _disposables: vscode.Disposable[] = [];
+	// Top patterns from the last render, so 👍/👎 clicks can resolve their id.
+	private _topPatterns: PatternHit[] = [];
 
 	private constructor(panel: vscode.WebviewPanel) {
 		this._panel = panel;
@@ -60,6 +66,19 @@ export class StatusPanel {
 					case 'refresh':
 						this._update();
 						break;
+					case 'ratePattern': {
+						const hit = this._topPatterns.find(p => p.id === message.patternId);
+						if (hit && (message.rating === 'helpful' || message.rating === 'harmful')) {
+							ratePattern(hit, message.rating, 'status')
+								.then(sent => {
+									if (sent) {
+										this._update();
+									}
+								})
+								.catch(err => console.error('[ACE] Rating pattern failed:', err));
+						}
+						break;
+					}
 				}
 			},
 			null,
@@ -94,6 +113,11 @@ export class StatusPanel {
 		StatusPanel.currentPanel = new StatusPanel(panel);
 	}
 
+	/** Re-render the open panel, if any (e.g. after a pattern mirror sync). */
+	public static refresh(): void {
+		void StatusPanel.currentPanel?._update();
+	}
+
 	public dispose() {
 		StatusPanel.currentPanel = undefined;
 		while (this._disposables.length) {
@@ -113,6 +137,7 @@ export class StatusPanel {
 
 		try {
 			const stats = await this._fetchStatus(ctx);
+			this._topPatterns = normalizeSearchResults(stats.top_patterns || []);
 			this._panel.webview.html = this._getStatusHtml(stats);
 		} catch (error) {
 			this._panel.webview.html = this._getErrorHtml(`Failed to load status: ${String(error)}`);
@@ -479,6 +504,51 @@ export class StatusPanel {
 		</div>`;
 	}
 
+	/**
+	 * "Local mirror: synced 5 min ago · 312 patterns" with a Sync Now button.
+	 * Empty when the mirror can't run here and has never synced.
+	 */
+	private _getMirrorHtml(): string {
+		const workspaceFolders = vscode.workspace.workspaceFolders;
+		if (!workspaceFolders || workspaceFolders.length === 0) {
+			return '';
+		}
+		const state = readMirrorState(path.join(workspaceFolders[0].uri.fsPath, '.cursor', 'ace'));
+		if (!state && !isMirrorAvailable()) {
+			return '';
+		}
+		const escape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+		const errorHtml = state?.error
+			? `<div class="mirror-error">Last sync failed: ${escape(state.error)}</div>`
+			: '';
+		return `
+		<div class="mirror-info">
+			<span><strong>Local mirror:</strong> ${escape(formatMirrorAge(state))}</span>
+			<button class="mirror-btn" id="syncMirrorBtn">Sync Now</button>
+			${errorHtml}
+		</div>`;
+	}
+
+	/**
+	 * "Search cache: 12 hits · 4 misses (75% hit rate)" from the counters the
+	 * search helper and daemon keep. Empty until the first lookup.
+	 */
+	private _getSearchCacheHtml(): string {
+		const workspaceFolders = vscode.workspace.workspaceFolders;
+		if (!workspaceFolders || workspaceFolders.length === 0) {
+			return '';
+		}
+		const cacheStats = readSearchCacheStats(path.join(workspaceFolders[0].uri.fsPath, '.cursor', 'ace'));
+		if (cacheStats.hits + cacheStats.misses === 0) {
+			return '';
+		}
+		const since = cacheStats.since ? ` since ${new Date(cacheStats.since).toLocaleDateString()}` : '';
+		return `
+		<div class="cache-info">
+			<strong>Search cache:</strong> ${formatSearchCacheStats(cacheStats)}${since}
+		</div>`;
+	}
+
 	private _getStatusHtml(stats: any) {
 		const bySection = stats.by_section || {};
 		const total = stats.total_bullets || 0;
@@ -505,6 +575,12 @@ export class StatusPanel {
 		// Get task helpfulness data from local workspace files
 		const taskSummaryHtml = this._getTaskSummaryHtml();
 
+		// Offline pattern mirror freshness
+		const mirrorHtml = this._getMirrorHtml();
+
+		// Shared search cache effectiveness
+		const searchCacheHtml = this._getSearchCacheHtml();
+
 		return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -628,6 +704,36 @@ export class StatusPanel {
 		.refresh-btn:hover {
 			background: var(--vscode-button-hoverBackground);
 		}
+		.mirror-info {
+			display: flex;
+			flex-wrap: wrap;
+			align-items: center;
+			gap: 10px;
+			margin: 15px 0;
+			font-size: 12px;
+			color: var(--vscode-descriptionForeground);
+		}
+		.mirror-btn {
+			background: var(--vscode-button-secondaryBackground);
+			color: var(--vscode-button-secondaryForeground);
+			border: none;
+			padding: 2px 10px;
+			border-radius: 3px;
+			cursor: pointer;
+			font-size: 11px;
+		}
+		.mirror-btn:hover {
+			background: var(--vscode-button-secondaryHoverBackground);
+		}
+		.mirror-error {
+			width: 100%;
+			color: var(--vscode-errorForeground);
+		}
+		.cache-info {
+			margin: 15px 0;
+			font-size: 12px;
+			color: var(--vscode-descriptionForeground);
+		}
 		.mcp-info {
 			margin-top: 30px;
 			padding: 15px;
@@ -926,6 +1032,22 @@ export class StatusPanel {
 			background: var(--vscode-badge-background);
 			color: var(--vscode-badge-foreground);
 		}
+		.rate-actions {
+			margin-left: auto;
+			display: flex;
+			gap: 4px;
+		}
+		.rate-btn {
+			padding: 0 6px;
+			border: 1px solid var(--vscode-panel-border);
+			border-radius: 3px;
+			background: transparent;
+			cursor: pointer;
+			font-size: 11px;
+		}
+		.rate-btn:hover {
+			background: var(--vscode-toolbar-hoverBackground);
+		}
 		/* Domain breakdown - collapsible */
 		.domain-breakdown {
 			margin-top: 25px;
@@ -1031,6 +1153,10 @@ export class StatusPanel {
 
 	${usageHtml}
 
+	${mirrorHtml}
+
+	${searchCacheHtml}
+
 	<div class="section-breakdown">
 		<h2>Patterns by Section</h2>
 		<div class="section-item">
@@ -1079,6 +1205,10 @@ export class StatusPanel {
 					<span>👍 ${formatCount(p.helpful || 0)}</span>
 					<span>📊 ${Math.round((p.confidence || 0) * 100)}% confidence</span>
 					${p.domain ? `<span>🏷️ ${p.domain}</span>` : ''}
+					${p.id ? `<span class="rate-actions">
+						<button class="rate-btn" data-pattern-id="${String(p.id).replace(/"/g, '&quot;')}" data-rating="helpful" title="Mark helpful">👍</button>
+						<button class="rate-btn" data-pattern-id="${String(p.id).replace(/"/g, '&quot;')}" data-rating="harmful" title="Mark harmful">👎</button>
+					</span>` : ''}
 				</div>
 			</div>
 		`).join('')}
@@ -1155,6 +1285,24 @@ export class StatusPanel {
 				});
 			}
 
+			const syncMirrorBtn = document.getElementById('syncMirrorBtn');
+			if (syncMirrorBtn) {
+				syncMirrorBtn.addEventListener('click', () => {
+					executeCommand('ace.syncPatternMirror');
+				});
+			}
+
+			// 👍/👎 on top patterns
+			document.querySelectorAll('.rate-btn').forEach(btn => {
+				btn.addEventListener('click', () => {
+					vscode.postMessage({
+						command: 'ratePattern',
+						patternId: btn.getAttribute('data-pattern-id'),
+						rating: btn.getAttribute('data-rating')
+					});
+				});
+			});
+
 			// Domain breakdown expand/collapse toggle
 			const domainToggle = document.getElementById('domainToggle');
 			const domainGrid = document.getElementById('domainGrid');
@@ -0,0 +1,147 @@
+/**
+ * ACE Task Timeline Panel - Step-by-step view of a past task from the
+ * Task History view, rebuilt the same way the learn helper builds its trace
+ */
+
+import * as vscode from 'vscode';
+import { loadTaskTimeline, type TaskSummary } from '../ace/taskHistory';
+import { escapeHtml } from './html';
+
+export class TaskTimelinePanel {
+	public static currentPanel: TaskTimelinePanel | undefined;
+	private readonly _panel: vscode.WebviewPanel;
+	private _disposables: vscode.Disposable[] = [];
+
+	private constructor(panel: vscode.WebviewPanel) {
+		this._panel = panel;
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+	}
+
+	public static show(extensionUri: vscode.Uri, task: TaskSummary) {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (!TaskTimelinePanel.currentPanel) {
+			const panel = vscode.window.createWebviewPanel(
+				'aceTaskTimeline',
+				'ACE Task Timeline',
+				column || vscode.ViewColumn.One,
+				{
+					enableScripts: false,
+					localResourceRoots: [extensionUri]
+				}
+			);
+			TaskTimelinePanel.currentPanel = new TaskTimelinePanel(panel);
+		} else {
+			TaskTimelinePanel.currentPanel._panel.reveal(column);
+		}
+
+		TaskTimelinePanel.currentPanel._panel.title = `ACE Task ${task.id.slice(0, 8)}`;
+		TaskTimelinePanel.currentPanel._panel.webview.html =
+			TaskTimelinePanel.currentPanel._getHtml(task);
+	}
+
+	public dispose() {
+		TaskTimelinePanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	private _getHtml(task: TaskSummary): string {
+		const cspSource = this._panel.webview.cspSource;
+		const timeline = loadTaskTimeline(task);
+		const fromTranscript = timeline.steps.some(s => s.source === 'transcript');
+
+		const stepsHtml = timeline.steps.length > 0
+			? timeline.steps.map(s => {
+				const args = Object.keys(s.args).length > 0 ? JSON.stringify(s.args, null, 2) : '';
+				return `
+				<div class="step">
+					<div class="step-head"><span class="step-num">${s.step}</span> <strong>${escapeHtml(s.action)}</strong></div>
+					${args ? `<details><summary>Arguments</summary><pre>${escapeHtml(args)}</pre></details>` : ''}
+					${s.result ? `<details><summary>Result</summary><pre>${escapeHtml(s.result)}</pre></details>` : ''}
+				</div>`;
+			}).join('')
+			: '<p class="muted">No tool calls recorded for this task.</p>';
+
+		const learnHtml = task.learn
+			? `<div><strong>Learn:</strong> ${escapeHtml(task.learn.state)} — ${escapeHtml(task.learn.detail)}</div>`
+			: '<div><strong>Learn:</strong> no Stop hook record</div>';
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline' ${cspSource};">
+	<title>ACE Task Timeline</title>
+	<style>
+		body {
+			font-family: var(--vscode-font-family);
+			padding: 20px;
+			color: var(--vscode-foreground);
+			background: var(--vscode-editor-background);
+		}
+		h1 { font-size: 22px; margin: 0 0 10px 0; }
+		h2 { font-size: 16px; margin-top: 25px; }
+		.meta { color: var(--vscode-descriptionForeground); font-size: 13px; line-height: 1.7; }
+		.muted { color: var(--vscode-descriptionForeground); font-style: italic; }
+		.prompt {
+			padding: 12px 15px;
+			margin: 8px 0;
+			border-left: 3px solid var(--vscode-textLink-foreground);
+			background: var(--vscode-textBlockQuote-background);
+			font-size: 13px;
+			line-height: 1.5;
+			white-space: pre-wrap;
+		}
+		.step {
+			padding: 8px 12px;
+			margin: 6px 0;
+			border: 1px solid var(--vscode-panel-border);
+			border-radius: 4px;
+			font-size: 13px;
+		}
+		.step-num {
+			display: inline-block;
+			min-width: 22px;
+			padding: 1px 6px;
+			border-radius: 10px;
+			text-align: center;
+			background: var(--vscode-badge-background);
+			color: var(--vscode-badge-foreground);
+			font-size: 11px;
+		}
+		summary { cursor: pointer; color: var(--vscode-descriptionForeground); font-size: 12px; margin-top: 6px; }
+		pre {
+			font-family: var(--vscode-editor-font-family);
+			font-size: 12px;
+			white-space: pre-wrap;
+			word-break: break-word;
+			margin: 6px 0 0 0;
+		}
+	</style>
+</head>
+<body>
+	<h1>ACE Task Timeline</h1>
+	<div class="meta">
+		<div><strong>Conversation:</strong> ${escapeHtml(task.id)}</div>
+		<div><strong>Started:</strong> ${escapeHtml(new Date(task.startedAt).toLocaleString())}</div>
+		<div><strong>Tool calls:</strong> ${task.toolCalls} · <strong>Patterns injected:</strong> ${task.patternsInjected}${task.domains.length > 0 ? ` · <strong>Domains:</strong> ${escapeHtml(task.domains.join(', '))}` : ''}</div>
+		${learnHtml}
+	</div>
+	${timeline.task ? `<h2>Prompt</h2><div class="prompt">${escapeHtml(timeline.task)}</div>` : ''}
+	<h2>Steps (${timeline.steps.length})</h2>
+	${fromTranscript ? '' : '<p class="muted">No transcript recorded for this task — showing MCP tool calls only.</p>'}
+	${stepsHtml}
+	${timeline.lastReply ? `<h2>Final reply</h2><div class="prompt">${escapeHtml(timeline.lastReply)}</div>` : ''}
+</body>
+</html>`;
+	}
+}
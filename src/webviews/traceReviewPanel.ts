@@ -0,0 +1,296 @@
+/**
+ * ACE Trace Review Panel - Review a trace the Stop hook parked in
+ * pending-trace.json (ace.reviewTracesBeforeUpload) before it leaves the
+ * machine. Send uploads it via storeExecutionTrace, Edit opens the JSON
+ * beside the panel, Discard deletes it. Edits are shown as a line diff
+ * against the copy the learn helper kept in pending-trace.orig.json.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isTokenExpiredError } from '@ace-sdk/core';
+import { getAceClient } from '../ace/client';
+import {
+	getPendingTracePath,
+	readPendingTraceOriginal,
+	parsePendingTrace,
+	removePendingTrace,
+	recordReviewOutcome,
+	diffLines
+} from '../ace/pendingTrace';
+import { escapeHtml } from './html';
+
+export class TraceReviewPanel {
+	public static currentPanel: TraceReviewPanel | undefined;
+	private readonly _panel: vscode.WebviewPanel;
+	private _disposables: vscode.Disposable[] = [];
+	private _folder: vscode.WorkspaceFolder;
+	private _convId: string;
+	private _onResolved?: () => void;
+
+	private constructor(panel: vscode.WebviewPanel, folder: vscode.WorkspaceFolder, convId: string) {
+		this._panel = panel;
+		this._folder = folder;
+		this._convId = convId;
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+		this._panel.webview.onDidReceiveMessage(
+			message => {
+				switch (message.command) {
+					case 'send':
+						this._send();
+						break;
+					case 'edit':
+						this._edit();
+						break;
+					case 'discard':
+						this._discard();
+						break;
+				}
+			},
+			null,
+			this._disposables
+		);
+
+		// Re-render after the JSON is saved from the Edit editor.
+		vscode.workspace.onDidSaveTextDocument(doc => {
+			if (doc.uri.fsPath === this._tracePath) {
+				this._update();
+			}
+		}, null, this._disposables);
+	}
+
+	public static show(
+		extensionUri: vscode.Uri,
+		folder: vscode.WorkspaceFolder,
+		convId: string,
+		onResolved?: () => void
+	) {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (!TraceReviewPanel.currentPanel) {
+			const panel = vscode.window.createWebviewPanel(
+				'aceTraceReview',
+				'ACE Trace Review',
+				column || vscode.ViewColumn.One,
+				{
+					enableScripts: true,
+					localResourceRoots: [extensionUri]
+				}
+			);
+			TraceReviewPanel.currentPanel = new TraceReviewPanel(panel, folder, convId);
+		} else {
+			TraceReviewPanel.currentPanel._panel.reveal(column);
+			TraceReviewPanel.currentPanel._folder = folder;
+			TraceReviewPanel.currentPanel._convId = convId;
+		}
+		TraceReviewPanel.currentPanel._onResolved = onResolved;
+		TraceReviewPanel.currentPanel._update();
+	}
+
+	public dispose() {
+		TraceReviewPanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	private get _aceDir(): string {
+		return path.join(this._folder.uri.fsPath, '.cursor', 'ace');
+	}
+
+	private get _tracePath(): string {
+		return getPendingTracePath(this._aceDir, this._convId);
+	}
+
+	private _readTrace(): string | undefined {
+		try {
+			return fs.readFileSync(this._tracePath, 'utf-8');
+		} catch {
+			return undefined;
+		}
+	}
+
+	private _resolve(outcome: 'sent' | 'discarded'): void {
+		removePendingTrace(this._aceDir, this._convId);
+		recordReviewOutcome(this._aceDir, this._convId, outcome);
+		this._onResolved?.();
+		this.dispose();
+	}
+
+	private async _send(): Promise<void> {
+		const text = this._readTrace();
+		if (text === undefined) {
+			vscode.window.showWarningMessage('ACE: this trace was already sent or discarded.');
+			this.dispose();
+			return;
+		}
+		const { trace, error } = parsePendingTrace(text);
+		if (!trace) {
+			vscode.window.showErrorMessage(`ACE: cannot send the edited trace — ${error}`);
+			return;
+		}
+		const client = getAceClient(this._folder);
+		if (!client) {
+			vscode.window.showWarningMessage('ACE not configured. Run ACE: Configure Connection first.');
+			return;
+		}
+		try {
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'ACE: sending reviewed trace...',
+				cancellable: false
+			}, () => client.storeExecutionTrace(trace));
+			console.log(`[ACE] Reviewed trace sent (conv=${this._convId.slice(0, 8)})`);
+			vscode.window.showInformationMessage('ACE: trace sent.');
+			this._resolve('sent');
+		} catch (error) {
+			if (isTokenExpiredError(error)) {
+				const action = await vscode.window.showWarningMessage('ACE session expired. Login required.', 'Login Now');
+				if (action === 'Login Now') {
+					vscode.commands.executeCommand('ace.login');
+				}
+				return;
+			}
+			const message = error instanceof Error ? error.message : String(error);
+			vscode.window.showErrorMessage(`ACE: failed to send trace: ${message}`);
+		}
+	}
+
+	private async _edit(): Promise<void> {
+		try {
+			const doc = await vscode.workspace.openTextDocument(this._tracePath);
+			await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			vscode.window.showErrorMessage(`ACE: cannot open trace: ${message}`);
+		}
+	}
+
+	private async _discard(): Promise<void> {
+		const choice = await vscode.window.showWarningMessage(
+			'Discard this trace? Nothing from this task will be sent to ACE.',
+			{ modal: true },
+			'Discard'
+		);
+		if (choice !== 'Discard') return;
+		console.log(`[ACE] Pending trace discarded (conv=${this._convId.slice(0, 8)})`);
+		this._resolve('discarded');
+	}
+
+	private _update(): void {
+		this._panel.title = `ACE Trace Review ${this._convId.slice(0, 8)}`;
+		this._panel.webview.html = this._getHtml(this._readTrace());
+	}
+
+	private _getNonce(): string {
+		let text = '';
+		const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+		for (let i = 0; i < 32; i++) {
+			text += possible.charAt(Math.floor(Math.random() * possible.length));
+		}
+		return text;
+	}
+
+	private _getHtml(text: string | undefined): string {
+		const nonce = this._getNonce();
+		const cspSource = this._panel.webview.cspSource;
+
+		let summaryHtml = '';
+		let bodyHtml = '<p class="muted">This trace was already sent or discarded.</p>';
+		let edited = false;
+		if (text !== undefined) {
+			const { trace, error } = parsePendingTrace(text);
+			if (trace) {
+				summaryHtml = `
+					<div><strong>Task:</strong> ${escapeHtml(trace.task)}</div>
+					<div><strong>Trajectory steps:</strong> ${trace.trajectory.length} · <strong>Assistant output:</strong> ${trace.result.output.length} chars · <strong>Received patterns:</strong> ${trace.received_patterns.length}</div>`;
+			} else {
+				summaryHtml = `<div class="error">${escapeHtml(error ?? 'Invalid trace')}</div>`;
+			}
+			const original = readPendingTraceOriginal(this._aceDir, this._convId) ?? text;
+			const lines = diffLines(original, text);
+			edited = lines.some(l => l.kind !== ' ');
+			bodyHtml = `<pre class="diff">${lines.map(l => {
+				const cls = l.kind === '+' ? 'add' : l.kind === '-' ? 'del' : 'ctx';
+				// Unedited traces show every line as outgoing (+).
+				const mark = edited ? l.kind : '+';
+				return `<span class="${cls}">${mark} ${escapeHtml(l.text)}</span>`;
+			}).join('\n')}</pre>`;
+		}
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline' ${cspSource}; script-src 'nonce-${nonce}';">
+	<title>ACE Trace Review</title>
+	<style>
+		body {
+			font-family: var(--vscode-font-family);
+			padding: 20px;
+			color: var(--vscode-foreground);
+			background: var(--vscode-editor-background);
+		}
+		h1 { font-size: 22px; margin: 0 0 10px 0; }
+		.meta { color: var(--vscode-descriptionForeground); font-size: 13px; line-height: 1.7; }
+		.muted { color: var(--vscode-descriptionForeground); font-style: italic; }
+		.error { color: var(--vscode-errorForeground); }
+		.actions { display: flex; gap: 8px; margin: 16px 0; }
+		button {
+			padding: 6px 14px;
+			border: none;
+			border-radius: 2px;
+			cursor: pointer;
+			background: var(--vscode-button-secondaryBackground);
+			color: var(--vscode-button-secondaryForeground);
+		}
+		button.primary {
+			background: var(--vscode-button-background);
+			color: var(--vscode-button-foreground);
+		}
+		.diff {
+			font-family: var(--vscode-editor-font-family);
+			font-size: 12px;
+			white-space: pre-wrap;
+			word-break: break-word;
+			border: 1px solid var(--vscode-panel-border);
+			border-radius: 4px;
+			padding: 8px;
+		}
+		.diff .add { display: block; background: var(--vscode-diffEditor-insertedLineBackground); }
+		.diff .del { display: block; background: var(--vscode-diffEditor-removedLineBackground); text-decoration: line-through; }
+		.diff .ctx { display: block; }
+	</style>
+</head>
+<body>
+	<h1>ACE Trace Review</h1>
+	<div class="meta">
+		<div><strong>Conversation:</strong> ${escapeHtml(this._convId)}</div>
+		${summaryHtml}
+		<div>${edited ? 'Showing your edits against the trace the Stop hook built.' : 'Every line below will be sent to the ACE server.'}</div>
+	</div>
+	${text !== undefined ? `<div class="actions">
+		<button class="primary" data-command="send">Send</button>
+		<button data-command="edit">Edit</button>
+		<button data-command="discard">Discard</button>
+	</div>` : ''}
+	${bodyHtml}
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+		document.querySelectorAll('button[data-command]').forEach(btn => {
+			btn.addEventListener('click', () => vscode.postMessage({ command: btn.dataset.command }));
+		});
+	</script>
+</body>
+</html>`;
+	}
+}